@@ -0,0 +1,23 @@
+/**
+ * Bounty Card (Vercel Edge Function)
+ * The og:image for shared `?bounty=` links: an empty board in the bounty's
+ * shape, see renderBountyPreviewImage
+ *
+ * Env: SUPABASE_URL, SUPABASE_ANON_KEY
+ */
+
+import { fetchBountyPreview, renderBountyPreviewImage } from '../src/utils/bounty-preview';
+
+export const config = { runtime: 'edge' };
+
+export default async function handler(request: Request): Promise<Response> {
+  const bountyId = new URL(request.url).searchParams.get('bounty') || '';
+  const bounty = await fetchBountyPreview(bountyId, process.env.SUPABASE_URL, process.env.SUPABASE_ANON_KEY);
+
+  return new Response(await renderBountyPreviewImage(bounty), {
+    headers: {
+      'Content-Type': 'image/png',
+      'Cache-Control': 'public, max-age=3600'
+    }
+  });
+}
@@ -0,0 +1,46 @@
+/**
+ * Bounty Preview (Vercel Edge Function)
+ * Open Graph / Twitter tags for shared `?bounty=` links
+ *
+ * Chat apps don't run the SPA's JavaScript, so vercel.json rewrites
+ * `/?bounty=<id>` to this function when the user agent is a link crawler.
+ * Everyone else gets the app as usual, so the shared link stays the app URL.
+ *
+ * Env: SUPABASE_URL, SUPABASE_ANON_KEY
+ */
+
+import {
+  DEFAULT_PREVIEW_DESCRIPTION,
+  DEFAULT_PREVIEW_TITLE,
+  describeBounty,
+  fetchBountyPreview,
+  isBountyId,
+  renderBountyPreviewPage
+} from '../src/utils/bounty-preview';
+
+export const config = { runtime: 'edge' };
+
+export default async function handler(request: Request): Promise<Response> {
+  const url = new URL(request.url);
+  const bountyId = url.searchParams.get('bounty');
+
+  if (!isBountyId(bountyId)) {
+    return Response.redirect(url.origin, 302);
+  }
+
+  const bounty = await fetchBountyPreview(bountyId, process.env.SUPABASE_URL, process.env.SUPABASE_ANON_KEY);
+
+  const page = renderBountyPreviewPage({
+    title: bounty?.name ? `${bounty.name} | ${DEFAULT_PREVIEW_TITLE}` : DEFAULT_PREVIEW_TITLE,
+    description: (bounty && describeBounty(bounty)) || DEFAULT_PREVIEW_DESCRIPTION,
+    url: `${url.origin}/?bounty=${bountyId}`,
+    imageUrl: `${url.origin}/api/bounty-card?bounty=${bountyId}`
+  });
+
+  return new Response(page, {
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': 'public, max-age=300'
+    }
+  });
+}
@@ -3,6 +3,42 @@
 
 // SPDX-License-Identifier: MIT
 
+// File contracts/interfaces/IERC20.sol
+
+// Original license: SPDX_License_Identifier: MIT
+pragma solidity ^0.8.19;
+
+/**
+ * @dev ERC-20 calls the escrow makes. Hedera Token Service fungible tokens
+ * expose them through their ERC-20 facade.
+ */
+interface IERC20 {
+    function transfer(address to, uint256 amount) external returns (bool);
+    function transferFrom(address from, address to, uint256 amount) external returns (bool);
+    function balanceOf(address account) external view returns (uint256);
+}
+
+/**
+ * @dev HIP-719 facade on HTS tokens: lets a contract associate itself
+ */
+interface IHRC719 {
+    function associate() external returns (uint256 responseCode);
+}
+
+
+// File contracts/interfaces/IWordleTrophy.sol
+
+// Original license: SPDX_License_Identifier: MIT
+pragma solidity ^0.8.19;
+
+/**
+ * @dev Trophy NFT the escrow mints to each winner on completion
+ */
+interface IWordleTrophy {
+    function mintTrophy(address winner, bytes32 bountyId) external returns (uint256 tokenId);
+}
+
+
 // File contracts/WordleBountyEscrow.sol
 
 // Original license: SPDX_License_Identifier: MIT
@@ -10,7 +46,7 @@ pragma solidity ^0.8.19;
 
 /**
  * @title WordleBountyEscrow
- * @dev Escrow contract for managing Wordle bounty lifecycle, HBAR deposits, and prize distribution
+ * @dev Escrow contract for managing Wordle bounty lifecycle, HBAR and HTS token deposits, and prize distribution
  * @notice Supports bounty creation, participation tracking, prize distribution with platform fees, and refunds
  */
 contract WordleBountyEscrow {
@@ -24,6 +60,16 @@ contract WordleBountyEscrow {
     // Minimum bounty amount (1 HBAR = 100,000,000 tinybars)
     uint256 public constant MIN_BOUNTY_AMOUNT = 100000000; // 1 HBAR
 
+    // Most winners completeBountyWithWinners pays in one transaction
+    uint256 public constant MAX_WINNERS = 50;
+
+    // HTS response code for a successful call
+    uint256 private constant HTS_SUCCESS = 22;
+
+    // Bounds for how long winners have to claim their prize
+    uint256 public constant MIN_CLAIM_PERIOD = 1 days;
+    uint256 public constant MAX_CLAIM_PERIOD = 365 days;
+
     // Bounty status enum
     enum BountyStatus {
         Active,
@@ -51,7 +97,23 @@ contract WordleBountyEscrow {
     mapping(bytes32 => Bounty) public bounties;
     mapping(bytes32 => mapping(address => bool)) public participants;
     mapping(bytes32 => address[]) public bountyParticipants;
+    mapping(bytes32 => string) public revealedSolutions;
+    mapping(bytes32 => uint256) public entryFees;
+    mapping(bytes32 => uint256) public entryFeesCollected;
+    mapping(bytes32 => mapping(address => uint256)) public entryPayments;
+    // Prize token per bounty; address(0) means HBAR
+    mapping(bytes32 => address) public bountyTokens;
     uint256 public accumulatedFees;
+    mapping(address => uint256) public accumulatedTokenFees;
+    // Trophy NFT minted to winners; address(0) turns trophies off
+    address public trophyContract;
+    // Prizes won but not yet withdrawn with claimPrize
+    mapping(bytes32 => mapping(address => uint256)) public claimablePrizes;
+    mapping(bytes32 => uint256) public unclaimedPrizes;
+    mapping(bytes32 => uint256) public claimDeadlines;
+    uint256 public claimPeriod = 30 days;
+    // Where sweepUnclaimedPrize sends what is left: the creator, or the platform fees
+    bool public unclaimedToCreator = true;
     bool public paused;
 
     // Events
@@ -63,16 +125,30 @@ contract WordleBountyEscrow {
         bytes32 solutionHash
     );
     event ParticipantJoined(bytes32 indexed bountyId, address indexed participant);
+    event EntryFeeSet(bytes32 indexed bountyId, uint256 entryFee);
+    event BountyTokenSet(bytes32 indexed bountyId, address indexed token);
+    event PrizePoolIncreased(bytes32 indexed bountyId, uint256 prizeAmount);
+    event EntryFeeRefunded(bytes32 indexed bountyId, address indexed participant, uint256 amount);
     event BountyCompleted(
         bytes32 indexed bountyId,
         address indexed winner,
         uint256 netPrize,
         uint256 platformFee
     );
+    event PrizeClaimable(bytes32 indexed bountyId, address indexed winner, uint256 amount, uint256 claimDeadline);
+    event PrizeClaimed(bytes32 indexed bountyId, address indexed winner, uint256 amount);
+    event UnclaimedPrizeSwept(bytes32 indexed bountyId, uint256 amount, bool toCreator);
     event BountyCancelled(bytes32 indexed bountyId, address indexed creator);
     event BountyRefunded(bytes32 indexed bountyId, address indexed creator, uint256 amount);
+    event SolutionRevealed(bytes32 indexed bountyId, string solution);
     event PlatformFeeUpdated(uint256 newFeeBps);
     event FeesWithdrawn(address indexed owner, uint256 amount);
+    event TokenFeesWithdrawn(address indexed owner, address indexed token, uint256 amount);
+    event TokenAssociated(address indexed token);
+    event TrophyContractUpdated(address indexed trophyContract);
+    event TrophyMintFailed(bytes32 indexed bountyId, address indexed winner);
+    event ClaimPeriodUpdated(uint256 newClaimPeriod);
+    event UnclaimedRecipientUpdated(bool toCreator);
     event Paused(address indexed owner);
     event Unpaused(address indexed owner);
 
@@ -108,7 +184,7 @@ contract WordleBountyEscrow {
     /**
      * @notice Create a new bounty with HBAR deposit
      * @param bountyId Unique identifier for the bounty
-     * @param solutionHash Hash of the correct word solution
+     * @param solutionHash Salted commitment to the solution words: computeCommitment(bountyId, salt, solution)
      * @param deadline Unix timestamp when bounty expires
      * @param metadata IPFS or other metadata URI
      */
@@ -119,6 +195,80 @@ contract WordleBountyEscrow {
         string calldata metadata
     ) external payable whenNotPaused {
         require(msg.value >= MIN_BOUNTY_AMOUNT, "Prize amount too small");
+
+        _createBounty(bountyId, solutionHash, deadline, metadata, msg.value);
+    }
+
+    /**
+     * @notice Create a bounty that charges every participant an entry fee
+     * @dev msg.value is the creator's seed and the guaranteed minimum prize;
+     * each entry fee is added to the prize pool
+     * @param bountyId Unique identifier for the bounty
+     * @param solutionHash Salted commitment to the solution words: computeCommitment(bountyId, salt, solution)
+     * @param deadline Unix timestamp when bounty expires
+     * @param metadata IPFS or other metadata URI
+     * @param entryFee Amount every participant pays to join
+     */
+    function createBountyWithEntryFee(
+        bytes32 bountyId,
+        bytes32 solutionHash,
+        uint256 deadline,
+        string calldata metadata,
+        uint256 entryFee
+    ) external payable whenNotPaused {
+        require(entryFee > 0, "Entry fee required");
+        require(msg.value >= MIN_BOUNTY_AMOUNT, "Prize amount too small");
+
+        _createBounty(bountyId, solutionHash, deadline, metadata, msg.value);
+        entryFees[bountyId] = entryFee;
+
+        emit EntryFeeSet(bountyId, entryFee);
+    }
+
+    /**
+     * @notice Create a bounty funded and paid in an HTS fungible token
+     * @dev The escrow must be associated with the token (associateToken) and
+     * the creator must approve prizeAmount first. Amounts are in the token's
+     * smallest unit.
+     * @param bountyId Unique identifier for the bounty
+     * @param solutionHash Salted commitment to the solution words: computeCommitment(bountyId, salt, solution)
+     * @param deadline Unix timestamp when bounty expires
+     * @param metadata IPFS or other metadata URI
+     * @param token ERC-20 facade address of the prize token
+     * @param prizeAmount Token amount deposited as the prize
+     * @param entryFee Token amount every participant pays to join (0 for free)
+     */
+    function createBountyWithToken(
+        bytes32 bountyId,
+        bytes32 solutionHash,
+        uint256 deadline,
+        string calldata metadata,
+        address token,
+        uint256 prizeAmount,
+        uint256 entryFee
+    ) external whenNotPaused {
+        require(token != address(0), "Token required");
+        require(prizeAmount > 0, "Prize amount too small");
+
+        _createBounty(bountyId, solutionHash, deadline, metadata, prizeAmount);
+        bountyTokens[bountyId] = token;
+        emit BountyTokenSet(bountyId, token);
+
+        if (entryFee > 0) {
+            entryFees[bountyId] = entryFee;
+            emit EntryFeeSet(bountyId, entryFee);
+        }
+
+        require(IERC20(token).transferFrom(msg.sender, address(this), prizeAmount), "Token transfer failed");
+    }
+
+    function _createBounty(
+        bytes32 bountyId,
+        bytes32 solutionHash,
+        uint256 deadline,
+        string calldata metadata,
+        uint256 prizeAmount
+    ) private {
         require(bounties[bountyId].creator == address(0), "Bounty ID already exists");
         require(deadline > block.timestamp, "Deadline must be in the future");
         require(solutionHash != bytes32(0), "Solution hash required");
@@ -126,7 +276,7 @@ contract WordleBountyEscrow {
         bounties[bountyId] = Bounty({
             bountyId: bountyId,
             creator: msg.sender,
-            prizeAmount: msg.value,
+            prizeAmount: prizeAmount,
             deadline: deadline,
             solutionHash: solutionHash,
             metadata: metadata,
@@ -137,66 +287,262 @@ contract WordleBountyEscrow {
             status: BountyStatus.Active
         });
 
-        emit BountyCreated(bountyId, msg.sender, msg.value, deadline, solutionHash);
+        emit BountyCreated(bountyId, msg.sender, prizeAmount, deadline, solutionHash);
     }
 
     /**
      * @notice Join an active bounty as a participant
+     * @dev msg.value must be exactly the bounty's entry fee (0 for free bounties).
+     * Token bounties take the fee with transferFrom instead, after an approve.
      * @param bountyId Identifier of the bounty to join
      */
     function joinBounty(bytes32 bountyId)
         external
+        payable
         whenNotPaused
         bountyExists(bountyId)
         bountyActive(bountyId)
     {
         require(!participants[bountyId][msg.sender], "Already participating");
         require(block.timestamp < bounties[bountyId].deadline, "Bounty has expired");
+        address token = bountyTokens[bountyId];
+        uint256 entryFee = entryFees[bountyId];
+        require(msg.value == (token == address(0) ? entryFee : 0), "Incorrect entry fee");
 
         participants[bountyId][msg.sender] = true;
         bountyParticipants[bountyId].push(msg.sender);
         bounties[bountyId].participantCount++;
 
+        // Entry fees grow the prize pool
+        if (entryFee > 0) {
+            entryPayments[bountyId][msg.sender] = entryFee;
+            entryFeesCollected[bountyId] += entryFee;
+            bounties[bountyId].prizeAmount += entryFee;
+
+            emit PrizePoolIncreased(bountyId, bounties[bountyId].prizeAmount);
+        }
+
         emit ParticipantJoined(bountyId, msg.sender);
+
+        if (token != address(0) && entryFee > 0) {
+            require(IERC20(token).transferFrom(msg.sender, address(this), entryFee), "Token transfer failed");
+        }
     }
 
     /**
-     * @notice Complete a bounty and distribute prize to winner (owner only)
+     * @notice Complete a bounty and credit the prize to the winner (owner only)
+     * @dev The winner withdraws it with claimPrize before the claim deadline
      * @param bountyId Identifier of the bounty
      * @param winnerAddress Address of the winner
-     * @param solution Plaintext solution for verification
+     * @param solution Plaintext solution words, comma separated
+     * @param salt Salt used for the commitment at creation
      */
     function completeBounty(
         bytes32 bountyId,
         address winnerAddress,
-        string calldata solution
+        string calldata solution,
+        bytes32 salt
     ) external onlyOwner bountyExists(bountyId) bountyActive(bountyId) {
-        // Verify solution matches hash
-        bytes32 providedHash = keccak256(abi.encodePacked(solution));
-        require(providedHash == bounties[bountyId].solutionHash, "Invalid solution");
-
         // Verify winner is a participant
         require(participants[bountyId][winnerAddress], "Winner is not a participant");
 
+        (uint256 netPrize, uint256 platformFee) = _closeBounty(bountyId, winnerAddress, solution, salt);
+
+        _creditPrize(bountyId, winnerAddress, netPrize);
+        _awardTrophy(bountyId, winnerAddress);
+
+        emit BountyCompleted(bountyId, winnerAddress, netPrize, platformFee);
+    }
+
+    /**
+     * @notice Complete a bounty and split the prize between several winners (owner only)
+     * @dev Each winner is credited netPrize * share / sum of shares; rounding dust goes to the last winner
+     * @param bountyId Identifier of the bounty
+     * @param winnerAddresses Addresses of the winners, best ranked first
+     * @param shares Weight of each winner's share, e.g. prize_share from the database in tinybars
+     * @param solution Plaintext solution words, comma separated
+     * @param salt Salt used for the commitment at creation
+     */
+    function completeBountyWithWinners(
+        bytes32 bountyId,
+        address[] calldata winnerAddresses,
+        uint256[] calldata shares,
+        string calldata solution,
+        bytes32 salt
+    ) external onlyOwner bountyExists(bountyId) bountyActive(bountyId) {
+        require(winnerAddresses.length > 0, "No winners");
+        require(winnerAddresses.length == shares.length, "Winners and shares length mismatch");
+        require(winnerAddresses.length <= MAX_WINNERS, "Too many winners");
+
+        uint256 totalShares = _totalWinnerShares(bountyId, winnerAddresses, shares);
+
+        (uint256 netPrize, uint256 platformFee) = _closeBounty(bountyId, winnerAddresses[0], solution, salt);
+
+        _creditWinners(bountyId, winnerAddresses, shares, totalShares, netPrize);
+
+        emit BountyCompleted(bountyId, winnerAddresses[0], netPrize, platformFee);
+    }
+
+    /**
+     * @dev Checks every winner joined, has a positive share and appears once.
+     * Returns the sum of the shares.
+     */
+    function _totalWinnerShares(
+        bytes32 bountyId,
+        address[] calldata winnerAddresses,
+        uint256[] calldata shares
+    ) private view returns (uint256 totalShares) {
+        for (uint256 i = 0; i < winnerAddresses.length; i++) {
+            require(participants[bountyId][winnerAddresses[i]], "Winner is not a participant");
+            require(shares[i] > 0, "Share must be positive");
+            for (uint256 j = 0; j < i; j++) {
+                require(winnerAddresses[j] != winnerAddresses[i], "Duplicate winner");
+            }
+            totalShares += shares[i];
+        }
+    }
+
+    /**
+     * @dev Credits each winner netPrize * share / totalShares; rounding dust
+     * goes to the last winner
+     */
+    function _creditWinners(
+        bytes32 bountyId,
+        address[] calldata winnerAddresses,
+        uint256[] calldata shares,
+        uint256 totalShares,
+        uint256 netPrize
+    ) private {
+        uint256 credited = 0;
+        for (uint256 i = 0; i < winnerAddresses.length; i++) {
+            uint256 amount = i == winnerAddresses.length - 1
+                ? netPrize - credited
+                : (netPrize * shares[i]) / totalShares;
+            credited += amount;
+
+            _creditPrize(bountyId, winnerAddresses[i], amount);
+            _awardTrophy(bountyId, winnerAddresses[i]);
+        }
+    }
+
+    /**
+     * @dev Checks the solution, marks the bounty completed, keeps the fee,
+     * starts the claim period and reveals the words. Callers credit the
+     * returned net prize to the winners.
+     */
+    function _closeBounty(
+        bytes32 bountyId,
+        address firstWinner,
+        string calldata solution,
+        bytes32 salt
+    ) private returns (uint256 netPrize, uint256 platformFee) {
+        // Verify solution matches the commitment
+        require(computeCommitment(bountyId, salt, solution) == bounties[bountyId].solutionHash, "Invalid solution");
+
         Bounty storage bounty = bounties[bountyId];
 
         // Calculate prize and fee
-        (uint256 netPrize, uint256 platformFee) = calculateNetPrize(bounty.prizeAmount);
+        (netPrize, platformFee) = calculateNetPrize(bounty.prizeAmount);
 
         // Update bounty state
         bounty.isCompleted = true;
         bounty.isActive = false;
-        bounty.winner = winnerAddress;
+        bounty.winner = firstWinner;
         bounty.status = BountyStatus.Completed;
 
-        // Accumulate platform fee
-        accumulatedFees += platformFee;
+        // Hold the prize until the winners claim it
+        unclaimedPrizes[bountyId] = netPrize;
+        claimDeadlines[bountyId] = block.timestamp + claimPeriod;
+
+        // Accumulate platform fee in the prize's currency
+        address token = bountyTokens[bountyId];
+        if (token == address(0)) {
+            accumulatedFees += platformFee;
+        } else {
+            accumulatedTokenFees[token] += platformFee;
+        }
+
+        // Reveal the words so anyone can check them against the commitment
+        revealedSolutions[bountyId] = solution;
+        emit SolutionRevealed(bountyId, solution);
+    }
+
+    function _creditPrize(bytes32 bountyId, address winner, uint256 amount) private {
+        claimablePrizes[bountyId][winner] = amount;
+        emit PrizeClaimable(bountyId, winner, amount, claimDeadlines[bountyId]);
+    }
+
+    /**
+     * @notice Withdraw the prize you won, before the bounty's claim deadline
+     * @param bountyId Identifier of the bounty
+     */
+    function claimPrize(bytes32 bountyId) external bountyExists(bountyId) {
+        uint256 amount = claimablePrizes[bountyId][msg.sender];
+        require(amount > 0, "No prize to claim");
+        require(block.timestamp <= claimDeadlines[bountyId], "Claim period has ended");
+
+        claimablePrizes[bountyId][msg.sender] = 0;
+        unclaimedPrizes[bountyId] -= amount;
 
-        // Transfer prize to winner
-        (bool success, ) = winnerAddress.call{value: netPrize}("");
-        require(success, "Prize transfer failed");
+        _pay(bountyId, msg.sender, amount, "Prize transfer failed");
 
-        emit BountyCompleted(bountyId, winnerAddress, netPrize, platformFee);
+        emit PrizeClaimed(bountyId, msg.sender, amount);
+    }
+
+    /**
+     * @notice Return prizes nobody claimed once the claim deadline has passed
+     * @dev Anyone can call. The prize goes back to the creator, or into the
+     * platform fees when unclaimedToCreator is off.
+     * @param bountyId Identifier of the bounty
+     */
+    function sweepUnclaimedPrize(bytes32 bountyId) external bountyExists(bountyId) {
+        uint256 deadline = claimDeadlines[bountyId];
+        require(deadline != 0 && block.timestamp > deadline, "Claim period has not ended");
+
+        uint256 amount = unclaimedPrizes[bountyId];
+        require(amount > 0, "No unclaimed prize");
+
+        unclaimedPrizes[bountyId] = 0;
+
+        if (unclaimedToCreator) {
+            _pay(bountyId, bounties[bountyId].creator, amount, "Unclaimed prize transfer failed");
+        } else {
+            address token = bountyTokens[bountyId];
+            if (token == address(0)) {
+                accumulatedFees += amount;
+            } else {
+                accumulatedTokenFees[token] += amount;
+            }
+        }
+
+        emit UnclaimedPrizeSwept(bountyId, amount, unclaimedToCreator);
+    }
+
+    /**
+     * @dev Mints the winner's trophy when trophies are on. A failed mint never
+     * blocks the prize.
+     */
+    function _awardTrophy(bytes32 bountyId, address winner) private {
+        if (trophyContract == address(0)) return;
+
+        try IWordleTrophy(trophyContract).mintTrophy(winner, bountyId) returns (uint256) {
+        } catch {
+            emit TrophyMintFailed(bountyId, winner);
+        }
+    }
+
+    /**
+     * @dev Sends amount of the bounty's prize currency: HBAR, or its token
+     */
+    function _pay(bytes32 bountyId, address to, uint256 amount, string memory errorMessage) private {
+        address token = bountyTokens[bountyId];
+
+        if (token == address(0)) {
+            (bool success, ) = to.call{value: amount}("");
+            require(success, errorMessage);
+        } else {
+            require(IERC20(token).transfer(to, amount), errorMessage);
+        }
     }
 
     /**
@@ -212,17 +558,37 @@ contract WordleBountyEscrow {
         require(msg.sender == bounty.creator, "Only creator can cancel");
         require(bounty.participantCount == 0, "Cannot cancel with participants");
 
+        _cancelBounty(bountyId);
+    }
+
+    /**
+     * @notice Cancel an active bounty that already has participants (owner only)
+     * @dev The creator gets the seed back; participants reclaim their entry
+     * fees with claimEntryRefund
+     * @param bountyId Identifier of the bounty to cancel
+     */
+    function cancelBountyWithRefunds(bytes32 bountyId)
+        external
+        onlyOwner
+        bountyExists(bountyId)
+        bountyActive(bountyId)
+    {
+        _cancelBounty(bountyId);
+    }
+
+    function _cancelBounty(bytes32 bountyId) private {
+        Bounty storage bounty = bounties[bountyId];
+
         bounty.isActive = false;
         bounty.status = BountyStatus.Cancelled;
 
-        // Refund creator
-        uint256 refundAmount = bounty.prizeAmount;
+        // Refund creator's seed; entry fees stay for claimEntryRefund
+        uint256 refundAmount = bounty.prizeAmount - entryFeesCollected[bountyId];
         bounty.prizeAmount = 0;
 
-        (bool success, ) = bounty.creator.call{value: refundAmount}("");
-        require(success, "Refund transfer failed");
+        _pay(bountyId, bounty.creator, refundAmount, "Refund transfer failed");
 
-        emit BountyCancelled(bountyId, msg.sender);
+        emit BountyCancelled(bountyId, bounty.creator);
     }
 
     /**
@@ -241,16 +607,57 @@ contract WordleBountyEscrow {
         bounty.isActive = false;
         bounty.status = BountyStatus.Expired;
 
-        // Refund creator
-        uint256 refundAmount = bounty.prizeAmount;
+        // Refund creator's seed; entry fees stay for claimEntryRefund
+        uint256 refundAmount = bounty.prizeAmount - entryFeesCollected[bountyId];
         bounty.prizeAmount = 0;
 
-        (bool success, ) = bounty.creator.call{value: refundAmount}("");
-        require(success, "Refund transfer failed");
+        _pay(bountyId, bounty.creator, refundAmount, "Refund transfer failed");
 
         emit BountyRefunded(bountyId, msg.sender, refundAmount);
     }
 
+    /**
+     * @notice Reclaim your entry fee from a cancelled or expired bounty
+     * @param bountyId Identifier of the bounty
+     */
+    function claimEntryRefund(bytes32 bountyId) external bountyExists(bountyId) {
+        BountyStatus status = bounties[bountyId].status;
+        require(
+            status == BountyStatus.Cancelled || status == BountyStatus.Expired,
+            "Bounty was not cancelled or expired"
+        );
+
+        uint256 amount = entryPayments[bountyId][msg.sender];
+        require(amount > 0, "No entry fee to refund");
+
+        entryPayments[bountyId][msg.sender] = 0;
+
+        _pay(bountyId, msg.sender, amount, "Refund transfer failed");
+
+        emit EntryFeeRefunded(bountyId, msg.sender, amount);
+    }
+
+    /**
+     * @notice Reveal the solution of a bounty that ended without a winner
+     * @dev Anyone holding the words and salt can reveal; the commitment decides
+     * @param bountyId Identifier of the bounty
+     * @param solution Plaintext solution words, comma separated
+     * @param salt Salt used for the commitment at creation
+     */
+    function revealSolution(
+        bytes32 bountyId,
+        string calldata solution,
+        bytes32 salt
+    ) external bountyExists(bountyId) {
+        Bounty storage bounty = bounties[bountyId];
+        require(!bounty.isActive, "Bounty is still active");
+        require(bytes(revealedSolutions[bountyId]).length == 0, "Solution already revealed");
+        require(computeCommitment(bountyId, salt, solution) == bounty.solutionHash, "Invalid solution");
+
+        revealedSolutions[bountyId] = solution;
+        emit SolutionRevealed(bountyId, solution);
+    }
+
     /**
      * @notice Update platform fee (owner only)
      * @param newFeeBps New fee in basis points
@@ -276,6 +683,63 @@ contract WordleBountyEscrow {
         emit FeesWithdrawn(owner, amount);
     }
 
+    /**
+     * @notice Withdraw accumulated platform fees in one prize token (owner only)
+     * @param token ERC-20 facade address of the token
+     */
+    function withdrawTokenFees(address token) external onlyOwner {
+        uint256 amount = accumulatedTokenFees[token];
+        require(amount > 0, "No fees to withdraw");
+
+        accumulatedTokenFees[token] = 0;
+
+        require(IERC20(token).transfer(owner, amount), "Fee withdrawal failed");
+
+        emit TokenFeesWithdrawn(owner, token, amount);
+    }
+
+    /**
+     * @notice Set the trophy NFT contract minted to winners (owner only)
+     * @param newTrophyContract WordleTrophy address, or address(0) to stop minting trophies
+     */
+    function setTrophyContract(address newTrophyContract) external onlyOwner {
+        trophyContract = newTrophyContract;
+        emit TrophyContractUpdated(newTrophyContract);
+    }
+
+    /**
+     * @notice Set how long winners of future completions have to claim (owner only)
+     * @param newClaimPeriod Claim period in seconds
+     */
+    function setClaimPeriod(uint256 newClaimPeriod) external onlyOwner {
+        require(
+            newClaimPeriod >= MIN_CLAIM_PERIOD && newClaimPeriod <= MAX_CLAIM_PERIOD,
+            "Invalid claim period"
+        );
+        claimPeriod = newClaimPeriod;
+        emit ClaimPeriodUpdated(newClaimPeriod);
+    }
+
+    /**
+     * @notice Choose where unclaimed prizes go (owner only)
+     * @param toCreator True to return them to the bounty creator, false to keep them as platform fees
+     */
+    function setUnclaimedRecipient(bool toCreator) external onlyOwner {
+        unclaimedToCreator = toCreator;
+        emit UnclaimedRecipientUpdated(toCreator);
+    }
+
+    /**
+     * @notice Associate the escrow with an HTS token so it can hold it (owner only)
+     * @param token ERC-20 facade address of the token
+     */
+    function associateToken(address token) external onlyOwner {
+        require(token != address(0), "Token required");
+        require(IHRC719(token).associate() == HTS_SUCCESS, "Token association failed");
+
+        emit TokenAssociated(token);
+    }
+
     /**
      * @notice Pause contract (owner only)
      */
@@ -320,6 +784,22 @@ contract WordleBountyEscrow {
         return (netPrize, platformFee);
     }
 
+    /**
+     * @notice Salted commitment to a bounty's solution
+     * @dev Binding the bounty ID stops a commitment being reused for another bounty
+     * @param bountyId Identifier of the bounty
+     * @param salt Random 32 bytes kept secret until the reveal
+     * @param solution Plaintext solution words, comma separated
+     * @return Commitment to pass to createBounty as solutionHash
+     */
+    function computeCommitment(bytes32 bountyId, bytes32 salt, string calldata solution)
+        public
+        pure
+        returns (bytes32)
+    {
+        return keccak256(abi.encodePacked(bountyId, salt, solution));
+    }
+
     /**
      * @notice Get bounty details
      * @param bountyId Identifier of the bounty
@@ -372,3 +852,165 @@ contract WordleBountyEscrow {
         revert("Direct transfers not allowed");
     }
 }
+
+
+// File contracts/WordleTrophy.sol
+
+// Original license: SPDX_License_Identifier: MIT
+pragma solidity ^0.8.19;
+
+/**
+ * @title WordleTrophy
+ * @dev Non-transferable ERC-721 trophies for bounty winners
+ * @notice Only the escrow mints, once per winner and bounty. Metadata (bounty
+ * name, date, attempts, time and result grid) is served from baseURI + tokenId.
+ */
+contract WordleTrophy {
+    string public constant name = "Wordle Bounty Trophy";
+    string public constant symbol = "WBTROPHY";
+
+    address public owner;
+    address public immutable escrow;
+    string public baseURI;
+    uint256 public totalSupply;
+
+    mapping(uint256 => address) private _owners;
+    mapping(address => uint256) private _balances;
+    mapping(uint256 => bytes32) public trophyBounty;
+    mapping(bytes32 => mapping(address => uint256)) public trophyOf;
+
+    event Transfer(address indexed from, address indexed to, uint256 indexed tokenId);
+    event TrophyMinted(uint256 indexed tokenId, bytes32 indexed bountyId, address indexed winner);
+    event BatchMetadataUpdate(uint256 fromTokenId, uint256 toTokenId);
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, "Ownable: caller is not the owner");
+        _;
+    }
+
+    /**
+     * @param escrowAddress WordleBountyEscrow allowed to mint
+     * @param initialBaseURI Metadata URL prefix, e.g. the trophy-metadata edge function
+     */
+    constructor(address escrowAddress, string memory initialBaseURI) {
+        require(escrowAddress != address(0), "Escrow required");
+        owner = msg.sender;
+        escrow = escrowAddress;
+        baseURI = initialBaseURI;
+    }
+
+    /**
+     * @notice Mint a winner's trophy (escrow only)
+     * @param winner Address that won the bounty
+     * @param bountyId Identifier of the bounty
+     * @return tokenId New trophy's token ID, starting at 1
+     */
+    function mintTrophy(address winner, bytes32 bountyId) external returns (uint256 tokenId) {
+        require(msg.sender == escrow, "Only escrow can mint");
+        require(winner != address(0), "Winner required");
+        require(trophyOf[bountyId][winner] == 0, "Trophy already minted");
+
+        tokenId = ++totalSupply;
+        _owners[tokenId] = winner;
+        _balances[winner]++;
+        trophyBounty[tokenId] = bountyId;
+        trophyOf[bountyId][winner] = tokenId;
+
+        emit Transfer(address(0), winner, tokenId);
+        emit TrophyMinted(tokenId, bountyId, winner);
+    }
+
+    /**
+     * @notice Point metadata at a new host (owner only)
+     * @param newBaseURI Metadata URL prefix; token URIs are newBaseURI + tokenId
+     */
+    function setBaseURI(string calldata newBaseURI) external onlyOwner {
+        baseURI = newBaseURI;
+        emit BatchMetadataUpdate(1, totalSupply);
+    }
+
+    /**
+     * @notice Transfer ownership (owner only)
+     * @param newOwner Address of new owner
+     */
+    function transferOwnership(address newOwner) external onlyOwner {
+        require(newOwner != address(0), "New owner cannot be zero address");
+        owner = newOwner;
+    }
+
+    function balanceOf(address account) external view returns (uint256) {
+        require(account != address(0), "Zero address");
+        return _balances[account];
+    }
+
+    function ownerOf(uint256 tokenId) public view returns (address) {
+        address tokenOwner = _owners[tokenId];
+        require(tokenOwner != address(0), "Trophy does not exist");
+        return tokenOwner;
+    }
+
+    function tokenURI(uint256 tokenId) external view returns (string memory) {
+        ownerOf(tokenId);
+        return string.concat(baseURI, _toString(tokenId));
+    }
+
+    function getApproved(uint256 tokenId) external view returns (address) {
+        ownerOf(tokenId);
+        return address(0);
+    }
+
+    function isApprovedForAll(address, address) external pure returns (bool) {
+        return false;
+    }
+
+    /**
+     * @dev Trophies prove who won, so they stay with the winner
+     */
+    function approve(address, uint256) external pure {
+        revert("Trophies are non-transferable");
+    }
+
+    function setApprovalForAll(address, bool) external pure {
+        revert("Trophies are non-transferable");
+    }
+
+    function transferFrom(address, address, uint256) external pure {
+        revert("Trophies are non-transferable");
+    }
+
+    function safeTransferFrom(address, address, uint256) external pure {
+        revert("Trophies are non-transferable");
+    }
+
+    function safeTransferFrom(address, address, uint256, bytes calldata) external pure {
+        revert("Trophies are non-transferable");
+    }
+
+    /**
+     * @notice ERC-165: ERC-721, ERC-721 Metadata and ERC-4906
+     */
+    function supportsInterface(bytes4 interfaceId) external pure returns (bool) {
+        return interfaceId == 0x01ffc9a7 // ERC-165
+            || interfaceId == 0x80ac58cd // ERC-721
+            || interfaceId == 0x5b5e139f // ERC-721 Metadata
+            || interfaceId == 0x49064906; // ERC-4906
+    }
+
+    function _toString(uint256 value) private pure returns (string memory) {
+        if (value == 0) return "0";
+
+        uint256 digits;
+        for (uint256 temp = value; temp != 0; temp /= 10) {
+            digits++;
+        }
+
+        bytes memory buffer = new bytes(digits);
+        while (value != 0) {
+            digits--;
+            buffer[digits] = bytes1(uint8(48 + (value % 10)));
+            value /= 10;
+        }
+
+        return string(buffer);
+    }
+}
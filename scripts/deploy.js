@@ -53,6 +53,19 @@ async function main() {
   console.log(`   Platform Fee: ${Number(platformFee) / 100}%`);
   console.log(`   Min Bounty: ${minBountyHBAR} HBAR\n`);
 
+  // Optional winner trophies: metadata is served by the trophy-metadata edge function
+  let trophyAddress = null;
+  if (process.env.TROPHY_BASE_URI) {
+    console.log("🏆 Deploying WordleTrophy contract...");
+    const WordleTrophy = await hre.ethers.getContractFactory("WordleTrophy");
+    const trophy = await WordleTrophy.deploy(contractAddress, process.env.TROPHY_BASE_URI);
+    await trophy.waitForDeployment();
+
+    trophyAddress = await trophy.getAddress();
+    await (await escrow.setTrophyContract(trophyAddress)).wait();
+    console.log(`✅ WordleTrophy deployed to: ${trophyAddress}\n`);
+  }
+
   // Save deployment info
   const deploymentInfo = {
     network: network,
@@ -64,7 +77,8 @@ async function main() {
     blockNumber: deployTx?.blockNumber,
     owner: owner,
     platformFeeBps: platformFee.toString(),
-    minBountyAmount: minBounty.toString()
+    minBountyAmount: minBounty.toString(),
+    trophyAddress: trophyAddress
   };
 
   // Create deployments directory if it doesn't exist
@@ -94,6 +108,13 @@ async function main() {
   console.log("\n📋 Next Steps:\n");
   console.log("1. Add to .env.local:");
   console.log(`   VITE_ESCROW_CONTRACT_ADDRESS=${contractAddress}\n`);
+  console.log("   Set ESCROW_CONTRACT_ADDRESS and HEDERA_NETWORK for the edge functions that check the mirror node:");
+  console.log(`   ESCROW_CONTRACT_ADDRESS=${contractAddress}`);
+  console.log(`   HEDERA_NETWORK=${network}\n`);
+  if (trophyAddress) {
+    console.log("   Set TROPHY_CONTRACT_ADDRESS for the trophy-metadata edge function:");
+    console.log(`   TROPHY_CONTRACT_ADDRESS=${trophyAddress}\n`);
+  }
   console.log("2. Verify contract on HashScan:");
   console.log(`   pnpm run verify:${network}\n`);
   console.log("3. View on HashScan:");
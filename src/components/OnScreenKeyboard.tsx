@@ -0,0 +1,129 @@
+/**
+ * On-Screen Keyboard
+ * Shared keyboard for GameplayPage and RandomWordPage
+ *
+ * Keys come from getKeyboardLayout, coloured by the engine's letter-state
+ * map, and physical key presses go through getKeyboardAction, so tapping
+ * and typing call onKey with the same keys. Submitting on ENTER stays with
+ * the page.
+ */
+
+import { useEffect, useRef, useState, type KeyboardEvent as ReactKeyboardEvent } from 'react';
+import {
+  DEFAULT_BOARD_SETTINGS,
+  getKeyboardAction,
+  getKeyboardLayout,
+  getTileAppearance,
+  moveGridFocus,
+  type BoardSettings,
+  type GameLanguage,
+  type GridPosition,
+  type LetterStatus
+} from '@/utils/game';
+
+export interface OnScreenKeyboardProps {
+  language: GameLanguage;
+  /** getKeyboardStates(state.rows) */
+  letterStates: Record<string, LetterStatus>;
+  /** useSubmitAttempt().loading, or the game is over */
+  disabled?: boolean;
+  /** A letter, ENTER or BACKSPACE */
+  onKey: (key: string) => void;
+  settings?: BoardSettings;
+}
+
+const ARROW_KEYS = ['ArrowLeft', 'ArrowRight', 'ArrowUp', 'ArrowDown', 'Home', 'End'];
+
+/**
+ * Typing into a text field or dialog input isn't a guess
+ */
+function isTextEntry(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+}
+
+export function OnScreenKeyboard({
+  language,
+  letterStates,
+  disabled = false,
+  onKey,
+  settings = DEFAULT_BOARD_SETTINGS
+}: OnScreenKeyboardProps) {
+  const rows = getKeyboardLayout(language, letterStates, { disabled });
+  const [focus, setFocus] = useState<GridPosition>({ row: 0, column: 0 });
+  const groupRef = useRef<HTMLDivElement>(null);
+
+  // Read by the window listener, so it isn't re-added on every render
+  const onKeyRef = useRef(onKey);
+  onKeyRef.current = onKey;
+
+  useEffect(() => {
+    if (disabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (isTextEntry(event.target)) return;
+
+      // A focused key already answers Enter and Space with a click
+      const onKeyButton = event.target instanceof Node && groupRef.current?.contains(event.target);
+      if (onKeyButton && (event.key === 'Enter' || event.key === ' ')) return;
+
+      const key = getKeyboardAction(event, language);
+      if (!key) return;
+
+      event.preventDefault();
+      onKeyRef.current(key);
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [language, disabled]);
+
+  const handleArrowKey = (event: ReactKeyboardEvent<HTMLButtonElement>) => {
+    if (!ARROW_KEYS.includes(event.key)) return;
+
+    event.preventDefault();
+    const next = moveGridFocus(focus, event.key, rows.map(row => row.length));
+    setFocus(next);
+    groupRef.current
+      ?.querySelector<HTMLButtonElement>(`[data-row="${next.row}"][data-column="${next.column}"]`)
+      ?.focus();
+  };
+
+  return (
+    <div
+      ref={groupRef}
+      role="group"
+      aria-label="Keyboard"
+      className="space-y-1.5 sm:space-y-2 pb-4 sm:pb-0"
+    >
+      {rows.map((row, rowIndex) => (
+        <div key={rowIndex} className="flex justify-center gap-1 sm:gap-1.5">
+          {row.map((key, column) => (
+            <button
+              key={key.key}
+              type="button"
+              data-row={rowIndex}
+              data-column={column}
+              tabIndex={focus.row === rowIndex && focus.column === column ? 0 : -1}
+              aria-label={key.ariaLabel}
+              disabled={key.disabled}
+              onClick={() => onKey(key.key)}
+              onFocus={() => setFocus({ row: rowIndex, column })}
+              onKeyDown={handleArrowKey}
+              style={key.status ? { backgroundColor: getTileAppearance(key.status, settings).color, color: '#ffffff' } : undefined}
+              className={`
+                ${key.isAction
+                  ? 'min-w-[60px] h-11 px-2 sm:px-3 text-[10px] sm:text-xs'
+                  : 'min-w-[32px] min-h-[44px] w-8 sm:w-10 h-11 p-0 text-xs sm:text-sm'}
+                rounded-md border font-semibold touch-manipulation disabled:opacity-50
+              `}
+            >
+              {key.label}
+            </button>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
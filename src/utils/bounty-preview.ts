@@ -0,0 +1,285 @@
+/**
+ * Bounty Preview
+ * Link previews for shared `?bounty=` links, served from the app host by
+ * api/bounty-preview.ts (page) and api/bounty-card.ts (og:image)
+ *
+ * Only public fields from get_bounty_details are used - never words or hints.
+ * The image is an empty board in the bounty's shape, so it can't give
+ * anything away either.
+ */
+
+export interface BountyPreviewDetails {
+  name: string;
+  description?: string | null;
+  prize_amount?: number | null;
+  prize_currency?: string | null;
+  status?: string | null;
+  words_count?: number | null;
+  word_lengths?: number[] | null;
+  max_attempts_per_user?: number | null;
+  participant_count?: number | null;
+}
+
+export interface BountyPreviewPage {
+  title: string;
+  description: string;
+  /** The shared link, e.g. https://app/?bounty=<id> */
+  url: string;
+  imageUrl: string;
+}
+
+export const DEFAULT_PREVIEW_TITLE = 'Web3 Wordle Bounty';
+export const DEFAULT_PREVIEW_DESCRIPTION = 'Solve the word puzzle and win crypto prizes on Hedera.';
+
+export const PREVIEW_IMAGE_WIDTH = 1200;
+export const PREVIEW_IMAGE_HEIGHT = 630; // Open Graph image size
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function isBountyId(value: string | null | undefined): value is string {
+  return !!value && UUID_PATTERN.test(value);
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Public bounty details via get_bounty_details with the anon key, or null if
+ * Supabase isn't configured or the bounty can't be loaded
+ */
+export async function fetchBountyPreview(
+  bountyId: string,
+  supabaseUrl: string | undefined,
+  anonKey: string | undefined
+): Promise<BountyPreviewDetails | null> {
+  if (!supabaseUrl || !anonKey || !isBountyId(bountyId)) return null;
+
+  try {
+    const response = await fetch(`${supabaseUrl}/rest/v1/rpc/get_bounty_details`, {
+      method: 'POST',
+      headers: {
+        apikey: anonKey,
+        Authorization: `Bearer ${anonKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ bounty_uuid: bountyId })
+    });
+
+    if (!response.ok) return null;
+    return await response.json();
+  } catch {
+    // Previews fall back to the generic title and board
+    return null;
+  }
+}
+
+/**
+ * One-line summary for og:description, e.g. "Win 50 HBAR · 3 words · 12 playing"
+ */
+export function describeBounty(bounty: BountyPreviewDetails): string {
+  const parts: string[] = [];
+
+  if (bounty.prize_amount) {
+    parts.push(`Win ${bounty.prize_amount} ${bounty.prize_currency || 'HBAR'}`);
+  }
+  if (bounty.words_count) {
+    parts.push(`${bounty.words_count} ${bounty.words_count === 1 ? 'word' : 'words'}`);
+  }
+  if (bounty.participant_count) {
+    parts.push(`${bounty.participant_count} playing`);
+  }
+  if (bounty.status && bounty.status !== 'active') {
+    parts.push(bounty.status);
+  }
+
+  const summary = parts.join(' · ');
+  return bounty.description ? `${summary}${summary ? ' - ' : ''}${bounty.description}` : summary;
+}
+
+/**
+ * HTML with Open Graph / Twitter tags for link crawlers. People never see it:
+ * vercel.json only sends crawler user agents here.
+ */
+export function renderBountyPreviewPage(page: BountyPreviewPage): string {
+  const title = escapeHtml(page.title);
+  const description = escapeHtml(page.description.slice(0, 200));
+  const url = escapeHtml(page.url);
+  const imageUrl = escapeHtml(page.imageUrl);
+
+  return `<!DOCTYPE html>
+<html lang="en">
+  <head>
+    <meta charset="UTF-8" />
+    <title>${title}</title>
+    <meta name="description" content="${description}" />
+    <meta property="og:type" content="website" />
+    <meta property="og:site_name" content="${DEFAULT_PREVIEW_TITLE}" />
+    <meta property="og:title" content="${title}" />
+    <meta property="og:description" content="${description}" />
+    <meta property="og:url" content="${url}" />
+    <meta property="og:image" content="${imageUrl}" />
+    <meta property="og:image:type" content="image/png" />
+    <meta property="og:image:width" content="${PREVIEW_IMAGE_WIDTH}" />
+    <meta property="og:image:height" content="${PREVIEW_IMAGE_HEIGHT}" />
+    <meta name="twitter:card" content="summary_large_image" />
+    <meta name="twitter:title" content="${title}" />
+    <meta name="twitter:description" content="${description}" />
+    <meta name="twitter:image" content="${imageUrl}" />
+    <link rel="canonical" href="${url}" />
+  </head>
+  <body>
+    <p><a href="${url}">${title}</a></p>
+  </body>
+</html>`;
+}
+
+// ============================================================================
+// Preview image
+// ============================================================================
+
+type Rgb = [number, number, number];
+
+const BACKGROUND_TOP: Rgb = [0x1e, 0x1b, 0x4b];
+const BACKGROUND_BOTTOM: Rgb = [0x4c, 0x1d, 0x95];
+const TILE_FILL: Rgb = [0x31, 0x2e, 0x81];
+const TILE_BORDER: Rgb = [0xc4, 0xb5, 0xfd];
+
+const MAX_BOARDS = 3;
+const DEFAULT_ROWS = 6;
+const PADDING = 64;
+
+class Canvas {
+  readonly pixels: Uint8Array;
+
+  constructor(readonly width: number, readonly height: number) {
+    this.pixels = new Uint8Array(width * height * 3);
+  }
+
+  fillRect(x: number, y: number, w: number, h: number, color: Rgb): void {
+    const left = Math.max(0, Math.round(x));
+    const top = Math.max(0, Math.round(y));
+    const right = Math.min(this.width, Math.round(x + w));
+    const bottom = Math.min(this.height, Math.round(y + h));
+
+    for (let row = top; row < bottom; row++) {
+      for (let col = left; col < right; col++) {
+        this.pixels.set(color, (row * this.width + col) * 3);
+      }
+    }
+  }
+}
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of bytes) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function pngChunk(type: string, data: Uint8Array) {
+  const chunk = new Uint8Array(data.length + 12);
+  const view = new DataView(chunk.buffer);
+
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(data.length + 8, crc32(chunk.subarray(4, data.length + 8)));
+
+  return chunk;
+}
+
+async function deflate(data: BlobPart) {
+  // 'deflate' is the zlib format PNG's IDAT expects
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function encodePng(canvas: Canvas): Promise<Blob> {
+  const header = new Uint8Array(13);
+  const view = new DataView(header.buffer);
+  view.setUint32(0, canvas.width);
+  view.setUint32(4, canvas.height);
+  header[8] = 8; // bit depth
+  header[9] = 2; // truecolour RGB
+
+  // Every scanline starts with filter type 0 (none)
+  const stride = canvas.width * 3;
+  const raw = new Uint8Array((stride + 1) * canvas.height);
+  for (let row = 0; row < canvas.height; row++) {
+    raw.set(canvas.pixels.subarray(row * stride, (row + 1) * stride), row * (stride + 1) + 1);
+  }
+
+  return new Blob([
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    pngChunk('IHDR', header),
+    pngChunk('IDAT', await deflate(raw)),
+    pngChunk('IEND', new Uint8Array(0))
+  ], { type: 'image/png' });
+}
+
+/**
+ * 1200x630 PNG blob of an empty board per word (up to three), sized to the
+ * bounty's word lengths and guess limit
+ */
+export async function renderBountyPreviewImage(bounty?: BountyPreviewDetails | null): Promise<Blob> {
+  const canvas = new Canvas(PREVIEW_IMAGE_WIDTH, PREVIEW_IMAGE_HEIGHT);
+
+  for (let row = 0; row < canvas.height; row++) {
+    const t = row / (canvas.height - 1);
+    const color = BACKGROUND_TOP.map((top, i) => Math.round(top + (BACKGROUND_BOTTOM[i] - top) * t)) as Rgb;
+    canvas.fillRect(0, row, canvas.width, 1, color);
+  }
+
+  const wordLengths = (bounty?.word_lengths?.length ? bounty.word_lengths : [5]).slice(0, MAX_BOARDS);
+  const rows = Math.min(bounty?.max_attempts_per_user || DEFAULT_ROWS, DEFAULT_ROWS);
+  const gap = 8;
+  const boardGap = 48;
+
+  // One tile size for every board, so longer words get wider boards
+  const totalColumns = wordLengths.reduce((total, length) => total + length, 0);
+  const availableWidth = canvas.width - PADDING * 2 - boardGap * (wordLengths.length - 1);
+  const tile = Math.floor(Math.min(
+    (availableWidth - gap * (totalColumns - wordLengths.length)) / totalColumns,
+    (canvas.height - PADDING * 2 - gap * (rows - 1)) / rows,
+    88
+  ));
+  const border = Math.max(2, Math.round(tile / 20));
+
+  const boardsWidth = wordLengths.reduce((total, length) => total + length * tile + (length - 1) * gap, 0)
+    + boardGap * (wordLengths.length - 1);
+  const top = (canvas.height - (rows * tile + (rows - 1) * gap)) / 2;
+  let left = (canvas.width - boardsWidth) / 2;
+
+  for (const length of wordLengths) {
+    for (let r = 0; r < rows; r++) {
+      for (let c = 0; c < length; c++) {
+        const x = left + c * (tile + gap);
+        const y = top + r * (tile + gap);
+        canvas.fillRect(x, y, tile, tile, TILE_BORDER);
+        canvas.fillRect(x + border, y + border, tile - border * 2, tile - border * 2, TILE_FILL);
+      }
+    }
+    left += length * tile + (length - 1) * gap + boardGap;
+  }
+
+  return encodePng(canvas);
+}
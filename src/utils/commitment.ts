@@ -0,0 +1,50 @@
+/**
+ * Solution Commitments
+ * Salted keccak256 commitments to bounty words (see migration 039)
+ *
+ * Must hash exactly like WordleBountyEscrow.computeCommitment:
+ * keccak256(abi.encodePacked(bountyId, salt, solution)).
+ */
+
+import { keccak256, solidityPackedKeccak256, toUtf8Bytes, zeroPadValue } from 'ethers';
+
+/**
+ * What get_bounty_reveal returns once a bounty has ended
+ */
+export interface BountyReveal {
+  solution: string;
+  salt: string;
+  commitment: string;
+  transaction_hash: string | null;
+}
+
+/**
+ * The bytes32 bounty id used on-chain, derived from the bounty UUID the
+ * same way EscrowService's uuidToBytes32 does: the UUID's 16 bytes
+ * zero-padded, or keccak256 of any other id
+ */
+export function bountyIdToBytes32(bountyId: string): string {
+  const hex = bountyId.replace(/-/g, '').toLowerCase();
+  if (/^[0-9a-f]{32}$/.test(hex)) return zeroPadValue(`0x${hex}`, 32);
+
+  return keccak256(toUtf8Bytes(bountyId));
+}
+
+/**
+ * Commitment to pass to createBounty, from prepare_bounty_commitment's
+ * { solution, salt }
+ */
+export function computeSolutionCommitment(bountyId: string, salt: string, solution: string): string {
+  return solidityPackedKeccak256(
+    ['bytes32', 'bytes32', 'string'],
+    [bountyIdToBytes32(bountyId), salt, solution]
+  );
+}
+
+/**
+ * True when the revealed words and salt match the recorded commitment
+ */
+export function verifySolutionReveal(bountyId: string, reveal: BountyReveal): boolean {
+  return computeSolutionCommitment(bountyId, reveal.salt, reveal.solution).toLowerCase()
+    === reveal.commitment.toLowerCase();
+}
@@ -0,0 +1,166 @@
+/**
+ * Accessibility
+ * Board palettes, tile patterns, screen reader text and keyboard focus
+ *
+ * Results must never depend on colour alone: every palette pairs with a
+ * pattern per status, and every scored row has a sentence for an
+ * aria-live region. Settings are saved per user by update_user_settings.
+ */
+
+import type { GuessResult, LetterState, LetterStatus } from './wordle-engine';
+
+export type BoardPalette = 'standard' | 'high-contrast';
+
+export type TilePattern = 'none' | 'dot' | 'stripes' | 'cross';
+
+/**
+ * The users columns returned by get_user_settings
+ */
+export interface BoardSettings {
+  board_palette: BoardPalette;
+  board_patterns: boolean;
+}
+
+export interface TileAppearance {
+  color: string;
+  pattern: TilePattern;
+}
+
+export const DEFAULT_BOARD_SETTINGS: BoardSettings = {
+  board_palette: 'standard',
+  board_patterns: false
+};
+
+/** Tile colours; high-contrast swaps green/yellow for orange/blue */
+export const TILE_PALETTES: Record<BoardPalette, Record<LetterStatus, string>> = {
+  standard: { correct: '#22c55e', present: '#eab308', absent: '#3f3f46' },
+  'high-contrast': { correct: '#f97316', present: '#3b82f6', absent: '#3f3f46' }
+};
+
+/** Second cue drawn over the colour when board_patterns is on */
+export const TILE_PATTERNS: Record<LetterStatus, TilePattern> = {
+  correct: 'dot',
+  present: 'stripes',
+  absent: 'cross'
+};
+
+const STATUS_LABELS: Record<LetterState, string> = {
+  correct: 'correct',
+  present: 'present',
+  absent: 'absent',
+  empty: 'empty'
+};
+
+/**
+ * Read settings from get_user_settings, falling back to the defaults for
+ * anything missing or unknown
+ */
+export function parseBoardSettings(value: unknown): BoardSettings {
+  const settings = (value ?? {}) as Partial<Record<keyof BoardSettings, unknown>>;
+
+  return {
+    board_palette: settings.board_palette === 'high-contrast' ? 'high-contrast' : 'standard',
+    board_patterns: settings.board_patterns === true
+  };
+}
+
+export function getTileAppearance(status: LetterStatus, settings: BoardSettings): TileAppearance {
+  return {
+    color: TILE_PALETTES[settings.board_palette][status],
+    pattern: settings.board_patterns ? TILE_PATTERNS[status] : 'none'
+  };
+}
+
+// ============================================================================
+// Screen reader text
+// ============================================================================
+
+/**
+ * A scored row as a sentence, e.g. "A correct, R present, E absent"
+ */
+export function describeGuessResult(result: GuessResult): string {
+  return result.map(({ letter, status }) => `${letter} ${STATUS_LABELS[status]}`).join(', ');
+}
+
+/**
+ * What the live region says after a guess is scored
+ */
+export function announceGuessResult(result: GuessResult, guessesLeft: number): string {
+  const description = describeGuessResult(result);
+
+  if (result.length > 0 && result.every(tile => tile.status === 'correct')) {
+    return `${description}. Solved!`;
+  }
+  if (guessesLeft <= 0) return `${description}. No guesses left.`;
+
+  return `${description}. ${guessesLeft} ${guessesLeft === 1 ? 'guess' : 'guesses'} left.`;
+}
+
+/**
+ * aria-label for one board tile; rows and columns are counted from 1
+ */
+export function describeTile(letter: string, state: LetterState, row: number, column: number): string {
+  const position = `Row ${row}, letter ${column}`;
+  if (!letter) return `${position}, empty`;
+
+  return state === 'empty' ? `${position}, ${letter}` : `${position}, ${letter} ${STATUS_LABELS[state]}`;
+}
+
+/**
+ * aria-label for an on-screen keyboard key
+ */
+export function describeKey(key: string, status?: LetterStatus): string {
+  if (key === 'ENTER') return 'Submit guess';
+  if (key === 'BACKSPACE') return 'Delete letter';
+
+  return status ? `${key} ${STATUS_LABELS[status]}` : key;
+}
+
+// ============================================================================
+// Keyboard focus
+// ============================================================================
+
+export interface GridPosition {
+  row: number;
+  column: number;
+}
+
+/**
+ * Move focus around a grid of rows with arrow keys, Home and End
+ *
+ * Rows may have different lengths (keyboard rows, boards of different
+ * word lengths); moving up or down keeps the column where possible. Other
+ * keys leave the position unchanged.
+ */
+export function moveGridFocus(position: GridPosition, key: string, rowLengths: number[]): GridPosition {
+  const { row, column } = position;
+  const clampColumn = (r: number, c: number) => Math.min(c, Math.max(rowLengths[r] - 1, 0));
+
+  switch (key) {
+    case 'ArrowLeft':
+      return { row, column: Math.max(column - 1, 0) };
+    case 'ArrowRight':
+      return { row, column: clampColumn(row, column + 1) };
+    case 'ArrowUp':
+      return row > 0 ? { row: row - 1, column: clampColumn(row - 1, column) } : position;
+    case 'ArrowDown':
+      return row < rowLengths.length - 1 ? { row: row + 1, column: clampColumn(row + 1, column) } : position;
+    case 'Home':
+      return { row, column: 0 };
+    case 'End':
+      return { row, column: clampColumn(row, Infinity) };
+    default:
+      return position;
+  }
+}
+
+/**
+ * Next element to focus when Tab is pressed inside a modal, wrapping at
+ * both ends so focus never leaves it
+ */
+export function getFocusTrapIndex(currentIndex: number, count: number, shiftKey: boolean): number {
+  if (count <= 0) return -1;
+  if (currentIndex < 0) return shiftKey ? count - 1 : 0;
+
+  return (currentIndex + (shiftKey ? -1 : 1) + count) % count;
+}
@@ -0,0 +1,37 @@
+/**
+ * Daily Challenge
+ * Date helpers for the daily challenge (see get_daily_challenge)
+ *
+ * Days roll over at 00:00 UTC for every player, whatever their timezone.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The UTC day a moment falls in, as the 'YYYY-MM-DD' key the server uses
+ */
+export function getDailyChallengeDate(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+/**
+ * When the next daily challenge starts
+ */
+export function getNextDailyReset(now: Date = new Date()): Date {
+  const startOfDay = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  return new Date(startOfDay + DAY_MS);
+}
+
+/**
+ * Countdown to the next daily, e.g. "03:07:45"
+ */
+export function formatTimeUntilNextDaily(now: Date = new Date()): string {
+  const remaining = Math.max(0, getNextDailyReset(now).getTime() - now.getTime());
+  const totalSeconds = Math.floor(remaining / 1000);
+
+  return [
+    Math.floor(totalSeconds / 3600),
+    Math.floor((totalSeconds % 3600) / 60),
+    totalSeconds % 60
+  ].map(part => String(part).padStart(2, '0')).join(':');
+}
@@ -0,0 +1,93 @@
+/**
+ * Duels
+ * Head-to-head helpers for the duel screen (see create_duel / get_duel)
+ *
+ * The opponent's board is built from duel_moves, which only carry tile
+ * colours, so the duel screen can render it live without ever holding the
+ * opponent's letters.
+ */
+
+import type { LetterStatus } from './wordle-engine';
+
+export type DuelStatus = 'waiting' | 'active' | 'completed' | 'draw' | 'cancelled';
+
+/** How a duel looks from one player's side */
+export type DuelOutcome = 'waiting' | 'playing' | 'won' | 'lost' | 'draw' | 'cancelled';
+
+/**
+ * A duel_moves row, as delivered by get_duel or a Realtime INSERT
+ */
+export interface DuelMove {
+  user_id: string;
+  attempt_number: number;
+  statuses: LetterStatus[];
+  solved: boolean;
+  created_at?: string;
+}
+
+export interface DuelSummary {
+  status: DuelStatus;
+  winner_id?: string | null;
+}
+
+export interface DuelInvite {
+  duelId: string;
+  code: string | null;
+}
+
+/**
+ * One player's rows of tile colours, oldest first
+ *
+ * Realtime can deliver a move that get_duel already returned, so rows are
+ * de-duplicated by attempt number.
+ */
+export function getDuelRows(moves: DuelMove[], userId: string): LetterStatus[][] {
+  const byAttempt = new Map<number, LetterStatus[]>();
+
+  for (const move of moves) {
+    if (move.user_id === userId) byAttempt.set(move.attempt_number, move.statuses);
+  }
+
+  return [...byAttempt.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([, statuses]) => statuses);
+}
+
+/**
+ * The duel's result for one player
+ */
+export function getDuelOutcome(duel: DuelSummary, userId: string): DuelOutcome {
+  switch (duel.status) {
+    case 'waiting':
+      return 'waiting';
+    case 'active':
+      return 'playing';
+    case 'completed':
+      return duel.winner_id === userId ? 'won' : 'lost';
+    case 'draw':
+      return 'draw';
+    case 'cancelled':
+      return 'cancelled';
+  }
+}
+
+/**
+ * Link that opens an invite-only duel, e.g. https://app.example/?duel=<id>&code=<code>
+ */
+export function buildDuelInviteUrl(baseUrl: string, duelId: string, inviteCode: string): string {
+  const url = new URL(baseUrl);
+  url.searchParams.set('duel', duelId);
+  url.searchParams.set('code', inviteCode);
+  return url.toString();
+}
+
+/**
+ * Read a duel invite from a query string or full URL; null when there is none
+ */
+export function parseDuelInvite(location: string): DuelInvite | null {
+  const query = location.includes('?') ? location.slice(location.indexOf('?')) : location;
+  const params = new URLSearchParams(query);
+  const duelId = params.get('duel');
+
+  return duelId ? { duelId, code: params.get('code') } : null;
+}
@@ -0,0 +1,62 @@
+/**
+ * Fairness Badge
+ * What BountyCard shows about a bounty's on-chain word commitment
+ *
+ * A bounty with a recorded commitment can't change its words (migration
+ * 039). Once it ends, the revealed words are checked against the
+ * commitment with verifySolutionReveal and the badge links to the
+ * createBounty transaction on HashScan.
+ */
+
+import { getCurrentNetwork, getTransactionUrl, type HederaNetwork } from '../hashscan';
+
+export type FairnessStatus = 'none' | 'committed' | 'verified' | 'mismatch';
+
+/**
+ * The bounties columns the badge needs
+ */
+export interface CommittedBounty {
+  solution_commitment?: string | null;
+  transaction_hash?: string | null;
+}
+
+export interface FairnessBadge {
+  status: FairnessStatus;
+  label: string;
+  /** createBounty transaction holding the commitment; null when there is none */
+  transactionHash: string | null;
+  /** HashScan page for transactionHash */
+  transactionUrl: string | null;
+}
+
+const FAIRNESS_LABELS: Record<FairnessStatus, string> = {
+  none: 'Not committed',
+  committed: 'Words committed on-chain',
+  verified: 'Verified fair',
+  mismatch: 'Commitment mismatch'
+};
+
+/**
+ * Badge for a bounty. Pass the verifySolutionReveal result once the bounty
+ * has ended, or null while it is still running.
+ */
+export function getFairnessBadge(
+  bounty: CommittedBounty,
+  revealMatches: boolean | null = null,
+  network: HederaNetwork = getCurrentNetwork()
+): FairnessBadge {
+  const status: FairnessStatus = !bounty.solution_commitment
+    ? 'none'
+    : revealMatches === null
+      ? 'committed'
+      : revealMatches ? 'verified' : 'mismatch';
+
+  const transactionHash = status === 'none' ? null : bounty.transaction_hash ?? null;
+
+  return {
+    status,
+    label: FAIRNESS_LABELS[status],
+    transactionHash,
+    transactionUrl: transactionHash ? getTransactionUrl(transactionHash, network) : null
+  };
+}
@@ -0,0 +1,45 @@
+/**
+ * Hint Penalties
+ * Labels for the per-hint penalties set on a bounty (see unlock_hint)
+ *
+ * The same penalty number means different things depending on how the
+ * bounty picks its winner, matching determine_bounty_winner:
+ * - time / first-to-solve: seconds added
+ * - attempts: attempts added
+ * - words-correct: words subtracted
+ * - boards-solved: boards subtracted
+ */
+
+export type WinnerCriteria = 'time' | 'attempts' | 'words-correct' | 'first-to-solve' | 'boards-solved';
+
+function plural(value: number, unit: string): string {
+  return `${value} ${unit}${value === 1 ? '' : 's'}`;
+}
+
+/**
+ * Penalty for a single hint, e.g. "+30s", "+1 attempt", "-0.5 words"
+ */
+export function describeHintPenalty(penalty: number, criteria: WinnerCriteria): string {
+  if (!penalty || penalty <= 0) return 'No penalty';
+
+  switch (criteria) {
+    case 'time':
+    case 'first-to-solve':
+      return `+${penalty}s`;
+    case 'attempts':
+      return `+${plural(penalty, 'attempt')}`;
+    case 'words-correct':
+      return `-${plural(penalty, 'word')}`;
+    case 'boards-solved':
+      return `-${plural(penalty, 'board')}`;
+  }
+}
+
+/**
+ * Total penalty of the first `hintsUsed` hints, in unlock order
+ */
+export function getHintPenaltyTotal(penalties: number[], hintsUsed: number): number {
+  return penalties
+    .slice(0, Math.max(0, hintsUsed))
+    .reduce((total, penalty) => total + (Number(penalty) || 0), 0);
+}
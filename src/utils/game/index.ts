@@ -0,0 +1,26 @@
+/**
+ * Game Utilities
+ * Shared, framework-free game logic for every Wordle mode
+ */
+
+export * from './wordle-engine';
+export * from './languages';
+export * from './hints';
+export * from './daily';
+export * from './speed';
+export * from './offline-words';
+export * from './practice-words';
+export * from './replay';
+export * from './share';
+export * from './duel';
+export * from './multi-board';
+export * from './puzzles';
+export * from './accessibility';
+export * from './keyboard';
+export * from './fairness';
+export * from './random-draw';
+export * from './payout';
+export * from './prize-pool';
+export * from './tokens';
+export * from './trophies';
+export * from './prize-claims';
@@ -0,0 +1,103 @@
+/**
+ * On-Screen Keyboard
+ * Key layout, letter colours and physical key mapping for every game screen
+ *
+ * The keyboard is a view of the engine's letter-state map
+ * (getKeyboardStates), laid out from the language's keyboard rows, so
+ * practice and bounty screens render the same keys with the same colours.
+ * Physical keys go through getKeyboardAction first, so both inputs share
+ * one code path.
+ */
+
+import { describeKey } from './accessibility';
+import { getLanguageConfig, isLanguageLetter, normalizeWord, type GameLanguage } from './languages';
+import { deleteLetter, typeLetter, type GameState, type LetterStatus } from './wordle-engine';
+
+export const ENTER_KEY = 'ENTER';
+export const BACKSPACE_KEY = 'BACKSPACE';
+
+export interface KeyboardKey {
+  /** Letter, ENTER or BACKSPACE; what getKeyboardAction returns for it */
+  key: string;
+  label: string;
+  ariaLabel: string;
+  status?: LetterStatus;
+  /** ENTER and BACKSPACE, drawn wider */
+  isAction: boolean;
+  disabled: boolean;
+}
+
+export interface KeyboardOptions {
+  /** While a guess is being submitted (useSubmitAttempt loading) or the game is over */
+  disabled?: boolean;
+}
+
+/**
+ * The subset of a KeyboardEvent that matters for game input
+ */
+export interface KeyInput {
+  key: string;
+  ctrlKey?: boolean;
+  metaKey?: boolean;
+  altKey?: boolean;
+}
+
+const ACTION_LABELS: Record<string, string> = {
+  [ENTER_KEY]: 'Enter',
+  [BACKSPACE_KEY]: '⌫'
+};
+
+/**
+ * Rows of keys for a language, coloured by the letter-state map
+ */
+export function getKeyboardLayout(
+  language: GameLanguage,
+  letterStates: Record<string, LetterStatus>,
+  { disabled = false }: KeyboardOptions = {}
+): KeyboardKey[][] {
+  return getLanguageConfig(language).keyboard.map(row =>
+    row.map(key => {
+      const isAction = key in ACTION_LABELS;
+      const status = isAction ? undefined : letterStates[key];
+
+      return {
+        key,
+        label: ACTION_LABELS[key] ?? key,
+        ariaLabel: describeKey(key, status),
+        status,
+        isAction,
+        disabled
+      };
+    })
+  );
+}
+
+/**
+ * Map a physical key press to a keyboard key, or null to let the browser
+ * handle it
+ *
+ * Shortcuts with Ctrl, Cmd or Alt are left alone. Letters are normalised for
+ * the language, so é on a French layout types E; letters the language
+ * doesn't use are ignored.
+ */
+export function getKeyboardAction(input: KeyInput, language: GameLanguage): string | null {
+  if (input.ctrlKey || input.metaKey || input.altKey) return null;
+
+  if (input.key === 'Enter') return ENTER_KEY;
+  if (input.key === 'Backspace' || input.key === 'Delete') return BACKSPACE_KEY;
+  if (Array.from(input.key).length !== 1) return null;
+
+  const letter = normalizeWord(input.key, language);
+  return isLanguageLetter(letter, language) ? letter : null;
+}
+
+/**
+ * Apply a letter or BACKSPACE to the game. ENTER is returned unchanged:
+ * submitting is async (submit_attempt) and belongs to the screen.
+ */
+export function applyKeyboardKey(state: GameState, key: string): GameState {
+  if (key === ENTER_KEY) return state;
+  if (key === BACKSPACE_KEY) return deleteLetter(state);
+
+  return typeLetter(state, key);
+}
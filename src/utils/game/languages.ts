@@ -0,0 +1,134 @@
+/**
+ * Languages
+ * Alphabets, keyboards and word normalisation for every playable language
+ *
+ * Words are compared in a normalised form: upper case, with accents folded
+ * away unless the language has its own key for the letter (Spanish Ñ,
+ * German Ä Ö Ü). A French player can type CAFE for CAFÉ, while a Spanish
+ * player must still find the Ñ in AÑEJO. normalize_word() in migration 032
+ * applies the same rules on the server; keep the two in sync.
+ */
+
+export type GameLanguage = 'en' | 'es' | 'fr' | 'de';
+
+export interface LanguageConfig {
+  code: GameLanguage;
+  /** English name, for creator-facing lists */
+  name: string;
+  /** Name in the language itself, for player-facing labels */
+  nativeName: string;
+  /** Letters a normalised word can contain */
+  alphabet: string[];
+  /** On-screen keyboard rows; 'ENTER' and 'BACKSPACE' are action keys */
+  keyboard: string[][];
+}
+
+export const DEFAULT_LANGUAGE: GameLanguage = 'en';
+
+const LATIN_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('');
+
+export const GAME_LANGUAGES: Record<GameLanguage, LanguageConfig> = {
+  en: {
+    code: 'en',
+    name: 'English',
+    nativeName: 'English',
+    alphabet: LATIN_ALPHABET,
+    keyboard: [
+      ['Q', 'W', 'E', 'R', 'T', 'Y', 'U', 'I', 'O', 'P'],
+      ['A', 'S', 'D', 'F', 'G', 'H', 'J', 'K', 'L'],
+      ['ENTER', 'Z', 'X', 'C', 'V', 'B', 'N', 'M', 'BACKSPACE']
+    ]
+  },
+  es: {
+    code: 'es',
+    name: 'Spanish',
+    nativeName: 'Español',
+    alphabet: [...LATIN_ALPHABET, 'Ñ'],
+    keyboard: [
+      ['Q', 'W', 'E', 'R', 'T', 'Y', 'U', 'I', 'O', 'P'],
+      ['A', 'S', 'D', 'F', 'G', 'H', 'J', 'K', 'L', 'Ñ'],
+      ['ENTER', 'Z', 'X', 'C', 'V', 'B', 'N', 'M', 'BACKSPACE']
+    ]
+  },
+  fr: {
+    code: 'fr',
+    name: 'French',
+    nativeName: 'Français',
+    alphabet: LATIN_ALPHABET,
+    keyboard: [
+      ['A', 'Z', 'E', 'R', 'T', 'Y', 'U', 'I', 'O', 'P'],
+      ['Q', 'S', 'D', 'F', 'G', 'H', 'J', 'K', 'L', 'M'],
+      ['ENTER', 'W', 'X', 'C', 'V', 'B', 'N', 'BACKSPACE']
+    ]
+  },
+  de: {
+    code: 'de',
+    name: 'German',
+    nativeName: 'Deutsch',
+    alphabet: [...LATIN_ALPHABET, 'Ä', 'Ö', 'Ü'],
+    keyboard: [
+      ['Q', 'W', 'E', 'R', 'T', 'Z', 'U', 'I', 'O', 'P', 'Ü'],
+      ['A', 'S', 'D', 'F', 'G', 'H', 'J', 'K', 'L', 'Ö', 'Ä'],
+      ['ENTER', 'Y', 'X', 'C', 'V', 'B', 'N', 'M', 'BACKSPACE']
+    ]
+  }
+};
+
+// Same lists as the translate() calls in normalize_word()
+const ACCENTED = 'ÀÁÂÃÄÅÇÈÉÊËÌÍÎÏÑÒÓÔÕÖÙÚÛÜÝŸ';
+const FOLDED = 'AAAAAACEEEEIIIINOOOOOUUUUYY';
+
+const LIGATURES: Record<string, string> = {
+  'ß': 'SS',
+  'ẞ': 'SS',
+  'Œ': 'OE',
+  'Æ': 'AE'
+};
+
+export function isGameLanguage(value: unknown): value is GameLanguage {
+  return typeof value === 'string' && value in GAME_LANGUAGES;
+}
+
+/**
+ * Language config, falling back to English for unknown codes
+ * (e.g. bounties created before languages existed)
+ */
+export function getLanguageConfig(language?: string | null): LanguageConfig {
+  return GAME_LANGUAGES[isGameLanguage(language) ? language : DEFAULT_LANGUAGE];
+}
+
+/**
+ * Upper-case a word and fold the accents its language has no key for
+ *
+ * normalizeWord('café', 'fr') -> 'CAFE'
+ * normalizeWord('añejo', 'es') -> 'AÑEJO'
+ * normalizeWord('straße', 'de') -> 'STRASSE'
+ */
+export function normalizeWord(word: string, language: GameLanguage = DEFAULT_LANGUAGE): string {
+  const { alphabet } = getLanguageConfig(language);
+
+  return Array.from(word.normalize('NFC').toUpperCase())
+    .map(char => {
+      if (LIGATURES[char]) return LIGATURES[char];
+      if (alphabet.includes(char)) return char;
+
+      const index = ACCENTED.indexOf(char);
+      return index === -1 ? char : FOLDED[index];
+    })
+    .join('');
+}
+
+/**
+ * True for a single letter of the language's alphabet (already normalised)
+ */
+export function isLanguageLetter(letter: string, language: GameLanguage = DEFAULT_LANGUAGE): boolean {
+  return getLanguageConfig(language).alphabet.includes(letter);
+}
+
+/**
+ * True when the word, once normalised, only uses the language's letters
+ */
+export function isLanguageWord(word: string, language: GameLanguage = DEFAULT_LANGUAGE): boolean {
+  const letters = Array.from(normalizeWord(word, language));
+  return letters.length > 0 && letters.every(letter => isLanguageLetter(letter, language));
+}
@@ -0,0 +1,206 @@
+/**
+ * Multi-Board
+ * Quordle-style games: every guess is played on 2, 4 or 8 boards at once
+ *
+ * Boards share one guess budget. A solved board stops taking rows, and the
+ * game is won when every board is solved. Bounty games feed the `boards`
+ * array returned by submit_attempt into applyMultiBoardResults; practice
+ * games score locally with submitMultiBoardGuess.
+ */
+
+import {
+  getKeyboardStates,
+  isGuessResult,
+  isSolved,
+  scoreGuess,
+  type GameStatus,
+  type GuessResult,
+  type LetterStatus,
+  type RecordedAttempt,
+  type RecordedParticipation
+} from './wordle-engine';
+import { DEFAULT_LANGUAGE, isLanguageLetter, normalizeWord, type GameLanguage } from './languages';
+
+export const MULTI_BOARD_COUNTS = [2, 4, 8] as const;
+
+export type MultiBoardCount = typeof MULTI_BOARD_COUNTS[number];
+
+export interface MultiBoardConfig {
+  boardCount: number;
+  wordLength: number;
+  /** Shared across all boards; defaults to boards + 5 like the server */
+  maxGuesses?: number;
+  language?: GameLanguage;
+}
+
+export interface MultiBoardState {
+  boardCount: number;
+  wordLength: number;
+  maxGuesses: number;
+  language: GameLanguage;
+  /** Scored rows per board; a solved board's last row is its winning guess */
+  boards: GuessResult[][];
+  guessesUsed: number;
+  currentGuess: string;
+  status: GameStatus;
+}
+
+/**
+ * One entry of the `boards` array returned by submit_attempt
+ */
+export interface BoardResult {
+  word_index: number;
+  letter_results: GuessResult;
+}
+
+export function isMultiBoardCount(value: number): value is MultiBoardCount {
+  return (MULTI_BOARD_COUNTS as readonly number[]).includes(value);
+}
+
+/**
+ * Default shared guess budget, matching create_bounty_with_wallet
+ */
+export function getMultiBoardGuessBudget(boardCount: number): number {
+  return boardCount + 5;
+}
+
+/**
+ * Columns for the board grid: 2 boards side by side, 4 as 2×2, 8 as 4×2
+ */
+export function getMultiBoardGridColumns(boardCount: number): number {
+  return boardCount >= 8 ? 4 : 2;
+}
+
+export function createMultiBoardGame({
+  boardCount,
+  wordLength,
+  maxGuesses = getMultiBoardGuessBudget(boardCount),
+  language = DEFAULT_LANGUAGE
+}: MultiBoardConfig): MultiBoardState {
+  if (!isMultiBoardCount(boardCount)) {
+    throw new Error(`A multi-board game needs ${MULTI_BOARD_COUNTS.join(', ')} boards`);
+  }
+
+  return {
+    boardCount,
+    wordLength,
+    maxGuesses,
+    language,
+    boards: Array.from({ length: boardCount }, () => []),
+    guessesUsed: 0,
+    currentGuess: '',
+    status: 'playing'
+  };
+}
+
+export function isBoardSolved(state: MultiBoardState, boardIndex: number): boolean {
+  const rows = state.boards[boardIndex];
+  return rows.length > 0 && isSolved(rows[rows.length - 1]);
+}
+
+export function getBoardsSolved(state: MultiBoardState): number {
+  return state.boards.filter((_, i) => isBoardSolved(state, i)).length;
+}
+
+export function getMultiBoardRemainingGuesses(state: MultiBoardState): number {
+  return Math.max(0, state.maxGuesses - state.guessesUsed);
+}
+
+/**
+ * Keyboard colours per board, so each key can show a quadrant per board
+ */
+export function getMultiBoardKeyboardStates(state: MultiBoardState): Record<string, LetterStatus>[] {
+  return state.boards.map(rows => getKeyboardStates(rows));
+}
+
+export function typeMultiBoardLetter(state: MultiBoardState, letter: string): MultiBoardState {
+  const upper = normalizeWord(letter, state.language);
+
+  if (state.status !== 'playing' || !isLanguageLetter(upper, state.language)) return state;
+  if (state.currentGuess.length >= state.wordLength) return state;
+
+  return { ...state, currentGuess: state.currentGuess + upper };
+}
+
+export function deleteMultiBoardLetter(state: MultiBoardState): MultiBoardState {
+  if (state.status !== 'playing' || state.currentGuess.length === 0) return state;
+
+  return { ...state, currentGuess: state.currentGuess.slice(0, -1) };
+}
+
+/**
+ * Record one guess across the boards
+ *
+ * Results for solved or unknown boards are ignored, like the server skips
+ * solved boards. The guess counts once however many boards it was played on.
+ */
+export function applyMultiBoardResults(state: MultiBoardState, results: BoardResult[]): MultiBoardState {
+  if (state.status !== 'playing') return state;
+
+  const boards = state.boards.map((rows, i) => {
+    if (isBoardSolved(state, i)) return rows;
+
+    const result = results.find(entry => entry.word_index === i);
+    if (!result || !isGuessResult(result.letter_results, state.wordLength)) return rows;
+
+    return [...rows, result.letter_results];
+  });
+
+  const next = { ...state, boards, guessesUsed: state.guessesUsed + 1, currentGuess: '' };
+  const allSolved = getBoardsSolved(next) === state.boardCount;
+
+  return {
+    ...next,
+    status: allSolved ? 'won' : next.guessesUsed >= state.maxGuesses ? 'lost' : 'playing'
+  };
+}
+
+/**
+ * Score the current guess locally against one target per board
+ */
+export function submitMultiBoardGuess(state: MultiBoardState, targets: string[]): MultiBoardState {
+  if (state.status !== 'playing' || state.currentGuess.length !== state.wordLength) return state;
+
+  if (targets.length !== state.boardCount) {
+    throw new Error(`Expected ${state.boardCount} target words`);
+  }
+
+  const results = targets.map((target, i) => ({
+    word_index: i,
+    letter_results: scoreGuess(state.currentGuess, normalizeWord(target, state.language))
+  }));
+
+  return applyMultiBoardResults(state, results);
+}
+
+/**
+ * Rebuild a multi-board game from stored attempts
+ *
+ * submit_attempt stores one game_attempts row per board played, all with the
+ * guess's attempt_number, so rows are regrouped by attempt before replaying.
+ */
+export function restoreMultiBoardGame(
+  config: MultiBoardConfig,
+  attempts: RecordedAttempt[],
+  participation?: RecordedParticipation | null
+): MultiBoardState {
+  const byAttempt = new Map<number, BoardResult[]>();
+
+  for (const attempt of attempts) {
+    if (!isGuessResult(attempt.letter_results, config.wordLength)) continue;
+
+    const results = byAttempt.get(attempt.attempt_number) || [];
+    results.push({ word_index: attempt.word_index, letter_results: attempt.letter_results });
+    byAttempt.set(attempt.attempt_number, results);
+  }
+
+  const state = [...byAttempt.entries()]
+    .sort(([a], [b]) => a - b)
+    .reduce((current, [, results]) => applyMultiBoardResults(current, results), createMultiBoardGame(config));
+
+  if (state.status === 'playing' && (participation?.status === 'failed' || participation?.status === 'disqualified')) {
+    return { ...state, status: 'lost' };
+  }
+
+  return state;
+}
@@ -0,0 +1,45 @@
+/**
+ * Offline Word List
+ * Bundled practice words, used when the Supabase dictionary can't be reached
+ *
+ * Every word here is also seeded into the dictionary table (migration 030),
+ * so an offline secret is always a valid online guess.
+ */
+
+export const OFFLINE_WORDS: Record<number, readonly string[]> = {
+  4: [
+    'GAME', 'WORD', 'PLAY', 'TIME', 'BLUE', 'FISH', 'STAR', 'MOON', 'TREE', 'RAIN',
+    'SNOW', 'WIND', 'FIRE', 'GOLD', 'SHIP', 'LAMP', 'DOOR', 'BOOK', 'CAKE', 'FROG',
+    'KING', 'LAKE', 'MILK', 'ROAD', 'SONG'
+  ],
+  5: [
+    'CRANE', 'HOUSE', 'PLANT', 'MUSIC', 'BREAD', 'CHAIR', 'LIGHT', 'RIVER', 'STONE', 'TRAIN',
+    'HEART', 'GHOST', 'SMILE', 'BEACH', 'CLOUD', 'DREAM', 'FLAME', 'GRAPE', 'HONEY', 'JUICE',
+    'LEMON', 'NIGHT', 'OCEAN', 'QUIET', 'TIGER'
+  ],
+  6: [
+    'PUZZLE', 'GARDEN', 'SILVER', 'BRIDGE', 'CASTLE', 'DRAGON', 'FOREST', 'WINTER', 'BUTTER', 'CANDLE',
+    'FLOWER', 'GUITAR', 'ISLAND', 'JUNGLE', 'MARKET', 'ORANGE', 'PLANET', 'ROCKET', 'SUMMER', 'TICKET',
+    'VALLEY', 'WINDOW', 'YELLOW', 'ANCHOR', 'BASKET'
+  ],
+  7: [
+    'BALANCE', 'CAPTAIN', 'DIAMOND', 'EXAMPLE', 'FREEDOM', 'GALLERY', 'HARVEST', 'JOURNEY', 'KITCHEN', 'LIBRARY',
+    'MACHINE', 'NETWORK', 'PICTURE', 'QUANTUM', 'RAINBOW', 'SCIENCE', 'THUNDER', 'UNIFORM', 'VILLAGE', 'WEATHER',
+    'BLANKET', 'CHICKEN', 'DOLPHIN', 'FASHION', 'MONSTER'
+  ],
+  8: [
+    'ABSOLUTE', 'BUILDING', 'CHAMPION', 'DAUGHTER', 'ELEPHANT', 'FESTIVAL', 'GRATEFUL', 'HOSPITAL', 'INTERNET', 'KEYBOARD',
+    'LANGUAGE', 'MOUNTAIN', 'NOTEBOOK', 'PAINTING', 'QUESTION', 'SANDWICH', 'TOMORROW', 'UMBRELLA', 'VACATION', 'YOURSELF',
+    'DINOSAUR', 'FOOTBALL', 'MIDNIGHT', 'SUNSHINE', 'TREASURE'
+  ],
+  9: [
+    'ADVENTURE', 'BEAUTIFUL', 'CHOCOLATE', 'DANGEROUS', 'EDUCATION', 'FANTASTIC', 'GUARANTEE', 'HAPPINESS', 'IMPORTANT', 'KNOWLEDGE',
+    'LANDSCAPE', 'NEWSPAPER', 'ORCHESTRA', 'POTENTIAL', 'QUALIFIED', 'SCULPTURE', 'TELESCOPE', 'UNIVERSAL', 'VEGETABLE', 'WONDERFUL',
+    'YESTERDAY', 'ASTRONAUT', 'BUTTERFLY', 'CROCODILE', 'DETECTIVE'
+  ],
+  10: [
+    'ABSOLUTELY', 'BASKETBALL', 'DICTIONARY', 'EXPERIENCE', 'FRIENDSHIP', 'GENERATION', 'HELICOPTER', 'INNOVATION', 'JOURNALIST', 'LIGHTHOUSE',
+    'MYSTERIOUS', 'PHOTOGRAPH', 'QUARANTINE', 'RESTAURANT', 'STRAWBERRY', 'TELEVISION', 'UNDERSTAND', 'VOCABULARY', 'WATERMELON', 'BACKGROUND',
+    'COMPLETELY', 'DIFFERENCE', 'EVERYTHING', 'FOUNDATION', 'ADDITIONAL'
+  ]
+};
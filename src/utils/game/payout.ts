@@ -0,0 +1,76 @@
+/**
+ * Winner Payouts
+ * Turn complete_bounty_with_winners rows into one escrow payout
+ *
+ * WordleBountyEscrow.completeBountyWithWinners takes the winners and a
+ * weight per winner and splits the net prize (after the platform fee) in
+ * one transaction. The database prize_share values are the weights, in
+ * tinybars so no decimals are lost.
+ */
+
+import { HBAR_DECIMALS, toBaseUnits } from './tokens';
+
+export const TINYBARS_PER_HBAR = 100_000_000n;
+
+/**
+ * A row returned by complete_bounty_with_winners
+ */
+export interface BountyWinnerRow {
+  winner_user_id: string;
+  prize_awarded: number | string;
+  winner_rank: number;
+}
+
+/**
+ * Arguments for completeBountyWithWinners, best ranked first
+ */
+export interface WinnerPayout {
+  winnerAddresses: string[];
+  shares: bigint[];
+}
+
+/**
+ * HBAR amount (DECIMAL(20, 8) from the database) to tinybars
+ */
+export function hbarToTinybars(amount: number | string): bigint {
+  return toBaseUnits(amount, HBAR_DECIMALS, 'HBAR');
+}
+
+/**
+ * Winners and share weights for completeBountyWithWinners
+ *
+ * walletByUser maps winner_user_id to the winner's wallet address (the
+ * modal's participant list). Throws for a winner without a wallet or a
+ * share, which the contract would reject anyway.
+ */
+export function buildWinnerPayout(winners: BountyWinnerRow[], walletByUser: Record<string, string>): WinnerPayout {
+  const ranked = [...winners].sort((a, b) => a.winner_rank - b.winner_rank);
+
+  return {
+    winnerAddresses: ranked.map(winner => {
+      const address = walletByUser[winner.winner_user_id];
+      if (!address) throw new Error(`No wallet address for winner ${winner.winner_user_id}`);
+      return address;
+    }),
+    shares: ranked.map(winner => {
+      const share = hbarToTinybars(winner.prize_awarded);
+      if (share <= 0n) throw new Error(`Winner ${winner.winner_user_id} has no prize share`);
+      return share;
+    })
+  };
+}
+
+/**
+ * What each winner receives, split like the contract: proportional shares
+ * rounded down, with the rounding dust going to the last winner
+ */
+export function splitNetPrize(netPrize: bigint, shares: bigint[]): bigint[] {
+  const totalShares = shares.reduce((sum, share) => sum + share, 0n);
+  if (totalShares === 0n) return shares.map(() => 0n);
+
+  const amounts = shares.map(share => (netPrize * share) / totalShares);
+  const paid = amounts.slice(0, -1).reduce((sum, amount) => sum + amount, 0n);
+  amounts[amounts.length - 1] = netPrize - paid;
+
+  return amounts;
+}
@@ -0,0 +1,109 @@
+/**
+ * Practice Words
+ * Picks practice secrets and validates guesses against the dictionary,
+ * falling back to the bundled offline list when Supabase can't be reached
+ *
+ * The dictionary calls are passed in (getRandomWords / validateWord from
+ * utils/dictionary) so this module stays framework-free.
+ */
+
+import { MIN_WORD_LENGTH, MAX_WORD_LENGTH, type GuessValidation } from './wordle-engine';
+import { OFFLINE_WORDS } from './offline-words';
+
+export type WordOrigin = 'dictionary' | 'offline';
+
+/**
+ * Dictionary access used by practice mode. Implementations should reject
+ * (throw) when the backend is unreachable rather than report "not found".
+ */
+export interface PracticeWordSource {
+  getRandomWords(count: number, wordLength?: number): Promise<string[]>;
+  validateWord(word: string): Promise<boolean>;
+}
+
+export interface PracticeWord {
+  word: string;
+  origin: WordOrigin;
+}
+
+export interface PracticeGuessValidation extends GuessValidation {
+  origin: WordOrigin;
+}
+
+const WORD_PATTERN = /^[A-Z]+$/;
+
+function assertPracticeLength(length: number): void {
+  if (!Number.isInteger(length) || length < MIN_WORD_LENGTH || length > MAX_WORD_LENGTH) {
+    throw new Error(`Word length must be between ${MIN_WORD_LENGTH} and ${MAX_WORD_LENGTH}`);
+  }
+}
+
+/**
+ * A random word from the bundled list
+ */
+export function getOfflineWord(length: number, random: () => number = Math.random): string {
+  assertPracticeLength(length);
+
+  const words = OFFLINE_WORDS[length];
+  return words[Math.floor(random() * words.length)];
+}
+
+/**
+ * Pick a secret for a practice game
+ *
+ * Uses the dictionary when it answers with a usable word of the right
+ * length; otherwise (error, empty result, wrong length) uses the offline list.
+ */
+export async function pickPracticeWord(
+  length: number,
+  source?: PracticeWordSource | null,
+  random: () => number = Math.random
+): Promise<PracticeWord> {
+  assertPracticeLength(length);
+
+  if (source) {
+    try {
+      const candidates = (await source.getRandomWords(1, length))
+        .map(word => word.toUpperCase())
+        .filter(word => word.length === length && WORD_PATTERN.test(word));
+
+      if (candidates.length > 0) {
+        return { word: candidates[0], origin: 'dictionary' };
+      }
+    } catch (error) {
+      console.warn('Dictionary unavailable, using offline word list:', error);
+    }
+  }
+
+  return { word: getOfflineWord(length, random), origin: 'offline' };
+}
+
+/**
+ * Check that a practice guess is a real word
+ *
+ * Offline there is no full word list to check against, so any guess made of
+ * letters is accepted and the result is marked 'offline'.
+ */
+export async function validatePracticeGuess(
+  guess: string,
+  source?: PracticeWordSource | null
+): Promise<PracticeGuessValidation> {
+  const word = guess.toUpperCase();
+
+  if (!WORD_PATTERN.test(word)) {
+    return { isValid: false, message: 'Guess must contain only letters', origin: 'offline' };
+  }
+
+  if (source) {
+    try {
+      const isValid = await source.validateWord(word);
+      return isValid
+        ? { isValid: true, origin: 'dictionary' }
+        : { isValid: false, message: 'Not in word list', origin: 'dictionary' };
+    } catch (error) {
+      console.warn('Dictionary unavailable, accepting guess offline:', error);
+    }
+  }
+
+  return { isValid: true, origin: 'offline' };
+}
@@ -0,0 +1,78 @@
+/**
+ * Prize Claims
+ * Pending prizes and claim countdowns for PrizeClaimModal and ProfilePage
+ *
+ * Completing a bounty only credits the winners on the escrow. Each winner
+ * withdraws with claimPrize before the bounty's claim deadline; after it,
+ * sweepUnclaimedPrize returns what is left to the creator or the platform
+ * (migration 045).
+ */
+
+const SECOND_MS = 1000;
+const MINUTE_MS = 60 * SECOND_MS;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * A row returned by get_pending_prize_claims
+ */
+export interface PendingPrizeClaim {
+  bounty_id: string;
+  bounty_name: string;
+  prize_amount: number | string;
+  prize_currency: string;
+  prize_token_id: string | null;
+  claim_deadline: string;
+}
+
+export interface ClaimCountdown {
+  expired: boolean;
+  remainingMs: number;
+  label: string;
+}
+
+/**
+ * The claimDeadline of a PrizeClaimable event (unix seconds) as the
+ * timestamp set_prize_claim_deadline takes
+ */
+export function claimDeadlineToIso(claimDeadline: bigint | number | string): string {
+  const seconds = Number(claimDeadline);
+  if (!Number.isSafeInteger(seconds) || seconds <= 0) {
+    throw new Error(`Invalid claim deadline: ${claimDeadline}`);
+  }
+
+  return new Date(seconds * SECOND_MS).toISOString();
+}
+
+/**
+ * Time left to claim, e.g. "12d 4h", "3h 20m" or "45s"
+ */
+export function getClaimCountdown(claimDeadline: string, now: Date = new Date()): ClaimCountdown {
+  const remainingMs = Math.max(0, Date.parse(claimDeadline) - now.getTime());
+  if (remainingMs === 0) {
+    return { expired: true, remainingMs, label: 'Claim period ended' };
+  }
+
+  const days = Math.floor(remainingMs / DAY_MS);
+  const hours = Math.floor((remainingMs % DAY_MS) / HOUR_MS);
+  const minutes = Math.floor((remainingMs % HOUR_MS) / MINUTE_MS);
+  const seconds = Math.floor((remainingMs % MINUTE_MS) / SECOND_MS);
+
+  let label: string;
+  if (days > 0) label = `${days}d ${hours}h`;
+  else if (hours > 0) label = `${hours}h ${minutes}m`;
+  else if (minutes > 0) label = `${minutes}m ${seconds}s`;
+  else label = `${seconds}s`;
+
+  return { expired: false, remainingMs, label };
+}
+
+/**
+ * Claims that can still be made, soonest deadline first. The list from
+ * get_pending_prize_claims goes stale while ProfilePage stays open.
+ */
+export function getOpenPrizeClaims(claims: PendingPrizeClaim[], now: Date = new Date()): PendingPrizeClaim[] {
+  return claims
+    .filter(claim => !getClaimCountdown(claim.claim_deadline, now).expired)
+    .sort((a, b) => Date.parse(a.claim_deadline) - Date.parse(b.claim_deadline));
+}
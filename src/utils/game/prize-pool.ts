@@ -0,0 +1,74 @@
+/**
+ * Prize Pools
+ * What an entry-fee bounty is worth right now (migration 042)
+ *
+ * Every join pays the bounty's entry_fee into the escrowed prize, so the
+ * pool is the creator's prize_amount plus the fees collected so far.
+ * BountyCard and GameplayPage keep it live from postgres_changes updates
+ * on bounties.
+ */
+
+import { TINYBARS_PER_HBAR, hbarToTinybars } from './payout';
+import { HBAR_DECIMALS, fromBaseUnits } from './tokens';
+
+/**
+ * The prize fields of a bounties row or get_bounty_details result
+ */
+export interface BountyPrize {
+  id: string;
+  prize_amount: number | string;
+  entry_fee?: number | string | null;
+  entry_fees_collected?: number | string | null;
+  prize_pool?: number | string | null;
+  participant_count?: number;
+}
+
+export function tinybarsToHbar(tinybars: bigint): number {
+  return Number(tinybars) / Number(TINYBARS_PER_HBAR);
+}
+
+function prizePoolTinybars(bounty: BountyPrize): bigint {
+  if (bounty.prize_pool != null) return hbarToTinybars(bounty.prize_pool);
+
+  return hbarToTinybars(bounty.prize_amount) + hbarToTinybars(bounty.entry_fees_collected ?? 0);
+}
+
+/**
+ * Current pool in HBAR. Older rows and payloads without prize_pool fall
+ * back to prize_amount plus the fees collected.
+ */
+export function getPrizePool(bounty: BountyPrize): number {
+  return tinybarsToHbar(prizePoolTinybars(bounty));
+}
+
+export function hasEntryFee(bounty: BountyPrize): boolean {
+  return bounty.entry_fee != null && hbarToTinybars(bounty.entry_fee) > 0n;
+}
+
+/**
+ * Merge a realtime bounties update into the bounty on screen. Updates for
+ * other bounties leave it untouched.
+ */
+export function applyPrizePoolUpdate<T extends BountyPrize>(bounty: T, update: Partial<BountyPrize>): T {
+  if (update.id !== bounty.id) return bounty;
+
+  return {
+    ...bounty,
+    ...(update.prize_amount != null && { prize_amount: update.prize_amount }),
+    ...(update.entry_fees_collected != null && { entry_fees_collected: update.entry_fees_collected }),
+    ...(update.prize_pool != null && { prize_pool: update.prize_pool }),
+    ...(update.participant_count != null && { participant_count: update.participant_count }),
+  };
+}
+
+/**
+ * What the winners share after the escrow's platform fee, rounded down to
+ * the currency's smallest unit like calculateNetPrize. Token bounties pass
+ * the token's decimals (at most 8, migration 043).
+ */
+export function netPrizePool(bounty: BountyPrize, platformFeeBps: number, decimals = HBAR_DECIMALS): number {
+  const gross = prizePoolTinybars(bounty) / 10n ** BigInt(HBAR_DECIMALS - decimals);
+  const fee = (gross * BigInt(platformFeeBps)) / 10_000n;
+
+  return Number(fromBaseUnits(gross - fee, decimals));
+}
@@ -0,0 +1,103 @@
+/**
+ * Word Puzzles
+ * Rules for Word-ladder and Anagram bounties (see submit_puzzle_attempt)
+ *
+ * The server is the referee; these checks mirror its rules and messages so
+ * the game screen can reject a bad step before it is sent. Dictionary
+ * membership still needs validateWord, which is async and lives with the
+ * Supabase client.
+ */
+
+import { resultToWord, type GuessResult, type GuessValidation } from './wordle-engine';
+
+export type PuzzleType = 'Word-ladder' | 'Anagram';
+
+/** bounties.puzzle for a Word-ladder bounty */
+export interface WordLadderPuzzle {
+  start_word: string;
+  target_word: string;
+}
+
+/** bounties.puzzle for an Anagram bounty */
+export interface AnagramPuzzle {
+  letters: string;
+}
+
+/**
+ * Prefixes submit_attempt puts on puzzle rejections, followed by the same
+ * message checkLadderStep / checkAnagramGuess return
+ */
+export const WORD_LADDER_ERROR_PREFIX = 'Word ladder: ';
+export const ANAGRAM_ERROR_PREFIX = 'Anagram: ';
+
+/**
+ * Number of positions where two words differ; words of different lengths
+ * also count every extra letter
+ */
+export function countLetterChanges(from: string, to: string): number {
+  const a = from.toUpperCase();
+  const b = to.toUpperCase();
+  let changes = Math.abs(a.length - b.length);
+
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) changes++;
+  }
+
+  return changes;
+}
+
+/**
+ * The words on a ladder so far, start word first
+ */
+export function getLadder(startWord: string, rows: GuessResult[]): string[] {
+  return [startWord.toUpperCase(), ...rows.map(resultToWord)];
+}
+
+/**
+ * Check the next ladder step: one letter changed from the top of the ladder,
+ * and not a word that is already on it
+ */
+export function checkLadderStep(ladder: string[], next: string): GuessValidation {
+  const step = next.toUpperCase();
+  const previous = ladder[ladder.length - 1];
+
+  if (countLetterChanges(previous, step) !== 1) {
+    return { isValid: false, message: `Change exactly one letter of ${previous}` };
+  }
+
+  if (ladder.includes(step)) {
+    return { isValid: false, message: `${step} is already on your ladder` };
+  }
+
+  return { isValid: true };
+}
+
+function sortLetters(word: string): string {
+  return word.toUpperCase().split('').sort().join('');
+}
+
+/**
+ * Check that a guess uses each of the given letters exactly once
+ */
+export function checkAnagramGuess(letters: string, guess: string): GuessValidation {
+  if (sortLetters(guess) !== sortLetters(letters)) {
+    return { isValid: false, message: `Use each of the letters ${letters.toUpperCase()} exactly once` };
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Extract the broken rule from a submit_attempt error, or null if the error
+ * is not a puzzle rejection
+ */
+export function getPuzzleViolation(errorMessage: string | null | undefined): string | null {
+  if (!errorMessage) return null;
+
+  for (const prefix of [WORD_LADDER_ERROR_PREFIX, ANAGRAM_ERROR_PREFIX]) {
+    const index = errorMessage.indexOf(prefix);
+    if (index !== -1) return errorMessage.slice(index + prefix.length).trim() || null;
+  }
+
+  return null;
+}
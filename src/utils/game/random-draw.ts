@@ -0,0 +1,104 @@
+/**
+ * Random Word Draws
+ * Re-run a Random words bounty's server-side draw (migration 041)
+ *
+ * The server commits to a secret seed when the bounty is created and mixes
+ * it with the hash of the block holding createBounty at activation
+ * (migration 051). Once the bounty ends, get_bounty_draw reveals the seed,
+ * and verifyRandomDraw repeats every step against the dictionary pool from
+ * random_word_pool.
+ */
+
+/**
+ * What get_bounty_draw returns; the seeds and words are null until the
+ * bounty has ended
+ */
+export interface RandomDraw {
+  seed_commitment: string;
+  language: string;
+  word_length: number;
+  words_count: number;
+  common_only: boolean;
+  entropy: string | null;
+  /** Block whose hash is the entropy, for looking it up on HashScan */
+  entropy_block: number | null;
+  pool_size: number | null;
+  pool_hash: string | null;
+  drawn_at: string | null;
+  server_seed: string | null;
+  seed: string | null;
+  words: string[] | null;
+}
+
+export type DrawCheck = 'commitment' | 'seed' | 'pool' | 'words';
+
+export interface DrawVerification {
+  status: 'pending' | 'verified' | 'mismatch';
+  /** First check that failed, when status is mismatch */
+  failed?: DrawCheck;
+}
+
+/**
+ * Lowercase hex SHA-256 of a UTF-8 string, like encode(digest(text, 'sha256'), 'hex')
+ */
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Sort a pool the way random_word_pool does (byte order, not locale order)
+ */
+export function sortWordPool(words: string[]): string[] {
+  return [...words].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+}
+
+export function computeDrawSeed(serverSeed: string, entropy: string): Promise<string> {
+  return sha256Hex(`${serverSeed}:${entropy.toLowerCase()}`);
+}
+
+/**
+ * Same draw as draw_random_words: pool[first 8 hex digits of
+ * sha256(seed:n) mod pool size] for n = 0, 1, 2, ..., skipping repeats
+ */
+export async function drawRandomWords(seed: string, pool: string[], count: number): Promise<string[]> {
+  if (pool.length < count) {
+    throw new Error(`Can't draw ${count} words from a pool of ${pool.length}`);
+  }
+
+  const words: string[] = [];
+
+  for (let n = 0; words.length < count; n++) {
+    const hash = await sha256Hex(`${seed}:${n}`);
+    const word = pool[parseInt(hash.slice(0, 8), 16) % pool.length];
+
+    if (!words.includes(word)) words.push(word);
+  }
+
+  return words;
+}
+
+/**
+ * Check a revealed draw step by step against the dictionary pool
+ */
+export async function verifyRandomDraw(draw: RandomDraw, pool: string[]): Promise<DrawVerification> {
+  if (!draw.server_seed || !draw.seed || !draw.entropy || !draw.words) return { status: 'pending' };
+
+  const sortedPool = sortWordPool(pool);
+
+  if (await sha256Hex(draw.server_seed) !== draw.seed_commitment) {
+    return { status: 'mismatch', failed: 'commitment' };
+  }
+  if (await computeDrawSeed(draw.server_seed, draw.entropy) !== draw.seed) {
+    return { status: 'mismatch', failed: 'seed' };
+  }
+  if (await sha256Hex(sortedPool.join(',')) !== draw.pool_hash) {
+    return { status: 'mismatch', failed: 'pool' };
+  }
+
+  const words = await drawRandomWords(draw.seed, sortedPool, draw.words_count);
+  const matches = words.length === draw.words.length && words.every((word, i) => word === draw.words?.[i]);
+
+  return matches ? { status: 'verified' } : { status: 'mismatch', failed: 'words' };
+}
@@ -0,0 +1,89 @@
+/**
+ * Replays
+ * Step-by-step playback of a participant's stored guesses (see get_bounty_replay)
+ *
+ * Every frame is a full game state, so the replay view can render any step
+ * with the same board components as live play and animate the newest row.
+ */
+
+import {
+  createGame,
+  applyGuessResult,
+  getCurrentWordLength,
+  isGuessResult,
+  type GameConfig,
+  type GameState,
+  type GuessResult,
+  type RecordedAttempt
+} from './wordle-engine';
+
+/**
+ * A game_attempts row as returned by get_bounty_replay
+ */
+export interface ReplayAttempt extends RecordedAttempt {
+  guessed_word: string;
+  time_taken_seconds: number | null;
+  created_at?: string;
+  elapsed_seconds?: number | null;
+}
+
+export interface ReplayFrame {
+  /** 1-based step number */
+  step: number;
+  wordIndex: number;
+  attemptNumber: number;
+  /** The row this step adds */
+  result: GuessResult;
+  /** Board after this step */
+  state: GameState;
+  /** Seconds this guess took */
+  durationSeconds: number;
+  /** Seconds from the start of play to this guess */
+  elapsedSeconds: number;
+}
+
+/**
+ * Replays are only offered once the bounty is completed; the server enforces
+ * the same rule
+ */
+export function isReplayAvailable(bountyStatus: string | null | undefined): boolean {
+  return bountyStatus === 'completed';
+}
+
+/**
+ * Build one frame per stored guess, in play order
+ *
+ * Uses the same rules as restoreGame: rows that don't fit the word being
+ * played are skipped. When the server didn't send elapsed_seconds, elapsed
+ * time is the running total of time_taken_seconds.
+ */
+export function buildReplayFrames(config: GameConfig, attempts: ReplayAttempt[]): ReplayFrame[] {
+  const ordered = [...attempts].sort(
+    (a, b) => a.word_index - b.word_index || a.attempt_number - b.attempt_number
+  );
+
+  const frames: ReplayFrame[] = [];
+  let state = createGame(config);
+  let runningSeconds = 0;
+
+  for (const attempt of ordered) {
+    if (state.status !== 'playing' || attempt.word_index !== state.currentWordIndex) continue;
+    if (!isGuessResult(attempt.letter_results, getCurrentWordLength(state))) continue;
+
+    const durationSeconds = Math.max(0, attempt.time_taken_seconds || 0);
+    runningSeconds += durationSeconds;
+    state = applyGuessResult(state, attempt.letter_results);
+
+    frames.push({
+      step: frames.length + 1,
+      wordIndex: attempt.word_index,
+      attemptNumber: attempt.attempt_number,
+      result: attempt.letter_results,
+      state,
+      durationSeconds,
+      elapsedSeconds: attempt.elapsed_seconds ?? runningSeconds
+    });
+  }
+
+  return frames;
+}
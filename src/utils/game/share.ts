@@ -0,0 +1,130 @@
+/**
+ * Share Grids
+ * Spoiler-free emoji results, like classic Wordle shares
+ *
+ * Grids are built from letter_results only: they show tile colours and never
+ * the letters, so sharing mid-bounty gives nothing away.
+ */
+
+import { isGuessResult, type GuessResult, type LetterStatus, type RecordedAttempt } from './wordle-engine';
+
+export type ShareEmojiSet = Record<LetterStatus, string>;
+
+export const SHARE_EMOJI: ShareEmojiSet = {
+  correct: '🟩',
+  present: '🟨',
+  absent: '⬛'
+};
+
+/** Orange/blue, for players using the colour-blind palette */
+export const HIGH_CONTRAST_SHARE_EMOJI: ShareEmojiSet = {
+  correct: '🟧',
+  present: '🟦',
+  absent: '⬛'
+};
+
+export interface ShareSummary {
+  /** First line, e.g. 'Web3 Wordle Daily 2026-10-19' */
+  title: string;
+  /** Scored rows per word, in play order */
+  words: GuessResult[][];
+  /** Number of words the game had; unplayed words show as X */
+  totalWords?: number;
+  maxGuesses: number;
+  timeSeconds?: number | null;
+  hintsUsed?: number;
+  url?: string;
+  emoji?: ShareEmojiSet;
+}
+
+/**
+ * Group stored attempts into scored rows per word
+ *
+ * Takes game_attempts rows (or any rows with word_index / attempt_number /
+ * letter_results) in any order. Rows with unusable letter_results are dropped.
+ */
+export function attemptsToShareRows(attempts: RecordedAttempt[]): GuessResult[][] {
+  const ordered = [...attempts].sort(
+    (a, b) => a.word_index - b.word_index || a.attempt_number - b.attempt_number
+  );
+  const words: GuessResult[][] = [];
+
+  for (const attempt of ordered) {
+    const value = attempt.letter_results;
+    if (!Array.isArray(value) || !isGuessResult(value, value.length)) continue;
+
+    if (!words[attempt.word_index]) words[attempt.word_index] = [];
+    words[attempt.word_index].push(value);
+  }
+
+  return words.filter(Boolean);
+}
+
+/**
+ * One emoji line per guess
+ */
+export function buildShareGrid(rows: GuessResult[], emoji: ShareEmojiSet = SHARE_EMOJI): string {
+  return rows
+    .map(row => row.map(tile => emoji[tile.status]).join(''))
+    .join('\n');
+}
+
+function isWordSolved(rows: GuessResult[]): boolean {
+  const last = rows[rows.length - 1];
+  return !!last && last.length > 0 && last.every(tile => tile.status === 'correct');
+}
+
+/**
+ * Guesses used out of the maximum, or X when the word wasn't solved
+ */
+export function getShareScore(rows: GuessResult[], maxGuesses: number): string {
+  return `${isWordSolved(rows) ? rows.length : 'X'}/${maxGuesses}`;
+}
+
+/**
+ * Seconds as m:ss, or h:mm:ss past an hour
+ */
+export function formatShareTime(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.floor(totalSeconds));
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = String(seconds % 60).padStart(2, '0');
+
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
+
+/**
+ * Full share text: title with score, extras, one grid per word and the link
+ *
+ * Single-word games put the score on the title line ("… 3/6"); multistage
+ * games list a score per word above each grid.
+ */
+export function buildShareText(summary: ShareSummary): string {
+  const { title, words, maxGuesses, timeSeconds, hintsUsed, url, emoji = SHARE_EMOJI } = summary;
+  const totalWords = Math.max(summary.totalWords ?? words.length, words.length, 1);
+  const isMultiWord = totalWords > 1;
+
+  const extras: string[] = [];
+  if (timeSeconds != null) extras.push(`⏱ ${formatShareTime(timeSeconds)}`);
+  if (hintsUsed) extras.push(`💡 ${hintsUsed}`);
+
+  const lines: string[] = [
+    isMultiWord ? title : `${title} ${getShareScore(words[0] || [], maxGuesses)}`
+  ];
+
+  if (isMultiWord) {
+    lines.push(`${words.filter(isWordSolved).length}/${totalWords} words`);
+  }
+  if (extras.length > 0) lines.push(extras.join('  '));
+
+  for (let i = 0; i < totalWords; i++) {
+    const rows = words[i] || [];
+    lines.push('');
+    if (isMultiWord) lines.push(`Word ${i + 1}: ${getShareScore(rows, maxGuesses)}`);
+    if (rows.length > 0) lines.push(buildShareGrid(rows, emoji));
+  }
+
+  if (url) lines.push('', url);
+
+  return lines.join('\n');
+}
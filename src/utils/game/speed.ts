@@ -0,0 +1,28 @@
+/**
+ * Speed Challenge
+ * Scoring rules for speed runs (see submit_speed_guess)
+ *
+ * The server keeps the score; these mirror its rules so the UI can show
+ * what a word is worth before it is solved.
+ */
+
+export const SPEED_RUN_SECONDS = 300;
+export const SPEED_MAX_GUESSES = 6;
+export const SPEED_BASE_POINTS = 100;
+export const SPEED_GUESS_BONUS = 20;
+export const SPEED_MAX_MULTIPLIER = 5;
+
+/**
+ * Score multiplier for a combo (words solved in a row, including this one)
+ */
+export function getSpeedMultiplier(combo: number): number {
+  return Math.min(Math.max(combo, 1), SPEED_MAX_MULTIPLIER);
+}
+
+/**
+ * Points for solving a word in `guessesUsed` guesses at the given combo
+ */
+export function getSpeedWordPoints(guessesUsed: number, combo: number): number {
+  const unusedGuesses = Math.max(0, SPEED_MAX_GUESSES - guessesUsed);
+  return (SPEED_BASE_POINTS + SPEED_GUESS_BONUS * unusedGuesses) * getSpeedMultiplier(combo);
+}
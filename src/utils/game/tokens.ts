@@ -0,0 +1,97 @@
+/**
+ * Prize Tokens
+ * Amounts in HBAR or an HTS fungible token (migration 043)
+ *
+ * The escrow works in each currency's smallest unit: tinybars for HBAR and
+ * the token's own decimals for HTS tokens. Only msg.value sent through the
+ * JSON-RPC relay is in weibars (18 decimals), which the relay turns back
+ * into tinybars.
+ */
+
+export const HBAR_DECIMALS = 8;
+export const WEIBARS_PER_TINYBAR = 10_000_000_000n;
+
+/**
+ * A prize_tokens row, or HBAR
+ */
+export interface PrizeToken {
+  symbol: string;
+  token_id: string | null;
+  evm_address: string | null;
+  decimals: number;
+}
+
+export const HBAR: PrizeToken = {
+  symbol: 'HBAR',
+  token_id: null,
+  evm_address: null,
+  decimals: HBAR_DECIMALS,
+};
+
+export function isTokenPrize(token: PrizeToken): boolean {
+  return token.evm_address !== null;
+}
+
+/**
+ * The token a bounty's prize_currency refers to
+ */
+export function findPrizeToken(currency: string | null | undefined, tokens: PrizeToken[]): PrizeToken {
+  const symbol = (currency ?? HBAR.symbol).toUpperCase();
+  if (symbol === HBAR.symbol) return HBAR;
+
+  const token = tokens.find(candidate => candidate.symbol === symbol);
+  if (!token) throw new Error(`Unknown prize currency: ${currency}`);
+
+  return token;
+}
+
+/**
+ * Decimal amount (as stored in the database) to the token's smallest unit
+ */
+export function toBaseUnits(amount: number | string, decimals: number, symbol = 'token'): bigint {
+  const [whole, fraction = ''] = String(amount).trim().split('.');
+  const digits = fraction.replace(/0+$/, '');
+
+  if (!/^\d+$/.test(whole) || !/^\d*$/.test(fraction) || digits.length > decimals) {
+    throw new Error(`Invalid ${symbol} amount: ${amount}`);
+  }
+
+  return BigInt(whole) * 10n ** BigInt(decimals) + BigInt(digits.padEnd(decimals, '0') || '0');
+}
+
+/**
+ * Smallest units back to a decimal string without trailing zeros
+ */
+export function fromBaseUnits(units: bigint, decimals: number): string {
+  const scale = 10n ** BigInt(decimals);
+  const sign = units < 0n ? '-' : '';
+  const absolute = units < 0n ? -units : units;
+  const fraction = (absolute % scale).toString().padStart(decimals, '0').replace(/0+$/, '');
+
+  return `${sign}${absolute / scale}${fraction ? `.${fraction}` : ''}`;
+}
+
+/**
+ * A prize for display, e.g. "12.5 USDC": never more decimals than the
+ * token has, and no trailing zeros. Numbers are rounded to the token's
+ * decimals first.
+ */
+export function formatTokenAmount(amount: number | string, token: PrizeToken): string {
+  const text = typeof amount === 'number' ? amount.toFixed(token.decimals) : amount;
+
+  return `${fromBaseUnits(toBaseUnits(text, token.decimals, token.symbol), token.decimals)} ${token.symbol}`;
+}
+
+/**
+ * Value to send with a payable escrow call through JSON-RPC
+ */
+export function tinybarsToWeibars(tinybars: bigint): bigint {
+  return tinybars * WEIBARS_PER_TINYBAR;
+}
+
+/**
+ * Whether the escrow needs an approve() before pulling amount of a token
+ */
+export function needsApproval(token: PrizeToken, allowance: bigint, amount: bigint): boolean {
+  return isTokenPrize(token) && allowance < amount;
+}
@@ -0,0 +1,100 @@
+/**
+ * Trophies
+ * Winner trophy NFTs for CompleteBountyModal and the ProfilePage cabinet
+ *
+ * The escrow mints a WordleTrophy to every winner when a bounty completes
+ * and emits TrophyMinted(tokenId, bountyId, winner). Those events go to
+ * record_bounty_trophies, and get_user_trophies lists them back with their
+ * metadata (migration 044).
+ */
+
+/**
+ * A TrophyMinted event, as decoded from the completion receipt
+ */
+export interface TrophyMintedEvent {
+  tokenId: bigint | number | string;
+  winner: string;
+}
+
+/**
+ * One entry of record_bounty_trophies' trophies argument
+ */
+export interface TrophyMint {
+  token_id: number;
+  winner: string;
+}
+
+export interface TrophyAttribute {
+  trait_type: string;
+  value: string | number;
+  display_type?: string;
+}
+
+/**
+ * get_trophy_metadata JSON
+ */
+export interface TrophyMetadata {
+  name: string;
+  description: string;
+  attributes: TrophyAttribute[];
+  properties: {
+    bounty_id: string;
+    won_at: string;
+    result_grid: string | null;
+  };
+}
+
+/**
+ * A row returned by get_user_trophies
+ */
+export interface TrophyRecord {
+  bounty_id: string;
+  bounty_name: string;
+  contract_address: string;
+  token_serial: number;
+  mint_tx_hash: string;
+  minted_at: string;
+  metadata: TrophyMetadata | null;
+}
+
+export interface TrophyCabinet {
+  trophies: TrophyRecord[];
+  total: number;
+  firstPlaces: number;
+}
+
+/**
+ * Arguments for record_bounty_trophies, one per token, in token order
+ */
+export function toTrophyMints(events: TrophyMintedEvent[]): TrophyMint[] {
+  const byToken = new Map<number, TrophyMint>();
+
+  for (const event of events) {
+    const tokenId = Number(event.tokenId);
+    if (!Number.isSafeInteger(tokenId) || tokenId <= 0) {
+      throw new Error(`Invalid trophy token ID: ${event.tokenId}`);
+    }
+    byToken.set(tokenId, { token_id: tokenId, winner: event.winner.toLowerCase() });
+  }
+
+  return [...byToken.values()].sort((a, b) => a.token_id - b.token_id);
+}
+
+export function getTrophyAttribute(metadata: TrophyMetadata | null, traitType: string): string | number | null {
+  return metadata?.attributes.find(attribute => attribute.trait_type === traitType)?.value ?? null;
+}
+
+/**
+ * Newest trophies first, with the totals shown above the cabinet
+ */
+export function buildTrophyCabinet(trophies: TrophyRecord[]): TrophyCabinet {
+  const sorted = [...trophies].sort(
+    (a, b) => Date.parse(b.minted_at) - Date.parse(a.minted_at) || b.token_serial - a.token_serial
+  );
+
+  return {
+    trophies: sorted,
+    total: sorted.length,
+    firstPlaces: sorted.filter(trophy => getTrophyAttribute(trophy.metadata, 'Rank') === 1).length,
+  };
+}
@@ -0,0 +1,401 @@
+/**
+ * Wordle Engine
+ * Pure game logic shared by every game screen (bounties, practice, future modes)
+ *
+ * Nothing in here touches React, Supabase or the wallet. Bounty games feed
+ * server-computed letter results into the same state transitions that
+ * practice games feed with locally scored guesses.
+ */
+
+import { DEFAULT_LANGUAGE, isLanguageLetter, normalizeWord, type GameLanguage } from './languages';
+
+export type LetterStatus = 'correct' | 'present' | 'absent';
+export type LetterState = LetterStatus | 'empty';
+export type GameStatus = 'playing' | 'won' | 'lost';
+
+/**
+ * One scored tile. Matches the `letter_results` entries stored by submit_attempt.
+ */
+export interface LetterResult {
+  letter: string;
+  status: LetterStatus;
+}
+
+export type GuessResult = LetterResult[];
+
+export interface GameConfig {
+  /** One entry per word; a single-word game has one length */
+  wordLengths: number[];
+  maxGuesses?: number;
+  /** Decides which letters can be typed; defaults to English */
+  language?: GameLanguage;
+}
+
+export interface GameState {
+  wordLengths: number[];
+  maxGuesses: number;
+  language: GameLanguage;
+  currentWordIndex: number;
+  /** Scored rows for the word currently being played */
+  rows: GuessResult[];
+  /** Scored rows of every word already solved, in order */
+  completedWords: GuessResult[][];
+  currentGuess: string;
+  status: GameStatus;
+}
+
+/**
+ * A stored guess, as returned by getUserAttempts (game_attempts rows)
+ */
+export interface RecordedAttempt {
+  word_index: number;
+  attempt_number: number;
+  letter_results: unknown;
+}
+
+/**
+ * The parts of a bounty_participants row needed to restore a game
+ */
+export interface RecordedParticipation {
+  status: 'registered' | 'active' | 'completed' | 'failed' | 'disqualified';
+}
+
+export interface GuessValidation {
+  isValid: boolean;
+  message?: string;
+}
+
+export const MIN_WORD_LENGTH = 4;
+export const MAX_WORD_LENGTH = 10;
+export const DEFAULT_MAX_GUESSES = 6;
+
+const STATUS_PRIORITY: Record<LetterStatus, number> = {
+  absent: 0,
+  present: 1,
+  correct: 2
+};
+
+// ============================================================================
+// Scoring
+// ============================================================================
+
+/**
+ * Score a guess against the target word
+ *
+ * Two passes so duplicate letters are only credited as often as they appear
+ * in the target: exact matches are claimed first, then the remaining target
+ * letters are handed out left to right as 'present'.
+ */
+export function scoreGuess(guess: string, target: string): GuessResult {
+  const guessLetters = guess.toUpperCase().split('');
+  const targetLetters: (string | null)[] = target.toUpperCase().split('');
+
+  if (guessLetters.length !== targetLetters.length) {
+    throw new Error(`Guess must be ${targetLetters.length} letters long`);
+  }
+
+  const results: GuessResult = guessLetters.map(letter => ({ letter, status: 'absent' }));
+
+  // First pass: exact matches
+  guessLetters.forEach((letter, i) => {
+    if (letter === targetLetters[i]) {
+      results[i].status = 'correct';
+      targetLetters[i] = null;
+    }
+  });
+
+  // Second pass: misplaced letters, consuming unmatched copies
+  guessLetters.forEach((letter, i) => {
+    if (results[i].status === 'correct') return;
+
+    const matchIndex = targetLetters.indexOf(letter);
+    if (matchIndex !== -1) {
+      results[i].status = 'present';
+      targetLetters[matchIndex] = null;
+    }
+  });
+
+  return results;
+}
+
+/**
+ * A guess wins when every tile is correct
+ */
+export function isSolved(result: GuessResult): boolean {
+  return result.length > 0 && result.every(tile => tile.status === 'correct');
+}
+
+/**
+ * Turn a scored row back into the guessed word
+ */
+export function resultToWord(result: GuessResult): string {
+  return result.map(tile => tile.letter).join('');
+}
+
+// ============================================================================
+// Keyboard
+// ============================================================================
+
+/**
+ * Best known status for every letter that has been guessed
+ *
+ * A letter keeps its strongest result (correct > present > absent), so a
+ * later 'absent' for a duplicate never hides an earlier 'correct'.
+ */
+export function getKeyboardStates(rows: GuessResult[]): Record<string, LetterStatus> {
+  const states: Record<string, LetterStatus> = {};
+
+  for (const row of rows) {
+    for (const { letter, status } of row) {
+      const known = states[letter];
+      if (!known || STATUS_PRIORITY[status] > STATUS_PRIORITY[known]) {
+        states[letter] = status;
+      }
+    }
+  }
+
+  return states;
+}
+
+// ============================================================================
+// Hard mode
+// ============================================================================
+
+function ordinal(n: number): string {
+  const suffixes = ['th', 'st', 'nd', 'rd'];
+  const v = n % 100;
+  return n + (suffixes[(v - 20) % 10] || suffixes[v] || suffixes[0]);
+}
+
+function countLetters(letters: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  letters.forEach(letter => counts.set(letter, (counts.get(letter) || 0) + 1));
+  return counts;
+}
+
+/**
+ * Check a guess against hard-mode rules
+ *
+ * - Every letter revealed as correct must stay in its position
+ * - Every revealed letter must be reused, as many times as it was revealed
+ *   in a single row
+ *
+ * Returns the first violated rule, worded for display to the player.
+ */
+export function checkHardModeGuess(guess: string, rows: GuessResult[]): GuessValidation {
+  const guessLetters = guess.toUpperCase().split('');
+
+  for (const row of rows) {
+    for (let i = 0; i < row.length; i++) {
+      if (row[i].status === 'correct' && guessLetters[i] !== row[i].letter) {
+        return {
+          isValid: false,
+          message: `${ordinal(i + 1)} letter must be ${row[i].letter}`
+        };
+      }
+    }
+  }
+
+  const guessCounts = countLetters(guessLetters);
+
+  for (const row of rows) {
+    const revealed = countLetters(
+      row.filter(tile => tile.status !== 'absent').map(tile => tile.letter)
+    );
+
+    for (const [letter, required] of revealed) {
+      if ((guessCounts.get(letter) || 0) < required) {
+        return {
+          isValid: false,
+          message: required > 1
+            ? `Guess must contain ${letter} at least ${required} times`
+            : `Guess must contain ${letter}`
+        };
+      }
+    }
+  }
+
+  return { isValid: true };
+}
+
+/**
+ * Prefix submit_attempt puts on hard-mode rejections, followed by the same
+ * message checkHardModeGuess returns
+ */
+export const HARD_MODE_ERROR_PREFIX = 'Hard mode: ';
+
+/**
+ * Extract the violated rule from a submit_attempt error, or null if the
+ * error is not a hard-mode rejection
+ */
+export function getHardModeViolation(errorMessage: string | null | undefined): string | null {
+  if (!errorMessage) return null;
+
+  const index = errorMessage.indexOf(HARD_MODE_ERROR_PREFIX);
+  if (index === -1) return null;
+
+  return errorMessage.slice(index + HARD_MODE_ERROR_PREFIX.length).trim() || null;
+}
+
+// ============================================================================
+// Game state
+// ============================================================================
+
+/**
+ * Start a new game. Multistage games pass one length per word.
+ */
+export function createGame({
+  wordLengths,
+  maxGuesses = DEFAULT_MAX_GUESSES,
+  language = DEFAULT_LANGUAGE
+}: GameConfig): GameState {
+  if (wordLengths.length === 0) {
+    throw new Error('A game needs at least one word');
+  }
+
+  return {
+    wordLengths: [...wordLengths],
+    maxGuesses,
+    language,
+    currentWordIndex: 0,
+    rows: [],
+    completedWords: [],
+    currentGuess: '',
+    status: 'playing'
+  };
+}
+
+export function getCurrentWordLength(state: GameState): number {
+  return state.wordLengths[state.currentWordIndex];
+}
+
+export function getRemainingGuesses(state: GameState): number {
+  return Math.max(0, state.maxGuesses - state.rows.length);
+}
+
+export function getWordsCompleted(state: GameState): number {
+  return state.completedWords.length;
+}
+
+/**
+ * True when the current guess is full length and the game is still running
+ */
+export function canSubmitGuess(state: GameState): boolean {
+  return state.status === 'playing' && state.currentGuess.length === getCurrentWordLength(state);
+}
+
+/**
+ * Append a letter to the current guess. Ignored once the row is full, and
+ * for anything that isn't a letter of the game's language. Accented letters
+ * are folded first, so typing É in a French game enters E.
+ */
+export function typeLetter(state: GameState, letter: string): GameState {
+  const upper = normalizeWord(letter, state.language);
+
+  if (state.status !== 'playing' || !isLanguageLetter(upper, state.language)) return state;
+  if (state.currentGuess.length >= getCurrentWordLength(state)) return state;
+
+  return { ...state, currentGuess: state.currentGuess + upper };
+}
+
+export function deleteLetter(state: GameState): GameState {
+  if (state.status !== 'playing' || state.currentGuess.length === 0) return state;
+
+  return { ...state, currentGuess: state.currentGuess.slice(0, -1) };
+}
+
+/**
+ * Record a scored guess and advance the game
+ *
+ * - Solved word with more words left: move on to the next word
+ * - Solved last word: 'won'
+ * - Out of guesses on the current word: 'lost'
+ */
+export function applyGuessResult(state: GameState, result: GuessResult): GameState {
+  if (state.status !== 'playing') return state;
+
+  if (result.length !== getCurrentWordLength(state)) {
+    throw new Error(`Guess must be ${getCurrentWordLength(state)} letters long`);
+  }
+
+  const rows = [...state.rows, result];
+
+  if (isSolved(result)) {
+    const completedWords = [...state.completedWords, rows];
+    const isLastWord = state.currentWordIndex + 1 >= state.wordLengths.length;
+
+    return {
+      ...state,
+      rows: isLastWord ? rows : [],
+      completedWords,
+      currentWordIndex: isLastWord ? state.currentWordIndex : state.currentWordIndex + 1,
+      currentGuess: '',
+      status: isLastWord ? 'won' : 'playing'
+    };
+  }
+
+  return {
+    ...state,
+    rows,
+    currentGuess: '',
+    status: rows.length >= state.maxGuesses ? 'lost' : 'playing'
+  };
+}
+
+/**
+ * Score the current guess locally and apply it. For games where the client
+ * knows the secret (practice modes); bounty games use applyGuessResult with
+ * the result returned by submit_attempt instead.
+ */
+export function submitGuess(state: GameState, target: string): GameState {
+  if (!canSubmitGuess(state)) return state;
+
+  return applyGuessResult(state, scoreGuess(state.currentGuess, normalizeWord(target, state.language)));
+}
+
+/**
+ * True when a stored letter_results value is a usable row for a word of this length
+ */
+export function isGuessResult(value: unknown, wordLength: number): value is GuessResult {
+  return Array.isArray(value)
+    && value.length === wordLength
+    && value.every(tile =>
+      typeof tile?.letter === 'string'
+      && Object.prototype.hasOwnProperty.call(STATUS_PRIORITY, tile.status));
+}
+
+/**
+ * Rebuild a game from stored attempts, e.g. after a reload or on another device
+ *
+ * Attempts are replayed in (word_index, attempt_number) order through the same
+ * transitions as live play, so the board, current word and remaining guesses
+ * match what the player left. Rows that don't fit the current word (malformed
+ * letter_results, or guesses for a word the replay hasn't reached) are
+ * skipped. A participation the server has closed as failed or disqualified
+ * ends the game even if guesses remain, e.g. when a time limit ran out.
+ */
+export function restoreGame(
+  config: GameConfig,
+  attempts: RecordedAttempt[],
+  participation?: RecordedParticipation | null
+): GameState {
+  const ordered = [...attempts].sort(
+    (a, b) => a.word_index - b.word_index || a.attempt_number - b.attempt_number
+  );
+
+  const state = ordered.reduce((current, attempt) => {
+    if (current.status !== 'playing' || attempt.word_index !== current.currentWordIndex) {
+      return current;
+    }
+    if (!isGuessResult(attempt.letter_results, getCurrentWordLength(current))) {
+      return current;
+    }
+    return applyGuessResult(current, attempt.letter_results);
+  }, createGame(config));
+
+  if (state.status === 'playing' && (participation?.status === 'failed' || participation?.status === 'disqualified')) {
+    return { ...state, status: 'lost' };
+  }
+
+  return state;
+}
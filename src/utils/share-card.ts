@@ -0,0 +1,104 @@
+/**
+ * Share Card
+ * Renders a PNG result card for sharing (browser only: uses <canvas>)
+ *
+ * The card shows the coloured grid without letters, so it is as
+ * spoiler-free as the emoji share text.
+ */
+
+import { formatShareTime, TILE_PALETTES, type GuessResult, type LetterStatus } from './game';
+
+export interface ShareCardData {
+  bountyName: string;
+  /** Scored rows per word; only the colours are drawn */
+  words: GuessResult[][];
+  attempts: number;
+  timeSeconds?: number | null;
+  prizeWon?: number | null;
+  prizeCurrency?: string;
+  /** Use the orange/blue palette */
+  highContrast?: boolean;
+}
+
+const CARD_WIDTH = 1200;
+const CARD_HEIGHT = 630; // Open Graph image size
+const PADDING = 64;
+
+function drawGrid(
+  ctx: CanvasRenderingContext2D,
+  rows: GuessResult[],
+  colors: Record<LetterStatus, string>,
+  x: number,
+  y: number,
+  maxWidth: number,
+  maxHeight: number
+): void {
+  const columns = Math.max(...rows.map(row => row.length), 1);
+  const gap = 8;
+  const tile = Math.min(
+    (maxWidth - gap * (columns - 1)) / columns,
+    (maxHeight - gap * (rows.length - 1)) / Math.max(rows.length, 1),
+    56
+  );
+
+  rows.forEach((row, r) => {
+    row.forEach((cell, c) => {
+      ctx.fillStyle = colors[cell.status];
+      ctx.fillRect(x + c * (tile + gap), y + r * (tile + gap), tile, tile);
+    });
+  });
+}
+
+/**
+ * Draw the card and return it as a PNG blob
+ */
+export async function renderShareCard(data: ShareCardData): Promise<Blob> {
+  const canvas = document.createElement('canvas');
+  canvas.width = CARD_WIDTH;
+  canvas.height = CARD_HEIGHT;
+
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas is not supported in this browser');
+  }
+
+  const colors = TILE_PALETTES[data.highContrast ? 'high-contrast' : 'standard'];
+
+  // Background
+  const gradient = ctx.createLinearGradient(0, 0, CARD_WIDTH, CARD_HEIGHT);
+  gradient.addColorStop(0, '#1e1b4b');
+  gradient.addColorStop(1, '#4c1d95');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, CARD_WIDTH, CARD_HEIGHT);
+
+  // Text column
+  ctx.fillStyle = '#c4b5fd';
+  ctx.font = '600 28px system-ui, sans-serif';
+  ctx.fillText('Web3 Wordle Bounty', PADDING, PADDING + 28);
+
+  ctx.fillStyle = '#ffffff';
+  ctx.font = '700 56px system-ui, sans-serif';
+  const name = data.bountyName.length > 28 ? `${data.bountyName.slice(0, 27)}…` : data.bountyName;
+  ctx.fillText(name, PADDING, PADDING + 110);
+
+  const stats: string[] = [`${data.attempts} ${data.attempts === 1 ? 'attempt' : 'attempts'}`];
+  if (data.timeSeconds != null) stats.push(`⏱ ${formatShareTime(data.timeSeconds)}`);
+  if (data.prizeWon) stats.push(`🏆 ${data.prizeWon} ${data.prizeCurrency || 'HBAR'}`);
+
+  ctx.font = '500 36px system-ui, sans-serif';
+  stats.forEach((line, i) => ctx.fillText(line, PADDING, PADDING + 200 + i * 56));
+
+  // Grid column: words side by side
+  const gridLeft = CARD_WIDTH / 2 + PADDING / 2;
+  const gridWidth = CARD_WIDTH - gridLeft - PADDING;
+  const words = data.words.filter(rows => rows.length > 0);
+  const slotWidth = gridWidth / Math.max(words.length, 1);
+
+  words.forEach((rows, i) => {
+    drawGrid(ctx, rows, colors, gridLeft + i * slotWidth, PADDING, slotWidth - 16, CARD_HEIGHT - PADDING * 2);
+  });
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Failed to render share card'))), 'image/png');
+  });
+}
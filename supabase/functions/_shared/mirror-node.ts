@@ -0,0 +1,104 @@
+/**
+ * Hedera Mirror Node (shared by edge functions)
+ * Reads transactions back from the mirror node, so the database only records
+ * what reached consensus instead of what a client says happened
+ *
+ * Env: HEDERA_NETWORK ('testnet' or 'mainnet', default testnet),
+ * MIRROR_NODE_URL (optional override)
+ */
+
+/**
+ * The fields we use from /api/v1/contracts/results/{transactionHash}
+ */
+export interface ContractResult {
+  hash: string;
+  /** EVM address of the caller */
+  from: string;
+  /** Contract that was called */
+  to: string;
+  /** HBAR sent with the call, in tinybars */
+  amount: number;
+  /** 'SUCCESS' once the call went through */
+  result: string;
+  /** ABI-encoded call data after the selector, 0x-prefixed */
+  function_parameters: string;
+  /** Hash of the record file (block) holding the transaction */
+  block_hash: string;
+  block_number: number;
+  /** Consensus timestamp, seconds.nanoseconds */
+  timestamp: string;
+  /** Events the call emitted, including token contracts it called */
+  logs?: ContractLog[];
+}
+
+export interface ContractLog {
+  /** Contract that emitted the event */
+  address: string;
+  /** 0x-prefixed 32-byte topics; topics[0] is the event signature hash */
+  topics: string[];
+  data: string;
+}
+
+// keccak256('Transfer(address,address,uint256)')
+const ERC20_TRANSFER_TOPIC = '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+export function getMirrorNodeUrl(): string {
+  const override = Deno.env.get('MIRROR_NODE_URL');
+  if (override) return override.replace(/\/$/, '');
+
+  return Deno.env.get('HEDERA_NETWORK') === 'mainnet'
+    ? 'https://mainnet-public.mirrornode.hedera.com'
+    : 'https://testnet.mirrornode.hedera.com';
+}
+
+/**
+ * The contract call a transaction hash refers to, or null while the mirror
+ * node hasn't seen it (it lags consensus by a few seconds)
+ */
+export async function getContractResult(transactionHash: string): Promise<ContractResult | null> {
+  const response = await fetch(`${getMirrorNodeUrl()}/api/v1/contracts/results/${transactionHash}`);
+
+  if (response.status === 404) return null;
+  if (!response.ok) throw new Error(`Mirror node returned ${response.status}`);
+
+  return await response.json();
+}
+
+export function sameAddress(a: string | null | undefined, b: string | null | undefined): boolean {
+  return !!a && !!b && a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * True when a bytes32 value (e.g. a commitment) is one of the call's arguments
+ */
+export function hasBytes32Parameter(result: ContractResult, value: string): boolean {
+  const word = value.toLowerCase().replace(/^0x/, '');
+  const params = result.function_parameters.toLowerCase().replace(/^0x/, '');
+
+  for (let i = 0; i + 64 <= params.length; i += 64) {
+    if (params.slice(i, i + 64) === word) return true;
+  }
+  return false;
+}
+
+/**
+ * True when the call moved exactly `amount` of an ERC-20 (or HTS) token,
+ * in its smallest unit, from one address to another
+ */
+export function hasTokenTransfer(
+  result: ContractResult,
+  token: string,
+  from: string,
+  to: string,
+  amount: bigint
+): boolean {
+  const topicAddress = (topic: string | undefined) => '0x' + (topic ?? '').slice(-40);
+
+  return (result.logs ?? []).some(log =>
+    sameAddress(log.address, token)
+    && log.topics[0]?.toLowerCase() === ERC20_TRANSFER_TOPIC
+    && sameAddress(topicAddress(log.topics[1]), from)
+    && sameAddress(topicAddress(log.topics[2]), to)
+    && BigInt(log.data || '0x0') === amount
+  );
+}
@@ -0,0 +1,28 @@
+/**
+ * Service Role RPC (shared by edge functions)
+ * Calls database functions that clients can't, with the service role key
+ *
+ * Env: SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY (both set by Supabase)
+ */
+
+export async function callServiceRpc<T>(fn: string, args: Record<string, unknown>): Promise<T> {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const serviceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+  if (!supabaseUrl || !serviceKey) throw new Error('Supabase is not configured');
+
+  const response = await fetch(`${supabaseUrl}/rest/v1/rpc/${fn}`, {
+    method: 'POST',
+    headers: {
+      apikey: serviceKey,
+      Authorization: `Bearer ${serviceKey}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify(args)
+  });
+
+  const body = await response.json();
+  // PostgREST returns RAISE EXCEPTION text as { message }
+  if (!response.ok) throw new Error(body?.message || `${fn} failed with ${response.status}`);
+
+  return body as T;
+}
@@ -0,0 +1,87 @@
+/**
+ * Activate Random Bounty (Supabase Edge Function)
+ * Draws a Random words bounty's words once its createBounty transaction has
+ * reached consensus
+ *
+ * The draw's entropy is the hash of the block holding createBounty
+ * (migration 051). Nobody can pick it, and the creator can't record a
+ * different one: the transaction is read from the mirror node and must be
+ * the creator's successful call to the escrow carrying the recorded
+ * commitment. Anyone may call this, since the result doesn't depend on who
+ * asks.
+ *
+ *   POST /functions/v1/activate-random-bounty  { "bounty_id": "<uuid>" }
+ *
+ * Returns get_bounty_draw() on success. 409 means the mirror node hasn't
+ * seen the transaction yet; retry after a few seconds.
+ *
+ * Env: ESCROW_CONTRACT_ADDRESS, HEDERA_NETWORK, SUPABASE_URL,
+ * SUPABASE_SERVICE_ROLE_KEY
+ */
+
+import { getContractResult, hasBytes32Parameter, sameAddress } from '../_shared/mirror-node.ts';
+import { callServiceRpc } from '../_shared/service-rpc.ts';
+
+interface RandomBountyActivation {
+  transaction_hash: string;
+  commitment: string;
+  creator_wallet: string;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...CORS_HEADERS, 'Content-Type': 'application/json; charset=utf-8' }
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') return new Response(null, { headers: CORS_HEADERS });
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+
+  const { bounty_id: bountyId } = await req.json().catch(() => ({}));
+  if (typeof bountyId !== 'string' || !UUID_PATTERN.test(bountyId)) {
+    return json({ error: 'bounty_id must be a bounty UUID' }, 400);
+  }
+
+  const escrowAddress = Deno.env.get('ESCROW_CONTRACT_ADDRESS');
+  if (!escrowAddress) return json({ error: 'Escrow contract is not configured' }, 500);
+
+  try {
+    const activation = await callServiceRpc<RandomBountyActivation | null>(
+      'get_random_bounty_activation',
+      { bounty_uuid: bountyId }
+    );
+    if (!activation) return json({ error: 'Bounty is not waiting for its draw' }, 404);
+
+    const result = await getContractResult(activation.transaction_hash);
+    if (!result) return json({ error: 'Transaction not on the mirror node yet' }, 409);
+
+    if (
+      result.result !== 'SUCCESS'
+      || !sameAddress(result.to, escrowAddress)
+      || !sameAddress(result.from, activation.creator_wallet)
+      || !hasBytes32Parameter(result, activation.commitment)
+    ) {
+      return json({ error: 'Transaction is not this bounty\'s createBounty call' }, 422);
+    }
+
+    const draw = await callServiceRpc('activate_random_bounty', {
+      bounty_uuid: bountyId,
+      block_number: result.block_number,
+      block_hash: result.block_hash
+    });
+
+    return json(draw);
+  } catch (error) {
+    console.error('Error activating random bounty:', error);
+    return json({ error: (error as Error).message }, 500);
+  }
+});
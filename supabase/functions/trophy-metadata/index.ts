@@ -0,0 +1,87 @@
+/**
+ * Trophy Metadata (Supabase Edge Function)
+ * Serves ERC-721 metadata for WordleTrophy NFTs
+ *
+ * The trophy contract's token URI is its baseURI plus the token ID, so the
+ * contract is deployed with:
+ *
+ *   https://<project>.supabase.co/functions/v1/trophy-metadata/
+ *
+ * Wallets, HashScan and marketplaces fetch `.../trophy-metadata/<tokenId>`
+ * without Supabase keys, so deploy with --no-verify-jwt. The JSON comes from
+ * get_trophy_metadata (migration 044); the result grid has colours only.
+ *
+ * Env: SUPABASE_URL, SUPABASE_ANON_KEY, TROPHY_CONTRACT_ADDRESS, APP_URL,
+ * TROPHY_IMAGE_URL (optional)
+ */
+
+interface TrophyMetadata {
+  name: string;
+  description: string;
+  attributes: unknown[];
+  properties: {
+    bounty_id: string;
+    won_at: string;
+    result_grid: string | null;
+  };
+}
+
+const TOKEN_ID_PATTERN = /^[1-9]\d{0,17}$/;
+
+async function fetchTrophy(contractAddress: string, tokenId: string): Promise<TrophyMetadata | null> {
+  const supabaseUrl = Deno.env.get('SUPABASE_URL');
+  const anonKey = Deno.env.get('SUPABASE_ANON_KEY');
+  if (!supabaseUrl || !anonKey) return null;
+
+  const response = await fetch(`${supabaseUrl}/rest/v1/rpc/get_trophy_metadata`, {
+    method: 'POST',
+    headers: {
+      apikey: anonKey,
+      Authorization: `Bearer ${anonKey}`,
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ contract_addr: contractAddress, trophy_serial: Number(tokenId) })
+  });
+
+  if (!response.ok) return null;
+  return await response.json();
+}
+
+function json(body: unknown, status = 200, maxAge = 300): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      'Content-Type': 'application/json; charset=utf-8',
+      'Access-Control-Allow-Origin': '*',
+      'Cache-Control': `public, max-age=${maxAge}`
+    }
+  });
+}
+
+Deno.serve(async (req: Request) => {
+  const url = new URL(req.url);
+  const tokenId = url.pathname.split('/').filter(Boolean).pop() || '';
+  const contractAddress = Deno.env.get('TROPHY_CONTRACT_ADDRESS');
+
+  if (!TOKEN_ID_PATTERN.test(tokenId) || !contractAddress) {
+    return json({ error: 'Trophy not found' }, 404, 60);
+  }
+
+  try {
+    const trophy = await fetchTrophy(contractAddress, tokenId);
+    // Minted but not recorded yet: don't let crawlers cache the miss for long
+    if (!trophy) return json({ error: 'Trophy not found' }, 404, 60);
+
+    const appUrl = Deno.env.get('APP_URL');
+    const imageUrl = Deno.env.get('TROPHY_IMAGE_URL');
+
+    return json({
+      ...trophy,
+      ...(imageUrl && { image: imageUrl }),
+      ...(appUrl && { external_url: `${appUrl}?bounty=${trophy.properties.bounty_id}` })
+    }, 200, 86400);
+  } catch (error) {
+    console.error('Error loading trophy metadata:', error);
+    return json({ error: 'Trophy metadata unavailable' }, 500, 0);
+  }
+});
@@ -0,0 +1,134 @@
+/**
+ * Verify Entry Fee (Supabase Edge Function)
+ * Confirms a player's entry fee once their joinBounty transaction has
+ * reached consensus
+ *
+ * join_bounty() only records the hash the player sends, as a pending
+ * payment (migration 053). This reads the transaction from the mirror node
+ * and checks it is the player's successful joinBounty call to the escrow
+ * for this bounty, paying the bounty's entry fee: in HBAR with the call, or
+ * as a token transfer from the player to the escrow. Only then does
+ * confirm_entry_fee() add the fee to the prize pool and let the player
+ * guess. Anyone may call this, since the result doesn't depend on who asks.
+ *
+ *   POST /functions/v1/verify-entry-fee  { "bounty_id": "<uuid>", "wallet_address": "0x..." }
+ *
+ * Returns { prize_pool } on success. 409 means the mirror node hasn't seen
+ * the transaction yet; retry after a few seconds. 422 means the transaction
+ * didn't pay the fee, and the player can join_bounty() again with the right
+ * one.
+ *
+ * Env: ESCROW_CONTRACT_ADDRESS, HEDERA_NETWORK, SUPABASE_URL,
+ * SUPABASE_SERVICE_ROLE_KEY
+ */
+
+import {
+  getContractResult,
+  hasBytes32Parameter,
+  hasTokenTransfer,
+  sameAddress
+} from '../_shared/mirror-node.ts';
+import { callServiceRpc } from '../_shared/service-rpc.ts';
+
+interface PendingEntryFee {
+  transaction_hash: string;
+  /** Whole HBAR or tokens, as the DECIMAL's text */
+  entry_fee: string;
+  prize_token: { evm_address: string; decimals: number } | null;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const WALLET_PATTERN = /^0x[0-9a-f]{40}$/i;
+
+// HBAR sent with a contract call is in tinybars
+const HBAR_DECIMALS = 8;
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type'
+};
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...CORS_HEADERS, 'Content-Type': 'application/json; charset=utf-8' }
+  });
+}
+
+/**
+ * A DECIMAL amount in the currency's smallest unit, without going through
+ * floating point
+ */
+function toSmallestUnit(amount: string, decimals: number): bigint {
+  const [whole, fraction = ''] = amount.split('.');
+
+  return BigInt(whole + fraction.padEnd(decimals, '0').slice(0, decimals));
+}
+
+/**
+ * bountyIdToBytes32() from src/utils/commitment.ts: the UUID's 16 bytes,
+ * zero-padded to 32
+ */
+function bountyIdToBytes32(bountyId: string): string {
+  return '0x' + '0'.repeat(32) + bountyId.replace(/-/g, '').toLowerCase();
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === 'OPTIONS') return new Response(null, { headers: CORS_HEADERS });
+  if (req.method !== 'POST') return json({ error: 'Method not allowed' }, 405);
+
+  const { bounty_id: bountyId, wallet_address: walletAddress } = await req.json().catch(() => ({}));
+  if (typeof bountyId !== 'string' || !UUID_PATTERN.test(bountyId)) {
+    return json({ error: 'bounty_id must be a bounty UUID' }, 400);
+  }
+  if (typeof walletAddress !== 'string' || !WALLET_PATTERN.test(walletAddress)) {
+    return json({ error: 'wallet_address must be an EVM address' }, 400);
+  }
+
+  const escrowAddress = Deno.env.get('ESCROW_CONTRACT_ADDRESS');
+  if (!escrowAddress) return json({ error: 'Escrow contract is not configured' }, 500);
+
+  try {
+    const pending = await callServiceRpc<PendingEntryFee | null>('get_pending_entry_fee', {
+      bounty_uuid: bountyId,
+      wallet_addr: walletAddress
+    });
+    if (!pending) return json({ error: 'No pending entry fee for this player' }, 404);
+
+    const result = await getContractResult(pending.transaction_hash);
+    if (!result) return json({ error: 'Transaction not on the mirror node yet' }, 409);
+
+    const token = pending.prize_token;
+    const paidFee = token
+      ? result.amount === 0 && hasTokenTransfer(
+        result,
+        token.evm_address,
+        walletAddress,
+        escrowAddress,
+        toSmallestUnit(pending.entry_fee, token.decimals)
+      )
+      : BigInt(result.amount) === toSmallestUnit(pending.entry_fee, HBAR_DECIMALS);
+
+    if (
+      result.result !== 'SUCCESS'
+      || !sameAddress(result.to, escrowAddress)
+      || !sameAddress(result.from, walletAddress)
+      || !hasBytes32Parameter(result, bountyIdToBytes32(bountyId))
+      || !paidFee
+    ) {
+      return json({ error: 'Transaction is not this player\'s joinBounty payment' }, 422);
+    }
+
+    const prizePool = await callServiceRpc('confirm_entry_fee', {
+      bounty_uuid: bountyId,
+      wallet_addr: walletAddress,
+      block_number: result.block_number,
+      consensus_timestamp: result.timestamp
+    });
+
+    return json({ prize_pool: prizePool });
+  } catch (error) {
+    console.error('Error verifying entry fee:', error);
+    return json({ error: (error as Error).message }, 500);
+  }
+});
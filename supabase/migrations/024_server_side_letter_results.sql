@@ -0,0 +1,357 @@
+-- ============================================================================
+-- Migration 024: Server-Authoritative Guess Evaluation
+-- Created: 2026-10-19
+-- Purpose: Score guesses in submit_attempt and stop leaking solution words
+-- ============================================================================
+-- ISSUE: submit_attempt only stored a stub letter_results object
+-- ({ word, target, correct }), so GameplayPage scored tiles itself against
+-- bountyData.words. That meant get_bounty_details had to ship every solution
+-- word to every browser - and the stub even echoed the target back.
+--
+-- SOLUTION:
+-- 1. calculate_letter_results() computes correct/present/absent per position
+--    (two-pass, so duplicate letters are only credited as often as they
+--    appear in the target)
+-- 2. submit_attempt() stores and returns that array; the target is no longer
+--    part of the response
+-- 3. get_bounty_details() only returns 'words' once the bounty has ended and
+--    exposes 'word_lengths' so the client can still size the board
+-- ============================================================================
+
+-- ============================================================================
+-- FUNCTION 1: calculate_letter_results
+-- ============================================================================
+-- Returns: JSONB array of { letter, status } objects, one per position
+-- Example: calculate_letter_results('STETS', 'TESTS') ->
+--   [{S,present},{T,present},{E,present},{T,correct},{S,correct}]
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION calculate_letter_results(
+    guess TEXT,
+    target TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+    guess_letters TEXT[];
+    target_letters TEXT[];
+    statuses TEXT[];
+    word_length INTEGER;
+    match_idx INTEGER;
+    results JSONB := '[]'::JSONB;
+BEGIN
+    guess_letters := regexp_split_to_array(UPPER(guess), '');
+    target_letters := regexp_split_to_array(UPPER(target), '');
+    word_length := array_length(guess_letters, 1);
+
+    IF word_length IS NULL OR word_length <> array_length(target_letters, 1) THEN
+        RAISE EXCEPTION 'Guess length (%) does not match target length (%)',
+            LENGTH(guess), LENGTH(target);
+    END IF;
+
+    statuses := array_fill('absent'::TEXT, ARRAY[word_length]);
+
+    -- First pass: exact matches consume their target letter
+    FOR i IN 1..word_length LOOP
+        IF guess_letters[i] = target_letters[i] THEN
+            statuses[i] := 'correct';
+            target_letters[i] := NULL;
+        END IF;
+    END LOOP;
+
+    -- Second pass: remaining letters are 'present' only while unused copies remain
+    FOR i IN 1..word_length LOOP
+        CONTINUE WHEN statuses[i] = 'correct';
+
+        match_idx := array_position(target_letters, guess_letters[i]);
+        IF match_idx IS NOT NULL THEN
+            statuses[i] := 'present';
+            target_letters[match_idx] := NULL;
+        END IF;
+    END LOOP;
+
+    FOR i IN 1..word_length LOOP
+        results := results || jsonb_build_array(
+            jsonb_build_object('letter', guess_letters[i], 'status', statuses[i])
+        );
+    END LOOP;
+
+    RETURN results;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+COMMENT ON FUNCTION calculate_letter_results(TEXT, TEXT) IS
+'Scores a guess against a target word. Returns [{letter, status}] where status is correct, present or absent. Duplicate letters are handled like classic Wordle.';
+
+-- ============================================================================
+-- FUNCTION 2: submit_attempt
+-- ============================================================================
+-- Same flow as migration 017, but letter_results is now the real per-letter
+-- result and the target word never leaves the database.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION submit_attempt(
+    bounty_uuid UUID,
+    wallet_addr TEXT,
+    word_idx INTEGER,
+    guessed_word TEXT,
+    time_taken INTEGER DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    user_uuid UUID;
+    participant_record RECORD;
+    bounty_record RECORD;
+    target_word TEXT;
+    attempt_num INTEGER;
+    letter_results JSONB;
+    is_correct BOOLEAN;
+    attempt_result attempt_result;
+    result JSONB;
+    rows_updated INTEGER;
+BEGIN
+    -- Get user
+    SELECT id INTO user_uuid FROM users WHERE wallet_address = wallet_addr;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User not found for wallet: %', wallet_addr;
+    END IF;
+
+    -- Get participant record (allow any active status, including 'completed' for multi-word bounties)
+    SELECT * INTO participant_record
+    FROM bounty_participants
+    WHERE bounty_id = bounty_uuid AND user_id = user_uuid;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User % not participating in bounty %', wallet_addr, bounty_uuid;
+    END IF;
+
+    -- Check if participation is active or completed
+    IF participant_record.status NOT IN ('registered', 'active', 'completed') THEN
+        RAISE EXCEPTION 'User participation status is %', participant_record.status;
+    END IF;
+
+    -- Get bounty and target word
+    SELECT * INTO bounty_record FROM bounties WHERE id = bounty_uuid;
+    IF NOT FOUND OR word_idx < 0 OR word_idx >= array_length(bounty_record.words, 1) THEN
+        RAISE EXCEPTION 'Invalid bounty or word index';
+    END IF;
+
+    target_word := UPPER(bounty_record.words[word_idx + 1]); -- Arrays are 1-indexed in PostgreSQL
+
+    -- Reject guesses of the wrong length before anything is recorded
+    IF LENGTH(guessed_word) <> LENGTH(target_word) THEN
+        RAISE EXCEPTION 'Guess must be % letters long', LENGTH(target_word);
+    END IF;
+
+    -- Get next attempt number for this word
+    SELECT COALESCE(MAX(attempt_number), 0) + 1 INTO attempt_num
+    FROM game_attempts
+    WHERE participant_id = participant_record.id AND word_index = word_idx;
+
+    -- Score the guess
+    letter_results := calculate_letter_results(guessed_word, target_word);
+    is_correct := UPPER(guessed_word) = target_word;
+
+    -- Determine attempt result
+    IF is_correct THEN
+        attempt_result := 'correct';
+    ELSIF jsonb_path_exists(letter_results, '$[*] ? (@.status != "absent")') THEN
+        attempt_result := 'partial';
+    ELSE
+        attempt_result := 'incorrect';
+    END IF;
+
+    -- Insert attempt
+    INSERT INTO game_attempts (
+        participant_id,
+        bounty_id,
+        word_index,
+        attempt_number,
+        guessed_word,
+        target_word,
+        result,
+        letter_results,
+        time_taken_seconds
+    ) VALUES (
+        participant_record.id,
+        bounty_uuid,
+        word_idx,
+        attempt_num,
+        UPPER(guessed_word),
+        target_word,
+        attempt_result,
+        letter_results,
+        time_taken
+    );
+
+    -- Update participant progress
+    UPDATE bounty_participants
+    SET
+        total_attempts = total_attempts + 1,
+        total_time_seconds = COALESCE(total_time_seconds, 0) + COALESCE(time_taken, 0),
+        words_completed = CASE
+            WHEN is_correct THEN GREATEST(words_completed, word_idx + 1)
+            ELSE words_completed
+        END,
+        current_word_index = CASE
+            WHEN is_correct AND word_idx + 1 >= array_length(bounty_record.words, 1) THEN word_idx
+            WHEN is_correct THEN word_idx + 1
+            ELSE current_word_index
+        END,
+        status = CASE
+            WHEN is_correct AND word_idx + 1 >= array_length(bounty_record.words, 1) THEN 'completed'::participation_status
+            ELSE status
+        END,
+        completed_at = CASE
+            WHEN is_correct AND word_idx + 1 >= array_length(bounty_record.words, 1) THEN NOW()
+            ELSE completed_at
+        END
+    WHERE id = participant_record.id;
+
+    -- Check how many rows were actually updated
+    GET DIAGNOSTICS rows_updated = ROW_COUNT;
+
+    IF rows_updated = 0 THEN
+        RAISE WARNING 'No rows updated for participant % in bounty %', participant_record.id, bounty_uuid;
+    END IF;
+
+    -- Build result (no target word - the client renders only what we return)
+    result := jsonb_build_object(
+        'correct', is_correct,
+        'attempt_number', attempt_num,
+        'letter_results', letter_results,
+        'completed_bounty', is_correct AND word_idx + 1 >= array_length(bounty_record.words, 1),
+        'participant_id', participant_record.id,
+        'rows_updated', rows_updated
+    );
+
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION submit_attempt(UUID, TEXT, INTEGER, TEXT, INTEGER) IS
+'Records a guess, scores it server-side and returns { correct, attempt_number, letter_results, completed_bounty }. The target word is never returned.';
+
+-- ============================================================================
+-- FUNCTION 3: get_bounty_details
+-- ============================================================================
+-- Same payload as migration 016, except:
+-- - 'words' is NULL until the bounty has ended (completed, cancelled, expired
+--   or past end_time)
+-- - 'word_lengths' is always present so the board can be rendered
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_bounty_details(
+    bounty_uuid UUID,
+    wallet_addr TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    bounty_record RECORD;
+    participation_record RECORD;
+    user_uuid UUID;
+    words_revealed BOOLEAN;
+    result JSONB;
+BEGIN
+    -- Get bounty
+    SELECT
+        b.*,
+        u.username as creator_username,
+        u.display_name as creator_display_name
+    INTO bounty_record
+    FROM bounties b
+    JOIN users u ON b.creator_id = u.id
+    WHERE b.id = bounty_uuid;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bounty not found';
+    END IF;
+
+    -- Solutions are only safe to publish once nobody can play anymore
+    words_revealed := bounty_record.status IN ('completed', 'cancelled', 'expired')
+        OR (bounty_record.end_time IS NOT NULL AND bounty_record.end_time <= NOW());
+
+    -- Get user participation if wallet provided
+    participation_record := NULL;
+    IF wallet_addr IS NOT NULL THEN
+        SELECT id INTO user_uuid FROM users WHERE wallet_address = wallet_addr;
+        IF FOUND THEN
+            SELECT * INTO participation_record
+            FROM bounty_participants
+            WHERE bounty_id = bounty_uuid AND user_id = user_uuid;
+        END IF;
+    END IF;
+
+    -- Build result
+    result := jsonb_build_object(
+        'id', bounty_record.id,
+        'name', bounty_record.name,
+        'description', bounty_record.description,
+        'bounty_type', bounty_record.bounty_type,
+        'prize_amount', bounty_record.prize_amount,
+        'prize_currency', bounty_record.prize_currency,
+        'status', bounty_record.status,
+        'is_public', bounty_record.is_public,
+        'participant_count', bounty_record.participant_count,
+        'max_participants', bounty_record.max_participants,
+        'max_attempts_per_user', bounty_record.max_attempts_per_user,
+        'time_limit_seconds', bounty_record.time_limit_seconds,
+        'start_time', bounty_record.start_time,
+        'end_time', bounty_record.end_time,
+        'duration_hours', bounty_record.duration_hours,
+        'created_at', bounty_record.created_at,
+        'creator', jsonb_build_object(
+            'username', bounty_record.creator_username,
+            'display_name', bounty_record.creator_display_name
+        ),
+        'words', CASE WHEN words_revealed THEN to_jsonb(bounty_record.words) ELSE NULL END,
+        'word_lengths', (
+            SELECT jsonb_agg(LENGTH(w) ORDER BY ord)
+            FROM unnest(bounty_record.words) WITH ORDINALITY AS t(w, ord)
+        ),
+        'words_count', array_length(bounty_record.words, 1),
+        'hints', bounty_record.hints,
+        'participation', CASE
+            WHEN participation_record IS NOT NULL THEN
+                jsonb_build_object(
+                    'status', participation_record.status,
+                    'joined_at', participation_record.joined_at,
+                    'current_word_index', participation_record.current_word_index,
+                    'total_attempts', participation_record.total_attempts,
+                    'words_completed', participation_record.words_completed,
+                    'total_time_seconds', participation_record.total_time_seconds,
+                    'is_winner', participation_record.is_winner
+                )
+            ELSE NULL
+        END
+    );
+
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- BACKFILL: Replace stub letter_results on existing attempts
+-- ============================================================================
+-- Rows written before this migration hold { word, target, correct }. Rescore
+-- them so history and replays use the same format as new attempts.
+
+UPDATE game_attempts
+SET letter_results = calculate_letter_results(guessed_word, target_word)
+WHERE jsonb_typeof(letter_results) = 'object'
+  AND LENGTH(guessed_word) = LENGTH(target_word);
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+-- What changed:
+-- - New calculate_letter_results(guess, target) helper
+-- - submit_attempt() returns real letter_results, never the target word,
+--   and rejects guesses whose length does not match the target
+-- - get_bounty_details() hides 'words' until the bounty ends and adds
+--   'word_lengths'
+-- - Existing stub letter_results rows are rescored
+--
+-- Client contract:
+-- - submit_attempt -> letter_results: [{ letter: 'A', status: 'correct' }, ...]
+-- - GameplayPage must colour tiles from letter_results only
+-- ============================================================================
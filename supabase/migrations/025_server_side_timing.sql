@@ -0,0 +1,602 @@
+-- ============================================================================
+-- Migration 025: Server-Tracked Game Timing
+-- Created: 2026-10-19
+-- Purpose: Record session/word timestamps on the server and rank by them
+-- ============================================================================
+-- ISSUE: The Time-based countdown and submit_attempt's time_taken both came
+-- from a client setInterval. total_time_seconds was the sum of whatever the
+-- browser sent, and determine_bounty_winner ranks 'time' bounties (and breaks
+-- ties for the other criteria) on that number.
+--
+-- SOLUTION:
+-- 1. bounty_participants gets session_started_at / session_ended_at
+-- 2. New word_sessions table records started_at / completed_at per word
+-- 3. start_word_session() starts the clock when the board is shown
+-- 4. submit_attempt() ignores time_taken, computes elapsed time itself and
+--    rejects guesses made after time_limit_seconds on Time-based bounties
+-- 5. determine_bounty_winner() ranks on the server-recorded session duration
+-- ============================================================================
+
+-- ============================================================================
+-- SCHEMA
+-- ============================================================================
+
+ALTER TABLE bounty_participants
+    ADD COLUMN IF NOT EXISTS session_started_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS session_ended_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN bounty_participants.session_started_at IS
+'Server time the participant started playing. Set once by start_word_session() or the first submit_attempt().';
+COMMENT ON COLUMN bounty_participants.session_ended_at IS
+'Server time the participant solved the last word.';
+
+CREATE TABLE IF NOT EXISTS word_sessions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    participant_id UUID NOT NULL REFERENCES bounty_participants(id) ON DELETE CASCADE,
+    bounty_id UUID NOT NULL REFERENCES bounties(id) ON DELETE CASCADE,
+    word_index INTEGER NOT NULL,
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    completed_at TIMESTAMP WITH TIME ZONE,
+
+    UNIQUE(participant_id, word_index),
+    CONSTRAINT valid_word_session_index CHECK (word_index >= 0),
+    CONSTRAINT valid_word_session_times CHECK (completed_at IS NULL OR completed_at >= started_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_word_sessions_bounty ON word_sessions(bounty_id);
+
+-- Only security definer functions write sessions; anyone can read them
+ALTER TABLE word_sessions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view word sessions" ON word_sessions;
+CREATE POLICY "Anyone can view word sessions"
+  ON word_sessions FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+GRANT SELECT ON word_sessions TO anon, authenticated;
+
+-- ============================================================================
+-- FUNCTION 1: start_word_session
+-- ============================================================================
+-- Called by GameplayPage when a word's board is shown. Idempotent: calling it
+-- again (reload, second device) returns the original timestamps, so the clock
+-- can't be reset. Returns server_time so the client can render a countdown
+-- without trusting its own clock.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION start_word_session(
+    bounty_uuid UUID,
+    wallet_addr TEXT,
+    word_idx INTEGER DEFAULT 0
+)
+RETURNS JSONB AS $$
+DECLARE
+    user_uuid UUID;
+    participant_record RECORD;
+    bounty_record RECORD;
+    v_session_started TIMESTAMP WITH TIME ZONE;
+    v_word_started TIMESTAMP WITH TIME ZONE;
+BEGIN
+    SELECT id INTO user_uuid FROM users WHERE wallet_address = wallet_addr;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User not found for wallet: %', wallet_addr;
+    END IF;
+
+    SELECT * INTO participant_record
+    FROM bounty_participants
+    WHERE bounty_id = bounty_uuid AND user_id = user_uuid;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User % not participating in bounty %', wallet_addr, bounty_uuid;
+    END IF;
+
+    SELECT * INTO bounty_record FROM bounties WHERE id = bounty_uuid;
+    IF NOT FOUND OR word_idx < 0 OR word_idx >= array_length(bounty_record.words, 1) THEN
+        RAISE EXCEPTION 'Invalid bounty or word index';
+    END IF;
+
+    IF word_idx > participant_record.current_word_index THEN
+        RAISE EXCEPTION 'Word % is not unlocked yet', word_idx + 1;
+    END IF;
+
+    -- The session clock starts once and is never reset
+    UPDATE bounty_participants
+    SET session_started_at = COALESCE(session_started_at, NOW())
+    WHERE id = participant_record.id
+    RETURNING session_started_at INTO v_session_started;
+
+    INSERT INTO word_sessions (participant_id, bounty_id, word_index, started_at)
+    VALUES (participant_record.id, bounty_uuid, word_idx, NOW())
+    ON CONFLICT (participant_id, word_index) DO NOTHING;
+
+    SELECT started_at INTO v_word_started
+    FROM word_sessions
+    WHERE participant_id = participant_record.id AND word_index = word_idx;
+
+    RETURN jsonb_build_object(
+        'session_started_at', v_session_started,
+        'word_started_at', v_word_started,
+        'server_time', NOW(),
+        'time_limit_seconds', bounty_record.time_limit_seconds,
+        'deadline', CASE
+            WHEN bounty_record.bounty_type = 'Time-based' AND bounty_record.time_limit_seconds IS NOT NULL
+            THEN v_session_started + make_interval(secs => bounty_record.time_limit_seconds)
+            ELSE NULL
+        END
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION start_word_session(UUID, TEXT, INTEGER) IS
+'Starts (or returns the existing) server-side clock for a participant and word. Returns session/word start, server_time and the deadline for Time-based bounties.';
+
+GRANT EXECUTE ON FUNCTION start_word_session(UUID, TEXT, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION start_word_session(UUID, TEXT, INTEGER) TO anon;
+
+-- ============================================================================
+-- FUNCTION 2: submit_attempt
+-- ============================================================================
+-- Same scoring as migration 024. time_taken is kept in the signature so
+-- existing clients keep working, but it is ignored.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION submit_attempt(
+    bounty_uuid UUID,
+    wallet_addr TEXT,
+    word_idx INTEGER,
+    guessed_word TEXT,
+    time_taken INTEGER DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    user_uuid UUID;
+    participant_record RECORD;
+    bounty_record RECORD;
+    target_word TEXT;
+    attempt_num INTEGER;
+    letter_results JSONB;
+    is_correct BOOLEAN;
+    is_last_word BOOLEAN;
+    attempt_result attempt_result;
+    result JSONB;
+    rows_updated INTEGER;
+    v_is_timed BOOLEAN;
+    v_session_started TIMESTAMP WITH TIME ZONE;
+    v_word_started TIMESTAMP WITH TIME ZONE;
+    v_last_attempt_at TIMESTAMP WITH TIME ZONE;
+    v_attempt_seconds INTEGER;
+    v_elapsed_seconds INTEGER;
+BEGIN
+    -- Get user
+    SELECT id INTO user_uuid FROM users WHERE wallet_address = wallet_addr;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User not found for wallet: %', wallet_addr;
+    END IF;
+
+    -- Get participant record (allow any active status, including 'completed' for multi-word bounties)
+    SELECT * INTO participant_record
+    FROM bounty_participants
+    WHERE bounty_id = bounty_uuid AND user_id = user_uuid;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User % not participating in bounty %', wallet_addr, bounty_uuid;
+    END IF;
+
+    -- Check if participation is active or completed
+    IF participant_record.status NOT IN ('registered', 'active', 'completed') THEN
+        RAISE EXCEPTION 'User participation status is %', participant_record.status;
+    END IF;
+
+    -- A finished session can't be extended by further guesses
+    IF participant_record.session_ended_at IS NOT NULL THEN
+        RAISE EXCEPTION 'User % already finished bounty %', wallet_addr, bounty_uuid;
+    END IF;
+
+    -- Get bounty and target word
+    SELECT * INTO bounty_record FROM bounties WHERE id = bounty_uuid;
+    IF NOT FOUND OR word_idx < 0 OR word_idx >= array_length(bounty_record.words, 1) THEN
+        RAISE EXCEPTION 'Invalid bounty or word index';
+    END IF;
+
+    target_word := UPPER(bounty_record.words[word_idx + 1]); -- Arrays are 1-indexed in PostgreSQL
+    is_last_word := word_idx + 1 >= array_length(bounty_record.words, 1);
+
+    -- Reject guesses of the wrong length before anything is recorded
+    IF LENGTH(guessed_word) <> LENGTH(target_word) THEN
+        RAISE EXCEPTION 'Guess must be % letters long', LENGTH(target_word);
+    END IF;
+
+    -- Session clock: falls back to the join time, so skipping
+    -- start_word_session() can never make a run look faster
+    v_session_started := COALESCE(participant_record.session_started_at, participant_record.joined_at, NOW());
+    v_is_timed := bounty_record.bounty_type = 'Time-based' AND bounty_record.time_limit_seconds IS NOT NULL;
+
+    IF v_is_timed AND NOW() > v_session_started + make_interval(secs => bounty_record.time_limit_seconds) THEN
+        RAISE EXCEPTION 'Time limit of % seconds exceeded', bounty_record.time_limit_seconds;
+    END IF;
+
+    -- Word clock: word 0 starts with the session, later words when the previous one was solved
+    INSERT INTO word_sessions (participant_id, bounty_id, word_index, started_at)
+    VALUES (
+        participant_record.id,
+        bounty_uuid,
+        word_idx,
+        CASE WHEN word_idx = 0 THEN v_session_started ELSE NOW() END
+    )
+    ON CONFLICT (participant_id, word_index) DO NOTHING;
+
+    SELECT started_at INTO v_word_started
+    FROM word_sessions
+    WHERE participant_id = participant_record.id AND word_index = word_idx;
+
+    -- Get next attempt number and the previous guess time for this word
+    SELECT COALESCE(MAX(attempt_number), 0) + 1, MAX(created_at)
+    INTO attempt_num, v_last_attempt_at
+    FROM game_attempts
+    WHERE participant_id = participant_record.id AND word_index = word_idx;
+
+    v_attempt_seconds := FLOOR(EXTRACT(EPOCH FROM (NOW() - COALESCE(v_last_attempt_at, v_word_started))))::INTEGER;
+    v_elapsed_seconds := FLOOR(EXTRACT(EPOCH FROM (NOW() - v_session_started)))::INTEGER;
+
+    -- Score the guess
+    letter_results := calculate_letter_results(guessed_word, target_word);
+    is_correct := UPPER(guessed_word) = target_word;
+
+    -- Determine attempt result
+    IF is_correct THEN
+        attempt_result := 'correct';
+    ELSIF jsonb_path_exists(letter_results, '$[*] ? (@.status != "absent")') THEN
+        attempt_result := 'partial';
+    ELSE
+        attempt_result := 'incorrect';
+    END IF;
+
+    -- Insert attempt
+    INSERT INTO game_attempts (
+        participant_id,
+        bounty_id,
+        word_index,
+        attempt_number,
+        guessed_word,
+        target_word,
+        result,
+        letter_results,
+        time_taken_seconds
+    ) VALUES (
+        participant_record.id,
+        bounty_uuid,
+        word_idx,
+        attempt_num,
+        UPPER(guessed_word),
+        target_word,
+        attempt_result,
+        letter_results,
+        GREATEST(v_attempt_seconds, 0)
+    );
+
+    -- Close the word clock and open the next one
+    IF is_correct THEN
+        UPDATE word_sessions
+        SET completed_at = NOW()
+        WHERE participant_id = participant_record.id AND word_index = word_idx;
+
+        IF NOT is_last_word THEN
+            INSERT INTO word_sessions (participant_id, bounty_id, word_index, started_at)
+            VALUES (participant_record.id, bounty_uuid, word_idx + 1, NOW())
+            ON CONFLICT (participant_id, word_index) DO NOTHING;
+        END IF;
+    END IF;
+
+    -- Update participant progress
+    UPDATE bounty_participants
+    SET
+        total_attempts = total_attempts + 1,
+        total_time_seconds = GREATEST(v_elapsed_seconds, 0),
+        session_started_at = v_session_started,
+        session_ended_at = CASE
+            WHEN is_correct AND is_last_word THEN NOW()
+            ELSE session_ended_at
+        END,
+        words_completed = CASE
+            WHEN is_correct THEN GREATEST(words_completed, word_idx + 1)
+            ELSE words_completed
+        END,
+        current_word_index = CASE
+            WHEN is_correct AND is_last_word THEN word_idx
+            WHEN is_correct THEN word_idx + 1
+            ELSE current_word_index
+        END,
+        status = CASE
+            WHEN is_correct AND is_last_word THEN 'completed'::participation_status
+            ELSE status
+        END,
+        completed_at = CASE
+            WHEN is_correct AND is_last_word THEN NOW()
+            ELSE completed_at
+        END
+    WHERE id = participant_record.id;
+
+    -- Check how many rows were actually updated
+    GET DIAGNOSTICS rows_updated = ROW_COUNT;
+
+    IF rows_updated = 0 THEN
+        RAISE WARNING 'No rows updated for participant % in bounty %', participant_record.id, bounty_uuid;
+    END IF;
+
+    -- Build result (no target word - the client renders only what we return)
+    result := jsonb_build_object(
+        'correct', is_correct,
+        'attempt_number', attempt_num,
+        'letter_results', letter_results,
+        'completed_bounty', is_correct AND is_last_word,
+        'participant_id', participant_record.id,
+        'rows_updated', rows_updated,
+        'elapsed_seconds', GREATEST(v_elapsed_seconds, 0),
+        'time_remaining_seconds', CASE
+            WHEN v_is_timed THEN GREATEST(bounty_record.time_limit_seconds - v_elapsed_seconds, 0)
+            ELSE NULL
+        END
+    );
+
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION submit_attempt(UUID, TEXT, INTEGER, TEXT, INTEGER) IS
+'Records a guess, scores it server-side and returns { correct, attempt_number, letter_results, completed_bounty, elapsed_seconds, time_remaining_seconds }. Timing is measured on the server; the time_taken argument is ignored.';
+
+-- ============================================================================
+-- FUNCTION 3: get_bounty_details
+-- ============================================================================
+-- Same payload as migration 024, plus session timestamps in 'participation'
+-- and 'server_time' so countdowns can be rendered from server time.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_bounty_details(
+    bounty_uuid UUID,
+    wallet_addr TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    bounty_record RECORD;
+    participation_record RECORD;
+    user_uuid UUID;
+    words_revealed BOOLEAN;
+    result JSONB;
+BEGIN
+    -- Get bounty
+    SELECT
+        b.*,
+        u.username as creator_username,
+        u.display_name as creator_display_name
+    INTO bounty_record
+    FROM bounties b
+    JOIN users u ON b.creator_id = u.id
+    WHERE b.id = bounty_uuid;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bounty not found';
+    END IF;
+
+    -- Solutions are only safe to publish once nobody can play anymore
+    words_revealed := bounty_record.status IN ('completed', 'cancelled', 'expired')
+        OR (bounty_record.end_time IS NOT NULL AND bounty_record.end_time <= NOW());
+
+    -- Get user participation if wallet provided
+    participation_record := NULL;
+    IF wallet_addr IS NOT NULL THEN
+        SELECT id INTO user_uuid FROM users WHERE wallet_address = wallet_addr;
+        IF FOUND THEN
+            SELECT * INTO participation_record
+            FROM bounty_participants
+            WHERE bounty_id = bounty_uuid AND user_id = user_uuid;
+        END IF;
+    END IF;
+
+    -- Build result
+    result := jsonb_build_object(
+        'id', bounty_record.id,
+        'name', bounty_record.name,
+        'description', bounty_record.description,
+        'bounty_type', bounty_record.bounty_type,
+        'prize_amount', bounty_record.prize_amount,
+        'prize_currency', bounty_record.prize_currency,
+        'status', bounty_record.status,
+        'is_public', bounty_record.is_public,
+        'participant_count', bounty_record.participant_count,
+        'max_participants', bounty_record.max_participants,
+        'max_attempts_per_user', bounty_record.max_attempts_per_user,
+        'time_limit_seconds', bounty_record.time_limit_seconds,
+        'start_time', bounty_record.start_time,
+        'end_time', bounty_record.end_time,
+        'duration_hours', bounty_record.duration_hours,
+        'created_at', bounty_record.created_at,
+        'server_time', NOW(),
+        'creator', jsonb_build_object(
+            'username', bounty_record.creator_username,
+            'display_name', bounty_record.creator_display_name
+        ),
+        'words', CASE WHEN words_revealed THEN to_jsonb(bounty_record.words) ELSE NULL END,
+        'word_lengths', (
+            SELECT jsonb_agg(LENGTH(w) ORDER BY ord)
+            FROM unnest(bounty_record.words) WITH ORDINALITY AS t(w, ord)
+        ),
+        'words_count', array_length(bounty_record.words, 1),
+        'hints', bounty_record.hints,
+        'participation', CASE
+            WHEN participation_record IS NOT NULL THEN
+                jsonb_build_object(
+                    'status', participation_record.status,
+                    'joined_at', participation_record.joined_at,
+                    'current_word_index', participation_record.current_word_index,
+                    'total_attempts', participation_record.total_attempts,
+                    'words_completed', participation_record.words_completed,
+                    'total_time_seconds', participation_record.total_time_seconds,
+                    'session_started_at', participation_record.session_started_at,
+                    'session_ended_at', participation_record.session_ended_at,
+                    'is_winner', participation_record.is_winner
+                )
+            ELSE NULL
+        END
+    );
+
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- FUNCTION 4: determine_bounty_winner
+-- ============================================================================
+-- Same criteria and prize rules as migration 020:
+-- - first-to-solve: earliest completed_at, single winner
+-- - time: shortest session
+-- - attempts: fewest attempts, session time breaks ties
+-- - words-correct: most words, session time breaks ties
+-- - split-winners pays the top 3 equally, winner-take-all the top 1
+--
+-- "Session time" is now session_ended_at - session_started_at as recorded by
+-- submit_attempt (fractional seconds, so sub-second finishes still rank).
+-- Participants from before this migration fall back to total_time_seconds.
+-- The four near-identical branches are folded into one ranked query.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION determine_bounty_winner(bounty_uuid UUID)
+RETURNS TABLE(
+    user_id UUID,
+    prize_share DECIMAL(20, 8),
+    ranking INTEGER,
+    metric_value DECIMAL(20, 4)
+) AS $$
+DECLARE
+    v_winner_criteria winner_criteria;
+    v_prize_distribution prize_distribution;
+    v_prize_amount DECIMAL(20, 8);
+    v_bounty_status VARCHAR(20);
+    v_max_winners INTEGER;
+BEGIN
+    -- Log function call
+    RAISE NOTICE 'determine_bounty_winner() called for bounty: %', bounty_uuid;
+
+    -- Get bounty details
+    SELECT b.winner_criteria, b.prize_distribution, b.prize_amount, b.status
+    INTO v_winner_criteria, v_prize_distribution, v_prize_amount, v_bounty_status
+    FROM bounties b
+    WHERE b.id = bounty_uuid;
+
+    -- Validate bounty exists
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bounty not found: %', bounty_uuid;
+    END IF;
+
+    -- Validate bounty is completed or can be completed
+    IF v_bounty_status NOT IN ('completed', 'active', 'expired') THEN
+        RAISE EXCEPTION 'Bounty cannot be completed. Current status: %', v_bounty_status;
+    END IF;
+
+    IF v_winner_criteria NOT IN ('first-to-solve', 'time', 'attempts', 'words-correct') THEN
+        RAISE EXCEPTION 'Unknown winner_criteria: %', v_winner_criteria;
+    END IF;
+
+    IF v_prize_distribution NOT IN ('winner-take-all', 'split-winners') THEN
+        RAISE EXCEPTION 'Unknown prize_distribution: %', v_prize_distribution;
+    END IF;
+
+    -- first-to-solve always has a single winner; split-winners pays the top 3
+    v_max_winners := CASE
+        WHEN v_winner_criteria <> 'first-to-solve' AND v_prize_distribution = 'split-winners' THEN 3
+        ELSE 1
+    END;
+
+    RAISE NOTICE 'Bounty details - Criteria: %, Distribution: %, Prize: %, Max winners: %',
+        v_winner_criteria, v_prize_distribution, v_prize_amount, v_max_winners;
+
+    RETURN QUERY
+    WITH candidates AS (
+        SELECT
+            bp.user_id AS candidate_id,
+            bp.completed_at,
+            bp.total_attempts,
+            bp.words_completed,
+            COALESCE(
+                EXTRACT(EPOCH FROM (bp.session_ended_at - bp.session_started_at)),
+                bp.total_time_seconds
+            )::DECIMAL(20, 4) AS session_seconds
+        FROM bounty_participants bp
+        WHERE bp.bounty_id = bounty_uuid
+          AND bp.status = 'completed'
+    ),
+    scored AS (
+        SELECT
+            c.candidate_id,
+            c.session_seconds,
+            (CASE v_winner_criteria
+                WHEN 'first-to-solve' THEN EXTRACT(EPOCH FROM c.completed_at)
+                WHEN 'time' THEN c.session_seconds
+                WHEN 'attempts' THEN c.total_attempts
+                WHEN 'words-correct' THEN c.words_completed
+            END)::DECIMAL(20, 4) AS metric
+        FROM candidates c
+        WHERE CASE v_winner_criteria
+            WHEN 'first-to-solve' THEN c.completed_at IS NOT NULL
+            WHEN 'time' THEN c.session_seconds IS NOT NULL
+            WHEN 'attempts' THEN c.total_attempts > 0
+            WHEN 'words-correct' THEN c.words_completed > 0
+        END
+    ),
+    ranked AS (
+        SELECT
+            s.candidate_id,
+            s.metric,
+            ROW_NUMBER() OVER (
+                ORDER BY
+                    -- words-correct is the only criterion where higher is better
+                    CASE WHEN v_winner_criteria = 'words-correct' THEN -s.metric ELSE s.metric END ASC,
+                    s.session_seconds ASC NULLS LAST
+            ) AS position
+        FROM scored s
+    ),
+    winners AS (
+        SELECT r.candidate_id, r.metric, r.position
+        FROM ranked r
+        WHERE r.position <= v_max_winners
+    )
+    SELECT
+        w.candidate_id::UUID,
+        (v_prize_amount / COUNT(*) OVER ())::DECIMAL(20, 8),
+        w.position::INTEGER,
+        w.metric::DECIMAL(20, 4)
+    FROM winners w
+    ORDER BY w.position;
+
+    -- Log if no winners found
+    IF NOT FOUND THEN
+        RAISE WARNING 'No eligible winners found for bounty: %', bounty_uuid;
+    END IF;
+
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION determine_bounty_winner(UUID) IS
+'Analyzes all participants and determines winner(s) based on bounty winner_criteria. Time is taken from server-recorded session timestamps (migration 025).';
+
+GRANT EXECUTE ON FUNCTION determine_bounty_winner(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION determine_bounty_winner(UUID) TO anon;
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+-- What changed:
+-- - bounty_participants.session_started_at / session_ended_at
+-- - word_sessions table (per participant, per word)
+-- - start_word_session(bounty_uuid, wallet_addr, word_idx)
+-- - submit_attempt() measures time itself, enforces time_limit_seconds on
+--   Time-based bounties and refuses guesses after the last word is solved
+-- - get_bounty_details() adds server_time and session timestamps
+-- - determine_bounty_winner() ranks on server session duration
+--
+-- Client contract:
+-- - Call start_word_session when a board is shown; drive the countdown from
+--   its 'deadline' and 'server_time', not a local counter
+-- - The time_taken argument of submit_attempt is ignored
+-- ============================================================================
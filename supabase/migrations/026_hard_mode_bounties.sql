@@ -0,0 +1,519 @@
+-- ============================================================================
+-- Migration 026: Hard-Mode Bounties
+-- Created: 2026-10-19
+-- Purpose: Let creators require hard-mode play and enforce it in submit_attempt
+-- ============================================================================
+-- ISSUE: Hard mode only existed as a card on RandomWordPage and nothing
+-- enforced it. Bounties had no way to ask for it.
+--
+-- SOLUTION:
+-- 1. bounties.hard_mode flag, accepted by create_bounty_with_wallet()
+-- 2. check_hard_mode_guess() applies the same rules as checkHardModeGuess()
+--    in src/utils/game/wordle-engine.ts, with the same messages
+-- 3. submit_attempt() rejects violating guesses before anything is recorded
+-- 4. get_bounty_details() exposes hard_mode so the client can pre-check
+-- ============================================================================
+
+-- ============================================================================
+-- SCHEMA
+-- ============================================================================
+
+ALTER TABLE bounties
+    ADD COLUMN IF NOT EXISTS hard_mode BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN bounties.hard_mode IS
+'When true, every guess must keep revealed correct letters in place and reuse revealed present letters.';
+
+-- ============================================================================
+-- FUNCTION 1: check_hard_mode_guess
+-- ============================================================================
+-- previous_results is a JSONB array of letter_results rows for the current
+-- word, oldest first. Returns NULL when the guess is allowed, otherwise the
+-- first rule it breaks:
+-- - '1st letter must be C'       (a correct letter moved or dropped)
+-- - 'Guess must contain T'       (a present letter dropped)
+-- - 'Guess must contain T at least 2 times'
+-- Keep in sync with checkHardModeGuess() so client and server agree.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION check_hard_mode_guess(
+    guess TEXT,
+    previous_results JSONB
+)
+RETURNS TEXT AS $$
+DECLARE
+    v_guess TEXT := UPPER(guess);
+    v_row JSONB;
+    v_tile RECORD;
+    v_revealed RECORD;
+BEGIN
+    IF previous_results IS NULL OR jsonb_typeof(previous_results) <> 'array' THEN
+        RETURN NULL;
+    END IF;
+
+    -- Correct letters must stay in place
+    FOR v_row IN SELECT value FROM jsonb_array_elements(previous_results) LOOP
+        FOR v_tile IN
+            SELECT t.value->>'letter' AS letter, t.value->>'status' AS status, t.position::INTEGER AS position
+            FROM jsonb_array_elements(v_row) WITH ORDINALITY AS t(value, position)
+        LOOP
+            IF v_tile.status = 'correct' AND substr(v_guess, v_tile.position, 1) IS DISTINCT FROM v_tile.letter THEN
+                RETURN v_tile.position
+                    || CASE
+                        WHEN v_tile.position % 100 IN (11, 12, 13) THEN 'th'
+                        WHEN v_tile.position % 10 = 1 THEN 'st'
+                        WHEN v_tile.position % 10 = 2 THEN 'nd'
+                        WHEN v_tile.position % 10 = 3 THEN 'rd'
+                        ELSE 'th'
+                    END
+                    || ' letter must be ' || v_tile.letter;
+            END IF;
+        END LOOP;
+    END LOOP;
+
+    -- Revealed letters must be reused as often as a single row revealed them
+    FOR v_row IN SELECT value FROM jsonb_array_elements(previous_results) LOOP
+        FOR v_revealed IN
+            SELECT t.value->>'letter' AS letter, COUNT(*)::INTEGER AS required
+            FROM jsonb_array_elements(v_row) WITH ORDINALITY AS t(value, position)
+            WHERE t.value->>'status' IN ('correct', 'present')
+            GROUP BY t.value->>'letter'
+            ORDER BY MIN(t.position)
+        LOOP
+            IF LENGTH(v_guess) - LENGTH(REPLACE(v_guess, v_revealed.letter, '')) < v_revealed.required THEN
+                RETURN CASE
+                    WHEN v_revealed.required > 1
+                    THEN 'Guess must contain ' || v_revealed.letter || ' at least ' || v_revealed.required || ' times'
+                    ELSE 'Guess must contain ' || v_revealed.letter
+                END;
+            END IF;
+        END LOOP;
+    END LOOP;
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+COMMENT ON FUNCTION check_hard_mode_guess(TEXT, JSONB) IS
+'Returns the first hard-mode rule a guess breaks given earlier letter_results rows for the same word, or NULL if the guess is allowed.';
+
+GRANT EXECUTE ON FUNCTION check_hard_mode_guess(TEXT, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION check_hard_mode_guess(TEXT, JSONB) TO anon;
+
+-- ============================================================================
+-- FUNCTION 2: submit_attempt
+-- ============================================================================
+-- Same as migration 025, plus the hard-mode check. Violations are raised as
+-- 'Hard mode: <rule>' so GameplayPage can show the rule inline.
+-- ============================================================================
+
+
+CREATE OR REPLACE FUNCTION submit_attempt(
+    bounty_uuid UUID,
+    wallet_addr TEXT,
+    word_idx INTEGER,
+    guessed_word TEXT,
+    time_taken INTEGER DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    user_uuid UUID;
+    participant_record RECORD;
+    bounty_record RECORD;
+    target_word TEXT;
+    attempt_num INTEGER;
+    letter_results JSONB;
+    is_correct BOOLEAN;
+    is_last_word BOOLEAN;
+    attempt_result attempt_result;
+    result JSONB;
+    rows_updated INTEGER;
+    v_is_timed BOOLEAN;
+    v_session_started TIMESTAMP WITH TIME ZONE;
+    v_word_started TIMESTAMP WITH TIME ZONE;
+    v_last_attempt_at TIMESTAMP WITH TIME ZONE;
+    v_attempt_seconds INTEGER;
+    v_elapsed_seconds INTEGER;
+    v_hard_mode_violation TEXT;
+BEGIN
+    -- Get user
+    SELECT id INTO user_uuid FROM users WHERE wallet_address = wallet_addr;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User not found for wallet: %', wallet_addr;
+    END IF;
+
+    -- Get participant record (allow any active status, including 'completed' for multi-word bounties)
+    SELECT * INTO participant_record
+    FROM bounty_participants
+    WHERE bounty_id = bounty_uuid AND user_id = user_uuid;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User % not participating in bounty %', wallet_addr, bounty_uuid;
+    END IF;
+
+    -- Check if participation is active or completed
+    IF participant_record.status NOT IN ('registered', 'active', 'completed') THEN
+        RAISE EXCEPTION 'User participation status is %', participant_record.status;
+    END IF;
+
+    -- A finished session can't be extended by further guesses
+    IF participant_record.session_ended_at IS NOT NULL THEN
+        RAISE EXCEPTION 'User % already finished bounty %', wallet_addr, bounty_uuid;
+    END IF;
+
+    -- Get bounty and target word
+    SELECT * INTO bounty_record FROM bounties WHERE id = bounty_uuid;
+    IF NOT FOUND OR word_idx < 0 OR word_idx >= array_length(bounty_record.words, 1) THEN
+        RAISE EXCEPTION 'Invalid bounty or word index';
+    END IF;
+
+    target_word := UPPER(bounty_record.words[word_idx + 1]); -- Arrays are 1-indexed in PostgreSQL
+    is_last_word := word_idx + 1 >= array_length(bounty_record.words, 1);
+
+    -- Reject guesses of the wrong length before anything is recorded
+    IF LENGTH(guessed_word) <> LENGTH(target_word) THEN
+        RAISE EXCEPTION 'Guess must be % letters long', LENGTH(target_word);
+    END IF;
+
+    -- Session clock: falls back to the join time, so skipping
+    -- start_word_session() can never make a run look faster
+    v_session_started := COALESCE(participant_record.session_started_at, participant_record.joined_at, NOW());
+    v_is_timed := bounty_record.bounty_type = 'Time-based' AND bounty_record.time_limit_seconds IS NOT NULL;
+
+    IF v_is_timed AND NOW() > v_session_started + make_interval(secs => bounty_record.time_limit_seconds) THEN
+        RAISE EXCEPTION 'Time limit of % seconds exceeded', bounty_record.time_limit_seconds;
+    END IF;
+
+    -- Hard mode: the guess must reuse everything this word has revealed so far
+    IF bounty_record.hard_mode THEN
+        SELECT check_hard_mode_guess(
+            guessed_word,
+            COALESCE(jsonb_agg(ga.letter_results ORDER BY ga.attempt_number), '[]'::JSONB)
+        )
+        INTO v_hard_mode_violation
+        FROM game_attempts ga
+        WHERE ga.participant_id = participant_record.id AND ga.word_index = word_idx;
+
+        IF v_hard_mode_violation IS NOT NULL THEN
+            RAISE EXCEPTION 'Hard mode: %', v_hard_mode_violation;
+        END IF;
+    END IF;
+
+    -- Word clock: word 0 starts with the session, later words when the previous one was solved
+    INSERT INTO word_sessions (participant_id, bounty_id, word_index, started_at)
+    VALUES (
+        participant_record.id,
+        bounty_uuid,
+        word_idx,
+        CASE WHEN word_idx = 0 THEN v_session_started ELSE NOW() END
+    )
+    ON CONFLICT (participant_id, word_index) DO NOTHING;
+
+    SELECT started_at INTO v_word_started
+    FROM word_sessions
+    WHERE participant_id = participant_record.id AND word_index = word_idx;
+
+    -- Get next attempt number and the previous guess time for this word
+    SELECT COALESCE(MAX(attempt_number), 0) + 1, MAX(created_at)
+    INTO attempt_num, v_last_attempt_at
+    FROM game_attempts
+    WHERE participant_id = participant_record.id AND word_index = word_idx;
+
+    v_attempt_seconds := FLOOR(EXTRACT(EPOCH FROM (NOW() - COALESCE(v_last_attempt_at, v_word_started))))::INTEGER;
+    v_elapsed_seconds := FLOOR(EXTRACT(EPOCH FROM (NOW() - v_session_started)))::INTEGER;
+
+    -- Score the guess
+    letter_results := calculate_letter_results(guessed_word, target_word);
+    is_correct := UPPER(guessed_word) = target_word;
+
+    -- Determine attempt result
+    IF is_correct THEN
+        attempt_result := 'correct';
+    ELSIF jsonb_path_exists(letter_results, '$[*] ? (@.status != "absent")') THEN
+        attempt_result := 'partial';
+    ELSE
+        attempt_result := 'incorrect';
+    END IF;
+
+    -- Insert attempt
+    INSERT INTO game_attempts (
+        participant_id,
+        bounty_id,
+        word_index,
+        attempt_number,
+        guessed_word,
+        target_word,
+        result,
+        letter_results,
+        time_taken_seconds
+    ) VALUES (
+        participant_record.id,
+        bounty_uuid,
+        word_idx,
+        attempt_num,
+        UPPER(guessed_word),
+        target_word,
+        attempt_result,
+        letter_results,
+        GREATEST(v_attempt_seconds, 0)
+    );
+
+    -- Close the word clock and open the next one
+    IF is_correct THEN
+        UPDATE word_sessions
+        SET completed_at = NOW()
+        WHERE participant_id = participant_record.id AND word_index = word_idx;
+
+        IF NOT is_last_word THEN
+            INSERT INTO word_sessions (participant_id, bounty_id, word_index, started_at)
+            VALUES (participant_record.id, bounty_uuid, word_idx + 1, NOW())
+            ON CONFLICT (participant_id, word_index) DO NOTHING;
+        END IF;
+    END IF;
+
+    -- Update participant progress
+    UPDATE bounty_participants
+    SET
+        total_attempts = total_attempts + 1,
+        total_time_seconds = GREATEST(v_elapsed_seconds, 0),
+        session_started_at = v_session_started,
+        session_ended_at = CASE
+            WHEN is_correct AND is_last_word THEN NOW()
+            ELSE session_ended_at
+        END,
+        words_completed = CASE
+            WHEN is_correct THEN GREATEST(words_completed, word_idx + 1)
+            ELSE words_completed
+        END,
+        current_word_index = CASE
+            WHEN is_correct AND is_last_word THEN word_idx
+            WHEN is_correct THEN word_idx + 1
+            ELSE current_word_index
+        END,
+        status = CASE
+            WHEN is_correct AND is_last_word THEN 'completed'::participation_status
+            ELSE status
+        END,
+        completed_at = CASE
+            WHEN is_correct AND is_last_word THEN NOW()
+            ELSE completed_at
+        END
+    WHERE id = participant_record.id;
+
+    -- Check how many rows were actually updated
+    GET DIAGNOSTICS rows_updated = ROW_COUNT;
+
+    IF rows_updated = 0 THEN
+        RAISE WARNING 'No rows updated for participant % in bounty %', participant_record.id, bounty_uuid;
+    END IF;
+
+    -- Build result (no target word - the client renders only what we return)
+    result := jsonb_build_object(
+        'correct', is_correct,
+        'attempt_number', attempt_num,
+        'letter_results', letter_results,
+        'completed_bounty', is_correct AND is_last_word,
+        'participant_id', participant_record.id,
+        'rows_updated', rows_updated,
+        'elapsed_seconds', GREATEST(v_elapsed_seconds, 0),
+        'time_remaining_seconds', CASE
+            WHEN v_is_timed THEN GREATEST(bounty_record.time_limit_seconds - v_elapsed_seconds, 0)
+            ELSE NULL
+        END
+    );
+
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION submit_attempt(UUID, TEXT, INTEGER, TEXT, INTEGER) IS
+'Records a guess, scores it server-side and returns { correct, attempt_number, letter_results, completed_bounty, elapsed_seconds, time_remaining_seconds }. Timing is measured on the server; the time_taken argument is ignored. Hard-mode bounties reject guesses that drop revealed letters with "Hard mode: <rule>".';
+
+-- ============================================================================
+-- FUNCTION 3: get_bounty_details
+-- ============================================================================
+-- Same payload as migration 025, plus 'hard_mode'.
+-- ============================================================================
+
+
+CREATE OR REPLACE FUNCTION get_bounty_details(
+    bounty_uuid UUID,
+    wallet_addr TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    bounty_record RECORD;
+    participation_record RECORD;
+    user_uuid UUID;
+    words_revealed BOOLEAN;
+    result JSONB;
+BEGIN
+    -- Get bounty
+    SELECT
+        b.*,
+        u.username as creator_username,
+        u.display_name as creator_display_name
+    INTO bounty_record
+    FROM bounties b
+    JOIN users u ON b.creator_id = u.id
+    WHERE b.id = bounty_uuid;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bounty not found';
+    END IF;
+
+    -- Solutions are only safe to publish once nobody can play anymore
+    words_revealed := bounty_record.status IN ('completed', 'cancelled', 'expired')
+        OR (bounty_record.end_time IS NOT NULL AND bounty_record.end_time <= NOW());
+
+    -- Get user participation if wallet provided
+    participation_record := NULL;
+    IF wallet_addr IS NOT NULL THEN
+        SELECT id INTO user_uuid FROM users WHERE wallet_address = wallet_addr;
+        IF FOUND THEN
+            SELECT * INTO participation_record
+            FROM bounty_participants
+            WHERE bounty_id = bounty_uuid AND user_id = user_uuid;
+        END IF;
+    END IF;
+
+    -- Build result
+    result := jsonb_build_object(
+        'id', bounty_record.id,
+        'name', bounty_record.name,
+        'description', bounty_record.description,
+        'bounty_type', bounty_record.bounty_type,
+        'prize_amount', bounty_record.prize_amount,
+        'prize_currency', bounty_record.prize_currency,
+        'status', bounty_record.status,
+        'is_public', bounty_record.is_public,
+        'participant_count', bounty_record.participant_count,
+        'max_participants', bounty_record.max_participants,
+        'max_attempts_per_user', bounty_record.max_attempts_per_user,
+        'time_limit_seconds', bounty_record.time_limit_seconds,
+        'hard_mode', bounty_record.hard_mode,
+        'start_time', bounty_record.start_time,
+        'end_time', bounty_record.end_time,
+        'duration_hours', bounty_record.duration_hours,
+        'created_at', bounty_record.created_at,
+        'server_time', NOW(),
+        'creator', jsonb_build_object(
+            'username', bounty_record.creator_username,
+            'display_name', bounty_record.creator_display_name
+        ),
+        'words', CASE WHEN words_revealed THEN to_jsonb(bounty_record.words) ELSE NULL END,
+        'word_lengths', (
+            SELECT jsonb_agg(LENGTH(w) ORDER BY ord)
+            FROM unnest(bounty_record.words) WITH ORDINALITY AS t(w, ord)
+        ),
+        'words_count', array_length(bounty_record.words, 1),
+        'hints', bounty_record.hints,
+        'participation', CASE
+            WHEN participation_record IS NOT NULL THEN
+                jsonb_build_object(
+                    'status', participation_record.status,
+                    'joined_at', participation_record.joined_at,
+                    'current_word_index', participation_record.current_word_index,
+                    'total_attempts', participation_record.total_attempts,
+                    'words_completed', participation_record.words_completed,
+                    'total_time_seconds', participation_record.total_time_seconds,
+                    'session_started_at', participation_record.session_started_at,
+                    'session_ended_at', participation_record.session_ended_at,
+                    'is_winner', participation_record.is_winner
+                )
+            ELSE NULL
+        END
+    );
+
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- FUNCTION 4: create_bounty_with_wallet
+-- ============================================================================
+-- Same as migration 005, plus the optional 'hard_mode' key in bounty_data.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.create_bounty_with_wallet(
+  wallet_addr VARCHAR(255),
+  bounty_data JSONB
+) RETURNS UUID AS $$
+DECLARE
+  user_uuid UUID;
+  bounty_uuid UUID;
+BEGIN
+  -- Get or create user
+  user_uuid := public.get_or_create_user(wallet_addr);
+
+  -- Create bounty
+  INSERT INTO bounties (
+    name,
+    description,
+    creator_id,
+    bounty_type,
+    prize_amount,
+    prize_currency,
+    words,
+    hints,
+    max_participants,
+    max_attempts_per_user,
+    time_limit_seconds,
+    winner_criteria,
+    duration_hours,
+    status,
+    is_public,
+    requires_registration,
+    hard_mode,
+    start_time,
+    end_time
+  ) VALUES (
+    bounty_data->>'name',
+    bounty_data->>'description',
+    user_uuid,
+    COALESCE((bounty_data->>'bounty_type')::bounty_type, 'Simple'::bounty_type),
+    COALESCE((bounty_data->>'prize_amount')::DECIMAL, 0),
+    COALESCE(bounty_data->>'prize_currency', 'HBAR'),
+    COALESCE(
+      ARRAY(SELECT jsonb_array_elements_text(bounty_data->'words')),
+      ARRAY['WORDLE']
+    ),
+    COALESCE(
+      ARRAY(SELECT jsonb_array_elements_text(bounty_data->'hints')),
+      ARRAY[]::TEXT[]
+    ),
+    (bounty_data->>'max_participants')::INTEGER,
+    (bounty_data->>'max_attempts_per_user')::INTEGER,
+    (bounty_data->>'time_limit_seconds')::INTEGER,
+    COALESCE((bounty_data->>'winner_criteria')::winner_criteria, 'attempts'::winner_criteria),
+    (bounty_data->>'duration_hours')::INTEGER,
+    COALESCE((bounty_data->>'status')::bounty_status, 'active'::bounty_status),
+    COALESCE((bounty_data->>'is_public')::BOOLEAN, true),
+    COALESCE((bounty_data->>'requires_registration')::BOOLEAN, false),
+    COALESCE((bounty_data->>'hard_mode')::BOOLEAN, false),
+    NOW(),
+    CASE
+      WHEN bounty_data->>'duration_hours' IS NOT NULL
+      THEN NOW() + ((bounty_data->>'duration_hours')::INTEGER || ' hours')::INTERVAL
+      ELSE NULL
+    END
+  ) RETURNING id INTO bounty_uuid;
+
+  RETURN bounty_uuid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.create_bounty_with_wallet(VARCHAR, JSONB) TO anon;
+GRANT EXECUTE ON FUNCTION public.create_bounty_with_wallet(VARCHAR, JSONB) TO authenticated;
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+-- What changed:
+-- - bounties.hard_mode (default false)
+-- - check_hard_mode_guess(guess, previous_results)
+-- - submit_attempt() raises 'Hard mode: <rule>' for violating guesses;
+--   nothing is recorded and the guess doesn't count as an attempt
+-- - get_bounty_details() returns hard_mode
+-- - create_bounty_with_wallet() accepts bounty_data.hard_mode
+-- ============================================================================
@@ -0,0 +1,537 @@
+-- ============================================================================
+-- Migration 027: Progressive Hints
+-- Created: 2026-10-19
+-- Purpose: Unlock bounty hints one at a time, with a penalty per hint
+-- ============================================================================
+-- ISSUE: bounties.hints was shown in full or not at all, and using hints had
+-- no effect on who won.
+--
+-- SOLUTION:
+-- 1. bounties.hint_penalties: one penalty per hint, in hint order
+-- 2. hint_unlocks table records every unlock per participant
+-- 3. bounty_participants.hints_used / hint_penalty_total for leaderboards
+-- 4. unlock_hint() hands out the next hint and records its penalty
+-- 5. determine_bounty_winner() applies the penalty under every criterion
+-- 6. get_bounty_details() / get_bounty_leaderboard() expose hint usage;
+--    hint text is no longer returned in full while the bounty runs
+--
+-- PENALTY UNITS (depend on winner_criteria):
+-- - time:           seconds added to the session time
+-- - first-to-solve: seconds added to the completion time
+-- - attempts:       attempts added
+-- - words-correct:  words subtracted (fractions allowed, e.g. 0.5)
+-- ============================================================================
+
+-- ============================================================================
+-- SCHEMA
+-- ============================================================================
+
+ALTER TABLE bounties
+    ADD COLUMN IF NOT EXISTS hint_penalties DECIMAL(10, 2)[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN bounties.hint_penalties IS
+'Penalty for unlocking each hint, aligned with hints[]. Missing entries mean no penalty. Unit depends on winner_criteria (seconds, attempts or words).';
+
+ALTER TABLE bounty_participants
+    ADD COLUMN IF NOT EXISTS hints_used INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS hint_penalty_total DECIMAL(10, 2) NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS hint_unlocks (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    participant_id UUID NOT NULL REFERENCES bounty_participants(id) ON DELETE CASCADE,
+    bounty_id UUID NOT NULL REFERENCES bounties(id) ON DELETE CASCADE,
+    hint_index INTEGER NOT NULL,
+    penalty DECIMAL(10, 2) NOT NULL DEFAULT 0,
+    unlocked_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    UNIQUE(participant_id, hint_index),
+    CONSTRAINT valid_hint_index CHECK (hint_index >= 0),
+    CONSTRAINT valid_hint_penalty CHECK (penalty >= 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_hint_unlocks_bounty ON hint_unlocks(bounty_id);
+
+-- Rows hold indexes and penalties only, never hint text
+ALTER TABLE hint_unlocks ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view hint unlocks" ON hint_unlocks;
+CREATE POLICY "Anyone can view hint unlocks"
+  ON hint_unlocks FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+GRANT SELECT ON hint_unlocks TO anon, authenticated;
+
+-- ============================================================================
+-- FUNCTION 1: unlock_hint
+-- ============================================================================
+-- Unlocks the participant's next hint (hints are always unlocked in the order
+-- the creator set) and returns it with its penalty.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION unlock_hint(
+    bounty_uuid UUID,
+    wallet_addr TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+    user_uuid UUID;
+    participant_record RECORD;
+    bounty_record RECORD;
+    v_hint_index INTEGER;
+    v_hints_count INTEGER;
+    v_penalty DECIMAL(10, 2);
+BEGIN
+    SELECT id INTO user_uuid FROM users WHERE wallet_address = wallet_addr;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User not found for wallet: %', wallet_addr;
+    END IF;
+
+    SELECT * INTO bounty_record FROM bounties WHERE id = bounty_uuid;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bounty not found';
+    END IF;
+
+    IF bounty_record.status <> 'active' THEN
+        RAISE EXCEPTION 'Hints can only be unlocked while the bounty is active';
+    END IF;
+
+    -- Lock the row so two clicks can't unlock the same hint twice
+    SELECT * INTO participant_record
+    FROM bounty_participants
+    WHERE bounty_id = bounty_uuid AND user_id = user_uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User % not participating in bounty %', wallet_addr, bounty_uuid;
+    END IF;
+
+    IF participant_record.status NOT IN ('registered', 'active') THEN
+        RAISE EXCEPTION 'User participation status is %', participant_record.status;
+    END IF;
+
+    v_hint_index := participant_record.hints_used;
+    v_hints_count := COALESCE(array_length(bounty_record.hints, 1), 0);
+
+    IF v_hint_index >= v_hints_count THEN
+        RAISE EXCEPTION 'No more hints available';
+    END IF;
+
+    v_penalty := COALESCE(bounty_record.hint_penalties[v_hint_index + 1], 0);
+
+    INSERT INTO hint_unlocks (participant_id, bounty_id, hint_index, penalty)
+    VALUES (participant_record.id, bounty_uuid, v_hint_index, v_penalty);
+
+    UPDATE bounty_participants
+    SET
+        hints_used = hints_used + 1,
+        hint_penalty_total = hint_penalty_total + v_penalty
+    WHERE id = participant_record.id;
+
+    RETURN jsonb_build_object(
+        'hint_index', v_hint_index,
+        'hint', bounty_record.hints[v_hint_index + 1],
+        'penalty', v_penalty,
+        'hints_used', v_hint_index + 1,
+        'hints_remaining', v_hints_count - v_hint_index - 1,
+        'hint_penalty_total', participant_record.hint_penalty_total + v_penalty
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION unlock_hint(UUID, TEXT) IS
+'Unlocks the next hint for a participant, records the unlock and its penalty, and returns { hint_index, hint, penalty, hints_used, hints_remaining, hint_penalty_total }.';
+
+GRANT EXECUTE ON FUNCTION unlock_hint(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION unlock_hint(UUID, TEXT) TO anon;
+
+-- ============================================================================
+-- FUNCTION 2: determine_bounty_winner
+-- ============================================================================
+-- Same ranking as migration 025, with each participant's hint_penalty_total
+-- applied to the metric (see PENALTY UNITS above). metric_value is the
+-- penalised value. Ties are still broken on raw session time.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION determine_bounty_winner(bounty_uuid UUID)
+RETURNS TABLE(
+    user_id UUID,
+    prize_share DECIMAL(20, 8),
+    ranking INTEGER,
+    metric_value DECIMAL(20, 4)
+) AS $$
+DECLARE
+    v_winner_criteria winner_criteria;
+    v_prize_distribution prize_distribution;
+    v_prize_amount DECIMAL(20, 8);
+    v_bounty_status VARCHAR(20);
+    v_max_winners INTEGER;
+BEGIN
+    -- Log function call
+    RAISE NOTICE 'determine_bounty_winner() called for bounty: %', bounty_uuid;
+
+    -- Get bounty details
+    SELECT b.winner_criteria, b.prize_distribution, b.prize_amount, b.status
+    INTO v_winner_criteria, v_prize_distribution, v_prize_amount, v_bounty_status
+    FROM bounties b
+    WHERE b.id = bounty_uuid;
+
+    -- Validate bounty exists
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bounty not found: %', bounty_uuid;
+    END IF;
+
+    -- Validate bounty is completed or can be completed
+    IF v_bounty_status NOT IN ('completed', 'active', 'expired') THEN
+        RAISE EXCEPTION 'Bounty cannot be completed. Current status: %', v_bounty_status;
+    END IF;
+
+    IF v_winner_criteria NOT IN ('first-to-solve', 'time', 'attempts', 'words-correct') THEN
+        RAISE EXCEPTION 'Unknown winner_criteria: %', v_winner_criteria;
+    END IF;
+
+    IF v_prize_distribution NOT IN ('winner-take-all', 'split-winners') THEN
+        RAISE EXCEPTION 'Unknown prize_distribution: %', v_prize_distribution;
+    END IF;
+
+    -- first-to-solve always has a single winner; split-winners pays the top 3
+    v_max_winners := CASE
+        WHEN v_winner_criteria <> 'first-to-solve' AND v_prize_distribution = 'split-winners' THEN 3
+        ELSE 1
+    END;
+
+    RAISE NOTICE 'Bounty details - Criteria: %, Distribution: %, Prize: %, Max winners: %',
+        v_winner_criteria, v_prize_distribution, v_prize_amount, v_max_winners;
+
+    RETURN QUERY
+    WITH candidates AS (
+        SELECT
+            bp.user_id AS candidate_id,
+            bp.completed_at,
+            bp.total_attempts,
+            bp.words_completed,
+            COALESCE(
+                EXTRACT(EPOCH FROM (bp.session_ended_at - bp.session_started_at)),
+                bp.total_time_seconds
+            )::DECIMAL(20, 4) AS session_seconds,
+            COALESCE(bp.hint_penalty_total, 0)::DECIMAL(20, 4) AS hint_penalty
+        FROM bounty_participants bp
+        WHERE bp.bounty_id = bounty_uuid
+          AND bp.status = 'completed'
+    ),
+    scored AS (
+        SELECT
+            c.candidate_id,
+            c.session_seconds,
+            (CASE v_winner_criteria
+                WHEN 'first-to-solve' THEN EXTRACT(EPOCH FROM c.completed_at) + c.hint_penalty
+                WHEN 'time' THEN c.session_seconds + c.hint_penalty
+                WHEN 'attempts' THEN c.total_attempts + c.hint_penalty
+                WHEN 'words-correct' THEN c.words_completed - c.hint_penalty
+            END)::DECIMAL(20, 4) AS metric
+        FROM candidates c
+        WHERE CASE v_winner_criteria
+            WHEN 'first-to-solve' THEN c.completed_at IS NOT NULL
+            WHEN 'time' THEN c.session_seconds IS NOT NULL
+            WHEN 'attempts' THEN c.total_attempts > 0
+            WHEN 'words-correct' THEN c.words_completed > 0
+        END
+    ),
+    ranked AS (
+        SELECT
+            s.candidate_id,
+            s.metric,
+            ROW_NUMBER() OVER (
+                ORDER BY
+                    -- words-correct is the only criterion where higher is better
+                    CASE WHEN v_winner_criteria = 'words-correct' THEN -s.metric ELSE s.metric END ASC,
+                    s.session_seconds ASC NULLS LAST
+            ) AS position
+        FROM scored s
+    ),
+    winners AS (
+        SELECT r.candidate_id, r.metric, r.position
+        FROM ranked r
+        WHERE r.position <= v_max_winners
+    )
+    SELECT
+        w.candidate_id::UUID,
+        (v_prize_amount / COUNT(*) OVER ())::DECIMAL(20, 8),
+        w.position::INTEGER,
+        w.metric::DECIMAL(20, 4)
+    FROM winners w
+    ORDER BY w.position;
+
+    -- Log if no winners found
+    IF NOT FOUND THEN
+        RAISE WARNING 'No eligible winners found for bounty: %', bounty_uuid;
+    END IF;
+
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION determine_bounty_winner(UUID) IS
+'Analyzes all participants and determines winner(s) based on bounty winner_criteria. Time is taken from server-recorded session timestamps (migration 025); hint penalties are applied to the metric (migration 027).';
+
+GRANT EXECUTE ON FUNCTION determine_bounty_winner(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION determine_bounty_winner(UUID) TO anon;
+
+-- ============================================================================
+-- FUNCTION 3: get_bounty_details
+-- ============================================================================
+-- Same payload as migration 026, except:
+-- - 'hints' is null until the bounty has ended; 'hints_count' and
+--   'hint_penalties' describe what can be unlocked
+-- - 'participation' adds hints_used, hint_penalty_total and unlocked_hints
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_bounty_details(
+    bounty_uuid UUID,
+    wallet_addr TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    bounty_record RECORD;
+    participation_record RECORD;
+    user_uuid UUID;
+    words_revealed BOOLEAN;
+    result JSONB;
+BEGIN
+    -- Get bounty
+    SELECT
+        b.*,
+        u.username as creator_username,
+        u.display_name as creator_display_name
+    INTO bounty_record
+    FROM bounties b
+    JOIN users u ON b.creator_id = u.id
+    WHERE b.id = bounty_uuid;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bounty not found';
+    END IF;
+
+    -- Solutions are only safe to publish once nobody can play anymore
+    words_revealed := bounty_record.status IN ('completed', 'cancelled', 'expired')
+        OR (bounty_record.end_time IS NOT NULL AND bounty_record.end_time <= NOW());
+
+    -- Get user participation if wallet provided
+    participation_record := NULL;
+    IF wallet_addr IS NOT NULL THEN
+        SELECT id INTO user_uuid FROM users WHERE wallet_address = wallet_addr;
+        IF FOUND THEN
+            SELECT * INTO participation_record
+            FROM bounty_participants
+            WHERE bounty_id = bounty_uuid AND user_id = user_uuid;
+        END IF;
+    END IF;
+
+    -- Build result
+    result := jsonb_build_object(
+        'id', bounty_record.id,
+        'name', bounty_record.name,
+        'description', bounty_record.description,
+        'bounty_type', bounty_record.bounty_type,
+        'prize_amount', bounty_record.prize_amount,
+        'prize_currency', bounty_record.prize_currency,
+        'status', bounty_record.status,
+        'is_public', bounty_record.is_public,
+        'participant_count', bounty_record.participant_count,
+        'max_participants', bounty_record.max_participants,
+        'max_attempts_per_user', bounty_record.max_attempts_per_user,
+        'time_limit_seconds', bounty_record.time_limit_seconds,
+        'hard_mode', bounty_record.hard_mode,
+        'start_time', bounty_record.start_time,
+        'end_time', bounty_record.end_time,
+        'duration_hours', bounty_record.duration_hours,
+        'created_at', bounty_record.created_at,
+        'server_time', NOW(),
+        'creator', jsonb_build_object(
+            'username', bounty_record.creator_username,
+            'display_name', bounty_record.creator_display_name
+        ),
+        'words', CASE WHEN words_revealed THEN to_jsonb(bounty_record.words) ELSE NULL END,
+        'word_lengths', (
+            SELECT jsonb_agg(LENGTH(w) ORDER BY ord)
+            FROM unnest(bounty_record.words) WITH ORDINALITY AS t(w, ord)
+        ),
+        'words_count', array_length(bounty_record.words, 1),
+        -- Hint text is only handed out through unlock_hint() while the bounty runs
+        'hints', CASE WHEN words_revealed THEN to_jsonb(bounty_record.hints) ELSE NULL END,
+        'hints_count', COALESCE(array_length(bounty_record.hints, 1), 0),
+        'hint_penalties', to_jsonb(bounty_record.hint_penalties),
+        'participation', CASE
+            WHEN participation_record IS NOT NULL THEN
+                jsonb_build_object(
+                    'status', participation_record.status,
+                    'joined_at', participation_record.joined_at,
+                    'current_word_index', participation_record.current_word_index,
+                    'total_attempts', participation_record.total_attempts,
+                    'words_completed', participation_record.words_completed,
+                    'total_time_seconds', participation_record.total_time_seconds,
+                    'session_started_at', participation_record.session_started_at,
+                    'session_ended_at', participation_record.session_ended_at,
+                    'is_winner', participation_record.is_winner,
+                    'hints_used', participation_record.hints_used,
+                    'hint_penalty_total', participation_record.hint_penalty_total,
+                    'unlocked_hints', to_jsonb(bounty_record.hints[1:participation_record.hints_used])
+                )
+            ELSE NULL
+        END
+    );
+
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- FUNCTION 4: get_bounty_leaderboard
+-- ============================================================================
+-- Same ranking as migration 002, plus hints_used. The return type changes,
+-- so the old function has to be dropped first.
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS get_bounty_leaderboard(UUID);
+
+CREATE OR REPLACE FUNCTION get_bounty_leaderboard(bounty_uuid UUID)
+RETURNS TABLE (
+    user_id UUID,
+    wallet_address VARCHAR(255),
+    username VARCHAR(50),
+    display_name VARCHAR(100),
+    total_attempts INTEGER,
+    total_time_seconds INTEGER,
+    words_completed INTEGER,
+    hints_used INTEGER,
+    is_winner BOOLEAN,
+    completed_at TIMESTAMP WITH TIME ZONE,
+    rank BIGINT
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        u.id,
+        u.wallet_address,
+        u.username,
+        u.display_name,
+        bp.total_attempts,
+        bp.total_time_seconds,
+        bp.words_completed,
+        bp.hints_used,
+        bp.is_winner,
+        bp.completed_at,
+        RANK() OVER (
+            ORDER BY
+                bp.is_winner DESC,
+                bp.words_completed DESC,
+                bp.total_attempts ASC,
+                bp.total_time_seconds ASC
+        ) as rank
+    FROM bounty_participants bp
+    JOIN users u ON bp.user_id = u.id
+    WHERE bp.bounty_id = bounty_uuid
+    AND bp.status IN ('completed', 'active')
+    ORDER BY rank;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_bounty_leaderboard(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_bounty_leaderboard(UUID) TO anon;
+
+-- ============================================================================
+-- FUNCTION 5: create_bounty_with_wallet
+-- ============================================================================
+-- Same as migration 026, plus 'hint_penalties' (array of numbers, one per
+-- entry in 'hints', in the same order).
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.create_bounty_with_wallet(
+  wallet_addr VARCHAR(255),
+  bounty_data JSONB
+) RETURNS UUID AS $$
+DECLARE
+  user_uuid UUID;
+  bounty_uuid UUID;
+BEGIN
+  -- Get or create user
+  user_uuid := public.get_or_create_user(wallet_addr);
+
+  -- Create bounty
+  INSERT INTO bounties (
+    name,
+    description,
+    creator_id,
+    bounty_type,
+    prize_amount,
+    prize_currency,
+    words,
+    hints,
+    hint_penalties,
+    max_participants,
+    max_attempts_per_user,
+    time_limit_seconds,
+    winner_criteria,
+    duration_hours,
+    status,
+    is_public,
+    requires_registration,
+    hard_mode,
+    start_time,
+    end_time
+  ) VALUES (
+    bounty_data->>'name',
+    bounty_data->>'description',
+    user_uuid,
+    COALESCE((bounty_data->>'bounty_type')::bounty_type, 'Simple'::bounty_type),
+    COALESCE((bounty_data->>'prize_amount')::DECIMAL, 0),
+    COALESCE(bounty_data->>'prize_currency', 'HBAR'),
+    COALESCE(
+      ARRAY(SELECT jsonb_array_elements_text(bounty_data->'words')),
+      ARRAY['WORDLE']
+    ),
+    COALESCE(
+      ARRAY(SELECT jsonb_array_elements_text(bounty_data->'hints')),
+      ARRAY[]::TEXT[]
+    ),
+    COALESCE(
+      ARRAY(SELECT jsonb_array_elements_text(bounty_data->'hint_penalties')::DECIMAL(10, 2)),
+      ARRAY[]::DECIMAL(10, 2)[]
+    ),
+    (bounty_data->>'max_participants')::INTEGER,
+    (bounty_data->>'max_attempts_per_user')::INTEGER,
+    (bounty_data->>'time_limit_seconds')::INTEGER,
+    COALESCE((bounty_data->>'winner_criteria')::winner_criteria, 'attempts'::winner_criteria),
+    (bounty_data->>'duration_hours')::INTEGER,
+    COALESCE((bounty_data->>'status')::bounty_status, 'active'::bounty_status),
+    COALESCE((bounty_data->>'is_public')::BOOLEAN, true),
+    COALESCE((bounty_data->>'requires_registration')::BOOLEAN, false),
+    COALESCE((bounty_data->>'hard_mode')::BOOLEAN, false),
+    NOW(),
+    CASE
+      WHEN bounty_data->>'duration_hours' IS NOT NULL
+      THEN NOW() + ((bounty_data->>'duration_hours')::INTEGER || ' hours')::INTERVAL
+      ELSE NULL
+    END
+  ) RETURNING id INTO bounty_uuid;
+
+  RETURN bounty_uuid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.create_bounty_with_wallet(VARCHAR, JSONB) TO anon;
+GRANT EXECUTE ON FUNCTION public.create_bounty_with_wallet(VARCHAR, JSONB) TO authenticated;
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+-- What changed:
+-- - bounties.hint_penalties
+-- - bounty_participants.hints_used / hint_penalty_total
+-- - hint_unlocks table
+-- - unlock_hint(bounty_uuid, wallet_addr)
+-- - determine_bounty_winner() applies hint penalties
+-- - get_bounty_details() hides hint text until the bounty ends and returns
+--   the participant's unlocked_hints
+-- - get_bounty_leaderboard() returns hints_used
+-- - create_bounty_with_wallet() accepts bounty_data.hint_penalties
+-- ============================================================================
@@ -0,0 +1,384 @@
+-- ============================================================================
+-- Migration 028: Daily Challenge
+-- Created: 2026-10-19
+-- Purpose: One shared 5-letter word per UTC day, one play per wallet
+-- ============================================================================
+-- ISSUE: Practice mode gives every player a different word from a tiny
+-- hardcoded list, so there is nothing to compare or come back for between
+-- paid bounties.
+--
+-- SOLUTION:
+-- 1. daily_challenges stores the word picked for each UTC day
+-- 2. daily_challenge_results stores one play per wallet per day
+-- 3. submit_daily_guess() scores guesses server-side (the word never leaves
+--    the database until the player finishes or the day is over)
+-- 4. get_daily_challenge(), get_daily_leaderboard(), get_daily_archive()
+--
+-- WORD SELECTION:
+-- Common 5-letter dictionary words are ordered by md5(word || date || seed)
+-- and the first one is taken. The seed is a random value in a private table,
+-- so the order can't be reproduced from the public dictionary. The pick is
+-- stored the first time a day is requested, so later dictionary edits never
+-- change a past daily.
+-- ============================================================================
+
+-- ============================================================================
+-- SCHEMA
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS daily_challenge_config (
+    id BOOLEAN PRIMARY KEY DEFAULT true,
+    seed TEXT NOT NULL DEFAULT md5(random()::TEXT || clock_timestamp()::TEXT),
+
+    CONSTRAINT single_daily_challenge_config CHECK (id)
+);
+
+INSERT INTO daily_challenge_config (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+-- The seed is only read by security definer functions
+ALTER TABLE daily_challenge_config ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON daily_challenge_config FROM anon, authenticated;
+
+CREATE TABLE IF NOT EXISTS daily_challenges (
+    challenge_date DATE PRIMARY KEY,
+    word VARCHAR(20) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS daily_challenge_results (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    challenge_date DATE NOT NULL REFERENCES daily_challenges(challenge_date) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    solved BOOLEAN NOT NULL DEFAULT false,
+    guesses JSONB NOT NULL DEFAULT '[]'::JSONB, -- letter_results of every guess, in order
+    started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    completed_at TIMESTAMP WITH TIME ZONE,
+    time_seconds INTEGER,
+
+    UNIQUE(challenge_date, user_id),
+    CONSTRAINT valid_daily_attempts CHECK (attempts >= 0 AND attempts <= 6)
+);
+
+CREATE INDEX IF NOT EXISTS idx_daily_results_user ON daily_challenge_results(user_id, challenge_date DESC);
+CREATE INDEX IF NOT EXISTS idx_daily_results_leaderboard ON daily_challenge_results(challenge_date, solved, attempts, time_seconds);
+
+-- Today's word and today's boards stay hidden; past days are public
+ALTER TABLE daily_challenges ENABLE ROW LEVEL SECURITY;
+ALTER TABLE daily_challenge_results ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view past daily challenges" ON daily_challenges;
+CREATE POLICY "Anyone can view past daily challenges"
+  ON daily_challenges FOR SELECT
+  TO anon, authenticated
+  USING (challenge_date < (NOW() AT TIME ZONE 'UTC')::DATE);
+
+DROP POLICY IF EXISTS "Anyone can view past daily results" ON daily_challenge_results;
+CREATE POLICY "Anyone can view past daily results"
+  ON daily_challenge_results FOR SELECT
+  TO anon, authenticated
+  USING (challenge_date < (NOW() AT TIME ZONE 'UTC')::DATE);
+
+GRANT SELECT ON daily_challenges TO anon, authenticated;
+GRANT SELECT ON daily_challenge_results TO anon, authenticated;
+
+-- ============================================================================
+-- FUNCTION 1: daily_challenge_word (internal)
+-- ============================================================================
+-- Returns the word for a day, picking and storing it on first use.
+-- Not callable by clients: it returns the secret.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION daily_challenge_word(challenge_day DATE)
+RETURNS TEXT AS $$
+DECLARE
+    v_word TEXT;
+    v_seed TEXT;
+BEGIN
+    SELECT dc.word INTO v_word FROM daily_challenges dc WHERE dc.challenge_date = challenge_day;
+
+    IF FOUND THEN
+        RETURN v_word;
+    END IF;
+
+    SELECT cfg.seed INTO v_seed FROM daily_challenge_config cfg WHERE cfg.id;
+
+    SELECT d.word INTO v_word
+    FROM dictionary d
+    WHERE d.word_length = 5
+      AND d.is_common = true
+    ORDER BY md5(d.word || challenge_day::TEXT || COALESCE(v_seed, '')), d.word
+    LIMIT 1;
+
+    IF v_word IS NULL THEN
+        RAISE EXCEPTION 'Dictionary has no common 5-letter words to pick from';
+    END IF;
+
+    -- Two players opening the first daily at once must get the same word
+    INSERT INTO daily_challenges (challenge_date, word)
+    VALUES (challenge_day, v_word)
+    ON CONFLICT DO NOTHING;
+
+    SELECT dc.word INTO v_word FROM daily_challenges dc WHERE dc.challenge_date = challenge_day;
+
+    RETURN v_word;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION daily_challenge_word(DATE) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- FUNCTION 2: get_daily_challenge
+-- ============================================================================
+-- Today's challenge without the word, plus the player's board if they have
+-- started. 'word' is only included once the player has finished.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_daily_challenge(wallet_addr TEXT DEFAULT NULL)
+RETURNS JSONB AS $$
+DECLARE
+    v_today DATE := (NOW() AT TIME ZONE 'UTC')::DATE;
+    v_word TEXT;
+    v_user_id UUID;
+    v_result RECORD;
+    v_player_result JSONB := NULL;
+    v_players INTEGER;
+    v_solvers INTEGER;
+BEGIN
+    v_word := daily_challenge_word(v_today);
+
+    SELECT COUNT(*)::INTEGER, COUNT(*) FILTER (WHERE r.solved)::INTEGER
+    INTO v_players, v_solvers
+    FROM daily_challenge_results r
+    WHERE r.challenge_date = v_today;
+
+    IF wallet_addr IS NOT NULL THEN
+        SELECT id INTO v_user_id FROM users WHERE wallet_address = wallet_addr;
+
+        SELECT * INTO v_result
+        FROM daily_challenge_results r
+        WHERE r.challenge_date = v_today AND r.user_id = v_user_id;
+
+        IF FOUND THEN
+            v_player_result := jsonb_build_object(
+                'attempts', v_result.attempts,
+                'solved', v_result.solved,
+                'guesses', v_result.guesses,
+                'started_at', v_result.started_at,
+                'completed_at', v_result.completed_at,
+                'time_seconds', v_result.time_seconds,
+                'word', CASE WHEN v_result.completed_at IS NOT NULL THEN v_word ELSE NULL END
+            );
+        END IF;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'challenge_date', v_today,
+        'word_length', LENGTH(v_word),
+        'max_guesses', 6,
+        'players', v_players,
+        'solvers', v_solvers,
+        'server_time', NOW(),
+        'next_challenge_at', ((v_today + 1)::TIMESTAMP AT TIME ZONE 'UTC'),
+        'result', v_player_result
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION get_daily_challenge(TEXT) IS
+'Returns today''s (UTC) daily challenge: word_length, max_guesses, player counts, next_challenge_at and the wallet''s result. The word is only included after the wallet has finished.';
+
+GRANT EXECUTE ON FUNCTION get_daily_challenge(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_daily_challenge(TEXT) TO anon;
+
+-- ============================================================================
+-- FUNCTION 3: submit_daily_guess
+-- ============================================================================
+-- Scores a guess for today's challenge. The first guess creates the
+-- player's result row and starts their clock; the play ends when the word is
+-- solved or after 6 guesses, and can't be repeated that day.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION submit_daily_guess(
+    wallet_addr TEXT,
+    guessed_word TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_today DATE := (NOW() AT TIME ZONE 'UTC')::DATE;
+    v_word TEXT;
+    v_guess TEXT := UPPER(guessed_word);
+    v_user_id UUID;
+    v_result RECORD;
+    v_letter_results JSONB;
+    v_is_correct BOOLEAN;
+    v_attempt_number INTEGER;
+    v_completed BOOLEAN;
+BEGIN
+    v_word := daily_challenge_word(v_today);
+
+    IF LENGTH(v_guess) <> LENGTH(v_word) THEN
+        RAISE EXCEPTION 'Guess must be % letters long', LENGTH(v_word);
+    END IF;
+
+    IF NOT validate_word(v_guess) THEN
+        RAISE EXCEPTION 'Not in word list: %', v_guess;
+    END IF;
+
+    v_user_id := get_or_create_user(wallet_addr);
+
+    INSERT INTO daily_challenge_results (challenge_date, user_id)
+    VALUES (v_today, v_user_id)
+    ON CONFLICT (challenge_date, user_id) DO NOTHING;
+
+    SELECT * INTO v_result
+    FROM daily_challenge_results r
+    WHERE r.challenge_date = v_today AND r.user_id = v_user_id
+    FOR UPDATE;
+
+    IF v_result.completed_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Daily challenge already played today';
+    END IF;
+
+    v_letter_results := calculate_letter_results(v_guess, v_word);
+    v_is_correct := v_guess = v_word;
+    v_attempt_number := v_result.attempts + 1;
+    v_completed := v_is_correct OR v_attempt_number >= 6;
+
+    UPDATE daily_challenge_results
+    SET
+        attempts = v_attempt_number,
+        solved = v_is_correct,
+        guesses = guesses || jsonb_build_array(v_letter_results),
+        completed_at = CASE WHEN v_completed THEN NOW() ELSE NULL END,
+        time_seconds = CASE
+            WHEN v_completed THEN FLOOR(EXTRACT(EPOCH FROM (NOW() - started_at)))::INTEGER
+            ELSE NULL
+        END
+    WHERE id = v_result.id;
+
+    PERFORM increment_word_usage(v_guess);
+
+    RETURN jsonb_build_object(
+        'correct', v_is_correct,
+        'attempt_number', v_attempt_number,
+        'letter_results', v_letter_results,
+        'completed', v_completed,
+        'word', CASE WHEN v_completed THEN v_word ELSE NULL END
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION submit_daily_guess(TEXT, TEXT) IS
+'Scores a guess for today''s daily challenge and returns { correct, attempt_number, letter_results, completed, word }. word is only set once the play is over.';
+
+GRANT EXECUTE ON FUNCTION submit_daily_guess(TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION submit_daily_guess(TEXT, TEXT) TO anon;
+
+-- ============================================================================
+-- FUNCTION 4: get_daily_leaderboard
+-- ============================================================================
+-- Solvers of a day (today by default), fewest guesses first, then fastest.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_daily_leaderboard(
+    challenge_day DATE DEFAULT NULL,
+    limit_count INTEGER DEFAULT 50
+)
+RETURNS TABLE(
+    rank BIGINT,
+    user_id UUID,
+    wallet_address VARCHAR(255),
+    username VARCHAR(50),
+    display_name VARCHAR(100),
+    attempts INTEGER,
+    time_seconds INTEGER,
+    completed_at TIMESTAMP WITH TIME ZONE
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        RANK() OVER (ORDER BY r.attempts ASC, r.time_seconds ASC NULLS LAST) AS rank,
+        u.id,
+        u.wallet_address,
+        u.username,
+        u.display_name,
+        r.attempts,
+        r.time_seconds,
+        r.completed_at
+    FROM daily_challenge_results r
+    JOIN users u ON u.id = r.user_id
+    WHERE r.challenge_date = COALESCE(challenge_day, (NOW() AT TIME ZONE 'UTC')::DATE)
+      AND r.solved = true
+    ORDER BY r.attempts ASC, r.time_seconds ASC NULLS LAST, r.completed_at ASC
+    LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_daily_leaderboard(DATE, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_daily_leaderboard(DATE, INTEGER) TO anon;
+
+-- ============================================================================
+-- FUNCTION 5: get_daily_archive
+-- ============================================================================
+-- Past dailies, newest first, with their word, player stats and (when a
+-- wallet is given) that player's result. Today is never included.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_daily_archive(
+    wallet_addr TEXT DEFAULT NULL,
+    limit_count INTEGER DEFAULT 30
+)
+RETURNS TABLE(
+    challenge_date DATE,
+    word VARCHAR(20),
+    players INTEGER,
+    solvers INTEGER,
+    average_attempts DECIMAL(10, 2),
+    user_attempts INTEGER,
+    user_solved BOOLEAN
+) AS $$
+DECLARE
+    v_user_id UUID;
+BEGIN
+    IF wallet_addr IS NOT NULL THEN
+        SELECT u.id INTO v_user_id FROM users u WHERE u.wallet_address = wallet_addr;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        dc.challenge_date,
+        dc.word,
+        COUNT(r.id)::INTEGER,
+        COUNT(r.id) FILTER (WHERE r.solved)::INTEGER,
+        ROUND(AVG(r.attempts) FILTER (WHERE r.solved), 2)::DECIMAL(10, 2),
+        MAX(r.attempts) FILTER (WHERE r.user_id = v_user_id)::INTEGER,
+        BOOL_OR(r.solved) FILTER (WHERE r.user_id = v_user_id)
+    FROM daily_challenges dc
+    LEFT JOIN daily_challenge_results r
+        ON r.challenge_date = dc.challenge_date
+       AND r.completed_at IS NOT NULL
+    WHERE dc.challenge_date < (NOW() AT TIME ZONE 'UTC')::DATE
+    GROUP BY dc.challenge_date, dc.word
+    ORDER BY dc.challenge_date DESC
+    LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_daily_archive(TEXT, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_daily_archive(TEXT, INTEGER) TO anon;
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+-- What was added:
+-- - daily_challenge_config (private seed), daily_challenges,
+--   daily_challenge_results
+-- - get_daily_challenge(wallet_addr)
+-- - submit_daily_guess(wallet_addr, guessed_word)
+-- - get_daily_leaderboard(challenge_day, limit_count)
+-- - get_daily_archive(wallet_addr, limit_count)
+--
+-- Days roll over at 00:00 UTC. Unfinished plays from a past day stay
+-- unfinished and are left out of the archive stats.
+-- ============================================================================
@@ -0,0 +1,384 @@
+-- ============================================================================
+-- Migration 029: Speed Challenge
+-- Created: 2026-10-19
+-- Purpose: Timed runs of back-to-back words with a combo score
+-- ============================================================================
+-- ISSUE: The "Speed Challenge" game mode played like Classic (one word,
+-- 6 guesses, no clock) and nothing was saved.
+--
+-- SOLUTION:
+-- 1. speed_runs: one row per run, clock and current word kept server-side
+-- 2. start_speed_run() / submit_speed_guess() / finish_speed_run()
+-- 3. get_speed_personal_best() and get_speed_leaderboard()
+--
+-- SCORING (keep in sync with src/utils/game/speed.ts):
+-- - A run lasts 300 seconds; words are common 5-letter dictionary words
+-- - Each word allows 6 guesses. Missing a word resets the combo and moves on
+-- - Solving a word scores (100 + 20 * unused guesses) * multiplier,
+--   where multiplier = combo (words solved in a row), capped at 5
+-- ============================================================================
+
+-- ============================================================================
+-- SCHEMA
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS speed_runs (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    time_limit_seconds INTEGER NOT NULL DEFAULT 300,
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    ends_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    finished_at TIMESTAMP WITH TIME ZONE,
+
+    -- Current word; never returned to the client while it is being played
+    current_word VARCHAR(20),
+    current_guesses INTEGER NOT NULL DEFAULT 0,
+    used_words TEXT[] NOT NULL DEFAULT '{}',
+
+    words_solved INTEGER NOT NULL DEFAULT 0,
+    words_missed INTEGER NOT NULL DEFAULT 0,
+    total_guesses INTEGER NOT NULL DEFAULT 0,
+    current_combo INTEGER NOT NULL DEFAULT 0,
+    best_combo INTEGER NOT NULL DEFAULT 0,
+    score INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT valid_speed_run_times CHECK (ends_at > started_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_speed_runs_user ON speed_runs(user_id, score DESC);
+CREATE INDEX IF NOT EXISTS idx_speed_runs_leaderboard ON speed_runs(score DESC) WHERE finished_at IS NOT NULL;
+
+-- Runs are only read through the functions below, which never return
+-- current_word for a run in progress
+ALTER TABLE speed_runs ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON speed_runs FROM anon, authenticated;
+
+-- ============================================================================
+-- FUNCTION 1: pick_speed_word (internal)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION pick_speed_word(exclude_words TEXT[])
+RETURNS TEXT AS $$
+DECLARE
+    v_word TEXT;
+BEGIN
+    SELECT d.word INTO v_word
+    FROM dictionary d
+    WHERE d.word_length = 5
+      AND d.is_common = true
+      AND NOT (d.word = ANY(COALESCE(exclude_words, '{}')))
+    ORDER BY random()
+    LIMIT 1;
+
+    IF v_word IS NULL THEN
+        RAISE EXCEPTION 'Dictionary has no common 5-letter words left to pick from';
+    END IF;
+
+    RETURN v_word;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION pick_speed_word(TEXT[]) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- FUNCTION 2: start_speed_run
+-- ============================================================================
+-- Starts a run and its clock. Any unfinished run of the same wallet is
+-- closed first, so only one run per wallet is ever live.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION start_speed_run(wallet_addr TEXT)
+RETURNS JSONB AS $$
+DECLARE
+    v_user_id UUID;
+    v_word TEXT;
+    v_run RECORD;
+BEGIN
+    v_user_id := get_or_create_user(wallet_addr);
+
+    UPDATE speed_runs
+    SET finished_at = LEAST(NOW(), ends_at), current_word = NULL
+    WHERE user_id = v_user_id AND finished_at IS NULL;
+
+    v_word := pick_speed_word(NULL);
+
+    INSERT INTO speed_runs (user_id, ends_at, current_word, used_words)
+    VALUES (v_user_id, NOW() + INTERVAL '300 seconds', v_word, ARRAY[v_word])
+    RETURNING * INTO v_run;
+
+    RETURN jsonb_build_object(
+        'run_id', v_run.id,
+        'started_at', v_run.started_at,
+        'ends_at', v_run.ends_at,
+        'server_time', NOW(),
+        'time_limit_seconds', v_run.time_limit_seconds,
+        'word_length', LENGTH(v_word),
+        'max_guesses', 6
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION start_speed_run(TEXT) IS
+'Starts a 300 second speed run for a wallet and returns { run_id, started_at, ends_at, server_time, word_length, max_guesses }.';
+
+GRANT EXECUTE ON FUNCTION start_speed_run(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION start_speed_run(TEXT) TO anon;
+
+-- ============================================================================
+-- FUNCTION 3: finish_speed_run
+-- ============================================================================
+-- Ends a run (early, or when the client's countdown hits zero) and returns
+-- its final stats. Calling it again returns the same stats.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION finish_speed_run(
+    run_uuid UUID,
+    wallet_addr TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_user_id UUID;
+    v_run RECORD;
+    v_best INTEGER;
+BEGIN
+    SELECT id INTO v_user_id FROM users WHERE wallet_address = wallet_addr;
+
+    UPDATE speed_runs
+    SET finished_at = COALESCE(finished_at, LEAST(NOW(), ends_at)), current_word = NULL
+    WHERE id = run_uuid AND user_id = v_user_id
+    RETURNING * INTO v_run;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Speed run % not found for wallet %', run_uuid, wallet_addr;
+    END IF;
+
+    SELECT MAX(sr.score) INTO v_best
+    FROM speed_runs sr
+    WHERE sr.user_id = v_user_id AND sr.id <> v_run.id AND sr.finished_at IS NOT NULL;
+
+    RETURN jsonb_build_object(
+        'run_id', v_run.id,
+        'score', v_run.score,
+        'words_solved', v_run.words_solved,
+        'words_missed', v_run.words_missed,
+        'best_combo', v_run.best_combo,
+        'total_guesses', v_run.total_guesses,
+        'finished_at', v_run.finished_at,
+        'is_personal_best', v_run.score > COALESCE(v_best, 0)
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION finish_speed_run(UUID, TEXT) IS
+'Ends a speed run and returns its final stats, including whether it beat the wallet''s previous best score.';
+
+GRANT EXECUTE ON FUNCTION finish_speed_run(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION finish_speed_run(UUID, TEXT) TO anon;
+
+-- ============================================================================
+-- FUNCTION 4: submit_speed_guess
+-- ============================================================================
+-- Scores a guess for the run's current word. Solving or missing a word
+-- moves straight on to a new one; the missed word is returned so the client
+-- can show it. Guesses after ends_at close the run instead.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION submit_speed_guess(
+    run_uuid UUID,
+    wallet_addr TEXT,
+    guessed_word TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_user_id UUID;
+    v_run RECORD;
+    v_guess TEXT := UPPER(guessed_word);
+    v_letter_results JSONB;
+    v_is_correct BOOLEAN;
+    v_guesses INTEGER;
+    v_word_over BOOLEAN;
+    v_combo INTEGER;
+    v_points INTEGER := 0;
+    v_next_word TEXT;
+BEGIN
+    SELECT id INTO v_user_id FROM users WHERE wallet_address = wallet_addr;
+
+    SELECT * INTO v_run
+    FROM speed_runs
+    WHERE id = run_uuid AND user_id = v_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Speed run % not found for wallet %', run_uuid, wallet_addr;
+    END IF;
+
+    IF v_run.finished_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Speed run already finished';
+    END IF;
+
+    -- Out of time: close the run and report it instead of scoring the guess
+    IF NOW() >= v_run.ends_at THEN
+        RETURN finish_speed_run(run_uuid, wallet_addr) || jsonb_build_object('time_up', true);
+    END IF;
+
+    IF LENGTH(v_guess) <> LENGTH(v_run.current_word) THEN
+        RAISE EXCEPTION 'Guess must be % letters long', LENGTH(v_run.current_word);
+    END IF;
+
+    IF NOT validate_word(v_guess) THEN
+        RAISE EXCEPTION 'Not in word list: %', v_guess;
+    END IF;
+
+    v_letter_results := calculate_letter_results(v_guess, v_run.current_word);
+    v_is_correct := v_guess = v_run.current_word;
+    v_guesses := v_run.current_guesses + 1;
+    v_word_over := v_is_correct OR v_guesses >= 6;
+
+    IF v_is_correct THEN
+        v_combo := v_run.current_combo + 1;
+        v_points := (100 + 20 * (6 - v_guesses)) * LEAST(v_combo, 5);
+    ELSIF v_word_over THEN
+        v_combo := 0;
+    ELSE
+        v_combo := v_run.current_combo;
+    END IF;
+
+    IF v_word_over THEN
+        v_next_word := pick_speed_word(v_run.used_words);
+    END IF;
+
+    UPDATE speed_runs
+    SET
+        total_guesses = total_guesses + 1,
+        current_guesses = CASE WHEN v_word_over THEN 0 ELSE v_guesses END,
+        current_word = CASE WHEN v_word_over THEN v_next_word ELSE current_word END,
+        used_words = CASE WHEN v_word_over THEN used_words || v_next_word ELSE used_words END,
+        words_solved = words_solved + CASE WHEN v_is_correct THEN 1 ELSE 0 END,
+        words_missed = words_missed + CASE WHEN v_word_over AND NOT v_is_correct THEN 1 ELSE 0 END,
+        current_combo = v_combo,
+        best_combo = GREATEST(best_combo, v_combo),
+        score = score + v_points
+    WHERE id = run_uuid;
+
+    RETURN jsonb_build_object(
+        'correct', v_is_correct,
+        'attempt_number', v_guesses,
+        'letter_results', v_letter_results,
+        'word_over', v_word_over,
+        'missed_word', CASE WHEN v_word_over AND NOT v_is_correct THEN v_run.current_word ELSE NULL END,
+        'points', v_points,
+        'combo', v_combo,
+        'score', v_run.score + v_points,
+        'words_solved', v_run.words_solved + CASE WHEN v_is_correct THEN 1 ELSE 0 END,
+        'time_remaining_seconds', GREATEST(FLOOR(EXTRACT(EPOCH FROM (v_run.ends_at - NOW()))), 0)::INTEGER,
+        'time_up', false
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION submit_speed_guess(UUID, TEXT, TEXT) IS
+'Scores a guess in a speed run and returns { correct, attempt_number, letter_results, word_over, missed_word, points, combo, score, words_solved, time_remaining_seconds, time_up }.';
+
+GRANT EXECUTE ON FUNCTION submit_speed_guess(UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION submit_speed_guess(UUID, TEXT, TEXT) TO anon;
+
+-- ============================================================================
+-- FUNCTION 5: get_speed_personal_best
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_speed_personal_best(wallet_addr TEXT)
+RETURNS JSONB AS $$
+DECLARE
+    v_user_id UUID;
+    v_stats RECORD;
+BEGIN
+    SELECT id INTO v_user_id FROM users WHERE wallet_address = wallet_addr;
+
+    SELECT
+        COUNT(*)::INTEGER AS runs_played,
+        COALESCE(MAX(sr.score), 0)::INTEGER AS best_score,
+        COALESCE(MAX(sr.words_solved), 0)::INTEGER AS best_words_solved,
+        COALESCE(MAX(sr.best_combo), 0)::INTEGER AS best_combo,
+        COALESCE(SUM(sr.words_solved), 0)::INTEGER AS total_words_solved
+    INTO v_stats
+    FROM speed_runs sr
+    WHERE sr.user_id = v_user_id
+      AND (sr.finished_at IS NOT NULL OR sr.ends_at <= NOW());
+
+    RETURN jsonb_build_object(
+        'runs_played', v_stats.runs_played,
+        'best_score', v_stats.best_score,
+        'best_words_solved', v_stats.best_words_solved,
+        'best_combo', v_stats.best_combo,
+        'total_words_solved', v_stats.total_words_solved
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_speed_personal_best(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_speed_personal_best(TEXT) TO anon;
+
+-- ============================================================================
+-- FUNCTION 6: get_speed_leaderboard
+-- ============================================================================
+-- All-time best run per player. Runs whose clock ran out without
+-- finish_speed_run() being called still count.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_speed_leaderboard(limit_count INTEGER DEFAULT 50)
+RETURNS TABLE(
+    rank BIGINT,
+    user_id UUID,
+    wallet_address VARCHAR(255),
+    username VARCHAR(50),
+    display_name VARCHAR(100),
+    best_score INTEGER,
+    words_solved INTEGER,
+    best_combo INTEGER,
+    achieved_at TIMESTAMP WITH TIME ZONE
+) AS $$
+BEGIN
+    RETURN QUERY
+    WITH best_runs AS (
+        SELECT DISTINCT ON (sr.user_id)
+            sr.user_id AS runner_id,
+            sr.score,
+            sr.words_solved AS solved,
+            sr.best_combo AS combo,
+            sr.started_at
+        FROM speed_runs sr
+        WHERE (sr.finished_at IS NOT NULL OR sr.ends_at <= NOW())
+          AND sr.score > 0
+        ORDER BY sr.user_id, sr.score DESC, sr.started_at ASC
+    )
+    SELECT
+        RANK() OVER (ORDER BY br.score DESC) AS rank,
+        u.id,
+        u.wallet_address,
+        u.username,
+        u.display_name,
+        br.score,
+        br.solved,
+        br.combo,
+        br.started_at
+    FROM best_runs br
+    JOIN users u ON u.id = br.runner_id
+    ORDER BY br.score DESC, br.started_at ASC
+    LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_speed_leaderboard(INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_speed_leaderboard(INTEGER) TO anon;
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+-- What was added:
+-- - speed_runs table (private; read through functions only)
+-- - start_speed_run(wallet_addr)
+-- - submit_speed_guess(run_uuid, wallet_addr, guessed_word)
+-- - finish_speed_run(run_uuid, wallet_addr)
+-- - get_speed_personal_best(wallet_addr)
+-- - get_speed_leaderboard(limit_count)
+-- ============================================================================
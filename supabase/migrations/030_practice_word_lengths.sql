@@ -0,0 +1,112 @@
+-- ============================================================================
+-- Migration 030: Practice Words for Every Length
+-- Created: 2026-10-19
+-- Purpose: Cover word lengths 4-10 in the dictionary and add get_random_words()
+-- ============================================================================
+-- ISSUE: Practice mode (RandomWordPage) offers lengths 4-10 but the seeded
+-- dictionary (013) only has 4-6 letter words, and the client's
+-- getRandomWords() pulls the first rows of a length and shuffles them, so
+-- the same few words keep coming up.
+--
+-- SOLUTION:
+-- 1. Seed the bundled offline list (src/utils/game/offline-words.ts) so every
+--    length has common words and every offline secret is a valid guess
+-- 2. get_random_words() picks uniformly in the database
+-- ============================================================================
+
+-- 4-letter words
+INSERT INTO public.dictionary (word, is_common) VALUES
+  ('GAME', true), ('WORD', true), ('PLAY', true), ('TIME', true), ('BLUE', true),
+  ('FISH', true), ('STAR', true), ('MOON', true), ('TREE', true), ('RAIN', true),
+  ('SNOW', true), ('WIND', true), ('FIRE', true), ('GOLD', true), ('SHIP', true),
+  ('LAMP', true), ('DOOR', true), ('BOOK', true), ('CAKE', true), ('FROG', true),
+  ('KING', true), ('LAKE', true), ('MILK', true), ('ROAD', true), ('SONG', true)
+ON CONFLICT (word) DO UPDATE SET is_common = true;
+
+-- 5-letter words
+INSERT INTO public.dictionary (word, is_common) VALUES
+  ('CRANE', true), ('HOUSE', true), ('PLANT', true), ('MUSIC', true), ('BREAD', true),
+  ('CHAIR', true), ('LIGHT', true), ('RIVER', true), ('STONE', true), ('TRAIN', true),
+  ('HEART', true), ('GHOST', true), ('SMILE', true), ('BEACH', true), ('CLOUD', true),
+  ('DREAM', true), ('FLAME', true), ('GRAPE', true), ('HONEY', true), ('JUICE', true),
+  ('LEMON', true), ('NIGHT', true), ('OCEAN', true), ('QUIET', true), ('TIGER', true)
+ON CONFLICT (word) DO UPDATE SET is_common = true;
+
+-- 6-letter words
+INSERT INTO public.dictionary (word, is_common) VALUES
+  ('PUZZLE', true), ('GARDEN', true), ('SILVER', true), ('BRIDGE', true), ('CASTLE', true),
+  ('DRAGON', true), ('FOREST', true), ('WINTER', true), ('BUTTER', true), ('CANDLE', true),
+  ('FLOWER', true), ('GUITAR', true), ('ISLAND', true), ('JUNGLE', true), ('MARKET', true),
+  ('ORANGE', true), ('PLANET', true), ('ROCKET', true), ('SUMMER', true), ('TICKET', true),
+  ('VALLEY', true), ('WINDOW', true), ('YELLOW', true), ('ANCHOR', true), ('BASKET', true)
+ON CONFLICT (word) DO UPDATE SET is_common = true;
+
+-- 7-letter words
+INSERT INTO public.dictionary (word, is_common) VALUES
+  ('BALANCE', true), ('CAPTAIN', true), ('DIAMOND', true), ('EXAMPLE', true), ('FREEDOM', true),
+  ('GALLERY', true), ('HARVEST', true), ('JOURNEY', true), ('KITCHEN', true), ('LIBRARY', true),
+  ('MACHINE', true), ('NETWORK', true), ('PICTURE', true), ('QUANTUM', true), ('RAINBOW', true),
+  ('SCIENCE', true), ('THUNDER', true), ('UNIFORM', true), ('VILLAGE', true), ('WEATHER', true),
+  ('BLANKET', true), ('CHICKEN', true), ('DOLPHIN', true), ('FASHION', true), ('MONSTER', true)
+ON CONFLICT (word) DO UPDATE SET is_common = true;
+
+-- 8-letter words
+INSERT INTO public.dictionary (word, is_common) VALUES
+  ('ABSOLUTE', true), ('BUILDING', true), ('CHAMPION', true), ('DAUGHTER', true), ('ELEPHANT', true),
+  ('FESTIVAL', true), ('GRATEFUL', true), ('HOSPITAL', true), ('INTERNET', true), ('KEYBOARD', true),
+  ('LANGUAGE', true), ('MOUNTAIN', true), ('NOTEBOOK', true), ('PAINTING', true), ('QUESTION', true),
+  ('SANDWICH', true), ('TOMORROW', true), ('UMBRELLA', true), ('VACATION', true), ('YOURSELF', true),
+  ('DINOSAUR', true), ('FOOTBALL', true), ('MIDNIGHT', true), ('SUNSHINE', true), ('TREASURE', true)
+ON CONFLICT (word) DO UPDATE SET is_common = true;
+
+-- 9-letter words
+INSERT INTO public.dictionary (word, is_common) VALUES
+  ('ADVENTURE', true), ('BEAUTIFUL', true), ('CHOCOLATE', true), ('DANGEROUS', true), ('EDUCATION', true),
+  ('FANTASTIC', true), ('GUARANTEE', true), ('HAPPINESS', true), ('IMPORTANT', true), ('KNOWLEDGE', true),
+  ('LANDSCAPE', true), ('NEWSPAPER', true), ('ORCHESTRA', true), ('POTENTIAL', true), ('QUALIFIED', true),
+  ('SCULPTURE', true), ('TELESCOPE', true), ('UNIVERSAL', true), ('VEGETABLE', true), ('WONDERFUL', true),
+  ('YESTERDAY', true), ('ASTRONAUT', true), ('BUTTERFLY', true), ('CROCODILE', true), ('DETECTIVE', true)
+ON CONFLICT (word) DO UPDATE SET is_common = true;
+
+-- 10-letter words
+INSERT INTO public.dictionary (word, is_common) VALUES
+  ('ABSOLUTELY', true), ('BASKETBALL', true), ('DICTIONARY', true), ('EXPERIENCE', true), ('FRIENDSHIP', true),
+  ('GENERATION', true), ('HELICOPTER', true), ('INNOVATION', true), ('JOURNALIST', true), ('LIGHTHOUSE', true),
+  ('MYSTERIOUS', true), ('PHOTOGRAPH', true), ('QUARANTINE', true), ('RESTAURANT', true), ('STRAWBERRY', true),
+  ('TELEVISION', true), ('UNDERSTAND', true), ('VOCABULARY', true), ('WATERMELON', true), ('BACKGROUND', true),
+  ('COMPLETELY', true), ('DIFFERENCE', true), ('EVERYTHING', true), ('FOUNDATION', true), ('ADDITIONAL', true)
+ON CONFLICT (word) DO UPDATE SET is_common = true;
+
+-- ============================================================================
+-- FUNCTION: get_random_words
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.get_random_words(
+  word_len INTEGER DEFAULT NULL,
+  limit_count INTEGER DEFAULT 1,
+  common_only BOOLEAN DEFAULT true
+) RETURNS TABLE(word TEXT) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT d.word::TEXT
+  FROM public.dictionary d
+  WHERE (word_len IS NULL OR d.word_length = word_len)
+    AND (NOT common_only OR d.is_common = true)
+  ORDER BY random()
+  LIMIT LEAST(GREATEST(limit_count, 1), 100);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION public.get_random_words(INTEGER, INTEGER, BOOLEAN) IS
+'Returns up to limit_count (max 100) random dictionary words, optionally of one length and common words only.';
+
+GRANT EXECUTE ON FUNCTION public.get_random_words(INTEGER, INTEGER, BOOLEAN) TO anon;
+GRANT EXECUTE ON FUNCTION public.get_random_words(INTEGER, INTEGER, BOOLEAN) TO authenticated;
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+-- Client: getRandomWords(count, wordLength) should call
+--   supabase.rpc('get_random_words', { word_len: wordLength, limit_count: count })
+-- Keep this seed and OFFLINE_WORDS in sync when either changes.
+-- ============================================================================
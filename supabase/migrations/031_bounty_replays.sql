@@ -0,0 +1,121 @@
+-- ============================================================================
+-- Migration 031: Bounty Replays
+-- Created: 2026-10-19
+-- Purpose: Let players and creators step through how a finished bounty was solved
+-- ============================================================================
+-- ISSUE: Once a bounty finished there was no way to see anyone's guesses.
+--
+-- SOLUTION:
+-- get_bounty_replay() returns every participant's game_attempts rows in
+-- play order, grouped per participant and ranked like the leaderboard.
+-- It refuses to answer until the bounty status is 'completed', so a replay
+-- can never leak the words of a bounty that is still running.
+-- ============================================================================
+
+-- ============================================================================
+-- FUNCTION: get_bounty_replay
+-- ============================================================================
+-- participant_user: optional users.id to fetch a single player's replay.
+--
+-- Each attempt carries:
+-- - time_taken_seconds: as recorded by submit_attempt (since the previous
+--   guess on that word, or since the word started)
+-- - elapsed_seconds: since the participant's session started, for timelines
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_bounty_replay(
+    bounty_uuid UUID,
+    participant_user UUID DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    bounty_record RECORD;
+    v_participants JSONB;
+BEGIN
+    SELECT b.id, b.name, b.status, b.words, b.bounty_type, b.winner_criteria
+    INTO bounty_record
+    FROM bounties b
+    WHERE b.id = bounty_uuid;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bounty not found: %', bounty_uuid;
+    END IF;
+
+    IF bounty_record.status <> 'completed' THEN
+        RAISE EXCEPTION 'Replays are available once the bounty is completed (current status: %)', bounty_record.status;
+    END IF;
+
+    SELECT COALESCE(jsonb_agg(p.replay ORDER BY p.sort_winner DESC, p.sort_words DESC, p.sort_attempts ASC, p.sort_time ASC), '[]'::JSONB)
+    INTO v_participants
+    FROM (
+        SELECT
+            bp.is_winner AS sort_winner,
+            bp.words_completed AS sort_words,
+            bp.total_attempts AS sort_attempts,
+            bp.total_time_seconds AS sort_time,
+            jsonb_build_object(
+                'participant_id', bp.id,
+                'user_id', u.id,
+                'username', u.username,
+                'display_name', u.display_name,
+                'status', bp.status,
+                'is_winner', bp.is_winner,
+                'words_completed', bp.words_completed,
+                'total_attempts', bp.total_attempts,
+                'total_time_seconds', bp.total_time_seconds,
+                'hints_used', bp.hints_used,
+                'session_started_at', bp.session_started_at,
+                'attempts', COALESCE((
+                    SELECT jsonb_agg(
+                        jsonb_build_object(
+                            'word_index', ga.word_index,
+                            'attempt_number', ga.attempt_number,
+                            'guessed_word', ga.guessed_word,
+                            'letter_results', ga.letter_results,
+                            'time_taken_seconds', ga.time_taken_seconds,
+                            'created_at', ga.created_at,
+                            'elapsed_seconds', GREATEST(FLOOR(EXTRACT(EPOCH FROM (
+                                ga.created_at - COALESCE(bp.session_started_at, bp.joined_at)
+                            ))), 0)::INTEGER
+                        )
+                        ORDER BY ga.word_index, ga.attempt_number
+                    )
+                    FROM game_attempts ga
+                    WHERE ga.participant_id = bp.id
+                ), '[]'::JSONB)
+            ) AS replay
+        FROM bounty_participants bp
+        JOIN users u ON u.id = bp.user_id
+        WHERE bp.bounty_id = bounty_uuid
+          AND (participant_user IS NULL OR bp.user_id = participant_user)
+    ) p;
+
+    RETURN jsonb_build_object(
+        'bounty_id', bounty_record.id,
+        'name', bounty_record.name,
+        'status', bounty_record.status,
+        'bounty_type', bounty_record.bounty_type,
+        'winner_criteria', bounty_record.winner_criteria,
+        'words', to_jsonb(bounty_record.words),
+        'word_lengths', (
+            SELECT jsonb_agg(LENGTH(w) ORDER BY ord)
+            FROM unnest(bounty_record.words) WITH ORDINALITY AS t(w, ord)
+        ),
+        'participants', v_participants
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION get_bounty_replay(UUID, UUID) IS
+'Returns { name, words, word_lengths, participants: [{ user, stats, attempts[] }] } for a completed bounty. Raises for any other status.';
+
+GRANT EXECUTE ON FUNCTION get_bounty_replay(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_bounty_replay(UUID, UUID) TO anon;
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+-- Client: call supabase.rpc('get_bounty_replay', { bounty_uuid }) from
+-- BountyHistory, BountyCompletionModal and the bounty leaderboard, and only
+-- show the replay button when bounty.status === 'completed'.
+-- ============================================================================
@@ -0,0 +1,781 @@
+-- ============================================================================
+-- Migration 032: Multi-Language Dictionaries and Bounties
+-- Created: 2026-10-19
+-- Purpose: Add a language to dictionary words and bounties (en, es, fr, de)
+-- ============================================================================
+-- ISSUE: The dictionary, validate_word(), validate_words() and
+-- get_random_words() assumed English A-Z, and submit_attempt() compared
+-- guesses with UPPER() only, so CAFE never matched CAFÉ.
+--
+-- SOLUTION:
+-- 1. dictionary.language and bounties.language ('en' by default, so existing
+--    rows and callers keep working). The dictionary key becomes
+--    (language, word), since a spelling can be a word in several languages.
+-- 2. normalize_word() upper-cases and folds accents the language has no key
+--    for. Ñ (es) and Ä Ö Ü (de) stay distinct letters; ß becomes SS and
+--    Œ / Æ become OE / AE. Same rules as normalizeWord() in
+--    src/utils/game/languages.ts.
+-- 3. Dictionary words are stored normalised. validate_word(),
+--    validate_words(), get_random_words(), increment_word_usage() and
+--    get_popular_words() take a language (default 'en').
+-- 4. submit_attempt() scores the normalised guess against the normalised
+--    target; create_bounty_with_wallet() stores words normalised for the
+--    bounty language.
+-- 5. The daily challenge and speed runs stay English.
+-- 6. Starter word lists for Spanish, French and German.
+-- ============================================================================
+
+-- ============================================================================
+-- SCHEMA
+-- ============================================================================
+
+ALTER TABLE public.dictionary
+    ADD COLUMN IF NOT EXISTS language TEXT NOT NULL DEFAULT 'en';
+
+ALTER TABLE public.dictionary DROP CONSTRAINT IF EXISTS dictionary_language_check;
+ALTER TABLE public.dictionary
+    ADD CONSTRAINT dictionary_language_check CHECK (language IN ('en', 'es', 'fr', 'de'));
+
+-- The same spelling can be a word in several languages
+ALTER TABLE public.dictionary DROP CONSTRAINT IF EXISTS dictionary_pkey;
+ALTER TABLE public.dictionary ADD PRIMARY KEY (language, word);
+
+CREATE INDEX IF NOT EXISTS idx_dictionary_language_length ON public.dictionary(language, word_length);
+
+COMMENT ON COLUMN public.dictionary.language IS
+'ISO 639-1 code. Words are stored as normalize_word(word, language).';
+
+ALTER TABLE bounties
+    ADD COLUMN IF NOT EXISTS language TEXT NOT NULL DEFAULT 'en';
+
+ALTER TABLE bounties DROP CONSTRAINT IF EXISTS bounties_language_check;
+ALTER TABLE bounties
+    ADD CONSTRAINT bounties_language_check CHECK (language IN ('en', 'es', 'fr', 'de'));
+
+COMMENT ON COLUMN bounties.language IS
+'Language of the bounty words; decides the dictionary, keyboard and accent folding.';
+
+-- ============================================================================
+-- FUNCTION 1: normalize_word
+-- ============================================================================
+-- normalize_word('café', 'fr')   -> 'CAFE'
+-- normalize_word('añejo', 'es')  -> 'AÑEJO'
+-- normalize_word('añejo', 'en')  -> 'ANEJO'
+-- normalize_word('straße', 'de') -> 'STRASSE'
+-- Keep in sync with normalizeWord() so client and server agree.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION normalize_word(
+    word TEXT,
+    word_language TEXT DEFAULT 'en'
+)
+RETURNS TEXT AS $$
+DECLARE
+    v_word TEXT := UPPER(COALESCE(word, ''));
+BEGIN
+    v_word := replace(replace(replace(replace(v_word, 'ß', 'SS'), 'ẞ', 'SS'), 'Œ', 'OE'), 'Æ', 'AE');
+
+    -- Letters with a key of their own are left out of the fold
+    IF word_language = 'es' THEN
+        RETURN translate(v_word, 'ÀÁÂÃÄÅÇÈÉÊËÌÍÎÏÒÓÔÕÖÙÚÛÜÝŸ', 'AAAAAACEEEEIIIIOOOOOUUUUYY');
+    ELSIF word_language = 'de' THEN
+        RETURN translate(v_word, 'ÀÁÂÃÅÇÈÉÊËÌÍÎÏÑÒÓÔÕÙÚÛÝŸ', 'AAAAACEEEEIIIINOOOOUUUYY');
+    END IF;
+
+    RETURN translate(v_word, 'ÀÁÂÃÄÅÇÈÉÊËÌÍÎÏÑÒÓÔÕÖÙÚÛÜÝŸ', 'AAAAAACEEEEIIIINOOOOOUUUUYY');
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+COMMENT ON FUNCTION normalize_word(TEXT, TEXT) IS
+'Upper-cases a word and folds accents the language has no key for (keeps Ñ for es, Ä Ö Ü for de).';
+
+GRANT EXECUTE ON FUNCTION normalize_word(TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION normalize_word(TEXT, TEXT) TO anon;
+
+-- ============================================================================
+-- FUNCTION 2: validate_word / validate_words
+-- ============================================================================
+-- Same as migration 012, plus word_language. The old one-argument versions
+-- are dropped so existing calls resolve to the new defaults instead of
+-- being ambiguous.
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS public.validate_word(TEXT);
+
+CREATE OR REPLACE FUNCTION public.validate_word(
+  check_word TEXT,
+  word_language TEXT DEFAULT 'en'
+) RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1
+    FROM public.dictionary d
+    WHERE d.language = word_language
+      AND d.word = normalize_word(check_word, word_language)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.validate_word(TEXT, TEXT) TO anon;
+GRANT EXECUTE ON FUNCTION public.validate_word(TEXT, TEXT) TO authenticated;
+
+DROP FUNCTION IF EXISTS public.validate_words(TEXT[]);
+
+CREATE OR REPLACE FUNCTION public.validate_words(
+  check_words TEXT[],
+  word_language TEXT DEFAULT 'en'
+) RETURNS TABLE(word TEXT, is_valid BOOLEAN) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    w.word,
+    EXISTS(
+      SELECT 1
+      FROM public.dictionary d
+      WHERE d.language = word_language
+        AND d.word = normalize_word(w.word, word_language)
+    )
+  FROM UNNEST(check_words) AS w(word);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.validate_words(TEXT[], TEXT) TO anon;
+GRANT EXECUTE ON FUNCTION public.validate_words(TEXT[], TEXT) TO authenticated;
+
+-- ============================================================================
+-- FUNCTION 3: get_random_words
+-- ============================================================================
+-- Same as migration 030, plus word_language.
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS public.get_random_words(INTEGER, INTEGER, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION public.get_random_words(
+  word_len INTEGER DEFAULT NULL,
+  limit_count INTEGER DEFAULT 1,
+  common_only BOOLEAN DEFAULT true,
+  word_language TEXT DEFAULT 'en'
+) RETURNS TABLE(word TEXT) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT d.word::TEXT
+  FROM public.dictionary d
+  WHERE d.language = word_language
+    AND (word_len IS NULL OR d.word_length = word_len)
+    AND (NOT common_only OR d.is_common = true)
+  ORDER BY random()
+  LIMIT LEAST(GREATEST(limit_count, 1), 100);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION public.get_random_words(INTEGER, INTEGER, BOOLEAN, TEXT) IS
+'Returns up to limit_count (max 100) random dictionary words of one language, optionally of one length and common words only.';
+
+GRANT EXECUTE ON FUNCTION public.get_random_words(INTEGER, INTEGER, BOOLEAN, TEXT) TO anon;
+GRANT EXECUTE ON FUNCTION public.get_random_words(INTEGER, INTEGER, BOOLEAN, TEXT) TO authenticated;
+
+-- ============================================================================
+-- FUNCTION 4: increment_word_usage / get_popular_words
+-- ============================================================================
+-- Same as migration 012, scoped to one language.
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS public.increment_word_usage(TEXT);
+
+CREATE OR REPLACE FUNCTION public.increment_word_usage(
+  used_word TEXT,
+  word_language TEXT DEFAULT 'en'
+) RETURNS VOID AS $$
+BEGIN
+  UPDATE public.dictionary
+  SET usage_count = usage_count + 1
+  WHERE language = word_language
+    AND word = normalize_word(used_word, word_language);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.increment_word_usage(TEXT, TEXT) TO anon;
+GRANT EXECUTE ON FUNCTION public.increment_word_usage(TEXT, TEXT) TO authenticated;
+
+DROP FUNCTION IF EXISTS public.get_popular_words(INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.get_popular_words(
+  word_len INTEGER DEFAULT NULL,
+  limit_count INTEGER DEFAULT 10,
+  word_language TEXT DEFAULT 'en'
+) RETURNS TABLE(word TEXT, usage_count INTEGER) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    d.word::TEXT,
+    d.usage_count
+  FROM public.dictionary d
+  WHERE d.language = word_language
+    AND (word_len IS NULL OR d.word_length = word_len)
+    AND d.is_common = true
+  ORDER BY d.usage_count DESC
+  LIMIT limit_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.get_popular_words(INTEGER, INTEGER, TEXT) TO anon;
+GRANT EXECUTE ON FUNCTION public.get_popular_words(INTEGER, INTEGER, TEXT) TO authenticated;
+
+-- ============================================================================
+-- FUNCTION 5: daily_challenge_word / pick_speed_word (internal)
+-- ============================================================================
+-- Same as migrations 028 and 029, limited to English words now that the
+-- dictionary holds other languages.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION daily_challenge_word(challenge_day DATE)
+RETURNS TEXT AS $$
+DECLARE
+    v_word TEXT;
+    v_seed TEXT;
+BEGIN
+    SELECT dc.word INTO v_word FROM daily_challenges dc WHERE dc.challenge_date = challenge_day;
+
+    IF FOUND THEN
+        RETURN v_word;
+    END IF;
+
+    SELECT cfg.seed INTO v_seed FROM daily_challenge_config cfg WHERE cfg.id;
+
+    SELECT d.word INTO v_word
+    FROM dictionary d
+    WHERE d.language = 'en'
+      AND d.word_length = 5
+      AND d.is_common = true
+    ORDER BY md5(d.word || challenge_day::TEXT || COALESCE(v_seed, '')), d.word
+    LIMIT 1;
+
+    IF v_word IS NULL THEN
+        RAISE EXCEPTION 'Dictionary has no common 5-letter words to pick from';
+    END IF;
+
+    -- Two players opening the first daily at once must get the same word
+    INSERT INTO daily_challenges (challenge_date, word)
+    VALUES (challenge_day, v_word)
+    ON CONFLICT DO NOTHING;
+
+    SELECT dc.word INTO v_word FROM daily_challenges dc WHERE dc.challenge_date = challenge_day;
+
+    RETURN v_word;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION daily_challenge_word(DATE) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION pick_speed_word(exclude_words TEXT[])
+RETURNS TEXT AS $$
+DECLARE
+    v_word TEXT;
+BEGIN
+    SELECT d.word INTO v_word
+    FROM dictionary d
+    WHERE d.language = 'en'
+      AND d.word_length = 5
+      AND d.is_common = true
+      AND NOT (d.word = ANY(COALESCE(exclude_words, '{}')))
+    ORDER BY random()
+    LIMIT 1;
+
+    IF v_word IS NULL THEN
+        RAISE EXCEPTION 'Dictionary has no common 5-letter words left to pick from';
+    END IF;
+
+    RETURN v_word;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION pick_speed_word(TEXT[]) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- FUNCTION 6: submit_attempt
+-- ============================================================================
+-- Same as migration 026, except the guess and the target are both passed
+-- through normalize_word() for the bounty language before the length check,
+-- hard-mode check and scoring. Stored guesses and letter_results use the
+-- normalised letters, which are the letters on the player's keyboard.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION submit_attempt(
+    bounty_uuid UUID,
+    wallet_addr TEXT,
+    word_idx INTEGER,
+    guessed_word TEXT,
+    time_taken INTEGER DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    user_uuid UUID;
+    participant_record RECORD;
+    bounty_record RECORD;
+    target_word TEXT;
+    attempt_num INTEGER;
+    letter_results JSONB;
+    is_correct BOOLEAN;
+    is_last_word BOOLEAN;
+    attempt_result attempt_result;
+    result JSONB;
+    rows_updated INTEGER;
+    v_is_timed BOOLEAN;
+    v_session_started TIMESTAMP WITH TIME ZONE;
+    v_word_started TIMESTAMP WITH TIME ZONE;
+    v_last_attempt_at TIMESTAMP WITH TIME ZONE;
+    v_attempt_seconds INTEGER;
+    v_elapsed_seconds INTEGER;
+    v_hard_mode_violation TEXT;
+    v_guess TEXT;
+BEGIN
+    -- Get user
+    SELECT id INTO user_uuid FROM users WHERE wallet_address = wallet_addr;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User not found for wallet: %', wallet_addr;
+    END IF;
+
+    -- Get participant record (allow any active status, including 'completed' for multi-word bounties)
+    SELECT * INTO participant_record
+    FROM bounty_participants
+    WHERE bounty_id = bounty_uuid AND user_id = user_uuid;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User % not participating in bounty %', wallet_addr, bounty_uuid;
+    END IF;
+
+    -- Check if participation is active or completed
+    IF participant_record.status NOT IN ('registered', 'active', 'completed') THEN
+        RAISE EXCEPTION 'User participation status is %', participant_record.status;
+    END IF;
+
+    -- A finished session can't be extended by further guesses
+    IF participant_record.session_ended_at IS NOT NULL THEN
+        RAISE EXCEPTION 'User % already finished bounty %', wallet_addr, bounty_uuid;
+    END IF;
+
+    -- Get bounty and target word
+    SELECT * INTO bounty_record FROM bounties WHERE id = bounty_uuid;
+    IF NOT FOUND OR word_idx < 0 OR word_idx >= array_length(bounty_record.words, 1) THEN
+        RAISE EXCEPTION 'Invalid bounty or word index';
+    END IF;
+
+    -- Both sides in the bounty's normalised form, so accents that have no
+    -- key of their own never count against the player
+    target_word := normalize_word(bounty_record.words[word_idx + 1], bounty_record.language); -- Arrays are 1-indexed in PostgreSQL
+    v_guess := normalize_word(guessed_word, bounty_record.language);
+    is_last_word := word_idx + 1 >= array_length(bounty_record.words, 1);
+
+    -- Reject guesses of the wrong length before anything is recorded
+    IF LENGTH(v_guess) <> LENGTH(target_word) THEN
+        RAISE EXCEPTION 'Guess must be % letters long', LENGTH(target_word);
+    END IF;
+
+    -- Session clock: falls back to the join time, so skipping
+    -- start_word_session() can never make a run look faster
+    v_session_started := COALESCE(participant_record.session_started_at, participant_record.joined_at, NOW());
+    v_is_timed := bounty_record.bounty_type = 'Time-based' AND bounty_record.time_limit_seconds IS NOT NULL;
+
+    IF v_is_timed AND NOW() > v_session_started + make_interval(secs => bounty_record.time_limit_seconds) THEN
+        RAISE EXCEPTION 'Time limit of % seconds exceeded', bounty_record.time_limit_seconds;
+    END IF;
+
+    -- Hard mode: the guess must reuse everything this word has revealed so far
+    IF bounty_record.hard_mode THEN
+        SELECT check_hard_mode_guess(
+            v_guess,
+            COALESCE(jsonb_agg(ga.letter_results ORDER BY ga.attempt_number), '[]'::JSONB)
+        )
+        INTO v_hard_mode_violation
+        FROM game_attempts ga
+        WHERE ga.participant_id = participant_record.id AND ga.word_index = word_idx;
+
+        IF v_hard_mode_violation IS NOT NULL THEN
+            RAISE EXCEPTION 'Hard mode: %', v_hard_mode_violation;
+        END IF;
+    END IF;
+
+    -- Word clock: word 0 starts with the session, later words when the previous one was solved
+    INSERT INTO word_sessions (participant_id, bounty_id, word_index, started_at)
+    VALUES (
+        participant_record.id,
+        bounty_uuid,
+        word_idx,
+        CASE WHEN word_idx = 0 THEN v_session_started ELSE NOW() END
+    )
+    ON CONFLICT (participant_id, word_index) DO NOTHING;
+
+    SELECT started_at INTO v_word_started
+    FROM word_sessions
+    WHERE participant_id = participant_record.id AND word_index = word_idx;
+
+    -- Get next attempt number and the previous guess time for this word
+    SELECT COALESCE(MAX(attempt_number), 0) + 1, MAX(created_at)
+    INTO attempt_num, v_last_attempt_at
+    FROM game_attempts
+    WHERE participant_id = participant_record.id AND word_index = word_idx;
+
+    v_attempt_seconds := FLOOR(EXTRACT(EPOCH FROM (NOW() - COALESCE(v_last_attempt_at, v_word_started))))::INTEGER;
+    v_elapsed_seconds := FLOOR(EXTRACT(EPOCH FROM (NOW() - v_session_started)))::INTEGER;
+
+    -- Score the guess
+    letter_results := calculate_letter_results(v_guess, target_word);
+    is_correct := v_guess = target_word;
+
+    -- Determine attempt result
+    IF is_correct THEN
+        attempt_result := 'correct';
+    ELSIF jsonb_path_exists(letter_results, '$[*] ? (@.status != "absent")') THEN
+        attempt_result := 'partial';
+    ELSE
+        attempt_result := 'incorrect';
+    END IF;
+
+    -- Insert attempt
+    INSERT INTO game_attempts (
+        participant_id,
+        bounty_id,
+        word_index,
+        attempt_number,
+        guessed_word,
+        target_word,
+        result,
+        letter_results,
+        time_taken_seconds
+    ) VALUES (
+        participant_record.id,
+        bounty_uuid,
+        word_idx,
+        attempt_num,
+        v_guess,
+        target_word,
+        attempt_result,
+        letter_results,
+        GREATEST(v_attempt_seconds, 0)
+    );
+
+    -- Close the word clock and open the next one
+    IF is_correct THEN
+        UPDATE word_sessions
+        SET completed_at = NOW()
+        WHERE participant_id = participant_record.id AND word_index = word_idx;
+
+        IF NOT is_last_word THEN
+            INSERT INTO word_sessions (participant_id, bounty_id, word_index, started_at)
+            VALUES (participant_record.id, bounty_uuid, word_idx + 1, NOW())
+            ON CONFLICT (participant_id, word_index) DO NOTHING;
+        END IF;
+    END IF;
+
+    -- Update participant progress
+    UPDATE bounty_participants
+    SET
+        total_attempts = total_attempts + 1,
+        total_time_seconds = GREATEST(v_elapsed_seconds, 0),
+        session_started_at = v_session_started,
+        session_ended_at = CASE
+            WHEN is_correct AND is_last_word THEN NOW()
+            ELSE session_ended_at
+        END,
+        words_completed = CASE
+            WHEN is_correct THEN GREATEST(words_completed, word_idx + 1)
+            ELSE words_completed
+        END,
+        current_word_index = CASE
+            WHEN is_correct AND is_last_word THEN word_idx
+            WHEN is_correct THEN word_idx + 1
+            ELSE current_word_index
+        END,
+        status = CASE
+            WHEN is_correct AND is_last_word THEN 'completed'::participation_status
+            ELSE status
+        END,
+        completed_at = CASE
+            WHEN is_correct AND is_last_word THEN NOW()
+            ELSE completed_at
+        END
+    WHERE id = participant_record.id;
+
+    -- Check how many rows were actually updated
+    GET DIAGNOSTICS rows_updated = ROW_COUNT;
+
+    IF rows_updated = 0 THEN
+        RAISE WARNING 'No rows updated for participant % in bounty %', participant_record.id, bounty_uuid;
+    END IF;
+
+    -- Build result (no target word - the client renders only what we return)
+    result := jsonb_build_object(
+        'correct', is_correct,
+        'attempt_number', attempt_num,
+        'letter_results', letter_results,
+        'completed_bounty', is_correct AND is_last_word,
+        'participant_id', participant_record.id,
+        'rows_updated', rows_updated,
+        'elapsed_seconds', GREATEST(v_elapsed_seconds, 0),
+        'time_remaining_seconds', CASE
+            WHEN v_is_timed THEN GREATEST(bounty_record.time_limit_seconds - v_elapsed_seconds, 0)
+            ELSE NULL
+        END
+    );
+
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION submit_attempt(UUID, TEXT, INTEGER, TEXT, INTEGER) IS
+'Records a guess, scores it server-side and returns { correct, attempt_number, letter_results, completed_bounty, elapsed_seconds, time_remaining_seconds }. Timing is measured on the server; the time_taken argument is ignored. Hard-mode bounties reject guesses that drop revealed letters with "Hard mode: <rule>". Guess and target are compared after normalize_word() for the bounty language.';
+
+
+-- ============================================================================
+-- FUNCTION 7: get_bounty_details
+-- ============================================================================
+-- Same as migration 027, plus 'language'.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_bounty_details(
+    bounty_uuid UUID,
+    wallet_addr TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    bounty_record RECORD;
+    participation_record RECORD;
+    user_uuid UUID;
+    words_revealed BOOLEAN;
+    result JSONB;
+BEGIN
+    -- Get bounty
+    SELECT
+        b.*,
+        u.username as creator_username,
+        u.display_name as creator_display_name
+    INTO bounty_record
+    FROM bounties b
+    JOIN users u ON b.creator_id = u.id
+    WHERE b.id = bounty_uuid;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bounty not found';
+    END IF;
+
+    -- Solutions are only safe to publish once nobody can play anymore
+    words_revealed := bounty_record.status IN ('completed', 'cancelled', 'expired')
+        OR (bounty_record.end_time IS NOT NULL AND bounty_record.end_time <= NOW());
+
+    -- Get user participation if wallet provided
+    participation_record := NULL;
+    IF wallet_addr IS NOT NULL THEN
+        SELECT id INTO user_uuid FROM users WHERE wallet_address = wallet_addr;
+        IF FOUND THEN
+            SELECT * INTO participation_record
+            FROM bounty_participants
+            WHERE bounty_id = bounty_uuid AND user_id = user_uuid;
+        END IF;
+    END IF;
+
+    -- Build result
+    result := jsonb_build_object(
+        'id', bounty_record.id,
+        'name', bounty_record.name,
+        'description', bounty_record.description,
+        'bounty_type', bounty_record.bounty_type,
+        'prize_amount', bounty_record.prize_amount,
+        'prize_currency', bounty_record.prize_currency,
+        'status', bounty_record.status,
+        'is_public', bounty_record.is_public,
+        'participant_count', bounty_record.participant_count,
+        'max_participants', bounty_record.max_participants,
+        'max_attempts_per_user', bounty_record.max_attempts_per_user,
+        'time_limit_seconds', bounty_record.time_limit_seconds,
+        'hard_mode', bounty_record.hard_mode,
+        'language', bounty_record.language,
+        'start_time', bounty_record.start_time,
+        'end_time', bounty_record.end_time,
+        'duration_hours', bounty_record.duration_hours,
+        'created_at', bounty_record.created_at,
+        'server_time', NOW(),
+        'creator', jsonb_build_object(
+            'username', bounty_record.creator_username,
+            'display_name', bounty_record.creator_display_name
+        ),
+        'words', CASE WHEN words_revealed THEN to_jsonb(bounty_record.words) ELSE NULL END,
+        'word_lengths', (
+            SELECT jsonb_agg(LENGTH(w) ORDER BY ord)
+            FROM unnest(bounty_record.words) WITH ORDINALITY AS t(w, ord)
+        ),
+        'words_count', array_length(bounty_record.words, 1),
+        -- Hint text is only handed out through unlock_hint() while the bounty runs
+        'hints', CASE WHEN words_revealed THEN to_jsonb(bounty_record.hints) ELSE NULL END,
+        'hints_count', COALESCE(array_length(bounty_record.hints, 1), 0),
+        'hint_penalties', to_jsonb(bounty_record.hint_penalties),
+        'participation', CASE
+            WHEN participation_record IS NOT NULL THEN
+                jsonb_build_object(
+                    'status', participation_record.status,
+                    'joined_at', participation_record.joined_at,
+                    'current_word_index', participation_record.current_word_index,
+                    'total_attempts', participation_record.total_attempts,
+                    'words_completed', participation_record.words_completed,
+                    'total_time_seconds', participation_record.total_time_seconds,
+                    'session_started_at', participation_record.session_started_at,
+                    'session_ended_at', participation_record.session_ended_at,
+                    'is_winner', participation_record.is_winner,
+                    'hints_used', participation_record.hints_used,
+                    'hint_penalty_total', participation_record.hint_penalty_total,
+                    'unlocked_hints', to_jsonb(bounty_record.hints[1:participation_record.hints_used])
+                )
+            ELSE NULL
+        END
+    );
+
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+
+-- ============================================================================
+-- FUNCTION 8: create_bounty_with_wallet
+-- ============================================================================
+-- Same as migration 027, plus 'language' (default 'en'). Words are stored
+-- normalised for that language, so revealed words, word_lengths and replays
+-- all use the letters players type.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.create_bounty_with_wallet(
+  wallet_addr VARCHAR(255),
+  bounty_data JSONB
+) RETURNS UUID AS $$
+DECLARE
+  user_uuid UUID;
+  bounty_uuid UUID;
+  v_language TEXT := COALESCE(bounty_data->>'language', 'en');
+BEGIN
+  -- Get or create user
+  user_uuid := public.get_or_create_user(wallet_addr);
+
+  -- Create bounty
+  INSERT INTO bounties (
+    name,
+    description,
+    creator_id,
+    bounty_type,
+    prize_amount,
+    prize_currency,
+    words,
+    hints,
+    hint_penalties,
+    max_participants,
+    max_attempts_per_user,
+    time_limit_seconds,
+    winner_criteria,
+    duration_hours,
+    status,
+    is_public,
+    requires_registration,
+    hard_mode,
+    language,
+    start_time,
+    end_time
+  ) VALUES (
+    bounty_data->>'name',
+    bounty_data->>'description',
+    user_uuid,
+    COALESCE((bounty_data->>'bounty_type')::bounty_type, 'Simple'::bounty_type),
+    COALESCE((bounty_data->>'prize_amount')::DECIMAL, 0),
+    COALESCE(bounty_data->>'prize_currency', 'HBAR'),
+    COALESCE(
+      ARRAY(SELECT normalize_word(w, v_language) FROM jsonb_array_elements_text(bounty_data->'words') AS w),
+      ARRAY['WORDLE']
+    ),
+    COALESCE(
+      ARRAY(SELECT jsonb_array_elements_text(bounty_data->'hints')),
+      ARRAY[]::TEXT[]
+    ),
+    COALESCE(
+      ARRAY(SELECT jsonb_array_elements_text(bounty_data->'hint_penalties')::DECIMAL(10, 2)),
+      ARRAY[]::DECIMAL(10, 2)[]
+    ),
+    (bounty_data->>'max_participants')::INTEGER,
+    (bounty_data->>'max_attempts_per_user')::INTEGER,
+    (bounty_data->>'time_limit_seconds')::INTEGER,
+    COALESCE((bounty_data->>'winner_criteria')::winner_criteria, 'attempts'::winner_criteria),
+    (bounty_data->>'duration_hours')::INTEGER,
+    COALESCE((bounty_data->>'status')::bounty_status, 'active'::bounty_status),
+    COALESCE((bounty_data->>'is_public')::BOOLEAN, true),
+    COALESCE((bounty_data->>'requires_registration')::BOOLEAN, false),
+    COALESCE((bounty_data->>'hard_mode')::BOOLEAN, false),
+    v_language,
+    NOW(),
+    CASE
+      WHEN bounty_data->>'duration_hours' IS NOT NULL
+      THEN NOW() + ((bounty_data->>'duration_hours')::INTEGER || ' hours')::INTERVAL
+      ELSE NULL
+    END
+  ) RETURNING id INTO bounty_uuid;
+
+  RETURN bounty_uuid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.create_bounty_with_wallet(VARCHAR, JSONB) TO anon;
+GRANT EXECUTE ON FUNCTION public.create_bounty_with_wallet(VARCHAR, JSONB) TO authenticated;
+
+-- ============================================================================
+-- SEED: starter word lists
+-- ============================================================================
+-- Common 5-letter words, already normalised (accents folded, Ñ / Ä Ö Ü kept).
+
+-- Spanish
+INSERT INTO public.dictionary (word, language, is_common) VALUES
+  ('ARBOL', 'es', true), ('PERRO', 'es', true), ('MUNDO', 'es', true), ('NOCHE', 'es', true), ('PLAYA', 'es', true),
+  ('LIBRO', 'es', true), ('CIELO', 'es', true), ('FUEGO', 'es', true), ('CAMPO', 'es', true), ('VERDE', 'es', true),
+  ('NEGRO', 'es', true), ('BARCO', 'es', true), ('LECHE', 'es', true), ('MADRE', 'es', true), ('PADRE', 'es', true),
+  ('DULCE', 'es', true), ('CARTA', 'es', true), ('SILLA', 'es', true), ('PIANO', 'es', true), ('RATON', 'es', true),
+  ('LIMON', 'es', true), ('AVION', 'es', true), ('HUEVO', 'es', true), ('QUESO', 'es', true), ('TIGRE', 'es', true),
+  ('CEBRA', 'es', true), ('FRUTA', 'es', true), ('PLATO', 'es', true), ('RELOJ', 'es', true), ('LAPIZ', 'es', true),
+  ('ARROZ', 'es', true), ('CALLE', 'es', true), ('PUNTO', 'es', true), ('JUEGO', 'es', true), ('SUEÑO', 'es', true),
+  ('DUEÑO', 'es', true), ('CAÑON', 'es', true), ('OTOÑO', 'es', true)
+ON CONFLICT (language, word) DO UPDATE SET is_common = true;
+
+-- French
+INSERT INTO public.dictionary (word, language, is_common) VALUES
+  ('ARBRE', 'fr', true), ('MONDE', 'fr', true), ('TERRE', 'fr', true), ('LIVRE', 'fr', true), ('ROUGE', 'fr', true),
+  ('BLANC', 'fr', true), ('FLEUR', 'fr', true), ('PLAGE', 'fr', true), ('CHIEN', 'fr', true), ('CHAUD', 'fr', true),
+  ('FROID', 'fr', true), ('JAUNE', 'fr', true), ('TABLE', 'fr', true), ('VILLE', 'fr', true), ('PORTE', 'fr', true),
+  ('NUAGE', 'fr', true), ('ECOLE', 'fr', true), ('FORET', 'fr', true), ('HOTEL', 'fr', true), ('PECHE', 'fr', true),
+  ('FRERE', 'fr', true), ('COEUR', 'fr', true), ('SOEUR', 'fr', true), ('LAPIN', 'fr', true), ('SUCRE', 'fr', true),
+  ('POIRE', 'fr', true), ('POMME', 'fr', true), ('TEMPS', 'fr', true), ('MUSEE', 'fr', true), ('LEGER', 'fr', true),
+  ('AVION', 'fr', true), ('TRAIN', 'fr', true), ('LUNDI', 'fr', true)
+ON CONFLICT (language, word) DO UPDATE SET is_common = true;
+
+-- German
+INSERT INTO public.dictionary (word, language, is_common) VALUES
+  ('APFEL', 'de', true), ('BLUME', 'de', true), ('STERN', 'de', true), ('SONNE', 'de', true), ('NACHT', 'de', true),
+  ('KATZE', 'de', true), ('TISCH', 'de', true), ('STUHL', 'de', true), ('VOGEL', 'de', true), ('FISCH', 'de', true),
+  ('WOLKE', 'de', true), ('INSEL', 'de', true), ('STADT', 'de', true), ('FEUER', 'de', true), ('LICHT', 'de', true),
+  ('MUSIK', 'de', true), ('ABEND', 'de', true), ('REGEN', 'de', true), ('BLATT', 'de', true), ('BRIEF', 'de', true),
+  ('SCHÖN', 'de', true), ('KÖNIG', 'de', true), ('KÄFER', 'de', true), ('HÖHLE', 'de', true), ('GLÜCK', 'de', true),
+  ('MÜHLE', 'de', true)
+ON CONFLICT (language, word) DO UPDATE SET is_common = true;
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+-- What changed:
+-- - dictionary.language, key (language, word); bounties.language
+-- - normalize_word(word, language)
+-- - validate_word / validate_words / get_random_words / increment_word_usage /
+--   get_popular_words take word_language (default 'en')
+-- - daily challenge and speed runs only pick English words
+-- - submit_attempt() compares normalised guess and target
+-- - get_bounty_details() returns language
+-- - create_bounty_with_wallet() accepts bounty_data.language
+--
+-- Client:
+-- - utils/dictionary validateWord / getRandomWords should pass word_language
+--   and check letters with isLanguageWord() instead of /^[A-Z]+$/
+-- - CreateBountyPage: language picker from GAME_LANGUAGES, sent as
+--   bounty_data.language; validate words in that language
+-- - GameplayPage: createGame({ ..., language: bounty.language }) and render
+--   getLanguageConfig(bounty.language).keyboard
+-- ============================================================================
@@ -0,0 +1,756 @@
+-- ============================================================================
+-- Migration 033: Head-to-Head Duels
+-- Created: 2026-10-19
+-- Purpose: Two players race on the same secret word, first to solve wins
+-- ============================================================================
+-- ISSUE: Every bounty is a solo race and players never see each other.
+--
+-- SOLUTION:
+-- 1. A duel is a private single-word bounty (max 2 players, first-to-solve)
+--    plus a duels row for the match. The word is drawn server-side with
+--    get_random_words(), so neither player knows it.
+-- 2. Matching: create_duel() with is_open = false gives an invite code for
+--    a link; find_duel() joins the oldest open duel with the same length,
+--    language and stake, or opens a new one to wait in.
+-- 3. duel_moves holds the tile colours of every guess (never letters) and is
+--    published to Supabase Realtime, so each player watches the other's
+--    board fill in live.
+-- 4. Settlement: the first completed participation ends the duel and runs
+--    complete_bounty_with_winners(); determine_bounty_winner() always ranks
+--    duels by first-to-solve. If both players run out of guesses the duel
+--    is a draw and the bounty is cancelled, so stakes can be refunded.
+-- 5. stake_amount is per player; prize_amount is the pot (2 x stake).
+--
+-- DUEL STATUS:
+-- - waiting:   created, no opponent yet (guesses are rejected)
+-- - active:    both players in, clocks running
+-- - completed: winner_id solved first
+-- - draw:      both ran out of guesses
+-- - cancelled: the challenger withdrew before anyone joined
+-- ============================================================================
+
+-- ============================================================================
+-- SCHEMA
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS duels (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    bounty_id UUID NOT NULL UNIQUE REFERENCES bounties(id) ON DELETE CASCADE,
+    challenger_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    opponent_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    winner_id UUID REFERENCES users(id) ON DELETE SET NULL,
+    is_open BOOLEAN NOT NULL DEFAULT false,
+    word_length INTEGER NOT NULL,
+    language TEXT NOT NULL DEFAULT 'en',
+    stake_amount DECIMAL(20, 8) NOT NULL DEFAULT 0 CHECK (stake_amount >= 0),
+    status TEXT NOT NULL DEFAULT 'waiting'
+        CHECK (status IN ('waiting', 'active', 'completed', 'draw', 'cancelled')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    started_at TIMESTAMP WITH TIME ZONE,
+    ended_at TIMESTAMP WITH TIME ZONE,
+    CHECK (opponent_id IS NULL OR opponent_id <> challenger_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_duels_open_queue
+    ON duels(word_length, language, stake_amount, created_at)
+    WHERE status = 'waiting' AND is_open;
+CREATE INDEX IF NOT EXISTS idx_duels_challenger ON duels(challenger_id);
+CREATE INDEX IF NOT EXISTS idx_duels_opponent ON duels(opponent_id);
+
+-- Invite codes live apart from duels so the public duel rows (and their
+-- Realtime events) never carry them
+CREATE TABLE IF NOT EXISTS duel_invites (
+    duel_id UUID PRIMARY KEY REFERENCES duels(id) ON DELETE CASCADE,
+    invite_code TEXT NOT NULL UNIQUE
+);
+
+CREATE TABLE IF NOT EXISTS duel_moves (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    duel_id UUID NOT NULL REFERENCES duels(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    attempt_number INTEGER NOT NULL,
+    -- One status per tile ("correct" / "present" / "absent"), never letters
+    statuses JSONB NOT NULL,
+    solved BOOLEAN NOT NULL DEFAULT false,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(duel_id, user_id, attempt_number)
+);
+
+CREATE INDEX IF NOT EXISTS idx_duel_moves_duel ON duel_moves(duel_id, created_at);
+
+ALTER TABLE duels ENABLE ROW LEVEL SECURITY;
+ALTER TABLE duel_invites ENABLE ROW LEVEL SECURITY;
+ALTER TABLE duel_moves ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view duels" ON duels;
+CREATE POLICY "Anyone can view duels"
+    ON duels FOR SELECT
+    TO anon, authenticated
+    USING (true);
+
+DROP POLICY IF EXISTS "Anyone can view duel moves" ON duel_moves;
+CREATE POLICY "Anyone can view duel moves"
+    ON duel_moves FOR SELECT
+    TO anon, authenticated
+    USING (true);
+
+GRANT SELECT ON duels TO anon, authenticated;
+GRANT SELECT ON duel_moves TO anon, authenticated;
+REVOKE ALL ON duel_invites FROM anon, authenticated;
+
+-- The challenger is the bounty creator, and creators can read every attempt
+-- on their bounties (migration 002). In a duel that would show them the
+-- opponent's letters, so duel attempts are limited to their own player.
+DROP POLICY IF EXISTS "Duel attempts are private to their player" ON game_attempts;
+CREATE POLICY "Duel attempts are private to their player"
+    ON game_attempts AS RESTRICTIVE FOR SELECT
+    USING (
+        bounty_id NOT IN (SELECT d.bounty_id FROM duels d)
+        OR participant_id IN (
+            SELECT bp.id FROM bounty_participants bp WHERE bp.user_id = current_user_id()
+        )
+    );
+
+-- Realtime: clients subscribe to postgres_changes on both tables
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+        IF NOT EXISTS (
+            SELECT 1 FROM pg_publication_tables
+            WHERE pubname = 'supabase_realtime' AND tablename = 'duels'
+        ) THEN
+            ALTER PUBLICATION supabase_realtime ADD TABLE duels;
+        END IF;
+
+        IF NOT EXISTS (
+            SELECT 1 FROM pg_publication_tables
+            WHERE pubname = 'supabase_realtime' AND tablename = 'duel_moves'
+        ) THEN
+            ALTER PUBLICATION supabase_realtime ADD TABLE duel_moves;
+        END IF;
+    END IF;
+END $$;
+
+-- ============================================================================
+-- FUNCTION 1: create_duel
+-- ============================================================================
+-- duel_data: { word_length (default 5), language (default 'en'),
+--              stake_amount (default 0), is_open (default false) }
+-- Returns { duel_id, bounty_id, invite_code, status }. Share the invite code
+-- in the link (?duel=<duel_id>&code=<invite_code>) for invite-only duels.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION create_duel(
+    wallet_addr TEXT,
+    duel_data JSONB DEFAULT '{}'::JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_user_id UUID;
+    v_length INTEGER := COALESCE((duel_data->>'word_length')::INTEGER, 5);
+    v_language TEXT := COALESCE(duel_data->>'language', 'en');
+    v_stake DECIMAL(20, 8) := COALESCE((duel_data->>'stake_amount')::DECIMAL, 0);
+    v_is_open BOOLEAN := COALESCE((duel_data->>'is_open')::BOOLEAN, false);
+    v_word TEXT;
+    v_bounty_id UUID;
+    v_duel_id UUID;
+    v_invite_code TEXT;
+BEGIN
+    IF v_stake < 0 THEN
+        RAISE EXCEPTION 'Stake cannot be negative';
+    END IF;
+
+    SELECT grw.word INTO v_word
+    FROM get_random_words(v_length, 1, true, v_language) grw;
+
+    IF v_word IS NULL THEN
+        RAISE EXCEPTION 'No % letter words available in language %', v_length, v_language;
+    END IF;
+
+    v_user_id := get_or_create_user(wallet_addr);
+
+    INSERT INTO bounties (
+        name,
+        description,
+        creator_id,
+        bounty_type,
+        prize_amount,
+        prize_currency,
+        words,
+        max_participants,
+        max_attempts_per_user,
+        winner_criteria,
+        prize_distribution,
+        status,
+        is_public,
+        language,
+        start_time
+    ) VALUES (
+        'Duel',
+        'Head-to-head duel: first to solve takes the pot',
+        v_user_id,
+        'Simple'::bounty_type,
+        v_stake * 2,
+        'HBAR',
+        ARRAY[v_word],
+        2,
+        6,
+        'first-to-solve'::winner_criteria,
+        'winner-take-all'::prize_distribution,
+        'active'::bounty_status,
+        false,
+        v_language,
+        NOW()
+    ) RETURNING id INTO v_bounty_id;
+
+    INSERT INTO bounty_participants (bounty_id, user_id, status)
+    VALUES (v_bounty_id, v_user_id, 'registered');
+
+    INSERT INTO duels (bounty_id, challenger_id, is_open, word_length, language, stake_amount)
+    VALUES (v_bounty_id, v_user_id, v_is_open, v_length, v_language, v_stake)
+    RETURNING id INTO v_duel_id;
+
+    v_invite_code := substr(md5(gen_random_uuid()::TEXT), 1, 12);
+
+    INSERT INTO duel_invites (duel_id, invite_code)
+    VALUES (v_duel_id, v_invite_code);
+
+    RETURN jsonb_build_object(
+        'duel_id', v_duel_id,
+        'bounty_id', v_bounty_id,
+        'invite_code', v_invite_code,
+        'status', 'waiting'
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION create_duel(TEXT, JSONB) IS
+'Creates a waiting duel (private first-to-solve bounty with a server-drawn word) and returns { duel_id, bounty_id, invite_code, status }.';
+
+GRANT EXECUTE ON FUNCTION create_duel(TEXT, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION create_duel(TEXT, JSONB) TO anon;
+
+-- ============================================================================
+-- FUNCTION 2: accept_duel
+-- ============================================================================
+-- Joins a waiting duel as the opponent and starts both clocks together.
+-- Invite-only duels need the invite code; open duels accept anyone.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION accept_duel(
+    duel_uuid UUID,
+    wallet_addr TEXT,
+    code TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_user_id UUID;
+    duel_record RECORD;
+BEGIN
+    SELECT * INTO duel_record FROM duels WHERE id = duel_uuid FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Duel not found';
+    END IF;
+
+    IF duel_record.status <> 'waiting' THEN
+        RAISE EXCEPTION 'Duel is not waiting for an opponent (current status: %)', duel_record.status;
+    END IF;
+
+    IF NOT duel_record.is_open AND NOT EXISTS (
+        SELECT 1 FROM duel_invites di WHERE di.duel_id = duel_uuid AND di.invite_code = code
+    ) THEN
+        RAISE EXCEPTION 'Invalid invite code';
+    END IF;
+
+    v_user_id := get_or_create_user(wallet_addr);
+
+    IF v_user_id = duel_record.challenger_id THEN
+        RAISE EXCEPTION 'You cannot accept your own duel';
+    END IF;
+
+    INSERT INTO bounty_participants (bounty_id, user_id, status)
+    VALUES (duel_record.bounty_id, v_user_id, 'registered');
+
+    -- Same start for both players, whatever the challenger did while waiting
+    DELETE FROM word_sessions WHERE bounty_id = duel_record.bounty_id;
+
+    UPDATE bounty_participants
+    SET status = 'active', session_started_at = NOW()
+    WHERE bounty_id = duel_record.bounty_id;
+
+    UPDATE duels
+    SET opponent_id = v_user_id, status = 'active', started_at = NOW()
+    WHERE id = duel_uuid;
+
+    RETURN jsonb_build_object(
+        'duel_id', duel_uuid,
+        'bounty_id', duel_record.bounty_id,
+        'status', 'active',
+        'started_at', NOW()
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION accept_duel(UUID, TEXT, TEXT) IS
+'Joins a waiting duel as the opponent (invite code required unless the duel is open) and starts both sessions at the same moment.';
+
+GRANT EXECUTE ON FUNCTION accept_duel(UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION accept_duel(UUID, TEXT, TEXT) TO anon;
+
+-- ============================================================================
+-- FUNCTION 3: find_duel
+-- ============================================================================
+-- Matchmaking. Accepts the oldest open duel from another wallet with the
+-- same word_length, language and stake_amount; if there is none, opens a
+-- new duel for the next player to find. Returns the create_duel() or
+-- accept_duel() payload plus 'matched'. A waiting player learns about
+-- their match from the Realtime UPDATE on their duels row.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION find_duel(
+    wallet_addr TEXT,
+    duel_data JSONB DEFAULT '{}'::JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_user_id UUID;
+    v_duel_id UUID;
+BEGIN
+    v_user_id := get_or_create_user(wallet_addr);
+
+    SELECT d.id INTO v_duel_id
+    FROM duels d
+    WHERE d.status = 'waiting'
+      AND d.is_open
+      AND d.challenger_id <> v_user_id
+      AND d.word_length = COALESCE((duel_data->>'word_length')::INTEGER, 5)
+      AND d.language = COALESCE(duel_data->>'language', 'en')
+      AND d.stake_amount = COALESCE((duel_data->>'stake_amount')::DECIMAL, 0)
+    ORDER BY d.created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED;
+
+    IF v_duel_id IS NOT NULL THEN
+        RETURN accept_duel(v_duel_id, wallet_addr) || jsonb_build_object('matched', true);
+    END IF;
+
+    RETURN create_duel(wallet_addr, duel_data || jsonb_build_object('is_open', true))
+        || jsonb_build_object('matched', false);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION find_duel(TEXT, JSONB) IS
+'Joins the oldest matching open duel, or opens a new one. Returns the duel payload plus matched.';
+
+GRANT EXECUTE ON FUNCTION find_duel(TEXT, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION find_duel(TEXT, JSONB) TO anon;
+
+-- ============================================================================
+-- FUNCTION 4: cancel_duel
+-- ============================================================================
+-- Only the challenger, and only before anyone has accepted. The bounty is
+-- cancelled too, so the stake can be refunded through the escrow.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION cancel_duel(
+    duel_uuid UUID,
+    wallet_addr TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+    duel_record RECORD;
+BEGIN
+    SELECT d.* INTO duel_record
+    FROM duels d
+    JOIN users u ON u.id = d.challenger_id
+    WHERE d.id = duel_uuid AND u.wallet_address = wallet_addr
+    FOR UPDATE OF d;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Duel not found for wallet: %', wallet_addr;
+    END IF;
+
+    IF duel_record.status <> 'waiting' THEN
+        RAISE EXCEPTION 'Only waiting duels can be cancelled (current status: %)', duel_record.status;
+    END IF;
+
+    UPDATE duels SET status = 'cancelled', ended_at = NOW() WHERE id = duel_uuid;
+    UPDATE bounties SET status = 'cancelled', updated_at = NOW() WHERE id = duel_record.bounty_id;
+
+    RETURN jsonb_build_object('duel_id', duel_uuid, 'bounty_id', duel_record.bounty_id, 'status', 'cancelled');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION cancel_duel(UUID, TEXT) IS
+'Withdraws a waiting duel and cancels its bounty. Raises once an opponent has accepted.';
+
+GRANT EXECUTE ON FUNCTION cancel_duel(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_duel(UUID, TEXT) TO anon;
+
+-- ============================================================================
+-- FUNCTION 5: get_duel
+-- ============================================================================
+-- Duel state for the duel screen: both players, every move so far and, for
+-- the challenger only, the invite code. 'word' is only set once the duel
+-- has ended.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_duel(
+    duel_uuid UUID,
+    wallet_addr TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    duel_record RECORD;
+    v_user_id UUID;
+BEGIN
+    SELECT d.*, b.words, b.max_attempts_per_user
+    INTO duel_record
+    FROM duels d
+    JOIN bounties b ON b.id = d.bounty_id
+    WHERE d.id = duel_uuid;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Duel not found';
+    END IF;
+
+    IF wallet_addr IS NOT NULL THEN
+        SELECT u.id INTO v_user_id FROM users u WHERE u.wallet_address = wallet_addr;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'id', duel_record.id,
+        'bounty_id', duel_record.bounty_id,
+        'status', duel_record.status,
+        'is_open', duel_record.is_open,
+        'word_length', duel_record.word_length,
+        'language', duel_record.language,
+        'max_guesses', COALESCE(duel_record.max_attempts_per_user, 6),
+        'stake_amount', duel_record.stake_amount,
+        'pot', duel_record.stake_amount * 2,
+        'created_at', duel_record.created_at,
+        'started_at', duel_record.started_at,
+        'ended_at', duel_record.ended_at,
+        'server_time', NOW(),
+        'challenger_id', duel_record.challenger_id,
+        'opponent_id', duel_record.opponent_id,
+        'winner_id', duel_record.winner_id,
+        'players', (
+            SELECT COALESCE(jsonb_agg(jsonb_build_object(
+                'user_id', u.id,
+                'wallet_address', u.wallet_address,
+                'username', u.username,
+                'display_name', u.display_name
+            ) ORDER BY u.id = duel_record.challenger_id DESC), '[]'::JSONB)
+            FROM users u
+            WHERE u.id IN (duel_record.challenger_id, duel_record.opponent_id)
+        ),
+        'moves', (
+            SELECT COALESCE(jsonb_agg(jsonb_build_object(
+                'user_id', dm.user_id,
+                'attempt_number', dm.attempt_number,
+                'statuses', dm.statuses,
+                'solved', dm.solved,
+                'created_at', dm.created_at
+            ) ORDER BY dm.created_at, dm.attempt_number), '[]'::JSONB)
+            FROM duel_moves dm
+            WHERE dm.duel_id = duel_uuid
+        ),
+        'invite_code', CASE
+            WHEN v_user_id IS NOT NULL AND v_user_id = duel_record.challenger_id THEN
+                (SELECT di.invite_code FROM duel_invites di WHERE di.duel_id = duel_uuid)
+            ELSE NULL
+        END,
+        'word', CASE
+            WHEN duel_record.status IN ('completed', 'draw', 'cancelled') THEN duel_record.words[1]
+            ELSE NULL
+        END
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION get_duel(UUID, TEXT) IS
+'Returns a duel with its players and colour-only moves. invite_code is only returned to the challenger; word only once the duel has ended.';
+
+GRANT EXECUTE ON FUNCTION get_duel(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_duel(UUID, TEXT) TO anon;
+
+-- ============================================================================
+-- FUNCTION 6: record_duel_move (trigger on game_attempts)
+-- ============================================================================
+-- Runs inside submit_attempt(). Rejects guesses on duels that are not
+-- running, copies the colours of every duel guess to duel_moves, and fails
+-- a player who uses their last guess without solving.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION record_duel_move()
+RETURNS TRIGGER AS $$
+DECLARE
+    duel_record RECORD;
+    v_user_id UUID;
+    v_max_guesses INTEGER;
+BEGIN
+    -- Locks the duel until this guess commits, so two winning guesses are
+    -- settled one after the other and the second finds the duel closed
+    SELECT d.*, b.max_attempts_per_user
+    INTO duel_record
+    FROM duels d
+    JOIN bounties b ON b.id = d.bounty_id
+    WHERE d.bounty_id = NEW.bounty_id
+    FOR UPDATE OF d;
+
+    IF NOT FOUND THEN
+        RETURN NEW;
+    END IF;
+
+    IF duel_record.status <> 'active' THEN
+        RAISE EXCEPTION 'Duel is not running (current status: %)', duel_record.status;
+    END IF;
+
+    SELECT bp.user_id INTO v_user_id FROM bounty_participants bp WHERE bp.id = NEW.participant_id;
+
+    INSERT INTO duel_moves (duel_id, user_id, attempt_number, statuses, solved)
+    VALUES (
+        duel_record.id,
+        v_user_id,
+        NEW.attempt_number,
+        (SELECT COALESCE(jsonb_agg(tile->'status' ORDER BY ord), '[]'::JSONB)
+         FROM jsonb_array_elements(NEW.letter_results) WITH ORDINALITY AS t(tile, ord)),
+        NEW.result = 'correct'
+    );
+
+    v_max_guesses := COALESCE(duel_record.max_attempts_per_user, 6);
+
+    IF NEW.result <> 'correct' AND NEW.attempt_number >= v_max_guesses THEN
+        UPDATE bounty_participants
+        SET status = 'failed', session_ended_at = NOW()
+        WHERE id = NEW.participant_id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS record_duel_move ON game_attempts;
+CREATE TRIGGER record_duel_move
+    AFTER INSERT ON game_attempts
+    FOR EACH ROW
+    EXECUTE FUNCTION record_duel_move();
+
+-- ============================================================================
+-- FUNCTION 7: settle_duel (trigger on bounty_participants)
+-- ============================================================================
+-- The first participation of an active duel to reach 'completed' wins: the
+-- duel closes, the other player is failed and complete_bounty_with_winners()
+-- marks the winner and the pot. Two failed players make a draw.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION settle_duel()
+RETURNS TRIGGER AS $$
+DECLARE
+    duel_record RECORD;
+BEGIN
+    SELECT * INTO duel_record
+    FROM duels
+    WHERE bounty_id = NEW.bounty_id AND status = 'active'
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RETURN NEW;
+    END IF;
+
+    IF NEW.status = 'completed' THEN
+        UPDATE duels
+        SET status = 'completed', winner_id = NEW.user_id, ended_at = NOW()
+        WHERE id = duel_record.id;
+
+        UPDATE bounty_participants
+        SET status = 'failed', session_ended_at = COALESCE(session_ended_at, NOW())
+        WHERE bounty_id = NEW.bounty_id AND id <> NEW.id;
+
+        PERFORM complete_bounty_with_winners(NEW.bounty_id);
+    ELSIF NEW.status = 'failed' AND NOT EXISTS (
+        SELECT 1 FROM bounty_participants bp
+        WHERE bp.bounty_id = NEW.bounty_id AND bp.status <> 'failed'
+    ) THEN
+        UPDATE duels SET status = 'draw', ended_at = NOW() WHERE id = duel_record.id;
+        UPDATE bounties SET status = 'cancelled', updated_at = NOW() WHERE id = NEW.bounty_id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS settle_duel ON bounty_participants;
+CREATE TRIGGER settle_duel
+    AFTER UPDATE OF status ON bounty_participants
+    FOR EACH ROW
+    WHEN (OLD.status IS DISTINCT FROM NEW.status)
+    EXECUTE FUNCTION settle_duel();
+
+-- ============================================================================
+-- FUNCTION 8: determine_bounty_winner
+-- ============================================================================
+-- Same as migration 027, except duels are always settled by first-to-solve
+-- with a single winner, whatever winner_criteria the bounty row holds.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION determine_bounty_winner(bounty_uuid UUID)
+RETURNS TABLE(
+    user_id UUID,
+    prize_share DECIMAL(20, 8),
+    ranking INTEGER,
+    metric_value DECIMAL(20, 4)
+) AS $$
+DECLARE
+    v_winner_criteria winner_criteria;
+    v_prize_distribution prize_distribution;
+    v_prize_amount DECIMAL(20, 8);
+    v_bounty_status VARCHAR(20);
+    v_max_winners INTEGER;
+    v_is_duel BOOLEAN;
+BEGIN
+    -- Log function call
+    RAISE NOTICE 'determine_bounty_winner() called for bounty: %', bounty_uuid;
+
+    -- Get bounty details
+    SELECT b.winner_criteria, b.prize_distribution, b.prize_amount, b.status
+    INTO v_winner_criteria, v_prize_distribution, v_prize_amount, v_bounty_status
+    FROM bounties b
+    WHERE b.id = bounty_uuid;
+
+    -- Validate bounty exists
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bounty not found: %', bounty_uuid;
+    END IF;
+
+    -- Validate bounty is completed or can be completed
+    IF v_bounty_status NOT IN ('completed', 'active', 'expired') THEN
+        RAISE EXCEPTION 'Bounty cannot be completed. Current status: %', v_bounty_status;
+    END IF;
+
+    -- Duels: whoever solved first takes the pot
+    v_is_duel := EXISTS (SELECT 1 FROM duels d WHERE d.bounty_id = bounty_uuid);
+
+    IF v_is_duel THEN
+        v_winner_criteria := 'first-to-solve';
+        v_prize_distribution := 'winner-take-all';
+    END IF;
+
+    IF v_winner_criteria NOT IN ('first-to-solve', 'time', 'attempts', 'words-correct') THEN
+        RAISE EXCEPTION 'Unknown winner_criteria: %', v_winner_criteria;
+    END IF;
+
+    IF v_prize_distribution NOT IN ('winner-take-all', 'split-winners') THEN
+        RAISE EXCEPTION 'Unknown prize_distribution: %', v_prize_distribution;
+    END IF;
+
+    -- first-to-solve always has a single winner; split-winners pays the top 3
+    v_max_winners := CASE
+        WHEN v_winner_criteria <> 'first-to-solve' AND v_prize_distribution = 'split-winners' THEN 3
+        ELSE 1
+    END;
+
+    RAISE NOTICE 'Bounty details - Criteria: %, Distribution: %, Prize: %, Max winners: %',
+        v_winner_criteria, v_prize_distribution, v_prize_amount, v_max_winners;
+
+    RETURN QUERY
+    WITH candidates AS (
+        SELECT
+            bp.user_id AS candidate_id,
+            bp.completed_at,
+            bp.total_attempts,
+            bp.words_completed,
+            COALESCE(
+                EXTRACT(EPOCH FROM (bp.session_ended_at - bp.session_started_at)),
+                bp.total_time_seconds
+            )::DECIMAL(20, 4) AS session_seconds,
+            COALESCE(bp.hint_penalty_total, 0)::DECIMAL(20, 4) AS hint_penalty
+        FROM bounty_participants bp
+        WHERE bp.bounty_id = bounty_uuid
+          AND bp.status = 'completed'
+    ),
+    scored AS (
+        SELECT
+            c.candidate_id,
+            c.session_seconds,
+            (CASE v_winner_criteria
+                WHEN 'first-to-solve' THEN EXTRACT(EPOCH FROM c.completed_at) + c.hint_penalty
+                WHEN 'time' THEN c.session_seconds + c.hint_penalty
+                WHEN 'attempts' THEN c.total_attempts + c.hint_penalty
+                WHEN 'words-correct' THEN c.words_completed - c.hint_penalty
+            END)::DECIMAL(20, 4) AS metric
+        FROM candidates c
+        WHERE CASE v_winner_criteria
+            WHEN 'first-to-solve' THEN c.completed_at IS NOT NULL
+            WHEN 'time' THEN c.session_seconds IS NOT NULL
+            WHEN 'attempts' THEN c.total_attempts > 0
+            WHEN 'words-correct' THEN c.words_completed > 0
+        END
+    ),
+    ranked AS (
+        SELECT
+            s.candidate_id,
+            s.metric,
+            ROW_NUMBER() OVER (
+                ORDER BY
+                    -- words-correct is the only criterion where higher is better
+                    CASE WHEN v_winner_criteria = 'words-correct' THEN -s.metric ELSE s.metric END ASC,
+                    s.session_seconds ASC NULLS LAST
+            ) AS position
+        FROM scored s
+    ),
+    winners AS (
+        SELECT r.candidate_id, r.metric, r.position
+        FROM ranked r
+        WHERE r.position <= v_max_winners
+    )
+    SELECT
+        w.candidate_id::UUID,
+        (v_prize_amount / COUNT(*) OVER ())::DECIMAL(20, 8),
+        w.position::INTEGER,
+        w.metric::DECIMAL(20, 4)
+    FROM winners w
+    ORDER BY w.position;
+
+    -- Log if no winners found
+    IF NOT FOUND THEN
+        RAISE WARNING 'No eligible winners found for bounty: %', bounty_uuid;
+    END IF;
+
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION determine_bounty_winner(UUID) IS
+'Analyzes all participants and determines winner(s) based on bounty winner_criteria. Time is taken from server-recorded session timestamps (migration 025); hint penalties are applied to the metric (migration 027). Duels are always first-to-solve (migration 033).';
+
+GRANT EXECUTE ON FUNCTION determine_bounty_winner(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION determine_bounty_winner(UUID) TO anon;
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+-- What changed:
+-- - duels, duel_invites (private) and duel_moves tables; duels and
+--   duel_moves are in the supabase_realtime publication
+-- - create_duel / accept_duel / find_duel / cancel_duel / get_duel
+-- - record_duel_move trigger on game_attempts, settle_duel trigger on
+--   bounty_participants
+-- - determine_bounty_winner() forces first-to-solve for duels
+--
+-- Client:
+-- - Play a duel through the normal bounty calls (start_word_session,
+--   submit_attempt) on duel.bounty_id
+-- - Subscribe to the opponent's board:
+--     supabase.channel(`duel:${duelId}`)
+--       .on('postgres_changes', { event: 'INSERT', schema: 'public',
+--           table: 'duel_moves', filter: `duel_id=eq.${duelId}` }, ...)
+--       .on('postgres_changes', { event: 'UPDATE', schema: 'public',
+--           table: 'duels', filter: `id=eq.${duelId}` }, ...)
+--       .subscribe()
+-- - Stakes: each player deposits stake_amount to WordleBountyEscrow for
+--   duel.bounty_id; the winner is paid the pot through the usual
+--   CompleteBountyModal / PaymentService flow, and draws and cancelled
+--   duels are refunded
+-- ============================================================================
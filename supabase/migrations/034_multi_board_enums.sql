@@ -0,0 +1,36 @@
+-- ============================================================================
+-- Migration 034: Multi-Board Enum Values
+-- Created: 2026-10-19
+-- Purpose: Add the 'Multi-board' bounty type and 'boards-solved' winner criteria
+-- ============================================================================
+-- New enum values can't be used in the transaction that adds them, so they
+-- get their own migration. Run this before 035_multi_board_bounties.sql.
+-- ============================================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_enum
+        WHERE enumlabel = 'Multi-board'
+        AND enumtypid = 'bounty_type'::regtype
+    ) THEN
+        ALTER TYPE bounty_type ADD VALUE 'Multi-board';
+    END IF;
+END $$;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_enum
+        WHERE enumlabel = 'boards-solved'
+        AND enumtypid = 'winner_criteria'::regtype
+    ) THEN
+        ALTER TYPE winner_criteria ADD VALUE 'boards-solved';
+    END IF;
+END $$;
+
+COMMENT ON TYPE winner_criteria IS 'Winning criteria: first-to-solve, time, attempts, words-correct or boards-solved';
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
@@ -0,0 +1,723 @@
+-- ============================================================================
+-- Migration 035: Multi-Board Bounties
+-- Created: 2026-10-19
+-- Purpose: Every guess plays on 2, 4 or 8 hidden words at once
+-- ============================================================================
+-- ISSUE: Every bounty type shows one board at a time.
+--
+-- SOLUTION (needs the enum values from migration 034):
+-- 1. 'Multi-board' bounties hold one word per board in bounties.words (2, 4
+--    or 8 words of the same length). max_attempts_per_user is the shared
+--    guess budget and defaults to boards + 5.
+-- 2. submit_attempt() hands Multi-board guesses to
+--    submit_multi_board_attempt(). It scores the guess against every unsolved
+--    board and records one game_attempts row per board (word_index = board,
+--    same attempt_number), so the existing per-word grouping used by
+--    restoreGame, replays and share grids keeps working.
+-- 3. words_completed counts solved boards. A participation is 'completed'
+--    when every board is solved and 'failed' when the budget runs out first.
+-- 4. winner_criteria 'boards-solved': most boards solved, then fewer guesses,
+--    then the faster session. Participants who ran out of guesses still rank
+--    on the boards they solved. Hint penalties subtract boards.
+-- ============================================================================
+
+-- ============================================================================
+-- FUNCTION 1: submit_multi_board_attempt (internal)
+-- ============================================================================
+-- Called by submit_attempt() after it has checked the participant and the
+-- bounty. Returns:
+-- {
+--   correct:          every board is now solved,
+--   attempt_number:   guesses used so far, including this one,
+--   attempts_remaining,
+--   boards:           [{ word_index, letter_results, correct }] for the boards
+--                     this guess was played on (solved boards are skipped),
+--   boards_solved, boards_total, completed_bounty,
+--   elapsed_seconds, time_remaining_seconds, participant_id
+-- }
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION submit_multi_board_attempt(
+    participant_uuid UUID,
+    guessed_word TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+    participant_record RECORD;
+    bounty_record RECORD;
+    v_guess TEXT;
+    v_target TEXT;
+    v_board_count INTEGER;
+    v_budget INTEGER;
+    v_attempt_num INTEGER;
+    v_last_attempt_at TIMESTAMP WITH TIME ZONE;
+    v_session_started TIMESTAMP WITH TIME ZONE;
+    v_is_timed BOOLEAN;
+    v_elapsed_seconds INTEGER;
+    v_attempt_seconds INTEGER;
+    v_solved_boards INTEGER[];
+    v_letter_results JSONB;
+    v_is_correct BOOLEAN;
+    v_boards JSONB := '[]'::JSONB;
+    v_boards_solved INTEGER;
+    v_all_solved BOOLEAN;
+    v_out_of_guesses BOOLEAN;
+BEGIN
+    SELECT * INTO participant_record
+    FROM bounty_participants
+    WHERE id = participant_uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Participant not found: %', participant_uuid;
+    END IF;
+
+    -- Re-checked under the lock so two racing guesses can't both spend the last one
+    IF participant_record.session_ended_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Participant % already finished', participant_uuid;
+    END IF;
+
+    SELECT * INTO bounty_record FROM bounties WHERE id = participant_record.bounty_id;
+
+    v_board_count := array_length(bounty_record.words, 1);
+    v_budget := COALESCE(bounty_record.max_attempts_per_user, v_board_count + 5);
+    v_guess := normalize_word(guessed_word, bounty_record.language);
+
+    IF LENGTH(v_guess) <> LENGTH(normalize_word(bounty_record.words[1], bounty_record.language)) THEN
+        RAISE EXCEPTION 'Guess must be % letters long',
+            LENGTH(normalize_word(bounty_record.words[1], bounty_record.language));
+    END IF;
+
+    -- Same session clock as single-board play
+    v_session_started := COALESCE(participant_record.session_started_at, participant_record.joined_at, NOW());
+    v_is_timed := bounty_record.time_limit_seconds IS NOT NULL;
+
+    IF v_is_timed AND NOW() > v_session_started + make_interval(secs => bounty_record.time_limit_seconds) THEN
+        RAISE EXCEPTION 'Time limit of % seconds exceeded', bounty_record.time_limit_seconds;
+    END IF;
+
+    -- One shared guess counter across all boards
+    SELECT COALESCE(MAX(ga.attempt_number), 0) + 1, MAX(ga.created_at)
+    INTO v_attempt_num, v_last_attempt_at
+    FROM game_attempts ga
+    WHERE ga.participant_id = participant_uuid;
+
+    IF v_attempt_num > v_budget THEN
+        RAISE EXCEPTION 'No attempts left: all % guesses used', v_budget;
+    END IF;
+
+    SELECT COALESCE(array_agg(DISTINCT ga.word_index), '{}')
+    INTO v_solved_boards
+    FROM game_attempts ga
+    WHERE ga.participant_id = participant_uuid AND ga.result = 'correct';
+
+    v_attempt_seconds := FLOOR(EXTRACT(EPOCH FROM (NOW() - COALESCE(v_last_attempt_at, v_session_started))))::INTEGER;
+    v_elapsed_seconds := FLOOR(EXTRACT(EPOCH FROM (NOW() - v_session_started)))::INTEGER;
+
+    FOR board IN 0..v_board_count - 1 LOOP
+        CONTINUE WHEN board = ANY(v_solved_boards);
+
+        v_target := normalize_word(bounty_record.words[board + 1], bounty_record.language);
+        v_letter_results := calculate_letter_results(v_guess, v_target);
+        v_is_correct := v_guess = v_target;
+
+        INSERT INTO game_attempts (
+            participant_id,
+            bounty_id,
+            word_index,
+            attempt_number,
+            guessed_word,
+            target_word,
+            result,
+            letter_results,
+            time_taken_seconds
+        ) VALUES (
+            participant_uuid,
+            bounty_record.id,
+            board,
+            v_attempt_num,
+            v_guess,
+            v_target,
+            CASE
+                WHEN v_is_correct THEN 'correct'::attempt_result
+                WHEN jsonb_path_exists(v_letter_results, '$[*] ? (@.status != "absent")') THEN 'partial'::attempt_result
+                ELSE 'incorrect'::attempt_result
+            END,
+            v_letter_results,
+            GREATEST(v_attempt_seconds, 0)
+        );
+
+        v_boards := v_boards || jsonb_build_array(jsonb_build_object(
+            'word_index', board,
+            'letter_results', v_letter_results,
+            'correct', v_is_correct
+        ));
+
+        IF v_is_correct THEN
+            v_solved_boards := v_solved_boards || board;
+        END IF;
+    END LOOP;
+
+    v_boards_solved := COALESCE(array_length(v_solved_boards, 1), 0);
+    v_all_solved := v_boards_solved = v_board_count;
+    v_out_of_guesses := NOT v_all_solved AND v_attempt_num >= v_budget;
+
+    UPDATE bounty_participants
+    SET
+        total_attempts = total_attempts + 1,
+        total_time_seconds = GREATEST(v_elapsed_seconds, 0),
+        session_started_at = v_session_started,
+        session_ended_at = CASE
+            WHEN v_all_solved OR v_out_of_guesses THEN NOW()
+            ELSE session_ended_at
+        END,
+        words_completed = v_boards_solved,
+        status = CASE
+            WHEN v_all_solved THEN 'completed'::participation_status
+            WHEN v_out_of_guesses THEN 'failed'::participation_status
+            ELSE status
+        END,
+        completed_at = CASE
+            WHEN v_all_solved THEN NOW()
+            ELSE completed_at
+        END
+    WHERE id = participant_uuid;
+
+    RETURN jsonb_build_object(
+        'correct', v_all_solved,
+        'attempt_number', v_attempt_num,
+        'attempts_remaining', v_budget - v_attempt_num,
+        'boards', v_boards,
+        'boards_solved', v_boards_solved,
+        'boards_total', v_board_count,
+        'completed_bounty', v_all_solved,
+        'participant_id', participant_uuid,
+        'elapsed_seconds', GREATEST(v_elapsed_seconds, 0),
+        'time_remaining_seconds', CASE
+            WHEN v_is_timed THEN GREATEST(bounty_record.time_limit_seconds - v_elapsed_seconds, 0)
+            ELSE NULL
+        END
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION submit_multi_board_attempt(UUID, TEXT) IS
+'Scores one guess against every unsolved board of a Multi-board bounty. Internal: called by submit_attempt().';
+
+-- Trusts its participant id, so only submit_attempt() may call it
+REVOKE EXECUTE ON FUNCTION submit_multi_board_attempt(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- FUNCTION 2: submit_attempt
+-- ============================================================================
+-- Same as migration 032, plus the hand-off to submit_multi_board_attempt()
+-- for Multi-board bounties. word_idx is ignored for those; pass 0.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION submit_attempt(
+    bounty_uuid UUID,
+    wallet_addr TEXT,
+    word_idx INTEGER,
+    guessed_word TEXT,
+    time_taken INTEGER DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    user_uuid UUID;
+    participant_record RECORD;
+    bounty_record RECORD;
+    target_word TEXT;
+    attempt_num INTEGER;
+    letter_results JSONB;
+    is_correct BOOLEAN;
+    is_last_word BOOLEAN;
+    attempt_result attempt_result;
+    result JSONB;
+    rows_updated INTEGER;
+    v_is_timed BOOLEAN;
+    v_session_started TIMESTAMP WITH TIME ZONE;
+    v_word_started TIMESTAMP WITH TIME ZONE;
+    v_last_attempt_at TIMESTAMP WITH TIME ZONE;
+    v_attempt_seconds INTEGER;
+    v_elapsed_seconds INTEGER;
+    v_hard_mode_violation TEXT;
+    v_guess TEXT;
+BEGIN
+    -- Get user
+    SELECT id INTO user_uuid FROM users WHERE wallet_address = wallet_addr;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User not found for wallet: %', wallet_addr;
+    END IF;
+
+    -- Get participant record (allow any active status, including 'completed' for multi-word bounties)
+    SELECT * INTO participant_record
+    FROM bounty_participants
+    WHERE bounty_id = bounty_uuid AND user_id = user_uuid;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User % not participating in bounty %', wallet_addr, bounty_uuid;
+    END IF;
+
+    -- Check if participation is active or completed
+    IF participant_record.status NOT IN ('registered', 'active', 'completed') THEN
+        RAISE EXCEPTION 'User participation status is %', participant_record.status;
+    END IF;
+
+    -- A finished session can't be extended by further guesses
+    IF participant_record.session_ended_at IS NOT NULL THEN
+        RAISE EXCEPTION 'User % already finished bounty %', wallet_addr, bounty_uuid;
+    END IF;
+
+    -- Get bounty and target word
+    SELECT * INTO bounty_record FROM bounties WHERE id = bounty_uuid;
+    IF NOT FOUND OR word_idx < 0 OR word_idx >= array_length(bounty_record.words, 1) THEN
+        RAISE EXCEPTION 'Invalid bounty or word index';
+    END IF;
+
+    -- Multi-board: one guess is scored against every unsolved board
+    IF bounty_record.bounty_type = 'Multi-board' THEN
+        RETURN submit_multi_board_attempt(participant_record.id, guessed_word);
+    END IF;
+
+    -- Both sides in the bounty's normalised form, so accents that have no
+    -- key of their own never count against the player
+    target_word := normalize_word(bounty_record.words[word_idx + 1], bounty_record.language); -- Arrays are 1-indexed in PostgreSQL
+    v_guess := normalize_word(guessed_word, bounty_record.language);
+    is_last_word := word_idx + 1 >= array_length(bounty_record.words, 1);
+
+    -- Reject guesses of the wrong length before anything is recorded
+    IF LENGTH(v_guess) <> LENGTH(target_word) THEN
+        RAISE EXCEPTION 'Guess must be % letters long', LENGTH(target_word);
+    END IF;
+
+    -- Session clock: falls back to the join time, so skipping
+    -- start_word_session() can never make a run look faster
+    v_session_started := COALESCE(participant_record.session_started_at, participant_record.joined_at, NOW());
+    v_is_timed := bounty_record.bounty_type = 'Time-based' AND bounty_record.time_limit_seconds IS NOT NULL;
+
+    IF v_is_timed AND NOW() > v_session_started + make_interval(secs => bounty_record.time_limit_seconds) THEN
+        RAISE EXCEPTION 'Time limit of % seconds exceeded', bounty_record.time_limit_seconds;
+    END IF;
+
+    -- Hard mode: the guess must reuse everything this word has revealed so far
+    IF bounty_record.hard_mode THEN
+        SELECT check_hard_mode_guess(
+            v_guess,
+            COALESCE(jsonb_agg(ga.letter_results ORDER BY ga.attempt_number), '[]'::JSONB)
+        )
+        INTO v_hard_mode_violation
+        FROM game_attempts ga
+        WHERE ga.participant_id = participant_record.id AND ga.word_index = word_idx;
+
+        IF v_hard_mode_violation IS NOT NULL THEN
+            RAISE EXCEPTION 'Hard mode: %', v_hard_mode_violation;
+        END IF;
+    END IF;
+
+    -- Word clock: word 0 starts with the session, later words when the previous one was solved
+    INSERT INTO word_sessions (participant_id, bounty_id, word_index, started_at)
+    VALUES (
+        participant_record.id,
+        bounty_uuid,
+        word_idx,
+        CASE WHEN word_idx = 0 THEN v_session_started ELSE NOW() END
+    )
+    ON CONFLICT (participant_id, word_index) DO NOTHING;
+
+    SELECT started_at INTO v_word_started
+    FROM word_sessions
+    WHERE participant_id = participant_record.id AND word_index = word_idx;
+
+    -- Get next attempt number and the previous guess time for this word
+    SELECT COALESCE(MAX(attempt_number), 0) + 1, MAX(created_at)
+    INTO attempt_num, v_last_attempt_at
+    FROM game_attempts
+    WHERE participant_id = participant_record.id AND word_index = word_idx;
+
+    v_attempt_seconds := FLOOR(EXTRACT(EPOCH FROM (NOW() - COALESCE(v_last_attempt_at, v_word_started))))::INTEGER;
+    v_elapsed_seconds := FLOOR(EXTRACT(EPOCH FROM (NOW() - v_session_started)))::INTEGER;
+
+    -- Score the guess
+    letter_results := calculate_letter_results(v_guess, target_word);
+    is_correct := v_guess = target_word;
+
+    -- Determine attempt result
+    IF is_correct THEN
+        attempt_result := 'correct';
+    ELSIF jsonb_path_exists(letter_results, '$[*] ? (@.status != "absent")') THEN
+        attempt_result := 'partial';
+    ELSE
+        attempt_result := 'incorrect';
+    END IF;
+
+    -- Insert attempt
+    INSERT INTO game_attempts (
+        participant_id,
+        bounty_id,
+        word_index,
+        attempt_number,
+        guessed_word,
+        target_word,
+        result,
+        letter_results,
+        time_taken_seconds
+    ) VALUES (
+        participant_record.id,
+        bounty_uuid,
+        word_idx,
+        attempt_num,
+        v_guess,
+        target_word,
+        attempt_result,
+        letter_results,
+        GREATEST(v_attempt_seconds, 0)
+    );
+
+    -- Close the word clock and open the next one
+    IF is_correct THEN
+        UPDATE word_sessions
+        SET completed_at = NOW()
+        WHERE participant_id = participant_record.id AND word_index = word_idx;
+
+        IF NOT is_last_word THEN
+            INSERT INTO word_sessions (participant_id, bounty_id, word_index, started_at)
+            VALUES (participant_record.id, bounty_uuid, word_idx + 1, NOW())
+            ON CONFLICT (participant_id, word_index) DO NOTHING;
+        END IF;
+    END IF;
+
+    -- Update participant progress
+    UPDATE bounty_participants
+    SET
+        total_attempts = total_attempts + 1,
+        total_time_seconds = GREATEST(v_elapsed_seconds, 0),
+        session_started_at = v_session_started,
+        session_ended_at = CASE
+            WHEN is_correct AND is_last_word THEN NOW()
+            ELSE session_ended_at
+        END,
+        words_completed = CASE
+            WHEN is_correct THEN GREATEST(words_completed, word_idx + 1)
+            ELSE words_completed
+        END,
+        current_word_index = CASE
+            WHEN is_correct AND is_last_word THEN word_idx
+            WHEN is_correct THEN word_idx + 1
+            ELSE current_word_index
+        END,
+        status = CASE
+            WHEN is_correct AND is_last_word THEN 'completed'::participation_status
+            ELSE status
+        END,
+        completed_at = CASE
+            WHEN is_correct AND is_last_word THEN NOW()
+            ELSE completed_at
+        END
+    WHERE id = participant_record.id;
+
+    -- Check how many rows were actually updated
+    GET DIAGNOSTICS rows_updated = ROW_COUNT;
+
+    IF rows_updated = 0 THEN
+        RAISE WARNING 'No rows updated for participant % in bounty %', participant_record.id, bounty_uuid;
+    END IF;
+
+    -- Build result (no target word - the client renders only what we return)
+    result := jsonb_build_object(
+        'correct', is_correct,
+        'attempt_number', attempt_num,
+        'letter_results', letter_results,
+        'completed_bounty', is_correct AND is_last_word,
+        'participant_id', participant_record.id,
+        'rows_updated', rows_updated,
+        'elapsed_seconds', GREATEST(v_elapsed_seconds, 0),
+        'time_remaining_seconds', CASE
+            WHEN v_is_timed THEN GREATEST(bounty_record.time_limit_seconds - v_elapsed_seconds, 0)
+            ELSE NULL
+        END
+    );
+
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION submit_attempt(UUID, TEXT, INTEGER, TEXT, INTEGER) IS
+'Records a guess, scores it server-side and returns { correct, attempt_number, letter_results, completed_bounty, elapsed_seconds, time_remaining_seconds }. Timing is measured on the server; the time_taken argument is ignored. Hard-mode bounties reject guesses that drop revealed letters with "Hard mode: <rule>". Guess and target are compared after normalize_word() for the bounty language. Multi-board bounties return the submit_multi_board_attempt() payload instead.';
+
+-- ============================================================================
+-- FUNCTION 3: create_bounty_with_wallet
+-- ============================================================================
+-- Same as migration 032, plus Multi-board checks: 2, 4 or 8 words of one
+-- length, and max_attempts_per_user defaults to boards + 5.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.create_bounty_with_wallet(
+  wallet_addr VARCHAR(255),
+  bounty_data JSONB
+) RETURNS UUID AS $$
+DECLARE
+  user_uuid UUID;
+  bounty_uuid UUID;
+  v_language TEXT := COALESCE(bounty_data->>'language', 'en');
+  v_board_count INTEGER;
+  v_max_attempts INTEGER := (bounty_data->>'max_attempts_per_user')::INTEGER;
+BEGIN
+  -- Multi-board: 2, 4 or 8 words of one length, sharing one attempt budget
+  IF bounty_data->>'bounty_type' = 'Multi-board' THEN
+    v_board_count := jsonb_array_length(COALESCE(bounty_data->'words', '[]'::JSONB));
+
+    IF v_board_count NOT IN (2, 4, 8) THEN
+      RAISE EXCEPTION 'Multi-board bounties need 2, 4 or 8 words (got %)', v_board_count;
+    END IF;
+
+    IF (
+      SELECT COUNT(DISTINCT LENGTH(normalize_word(w, v_language)))
+      FROM jsonb_array_elements_text(bounty_data->'words') AS w
+    ) <> 1 THEN
+      RAISE EXCEPTION 'Every board of a multi-board bounty needs a word of the same length';
+    END IF;
+
+    v_max_attempts := COALESCE(v_max_attempts, v_board_count + 5);
+  END IF;
+
+  -- Get or create user
+  user_uuid := public.get_or_create_user(wallet_addr);
+
+  -- Create bounty
+  INSERT INTO bounties (
+    name,
+    description,
+    creator_id,
+    bounty_type,
+    prize_amount,
+    prize_currency,
+    words,
+    hints,
+    hint_penalties,
+    max_participants,
+    max_attempts_per_user,
+    time_limit_seconds,
+    winner_criteria,
+    duration_hours,
+    status,
+    is_public,
+    requires_registration,
+    hard_mode,
+    language,
+    start_time,
+    end_time
+  ) VALUES (
+    bounty_data->>'name',
+    bounty_data->>'description',
+    user_uuid,
+    COALESCE((bounty_data->>'bounty_type')::bounty_type, 'Simple'::bounty_type),
+    COALESCE((bounty_data->>'prize_amount')::DECIMAL, 0),
+    COALESCE(bounty_data->>'prize_currency', 'HBAR'),
+    COALESCE(
+      ARRAY(SELECT normalize_word(w, v_language) FROM jsonb_array_elements_text(bounty_data->'words') AS w),
+      ARRAY['WORDLE']
+    ),
+    COALESCE(
+      ARRAY(SELECT jsonb_array_elements_text(bounty_data->'hints')),
+      ARRAY[]::TEXT[]
+    ),
+    COALESCE(
+      ARRAY(SELECT jsonb_array_elements_text(bounty_data->'hint_penalties')::DECIMAL(10, 2)),
+      ARRAY[]::DECIMAL(10, 2)[]
+    ),
+    (bounty_data->>'max_participants')::INTEGER,
+    v_max_attempts,
+    (bounty_data->>'time_limit_seconds')::INTEGER,
+    COALESCE((bounty_data->>'winner_criteria')::winner_criteria, 'attempts'::winner_criteria),
+    (bounty_data->>'duration_hours')::INTEGER,
+    COALESCE((bounty_data->>'status')::bounty_status, 'active'::bounty_status),
+    COALESCE((bounty_data->>'is_public')::BOOLEAN, true),
+    COALESCE((bounty_data->>'requires_registration')::BOOLEAN, false),
+    COALESCE((bounty_data->>'hard_mode')::BOOLEAN, false),
+    v_language,
+    NOW(),
+    CASE
+      WHEN bounty_data->>'duration_hours' IS NOT NULL
+      THEN NOW() + ((bounty_data->>'duration_hours')::INTEGER || ' hours')::INTERVAL
+      ELSE NULL
+    END
+  ) RETURNING id INTO bounty_uuid;
+
+  RETURN bounty_uuid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.create_bounty_with_wallet(VARCHAR, JSONB) TO anon;
+GRANT EXECUTE ON FUNCTION public.create_bounty_with_wallet(VARCHAR, JSONB) TO authenticated;
+
+-- ============================================================================
+-- FUNCTION 4: determine_bounty_winner
+-- ============================================================================
+-- Same as migration 033, plus 'boards-solved': most boards solved (minus
+-- hint penalties), then fewer guesses, then the faster session. Failed
+-- participants still rank on the boards they solved.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION determine_bounty_winner(bounty_uuid UUID)
+RETURNS TABLE(
+    user_id UUID,
+    prize_share DECIMAL(20, 8),
+    ranking INTEGER,
+    metric_value DECIMAL(20, 4)
+) AS $$
+DECLARE
+    v_winner_criteria winner_criteria;
+    v_prize_distribution prize_distribution;
+    v_prize_amount DECIMAL(20, 8);
+    v_bounty_status VARCHAR(20);
+    v_max_winners INTEGER;
+    v_is_duel BOOLEAN;
+BEGIN
+    -- Log function call
+    RAISE NOTICE 'determine_bounty_winner() called for bounty: %', bounty_uuid;
+
+    -- Get bounty details
+    SELECT b.winner_criteria, b.prize_distribution, b.prize_amount, b.status
+    INTO v_winner_criteria, v_prize_distribution, v_prize_amount, v_bounty_status
+    FROM bounties b
+    WHERE b.id = bounty_uuid;
+
+    -- Validate bounty exists
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bounty not found: %', bounty_uuid;
+    END IF;
+
+    -- Validate bounty is completed or can be completed
+    IF v_bounty_status NOT IN ('completed', 'active', 'expired') THEN
+        RAISE EXCEPTION 'Bounty cannot be completed. Current status: %', v_bounty_status;
+    END IF;
+
+    -- Duels: whoever solved first takes the pot
+    v_is_duel := EXISTS (SELECT 1 FROM duels d WHERE d.bounty_id = bounty_uuid);
+
+    IF v_is_duel THEN
+        v_winner_criteria := 'first-to-solve';
+        v_prize_distribution := 'winner-take-all';
+    END IF;
+
+    IF v_winner_criteria NOT IN ('first-to-solve', 'time', 'attempts', 'words-correct', 'boards-solved') THEN
+        RAISE EXCEPTION 'Unknown winner_criteria: %', v_winner_criteria;
+    END IF;
+
+    IF v_prize_distribution NOT IN ('winner-take-all', 'split-winners') THEN
+        RAISE EXCEPTION 'Unknown prize_distribution: %', v_prize_distribution;
+    END IF;
+
+    -- first-to-solve always has a single winner; split-winners pays the top 3
+    v_max_winners := CASE
+        WHEN v_winner_criteria <> 'first-to-solve' AND v_prize_distribution = 'split-winners' THEN 3
+        ELSE 1
+    END;
+
+    RAISE NOTICE 'Bounty details - Criteria: %, Distribution: %, Prize: %, Max winners: %',
+        v_winner_criteria, v_prize_distribution, v_prize_amount, v_max_winners;
+
+    RETURN QUERY
+    WITH candidates AS (
+        SELECT
+            bp.user_id AS candidate_id,
+            bp.completed_at,
+            bp.total_attempts,
+            bp.words_completed,
+            COALESCE(
+                EXTRACT(EPOCH FROM (bp.session_ended_at - bp.session_started_at)),
+                bp.total_time_seconds
+            )::DECIMAL(20, 4) AS session_seconds,
+            COALESCE(bp.hint_penalty_total, 0)::DECIMAL(20, 4) AS hint_penalty
+        FROM bounty_participants bp
+        WHERE bp.bounty_id = bounty_uuid
+          AND (
+              bp.status = 'completed'
+              -- Out of guesses with some boards solved still ranks on boards
+              OR (v_winner_criteria = 'boards-solved' AND bp.status = 'failed')
+          )
+    ),
+    scored AS (
+        SELECT
+            c.candidate_id,
+            c.session_seconds,
+            c.total_attempts,
+            (CASE v_winner_criteria
+                WHEN 'first-to-solve' THEN EXTRACT(EPOCH FROM c.completed_at) + c.hint_penalty
+                WHEN 'time' THEN c.session_seconds + c.hint_penalty
+                WHEN 'attempts' THEN c.total_attempts + c.hint_penalty
+                WHEN 'words-correct' THEN c.words_completed - c.hint_penalty
+                WHEN 'boards-solved' THEN c.words_completed - c.hint_penalty
+            END)::DECIMAL(20, 4) AS metric
+        FROM candidates c
+        WHERE CASE v_winner_criteria
+            WHEN 'first-to-solve' THEN c.completed_at IS NOT NULL
+            WHEN 'time' THEN c.session_seconds IS NOT NULL
+            WHEN 'attempts' THEN c.total_attempts > 0
+            WHEN 'words-correct' THEN c.words_completed > 0
+            WHEN 'boards-solved' THEN c.words_completed > 0
+        END
+    ),
+    ranked AS (
+        SELECT
+            s.candidate_id,
+            s.metric,
+            ROW_NUMBER() OVER (
+                ORDER BY
+                    -- words-correct and boards-solved are the criteria where higher is better
+                    CASE
+                        WHEN v_winner_criteria IN ('words-correct', 'boards-solved') THEN -s.metric
+                        ELSE s.metric
+                    END ASC,
+                    -- Equal boards: fewer guesses first
+                    CASE WHEN v_winner_criteria = 'boards-solved' THEN s.total_attempts END ASC NULLS LAST,
+                    s.session_seconds ASC NULLS LAST
+            ) AS position
+        FROM scored s
+    ),
+    winners AS (
+        SELECT r.candidate_id, r.metric, r.position
+        FROM ranked r
+        WHERE r.position <= v_max_winners
+    )
+    SELECT
+        w.candidate_id::UUID,
+        (v_prize_amount / COUNT(*) OVER ())::DECIMAL(20, 8),
+        w.position::INTEGER,
+        w.metric::DECIMAL(20, 4)
+    FROM winners w
+    ORDER BY w.position;
+
+    -- Log if no winners found
+    IF NOT FOUND THEN
+        RAISE WARNING 'No eligible winners found for bounty: %', bounty_uuid;
+    END IF;
+
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION determine_bounty_winner(UUID) IS
+'Analyzes all participants and determines winner(s) based on bounty winner_criteria. Time is taken from server-recorded session timestamps (migration 025); hint penalties are applied to the metric (migration 027). Duels are always first-to-solve (migration 033); boards-solved ranks multi-board bounties (migration 035).';
+
+GRANT EXECUTE ON FUNCTION determine_bounty_winner(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION determine_bounty_winner(UUID) TO anon;
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+-- What changed:
+-- - submit_multi_board_attempt() (internal) scores one guess on every
+--   unsolved board
+-- - submit_attempt() routes Multi-board bounties to it
+-- - create_bounty_with_wallet() validates Multi-board word lists and sets the
+--   default guess budget
+-- - determine_bounty_winner() supports 'boards-solved'
+--
+-- Client:
+-- - Create: bounty_type 'Multi-board', words = one per board,
+--   winner_criteria 'boards-solved'
+-- - Play: submit_attempt(bounty_id, wallet, 0, guess) and apply
+--   result.boards with applyMultiBoardResults(); lay the boards out with
+--   getMultiBoardGridColumns() in GameplayPage
+-- - Resume: group game_attempts by word_index, one board per index
+-- ============================================================================
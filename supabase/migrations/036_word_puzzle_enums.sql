@@ -0,0 +1,34 @@
+-- ============================================================================
+-- Migration 036: Word Puzzle Enum Values
+-- Created: 2026-10-19
+-- Purpose: Add the 'Word-ladder' and 'Anagram' bounty types
+-- ============================================================================
+-- New enum values can't be used in the transaction that adds them, so they
+-- get their own migration. Run this before 037_word_ladder_and_anagram.sql.
+-- ============================================================================
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_enum
+        WHERE enumlabel = 'Word-ladder'
+        AND enumtypid = 'bounty_type'::regtype
+    ) THEN
+        ALTER TYPE bounty_type ADD VALUE 'Word-ladder';
+    END IF;
+END $$;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_enum
+        WHERE enumlabel = 'Anagram'
+        AND enumtypid = 'bounty_type'::regtype
+    ) THEN
+        ALTER TYPE bounty_type ADD VALUE 'Anagram';
+    END IF;
+END $$;
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
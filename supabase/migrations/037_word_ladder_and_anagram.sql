@@ -0,0 +1,939 @@
+-- ============================================================================
+-- Migration 037: Word Ladder and Anagram Bounties
+-- Created: 2026-10-19
+-- Purpose: Two word puzzles on the same bounty, escrow and payout plumbing
+-- ============================================================================
+-- ISSUE: Every bounty type is a variant of guessing a hidden word.
+--
+-- SOLUTION (needs the enum values from migration 036):
+-- 1. bounties.puzzle holds what a puzzle shows the player up front:
+--    - Word-ladder: { start_word, target_word }. Players change one letter
+--      per step, every step must be in the dictionary, and a word can't be
+--      used twice on the same ladder. Reaching target_word solves it.
+--    - Anagram: { letters }, the answer scrambled by the server. Every guess
+--      must use exactly those letters. The answer, or any other dictionary
+--      word made of the same letters, solves it; other arrangements are
+--      wrong guesses. Anagrams default to 6 guesses.
+--    bounties.words keeps the single target word, so word_lengths, reveals
+--    and replays work unchanged.
+-- 2. submit_attempt() hands both types to submit_puzzle_attempt(). Invalid
+--    ladder steps and anagram guesses with the wrong letters are rejected
+--    with "Word ladder: <rule>" / "Anagram: <rule>" and are not recorded,
+--    like hard-mode rejections.
+-- 3. Scoring: a ladder's total_attempts is its number of steps, so the
+--    'attempts' criteria ranks the shortest ladder first; anagrams default
+--    to 'time'. Counting words or boards can't separate single-word puzzles.
+-- ============================================================================
+
+ALTER TABLE bounties ADD COLUMN IF NOT EXISTS puzzle JSONB;
+
+COMMENT ON COLUMN bounties.puzzle IS 'Public puzzle data: Word-ladder { start_word, target_word }, Anagram { letters }. NULL for other bounty types.';
+
+-- ============================================================================
+-- FUNCTION 1: scramble_word / sort_letters / count_letter_changes
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION scramble_word(word TEXT)
+RETURNS TEXT AS $$
+DECLARE
+    v_scrambled TEXT;
+BEGIN
+    -- Reshuffle until the answer isn't handed out as-is (a word of one
+    -- repeated letter can only come back unchanged)
+    FOR attempt IN 1..10 LOOP
+        SELECT string_agg(letter, '' ORDER BY random())
+        INTO v_scrambled
+        FROM regexp_split_to_table(word, '') AS letter;
+
+        EXIT WHEN v_scrambled <> word;
+    END LOOP;
+
+    RETURN v_scrambled;
+END;
+$$ LANGUAGE plpgsql VOLATILE;
+
+CREATE OR REPLACE FUNCTION sort_letters(word TEXT)
+RETURNS TEXT AS $$
+BEGIN
+    RETURN (
+        SELECT COALESCE(string_agg(letter, '' ORDER BY letter), '')
+        FROM regexp_split_to_table(word, '') AS letter
+    );
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION count_letter_changes(from_word TEXT, to_word TEXT)
+RETURNS INTEGER AS $$
+BEGIN
+    RETURN (
+        SELECT COUNT(*)::INTEGER
+        FROM generate_series(1, LENGTH(from_word)) AS i
+        WHERE substr(from_word, i, 1) <> substr(to_word, i, 1)
+    );
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+COMMENT ON FUNCTION scramble_word(TEXT) IS 'Letters of a word in random order, never the word itself unless that is impossible';
+COMMENT ON FUNCTION sort_letters(TEXT) IS 'Letters of a word in alphabetical order; two words are anagrams when these match';
+COMMENT ON FUNCTION count_letter_changes(TEXT, TEXT) IS 'Number of positions where two words of the same length differ';
+
+-- ============================================================================
+-- FUNCTION 2: submit_puzzle_attempt (internal)
+-- ============================================================================
+-- Called by submit_attempt() for Word-ladder and Anagram bounties after it
+-- has checked the participant and the bounty. Returns the same shape as a
+-- single-word guess, plus attempts_remaining (NULL when unlimited).
+-- Ladders are unlimited unless max_attempts_per_user is set.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION submit_puzzle_attempt(
+    participant_uuid UUID,
+    guessed_word TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+    participant_record RECORD;
+    bounty_record RECORD;
+    v_guess TEXT;
+    v_target TEXT;
+    v_previous TEXT;
+    v_attempt_num INTEGER;
+    v_last_attempt_at TIMESTAMP WITH TIME ZONE;
+    v_session_started TIMESTAMP WITH TIME ZONE;
+    v_is_timed BOOLEAN;
+    v_elapsed_seconds INTEGER;
+    v_attempt_seconds INTEGER;
+    v_letter_results JSONB;
+    v_is_correct BOOLEAN;
+    v_out_of_guesses BOOLEAN;
+BEGIN
+    SELECT * INTO participant_record
+    FROM bounty_participants
+    WHERE id = participant_uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Participant not found: %', participant_uuid;
+    END IF;
+
+    -- Re-checked under the lock so two racing guesses can't both finish the puzzle
+    IF participant_record.session_ended_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Participant % already finished', participant_uuid;
+    END IF;
+
+    SELECT * INTO bounty_record FROM bounties WHERE id = participant_record.bounty_id;
+
+    v_target := normalize_word(bounty_record.words[1], bounty_record.language);
+    v_guess := normalize_word(guessed_word, bounty_record.language);
+
+    IF LENGTH(v_guess) <> LENGTH(v_target) THEN
+        RAISE EXCEPTION 'Guess must be % letters long', LENGTH(v_target);
+    END IF;
+
+    -- Same session clock as every other bounty type
+    v_session_started := COALESCE(participant_record.session_started_at, participant_record.joined_at, NOW());
+    v_is_timed := bounty_record.time_limit_seconds IS NOT NULL;
+
+    IF v_is_timed AND NOW() > v_session_started + make_interval(secs => bounty_record.time_limit_seconds) THEN
+        RAISE EXCEPTION 'Time limit of % seconds exceeded', bounty_record.time_limit_seconds;
+    END IF;
+
+    SELECT COALESCE(MAX(ga.attempt_number), 0) + 1, MAX(ga.created_at)
+    INTO v_attempt_num, v_last_attempt_at
+    FROM game_attempts ga
+    WHERE ga.participant_id = participant_uuid;
+
+    IF bounty_record.max_attempts_per_user IS NOT NULL AND v_attempt_num > bounty_record.max_attempts_per_user THEN
+        RAISE EXCEPTION 'No attempts left: all % guesses used', bounty_record.max_attempts_per_user;
+    END IF;
+
+    IF bounty_record.bounty_type = 'Word-ladder' THEN
+        -- Only valid steps are recorded, so the latest attempt is the top of the ladder
+        SELECT ga.guessed_word INTO v_previous
+        FROM game_attempts ga
+        WHERE ga.participant_id = participant_uuid
+        ORDER BY ga.attempt_number DESC
+        LIMIT 1;
+
+        v_previous := COALESCE(v_previous, bounty_record.puzzle->>'start_word');
+
+        IF count_letter_changes(v_previous, v_guess) <> 1 THEN
+            RAISE EXCEPTION 'Word ladder: Change exactly one letter of %', v_previous;
+        END IF;
+
+        IF v_guess = bounty_record.puzzle->>'start_word' OR EXISTS (
+            SELECT 1 FROM game_attempts ga
+            WHERE ga.participant_id = participant_uuid AND ga.guessed_word = v_guess
+        ) THEN
+            RAISE EXCEPTION 'Word ladder: % is already on your ladder', v_guess;
+        END IF;
+
+        IF NOT validate_word(v_guess, bounty_record.language) THEN
+            RAISE EXCEPTION 'Word ladder: % is not in the dictionary', v_guess;
+        END IF;
+
+        v_is_correct := v_guess = v_target;
+    ELSE
+        IF sort_letters(v_guess) <> sort_letters(bounty_record.puzzle->>'letters') THEN
+            RAISE EXCEPTION 'Anagram: Use each of the letters % exactly once', bounty_record.puzzle->>'letters';
+        END IF;
+
+        -- Any real word made of the letters counts, not just the creator's;
+        -- anything else is a wrong guess and uses up an attempt
+        v_is_correct := v_guess = v_target OR validate_word(v_guess, bounty_record.language);
+    END IF;
+
+    v_letter_results := calculate_letter_results(v_guess, v_target);
+    v_attempt_seconds := FLOOR(EXTRACT(EPOCH FROM (NOW() - COALESCE(v_last_attempt_at, v_session_started))))::INTEGER;
+    v_elapsed_seconds := FLOOR(EXTRACT(EPOCH FROM (NOW() - v_session_started)))::INTEGER;
+    v_out_of_guesses := NOT v_is_correct
+        AND bounty_record.max_attempts_per_user IS NOT NULL
+        AND v_attempt_num >= bounty_record.max_attempts_per_user;
+
+    INSERT INTO game_attempts (
+        participant_id,
+        bounty_id,
+        word_index,
+        attempt_number,
+        guessed_word,
+        target_word,
+        result,
+        letter_results,
+        time_taken_seconds
+    ) VALUES (
+        participant_uuid,
+        bounty_record.id,
+        0,
+        v_attempt_num,
+        v_guess,
+        v_target,
+        CASE
+            WHEN v_is_correct THEN 'correct'::attempt_result
+            WHEN jsonb_path_exists(v_letter_results, '$[*] ? (@.status != "absent")') THEN 'partial'::attempt_result
+            ELSE 'incorrect'::attempt_result
+        END,
+        v_letter_results,
+        GREATEST(v_attempt_seconds, 0)
+    );
+
+    UPDATE bounty_participants
+    SET
+        total_attempts = total_attempts + 1,
+        total_time_seconds = GREATEST(v_elapsed_seconds, 0),
+        session_started_at = v_session_started,
+        session_ended_at = CASE
+            WHEN v_is_correct OR v_out_of_guesses THEN NOW()
+            ELSE session_ended_at
+        END,
+        words_completed = CASE WHEN v_is_correct THEN 1 ELSE words_completed END,
+        status = CASE
+            WHEN v_is_correct THEN 'completed'::participation_status
+            WHEN v_out_of_guesses THEN 'failed'::participation_status
+            ELSE status
+        END,
+        completed_at = CASE
+            WHEN v_is_correct THEN NOW()
+            ELSE completed_at
+        END
+    WHERE id = participant_uuid;
+
+    RETURN jsonb_build_object(
+        'correct', v_is_correct,
+        'attempt_number', v_attempt_num,
+        'letter_results', v_letter_results,
+        'completed_bounty', v_is_correct,
+        'attempts_remaining', bounty_record.max_attempts_per_user - v_attempt_num,
+        'participant_id', participant_uuid,
+        'elapsed_seconds', GREATEST(v_elapsed_seconds, 0),
+        'time_remaining_seconds', CASE
+            WHEN v_is_timed THEN GREATEST(bounty_record.time_limit_seconds - v_elapsed_seconds, 0)
+            ELSE NULL
+        END
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION submit_puzzle_attempt(UUID, TEXT) IS
+'Checks and scores one Word-ladder step or Anagram guess. Rule violations raise "Word ladder: <rule>" or "Anagram: <rule>" and record nothing. Internal: called by submit_attempt().';
+
+-- Trusts its participant id, so only submit_attempt() may call it
+REVOKE EXECUTE ON FUNCTION submit_puzzle_attempt(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- FUNCTION 3: submit_attempt
+-- ============================================================================
+-- Same as migration 035, plus the hand-off to submit_puzzle_attempt() for
+-- Word-ladder and Anagram bounties. Pass word_idx 0 for those.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION submit_attempt(
+    bounty_uuid UUID,
+    wallet_addr TEXT,
+    word_idx INTEGER,
+    guessed_word TEXT,
+    time_taken INTEGER DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    user_uuid UUID;
+    participant_record RECORD;
+    bounty_record RECORD;
+    target_word TEXT;
+    attempt_num INTEGER;
+    letter_results JSONB;
+    is_correct BOOLEAN;
+    is_last_word BOOLEAN;
+    attempt_result attempt_result;
+    result JSONB;
+    rows_updated INTEGER;
+    v_is_timed BOOLEAN;
+    v_session_started TIMESTAMP WITH TIME ZONE;
+    v_word_started TIMESTAMP WITH TIME ZONE;
+    v_last_attempt_at TIMESTAMP WITH TIME ZONE;
+    v_attempt_seconds INTEGER;
+    v_elapsed_seconds INTEGER;
+    v_hard_mode_violation TEXT;
+    v_guess TEXT;
+BEGIN
+    -- Get user
+    SELECT id INTO user_uuid FROM users WHERE wallet_address = wallet_addr;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User not found for wallet: %', wallet_addr;
+    END IF;
+
+    -- Get participant record (allow any active status, including 'completed' for multi-word bounties)
+    SELECT * INTO participant_record
+    FROM bounty_participants
+    WHERE bounty_id = bounty_uuid AND user_id = user_uuid;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User % not participating in bounty %', wallet_addr, bounty_uuid;
+    END IF;
+
+    -- Check if participation is active or completed
+    IF participant_record.status NOT IN ('registered', 'active', 'completed') THEN
+        RAISE EXCEPTION 'User participation status is %', participant_record.status;
+    END IF;
+
+    -- A finished session can't be extended by further guesses
+    IF participant_record.session_ended_at IS NOT NULL THEN
+        RAISE EXCEPTION 'User % already finished bounty %', wallet_addr, bounty_uuid;
+    END IF;
+
+    -- Get bounty and target word
+    SELECT * INTO bounty_record FROM bounties WHERE id = bounty_uuid;
+    IF NOT FOUND OR word_idx < 0 OR word_idx >= array_length(bounty_record.words, 1) THEN
+        RAISE EXCEPTION 'Invalid bounty or word index';
+    END IF;
+
+    -- Multi-board: one guess is scored against every unsolved board
+    IF bounty_record.bounty_type = 'Multi-board' THEN
+        RETURN submit_multi_board_attempt(participant_record.id, guessed_word);
+    END IF;
+
+    -- Word ladder and anagram: one target word, each with its own rules
+    IF bounty_record.bounty_type IN ('Word-ladder', 'Anagram') THEN
+        RETURN submit_puzzle_attempt(participant_record.id, guessed_word);
+    END IF;
+
+    -- Both sides in the bounty's normalised form, so accents that have no
+    -- key of their own never count against the player
+    target_word := normalize_word(bounty_record.words[word_idx + 1], bounty_record.language); -- Arrays are 1-indexed in PostgreSQL
+    v_guess := normalize_word(guessed_word, bounty_record.language);
+    is_last_word := word_idx + 1 >= array_length(bounty_record.words, 1);
+
+    -- Reject guesses of the wrong length before anything is recorded
+    IF LENGTH(v_guess) <> LENGTH(target_word) THEN
+        RAISE EXCEPTION 'Guess must be % letters long', LENGTH(target_word);
+    END IF;
+
+    -- Session clock: falls back to the join time, so skipping
+    -- start_word_session() can never make a run look faster
+    v_session_started := COALESCE(participant_record.session_started_at, participant_record.joined_at, NOW());
+    v_is_timed := bounty_record.bounty_type = 'Time-based' AND bounty_record.time_limit_seconds IS NOT NULL;
+
+    IF v_is_timed AND NOW() > v_session_started + make_interval(secs => bounty_record.time_limit_seconds) THEN
+        RAISE EXCEPTION 'Time limit of % seconds exceeded', bounty_record.time_limit_seconds;
+    END IF;
+
+    -- Hard mode: the guess must reuse everything this word has revealed so far
+    IF bounty_record.hard_mode THEN
+        SELECT check_hard_mode_guess(
+            v_guess,
+            COALESCE(jsonb_agg(ga.letter_results ORDER BY ga.attempt_number), '[]'::JSONB)
+        )
+        INTO v_hard_mode_violation
+        FROM game_attempts ga
+        WHERE ga.participant_id = participant_record.id AND ga.word_index = word_idx;
+
+        IF v_hard_mode_violation IS NOT NULL THEN
+            RAISE EXCEPTION 'Hard mode: %', v_hard_mode_violation;
+        END IF;
+    END IF;
+
+    -- Word clock: word 0 starts with the session, later words when the previous one was solved
+    INSERT INTO word_sessions (participant_id, bounty_id, word_index, started_at)
+    VALUES (
+        participant_record.id,
+        bounty_uuid,
+        word_idx,
+        CASE WHEN word_idx = 0 THEN v_session_started ELSE NOW() END
+    )
+    ON CONFLICT (participant_id, word_index) DO NOTHING;
+
+    SELECT started_at INTO v_word_started
+    FROM word_sessions
+    WHERE participant_id = participant_record.id AND word_index = word_idx;
+
+    -- Get next attempt number and the previous guess time for this word
+    SELECT COALESCE(MAX(attempt_number), 0) + 1, MAX(created_at)
+    INTO attempt_num, v_last_attempt_at
+    FROM game_attempts
+    WHERE participant_id = participant_record.id AND word_index = word_idx;
+
+    v_attempt_seconds := FLOOR(EXTRACT(EPOCH FROM (NOW() - COALESCE(v_last_attempt_at, v_word_started))))::INTEGER;
+    v_elapsed_seconds := FLOOR(EXTRACT(EPOCH FROM (NOW() - v_session_started)))::INTEGER;
+
+    -- Score the guess
+    letter_results := calculate_letter_results(v_guess, target_word);
+    is_correct := v_guess = target_word;
+
+    -- Determine attempt result
+    IF is_correct THEN
+        attempt_result := 'correct';
+    ELSIF jsonb_path_exists(letter_results, '$[*] ? (@.status != "absent")') THEN
+        attempt_result := 'partial';
+    ELSE
+        attempt_result := 'incorrect';
+    END IF;
+
+    -- Insert attempt
+    INSERT INTO game_attempts (
+        participant_id,
+        bounty_id,
+        word_index,
+        attempt_number,
+        guessed_word,
+        target_word,
+        result,
+        letter_results,
+        time_taken_seconds
+    ) VALUES (
+        participant_record.id,
+        bounty_uuid,
+        word_idx,
+        attempt_num,
+        v_guess,
+        target_word,
+        attempt_result,
+        letter_results,
+        GREATEST(v_attempt_seconds, 0)
+    );
+
+    -- Close the word clock and open the next one
+    IF is_correct THEN
+        UPDATE word_sessions
+        SET completed_at = NOW()
+        WHERE participant_id = participant_record.id AND word_index = word_idx;
+
+        IF NOT is_last_word THEN
+            INSERT INTO word_sessions (participant_id, bounty_id, word_index, started_at)
+            VALUES (participant_record.id, bounty_uuid, word_idx + 1, NOW())
+            ON CONFLICT (participant_id, word_index) DO NOTHING;
+        END IF;
+    END IF;
+
+    -- Update participant progress
+    UPDATE bounty_participants
+    SET
+        total_attempts = total_attempts + 1,
+        total_time_seconds = GREATEST(v_elapsed_seconds, 0),
+        session_started_at = v_session_started,
+        session_ended_at = CASE
+            WHEN is_correct AND is_last_word THEN NOW()
+            ELSE session_ended_at
+        END,
+        words_completed = CASE
+            WHEN is_correct THEN GREATEST(words_completed, word_idx + 1)
+            ELSE words_completed
+        END,
+        current_word_index = CASE
+            WHEN is_correct AND is_last_word THEN word_idx
+            WHEN is_correct THEN word_idx + 1
+            ELSE current_word_index
+        END,
+        status = CASE
+            WHEN is_correct AND is_last_word THEN 'completed'::participation_status
+            ELSE status
+        END,
+        completed_at = CASE
+            WHEN is_correct AND is_last_word THEN NOW()
+            ELSE completed_at
+        END
+    WHERE id = participant_record.id;
+
+    -- Check how many rows were actually updated
+    GET DIAGNOSTICS rows_updated = ROW_COUNT;
+
+    IF rows_updated = 0 THEN
+        RAISE WARNING 'No rows updated for participant % in bounty %', participant_record.id, bounty_uuid;
+    END IF;
+
+    -- Build result (no target word - the client renders only what we return)
+    result := jsonb_build_object(
+        'correct', is_correct,
+        'attempt_number', attempt_num,
+        'letter_results', letter_results,
+        'completed_bounty', is_correct AND is_last_word,
+        'participant_id', participant_record.id,
+        'rows_updated', rows_updated,
+        'elapsed_seconds', GREATEST(v_elapsed_seconds, 0),
+        'time_remaining_seconds', CASE
+            WHEN v_is_timed THEN GREATEST(bounty_record.time_limit_seconds - v_elapsed_seconds, 0)
+            ELSE NULL
+        END
+    );
+
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION submit_attempt(UUID, TEXT, INTEGER, TEXT, INTEGER) IS
+'Records a guess, scores it server-side and returns { correct, attempt_number, letter_results, completed_bounty, elapsed_seconds, time_remaining_seconds }. Timing is measured on the server; the time_taken argument is ignored. Hard-mode bounties reject guesses that drop revealed letters with "Hard mode: <rule>". Guess and target are compared after normalize_word() for the bounty language. Multi-board bounties return the submit_multi_board_attempt() payload instead; Word-ladder and Anagram bounties are checked by submit_puzzle_attempt().';
+
+-- ============================================================================
+-- FUNCTION 4: create_bounty_with_wallet
+-- ============================================================================
+-- Same as migration 035, plus Word-ladder and Anagram setup: one target
+-- word, a dictionary start_word for ladders, server-scrambled letters for
+-- anagrams, and default winner criteria (attempts / time).
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.create_bounty_with_wallet(
+  wallet_addr VARCHAR(255),
+  bounty_data JSONB
+) RETURNS UUID AS $$
+DECLARE
+  user_uuid UUID;
+  bounty_uuid UUID;
+  v_language TEXT := COALESCE(bounty_data->>'language', 'en');
+  v_board_count INTEGER;
+  v_max_attempts INTEGER := (bounty_data->>'max_attempts_per_user')::INTEGER;
+  v_winner_criteria winner_criteria := (bounty_data->>'winner_criteria')::winner_criteria;
+  v_target TEXT;
+  v_start TEXT;
+  v_puzzle JSONB;
+BEGIN
+  -- Multi-board: 2, 4 or 8 words of one length, sharing one attempt budget
+  IF bounty_data->>'bounty_type' = 'Multi-board' THEN
+    v_board_count := jsonb_array_length(COALESCE(bounty_data->'words', '[]'::JSONB));
+
+    IF v_board_count NOT IN (2, 4, 8) THEN
+      RAISE EXCEPTION 'Multi-board bounties need 2, 4 or 8 words (got %)', v_board_count;
+    END IF;
+
+    IF (
+      SELECT COUNT(DISTINCT LENGTH(normalize_word(w, v_language)))
+      FROM jsonb_array_elements_text(bounty_data->'words') AS w
+    ) <> 1 THEN
+      RAISE EXCEPTION 'Every board of a multi-board bounty needs a word of the same length';
+    END IF;
+
+    v_max_attempts := COALESCE(v_max_attempts, v_board_count + 5);
+  END IF;
+
+  -- Word ladder and anagram: exactly one target word
+  IF bounty_data->>'bounty_type' IN ('Word-ladder', 'Anagram') THEN
+    IF jsonb_array_length(COALESCE(bounty_data->'words', '[]'::JSONB)) <> 1 THEN
+      RAISE EXCEPTION '% bounties need exactly one word', bounty_data->>'bounty_type';
+    END IF;
+
+    IF v_winner_criteria IN ('words-correct', 'boards-solved') THEN
+      RAISE EXCEPTION '% bounties can''t use winner criteria %', bounty_data->>'bounty_type', v_winner_criteria;
+    END IF;
+
+    v_target := normalize_word(bounty_data->'words'->>0, v_language);
+  END IF;
+
+  -- Word ladder: every step is checked against the dictionary, so both ends must be in it
+  IF bounty_data->>'bounty_type' = 'Word-ladder' THEN
+    v_start := normalize_word(bounty_data->>'start_word', v_language);
+
+    IF v_start IS NULL OR LENGTH(v_start) <> LENGTH(v_target) OR v_start = v_target THEN
+      RAISE EXCEPTION 'A word ladder needs a start word of the same length as its target';
+    END IF;
+
+    IF NOT validate_word(v_start, v_language) OR NOT validate_word(v_target, v_language) THEN
+      RAISE EXCEPTION 'Word ladder start and target must both be in the dictionary';
+    END IF;
+
+    v_puzzle := jsonb_build_object('start_word', v_start, 'target_word', v_target);
+    v_winner_criteria := COALESCE(v_winner_criteria, 'attempts');
+  END IF;
+
+  -- Anagram: players get the letters, scrambled here so the creator can't leak an order
+  IF bounty_data->>'bounty_type' = 'Anagram' THEN
+    v_puzzle := jsonb_build_object('letters', scramble_word(v_target));
+    v_winner_criteria := COALESCE(v_winner_criteria, 'time');
+    v_max_attempts := COALESCE(v_max_attempts, 6);
+  END IF;
+
+  -- Get or create user
+  user_uuid := public.get_or_create_user(wallet_addr);
+
+  -- Create bounty
+  INSERT INTO bounties (
+    name,
+    description,
+    creator_id,
+    bounty_type,
+    prize_amount,
+    prize_currency,
+    words,
+    hints,
+    hint_penalties,
+    max_participants,
+    max_attempts_per_user,
+    time_limit_seconds,
+    winner_criteria,
+    duration_hours,
+    status,
+    is_public,
+    requires_registration,
+    hard_mode,
+    language,
+    puzzle,
+    start_time,
+    end_time
+  ) VALUES (
+    bounty_data->>'name',
+    bounty_data->>'description',
+    user_uuid,
+    COALESCE((bounty_data->>'bounty_type')::bounty_type, 'Simple'::bounty_type),
+    COALESCE((bounty_data->>'prize_amount')::DECIMAL, 0),
+    COALESCE(bounty_data->>'prize_currency', 'HBAR'),
+    COALESCE(
+      ARRAY(SELECT normalize_word(w, v_language) FROM jsonb_array_elements_text(bounty_data->'words') AS w),
+      ARRAY['WORDLE']
+    ),
+    COALESCE(
+      ARRAY(SELECT jsonb_array_elements_text(bounty_data->'hints')),
+      ARRAY[]::TEXT[]
+    ),
+    COALESCE(
+      ARRAY(SELECT jsonb_array_elements_text(bounty_data->'hint_penalties')::DECIMAL(10, 2)),
+      ARRAY[]::DECIMAL(10, 2)[]
+    ),
+    (bounty_data->>'max_participants')::INTEGER,
+    v_max_attempts,
+    (bounty_data->>'time_limit_seconds')::INTEGER,
+    COALESCE(v_winner_criteria, 'attempts'::winner_criteria),
+    (bounty_data->>'duration_hours')::INTEGER,
+    COALESCE((bounty_data->>'status')::bounty_status, 'active'::bounty_status),
+    COALESCE((bounty_data->>'is_public')::BOOLEAN, true),
+    COALESCE((bounty_data->>'requires_registration')::BOOLEAN, false),
+    COALESCE((bounty_data->>'hard_mode')::BOOLEAN, false),
+    v_language,
+    v_puzzle,
+    NOW(),
+    CASE
+      WHEN bounty_data->>'duration_hours' IS NOT NULL
+      THEN NOW() + ((bounty_data->>'duration_hours')::INTEGER || ' hours')::INTERVAL
+      ELSE NULL
+    END
+  ) RETURNING id INTO bounty_uuid;
+
+  RETURN bounty_uuid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.create_bounty_with_wallet(VARCHAR, JSONB) TO anon;
+GRANT EXECUTE ON FUNCTION public.create_bounty_with_wallet(VARCHAR, JSONB) TO authenticated;
+
+-- ============================================================================
+-- FUNCTION 5: get_bounty_details
+-- ============================================================================
+-- Same as migration 032, plus 'puzzle'.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_bounty_details(
+    bounty_uuid UUID,
+    wallet_addr TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    bounty_record RECORD;
+    participation_record RECORD;
+    user_uuid UUID;
+    words_revealed BOOLEAN;
+    result JSONB;
+BEGIN
+    -- Get bounty
+    SELECT
+        b.*,
+        u.username as creator_username,
+        u.display_name as creator_display_name
+    INTO bounty_record
+    FROM bounties b
+    JOIN users u ON b.creator_id = u.id
+    WHERE b.id = bounty_uuid;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bounty not found';
+    END IF;
+
+    -- Solutions are only safe to publish once nobody can play anymore
+    words_revealed := bounty_record.status IN ('completed', 'cancelled', 'expired')
+        OR (bounty_record.end_time IS NOT NULL AND bounty_record.end_time <= NOW());
+
+    -- Get user participation if wallet provided
+    participation_record := NULL;
+    IF wallet_addr IS NOT NULL THEN
+        SELECT id INTO user_uuid FROM users WHERE wallet_address = wallet_addr;
+        IF FOUND THEN
+            SELECT * INTO participation_record
+            FROM bounty_participants
+            WHERE bounty_id = bounty_uuid AND user_id = user_uuid;
+        END IF;
+    END IF;
+
+    -- Build result
+    result := jsonb_build_object(
+        'id', bounty_record.id,
+        'name', bounty_record.name,
+        'description', bounty_record.description,
+        'bounty_type', bounty_record.bounty_type,
+        'prize_amount', bounty_record.prize_amount,
+        'prize_currency', bounty_record.prize_currency,
+        'status', bounty_record.status,
+        'is_public', bounty_record.is_public,
+        'participant_count', bounty_record.participant_count,
+        'max_participants', bounty_record.max_participants,
+        'max_attempts_per_user', bounty_record.max_attempts_per_user,
+        'time_limit_seconds', bounty_record.time_limit_seconds,
+        'hard_mode', bounty_record.hard_mode,
+        'language', bounty_record.language,
+        'puzzle', bounty_record.puzzle,
+        'start_time', bounty_record.start_time,
+        'end_time', bounty_record.end_time,
+        'duration_hours', bounty_record.duration_hours,
+        'created_at', bounty_record.created_at,
+        'server_time', NOW(),
+        'creator', jsonb_build_object(
+            'username', bounty_record.creator_username,
+            'display_name', bounty_record.creator_display_name
+        ),
+        'words', CASE WHEN words_revealed THEN to_jsonb(bounty_record.words) ELSE NULL END,
+        'word_lengths', (
+            SELECT jsonb_agg(LENGTH(w) ORDER BY ord)
+            FROM unnest(bounty_record.words) WITH ORDINALITY AS t(w, ord)
+        ),
+        'words_count', array_length(bounty_record.words, 1),
+        -- Hint text is only handed out through unlock_hint() while the bounty runs
+        'hints', CASE WHEN words_revealed THEN to_jsonb(bounty_record.hints) ELSE NULL END,
+        'hints_count', COALESCE(array_length(bounty_record.hints, 1), 0),
+        'hint_penalties', to_jsonb(bounty_record.hint_penalties),
+        'participation', CASE
+            WHEN participation_record IS NOT NULL THEN
+                jsonb_build_object(
+                    'status', participation_record.status,
+                    'joined_at', participation_record.joined_at,
+                    'current_word_index', participation_record.current_word_index,
+                    'total_attempts', participation_record.total_attempts,
+                    'words_completed', participation_record.words_completed,
+                    'total_time_seconds', participation_record.total_time_seconds,
+                    'session_started_at', participation_record.session_started_at,
+                    'session_ended_at', participation_record.session_ended_at,
+                    'is_winner', participation_record.is_winner,
+                    'hints_used', participation_record.hints_used,
+                    'hint_penalty_total', participation_record.hint_penalty_total,
+                    'unlocked_hints', to_jsonb(bounty_record.hints[1:participation_record.hints_used])
+                )
+            ELSE NULL
+        END
+    );
+
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- FUNCTION 6: determine_bounty_winner
+-- ============================================================================
+-- Same as migration 035, except Word-ladder and Anagram bounties never rank
+-- by words-correct or boards-solved: ladders fall back to attempts (fewest
+-- steps) and anagrams to time.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION determine_bounty_winner(bounty_uuid UUID)
+RETURNS TABLE(
+    user_id UUID,
+    prize_share DECIMAL(20, 8),
+    ranking INTEGER,
+    metric_value DECIMAL(20, 4)
+) AS $$
+DECLARE
+    v_winner_criteria winner_criteria;
+    v_prize_distribution prize_distribution;
+    v_prize_amount DECIMAL(20, 8);
+    v_bounty_status VARCHAR(20);
+    v_max_winners INTEGER;
+    v_is_duel BOOLEAN;
+    v_bounty_type bounty_type;
+BEGIN
+    -- Log function call
+    RAISE NOTICE 'determine_bounty_winner() called for bounty: %', bounty_uuid;
+
+    -- Get bounty details
+    SELECT b.winner_criteria, b.prize_distribution, b.prize_amount, b.status, b.bounty_type
+    INTO v_winner_criteria, v_prize_distribution, v_prize_amount, v_bounty_status, v_bounty_type
+    FROM bounties b
+    WHERE b.id = bounty_uuid;
+
+    -- Validate bounty exists
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bounty not found: %', bounty_uuid;
+    END IF;
+
+    -- Validate bounty is completed or can be completed
+    IF v_bounty_status NOT IN ('completed', 'active', 'expired') THEN
+        RAISE EXCEPTION 'Bounty cannot be completed. Current status: %', v_bounty_status;
+    END IF;
+
+    -- Duels: whoever solved first takes the pot
+    v_is_duel := EXISTS (SELECT 1 FROM duels d WHERE d.bounty_id = bounty_uuid);
+
+    IF v_is_duel THEN
+        v_winner_criteria := 'first-to-solve';
+        v_prize_distribution := 'winner-take-all';
+    END IF;
+
+    -- Word ladders and anagrams have a single word, so counting words or
+    -- boards can't separate players: shortest ladder / fastest unscramble
+    IF v_bounty_type = 'Word-ladder' AND v_winner_criteria IN ('words-correct', 'boards-solved') THEN
+        v_winner_criteria := 'attempts';
+    ELSIF v_bounty_type = 'Anagram' AND v_winner_criteria IN ('words-correct', 'boards-solved') THEN
+        v_winner_criteria := 'time';
+    END IF;
+
+    IF v_winner_criteria NOT IN ('first-to-solve', 'time', 'attempts', 'words-correct', 'boards-solved') THEN
+        RAISE EXCEPTION 'Unknown winner_criteria: %', v_winner_criteria;
+    END IF;
+
+    IF v_prize_distribution NOT IN ('winner-take-all', 'split-winners') THEN
+        RAISE EXCEPTION 'Unknown prize_distribution: %', v_prize_distribution;
+    END IF;
+
+    -- first-to-solve always has a single winner; split-winners pays the top 3
+    v_max_winners := CASE
+        WHEN v_winner_criteria <> 'first-to-solve' AND v_prize_distribution = 'split-winners' THEN 3
+        ELSE 1
+    END;
+
+    RAISE NOTICE 'Bounty details - Criteria: %, Distribution: %, Prize: %, Max winners: %',
+        v_winner_criteria, v_prize_distribution, v_prize_amount, v_max_winners;
+
+    RETURN QUERY
+    WITH candidates AS (
+        SELECT
+            bp.user_id AS candidate_id,
+            bp.completed_at,
+            bp.total_attempts,
+            bp.words_completed,
+            COALESCE(
+                EXTRACT(EPOCH FROM (bp.session_ended_at - bp.session_started_at)),
+                bp.total_time_seconds
+            )::DECIMAL(20, 4) AS session_seconds,
+            COALESCE(bp.hint_penalty_total, 0)::DECIMAL(20, 4) AS hint_penalty
+        FROM bounty_participants bp
+        WHERE bp.bounty_id = bounty_uuid
+          AND (
+              bp.status = 'completed'
+              -- Out of guesses with some boards solved still ranks on boards
+              OR (v_winner_criteria = 'boards-solved' AND bp.status = 'failed')
+          )
+    ),
+    scored AS (
+        SELECT
+            c.candidate_id,
+            c.session_seconds,
+            c.total_attempts,
+            (CASE v_winner_criteria
+                WHEN 'first-to-solve' THEN EXTRACT(EPOCH FROM c.completed_at) + c.hint_penalty
+                WHEN 'time' THEN c.session_seconds + c.hint_penalty
+                WHEN 'attempts' THEN c.total_attempts + c.hint_penalty
+                WHEN 'words-correct' THEN c.words_completed - c.hint_penalty
+                WHEN 'boards-solved' THEN c.words_completed - c.hint_penalty
+            END)::DECIMAL(20, 4) AS metric
+        FROM candidates c
+        WHERE CASE v_winner_criteria
+            WHEN 'first-to-solve' THEN c.completed_at IS NOT NULL
+            WHEN 'time' THEN c.session_seconds IS NOT NULL
+            WHEN 'attempts' THEN c.total_attempts > 0
+            WHEN 'words-correct' THEN c.words_completed > 0
+            WHEN 'boards-solved' THEN c.words_completed > 0
+        END
+    ),
+    ranked AS (
+        SELECT
+            s.candidate_id,
+            s.metric,
+            ROW_NUMBER() OVER (
+                ORDER BY
+                    -- words-correct and boards-solved are the criteria where higher is better
+                    CASE
+                        WHEN v_winner_criteria IN ('words-correct', 'boards-solved') THEN -s.metric
+                        ELSE s.metric
+                    END ASC,
+                    -- Equal boards: fewer guesses first
+                    CASE WHEN v_winner_criteria = 'boards-solved' THEN s.total_attempts END ASC NULLS LAST,
+                    s.session_seconds ASC NULLS LAST
+            ) AS position
+        FROM scored s
+    ),
+    winners AS (
+        SELECT r.candidate_id, r.metric, r.position
+        FROM ranked r
+        WHERE r.position <= v_max_winners
+    )
+    SELECT
+        w.candidate_id::UUID,
+        (v_prize_amount / COUNT(*) OVER ())::DECIMAL(20, 8),
+        w.position::INTEGER,
+        w.metric::DECIMAL(20, 4)
+    FROM winners w
+    ORDER BY w.position;
+
+    -- Log if no winners found
+    IF NOT FOUND THEN
+        RAISE WARNING 'No eligible winners found for bounty: %', bounty_uuid;
+    END IF;
+
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION determine_bounty_winner(UUID) IS
+'Analyzes all participants and determines winner(s) based on bounty winner_criteria. Time is taken from server-recorded session timestamps (migration 025); hint penalties are applied to the metric (migration 027). Duels are always first-to-solve (migration 033); boards-solved ranks multi-board bounties (migration 035); word ladders and anagrams fall back to attempts and time (migration 037).';
+
+GRANT EXECUTE ON FUNCTION determine_bounty_winner(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION determine_bounty_winner(UUID) TO anon;
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+-- What changed:
+-- - bounties.puzzle column
+-- - scramble_word(), sort_letters(), count_letter_changes() helpers
+-- - submit_puzzle_attempt() (internal) checks ladder steps and anagram
+--   guesses; submit_attempt() routes both bounty types to it
+-- - create_bounty_with_wallet() sets up the puzzle and default criteria
+-- - get_bounty_details() returns 'puzzle'
+-- - determine_bounty_winner() falls back to attempts / time for puzzles
+--
+-- Client:
+-- - CreateBountyPage: bounty_type 'Word-ladder' sends words: [target] and
+--   start_word; 'Anagram' sends words: [answer]. checkLadderStep() and
+--   checkAnagramGuess() give instant feedback before submit_attempt
+-- - Show "Word ladder: ..." / "Anagram: ..." rejections with
+--   getPuzzleViolation(), like hard-mode messages
+-- ============================================================================
@@ -0,0 +1,113 @@
+-- ============================================================================
+-- Migration 038: Accessibility Settings
+-- Created: 2026-10-19
+-- Purpose: Save each player's board palette and tile-pattern preference
+-- ============================================================================
+-- ISSUE: Tile results are only told apart by green / yellow / grey, and a
+-- player who switches to the colour-blind palette loses the choice on the
+-- next device.
+--
+-- SOLUTION:
+-- 1. users.board_palette ('standard' or 'high-contrast') and
+--    users.board_patterns (draw a shape on every scored tile as a second cue)
+-- 2. get_user_settings() / update_user_settings() read and write them by
+--    wallet, creating the user on first save like the other wallet RPCs
+-- ============================================================================
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS board_palette VARCHAR(20) NOT NULL DEFAULT 'standard';
+ALTER TABLE users ADD COLUMN IF NOT EXISTS board_patterns BOOLEAN NOT NULL DEFAULT false;
+
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_board_palette_check;
+ALTER TABLE users ADD CONSTRAINT users_board_palette_check
+    CHECK (board_palette IN ('standard', 'high-contrast'));
+
+COMMENT ON COLUMN users.board_palette IS 'Tile colours: standard (green/yellow) or high-contrast (orange/blue)';
+COMMENT ON COLUMN users.board_patterns IS 'Draw a shape on scored tiles so results never depend on colour alone';
+
+-- ============================================================================
+-- FUNCTION 1: get_user_settings
+-- ============================================================================
+-- Returns { board_palette, board_patterns }; defaults for unknown wallets.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_user_settings(wallet_addr TEXT)
+RETURNS JSONB AS $$
+DECLARE
+    user_record RECORD;
+BEGIN
+    SELECT board_palette, board_patterns INTO user_record
+    FROM users
+    WHERE wallet_address = wallet_addr;
+
+    IF NOT FOUND THEN
+        RETURN jsonb_build_object('board_palette', 'standard', 'board_patterns', false);
+    END IF;
+
+    RETURN jsonb_build_object(
+        'board_palette', user_record.board_palette,
+        'board_patterns', user_record.board_patterns
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION get_user_settings(TEXT) IS
+'Board accessibility settings for a wallet: { board_palette, board_patterns }.';
+
+GRANT EXECUTE ON FUNCTION get_user_settings(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_user_settings(TEXT) TO anon;
+
+-- ============================================================================
+-- FUNCTION 2: update_user_settings
+-- ============================================================================
+-- Only the keys present in settings are changed. Returns the saved settings.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION update_user_settings(
+    wallet_addr TEXT,
+    settings JSONB
+)
+RETURNS JSONB AS $$
+DECLARE
+    user_uuid UUID;
+BEGIN
+    IF settings ? 'board_palette' AND settings->>'board_palette' NOT IN ('standard', 'high-contrast') THEN
+        RAISE EXCEPTION 'Unknown board palette: %', settings->>'board_palette';
+    END IF;
+
+    user_uuid := public.get_or_create_user(wallet_addr);
+
+    UPDATE users
+    SET
+        board_palette = COALESCE(settings->>'board_palette', board_palette),
+        board_patterns = COALESCE((settings->>'board_patterns')::BOOLEAN, board_patterns),
+        updated_at = NOW()
+    WHERE id = user_uuid;
+
+    RETURN get_user_settings(wallet_addr);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION update_user_settings(TEXT, JSONB) IS
+'Saves board accessibility settings for a wallet. Accepts any of { board_palette, board_patterns }.';
+
+GRANT EXECUTE ON FUNCTION update_user_settings(TEXT, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION update_user_settings(TEXT, JSONB) TO anon;
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+-- What changed:
+-- - users.board_palette and users.board_patterns
+-- - get_user_settings() / update_user_settings()
+--
+-- Client:
+-- - Load settings with get_user_settings after the wallet connects and pass
+--   them through parseBoardSettings(); fall back to DEFAULT_BOARD_SETTINGS
+--   while disconnected
+-- - GameplayPage / RandomWordPage tiles: getTileAppearance() for colour and
+--   pattern, describeTile() for aria-label
+-- - Announce each scored row in an aria-live="polite" region with
+--   announceGuessResult()
+-- - Arrow keys move focus with moveGridFocus(); modals wrap Tab with
+--   getFocusTrapIndex()
+-- ============================================================================
@@ -0,0 +1,243 @@
+-- ============================================================================
+-- Migration 039: Bounty Word Commitments
+-- Created: 2026-10-19
+-- Purpose: Anchor every bounty's words on-chain before anyone plays
+-- ============================================================================
+-- ISSUE: The escrow stored keccak256 of the first word only. It had no salt,
+-- so a 5-letter word could be found by hashing the dictionary. Nothing stopped
+-- bounties.words from being edited mid-game (updateBounty writes the row
+-- directly).
+--
+-- SOLUTION:
+-- 1. WordleBountyEscrow.createBounty takes a salted commitment to all words:
+--      computeCommitment(bountyId, salt, solution)
+--        = keccak256(abi.encodePacked(bountyId, salt, solution))
+--    where solution is the stored words joined with ','. completeBounty and
+--    revealSolution check the words and salt against it and publish them.
+-- 2. The salt is generated here and kept in bounty_commitments, which
+--    clients can't read. Only the creator gets it before the bounty ends
+--    (they know the words anyway).
+-- 3. Once a commitment is recorded, bounties.words and the commitment can't
+--    change.
+-- 4. After the bounty ends, get_bounty_reveal() publishes solution and salt,
+--    so anyone can recompute the commitment and compare it with the
+--    createBounty transaction on HashScan.
+-- ============================================================================
+
+ALTER TABLE bounties ADD COLUMN IF NOT EXISTS solution_commitment VARCHAR(66);
+
+COMMENT ON COLUMN bounties.solution_commitment IS 'Salted keccak256 commitment to the words, as passed to WordleBountyEscrow.createBounty (transaction_hash)';
+
+CREATE TABLE IF NOT EXISTS bounty_commitments (
+    bounty_id UUID PRIMARY KEY REFERENCES bounties(id) ON DELETE CASCADE,
+    salt VARCHAR(66) NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE bounty_commitments ENABLE ROW LEVEL SECURITY;
+
+-- Salts only leave through the functions below
+REVOKE ALL ON bounty_commitments FROM anon, authenticated;
+
+-- ============================================================================
+-- FUNCTION 1: bounty_solution (internal)
+-- ============================================================================
+-- The committed string: stored (normalised) words joined with ','.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION bounty_solution(bounty_words TEXT[])
+RETURNS TEXT AS $$
+BEGIN
+    RETURN array_to_string(bounty_words, ',');
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+COMMENT ON FUNCTION bounty_solution(TEXT[]) IS
+'Solution string a bounty commits to on-chain: its words joined with commas.';
+
+-- ============================================================================
+-- FUNCTION 2: prepare_bounty_commitment
+-- ============================================================================
+-- Creator only, before the commitment is recorded. Returns
+-- { solution, salt }; calling it again returns the same salt, so a failed
+-- createBounty transaction can be retried.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION prepare_bounty_commitment(
+    bounty_uuid UUID,
+    wallet_addr TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+    bounty_record RECORD;
+    v_salt TEXT;
+BEGIN
+    SELECT b.* INTO bounty_record
+    FROM bounties b
+    JOIN users u ON u.id = b.creator_id
+    WHERE b.id = bounty_uuid AND u.wallet_address = wallet_addr;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Only the creator can commit bounty %', bounty_uuid;
+    END IF;
+
+    IF bounty_record.solution_commitment IS NOT NULL THEN
+        RAISE EXCEPTION 'Bounty % is already committed', bounty_uuid;
+    END IF;
+
+    -- 32 random bytes as a bytes32 hex string
+    INSERT INTO bounty_commitments (bounty_id, salt)
+    VALUES (bounty_uuid, '0x' || md5(gen_random_uuid()::TEXT) || md5(gen_random_uuid()::TEXT))
+    ON CONFLICT (bounty_id) DO NOTHING;
+
+    SELECT salt INTO v_salt FROM bounty_commitments WHERE bounty_id = bounty_uuid;
+
+    RETURN jsonb_build_object(
+        'solution', bounty_solution(bounty_record.words),
+        'salt', v_salt
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION prepare_bounty_commitment(UUID, TEXT) IS
+'Creator only: returns { solution, salt } to build the createBounty commitment.';
+
+GRANT EXECUTE ON FUNCTION prepare_bounty_commitment(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION prepare_bounty_commitment(UUID, TEXT) TO anon;
+
+-- ============================================================================
+-- FUNCTION 3: record_bounty_commitment
+-- ============================================================================
+-- Creator only, after createBounty is mined. Stores the commitment and the
+-- transaction that holds it; from then on the words are locked.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION record_bounty_commitment(
+    bounty_uuid UUID,
+    wallet_addr TEXT,
+    commitment TEXT,
+    tx_hash TEXT
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+    IF commitment !~ '^0x[0-9a-fA-F]{64}$' THEN
+        RAISE EXCEPTION 'Commitment must be a bytes32 hex string';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM bounty_commitments bc WHERE bc.bounty_id = bounty_uuid) THEN
+        RAISE EXCEPTION 'Call prepare_bounty_commitment() first';
+    END IF;
+
+    UPDATE bounties b
+    SET
+        solution_commitment = lower(commitment),
+        transaction_hash = COALESCE(tx_hash, b.transaction_hash),
+        updated_at = NOW()
+    FROM users u
+    WHERE b.id = bounty_uuid
+      AND u.id = b.creator_id
+      AND u.wallet_address = wallet_addr
+      AND b.solution_commitment IS NULL;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bounty % is already committed or not yours', bounty_uuid;
+    END IF;
+
+    RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION record_bounty_commitment(UUID, TEXT, TEXT, TEXT) IS
+'Creator only: records the on-chain commitment and its createBounty transaction. Locks bounties.words.';
+
+GRANT EXECUTE ON FUNCTION record_bounty_commitment(UUID, TEXT, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION record_bounty_commitment(UUID, TEXT, TEXT, TEXT) TO anon;
+
+-- ============================================================================
+-- FUNCTION 4: get_bounty_reveal
+-- ============================================================================
+-- Public once the bounty has ended (same rule as revealing words in
+-- get_bounty_details). Returns
+-- { solution, salt, commitment, transaction_hash }; also what the owner
+-- passes to completeBounty / revealSolution.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_bounty_reveal(bounty_uuid UUID)
+RETURNS JSONB AS $$
+DECLARE
+    bounty_record RECORD;
+BEGIN
+    SELECT b.*, bc.salt INTO bounty_record
+    FROM bounties b
+    JOIN bounty_commitments bc ON bc.bounty_id = b.id
+    WHERE b.id = bounty_uuid AND b.solution_commitment IS NOT NULL;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bounty % has no recorded commitment', bounty_uuid;
+    END IF;
+
+    IF NOT (
+        bounty_record.status IN ('completed', 'cancelled', 'expired')
+        OR (bounty_record.end_time IS NOT NULL AND bounty_record.end_time <= NOW())
+    ) THEN
+        RAISE EXCEPTION 'Bounty % has not ended yet', bounty_uuid;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'solution', bounty_solution(bounty_record.words),
+        'salt', bounty_record.salt,
+        'commitment', bounty_record.solution_commitment,
+        'transaction_hash', bounty_record.transaction_hash
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION get_bounty_reveal(UUID) IS
+'After a bounty ends: { solution, salt, commitment, transaction_hash } for checking the on-chain commitment.';
+
+GRANT EXECUTE ON FUNCTION get_bounty_reveal(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_bounty_reveal(UUID) TO anon;
+
+-- ============================================================================
+-- FUNCTION 5: lock_committed_words (trigger on bounties)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION lock_committed_words()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.solution_commitment IS NOT NULL AND (
+        NEW.words IS DISTINCT FROM OLD.words
+        OR NEW.solution_commitment IS DISTINCT FROM OLD.solution_commitment
+    ) THEN
+        RAISE EXCEPTION 'Bounty % words are locked by their on-chain commitment', OLD.id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS lock_committed_words ON bounties;
+CREATE TRIGGER lock_committed_words
+    BEFORE UPDATE OF words, solution_commitment ON bounties
+    FOR EACH ROW EXECUTE FUNCTION lock_committed_words();
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+-- What changed:
+-- - bounties.solution_commitment; private bounty_commitments (salts)
+-- - prepare_bounty_commitment() / record_bounty_commitment() for creators
+-- - get_bounty_reveal() once a bounty has ended
+-- - lock_committed_words trigger
+-- - Contract (flattened.sol): computeCommitment(), revealSolution(),
+--   SolutionRevealed event; completeBounty takes the salt
+--
+-- Client:
+-- - CreateBountyPage: create_bounty_with_wallet -> prepare_bounty_commitment
+--   -> EscrowService.createBounty(computeSolutionCommitment(...)) ->
+--   record_bounty_commitment(commitment, tx hash)
+-- - CompleteBountyModal: pass get_bounty_reveal() solution and salt to
+--   completeBounty
+-- - BountyCard: getFairnessBadge(); link the badge to
+--   getTransactionUrl(bounty.transaction_hash) from utils/hashscan.ts
+-- ============================================================================
@@ -0,0 +1,1240 @@
+-- ============================================================================
+-- Migration 040: Encrypted Bounty Words
+-- Created: 2026-10-19
+-- Purpose: Keep bounty solutions encrypted at rest and out of table reads
+-- ============================================================================
+-- ISSUE: bounties.words is plain text. The "Anyone can view active public
+-- bounties" policy and getBounties() (select '*, creator:users(...)') hand
+-- every solution to anyone with the anon key, and get_bounty_details() only
+-- hid them in its own payload.
+--
+-- SOLUTION:
+-- 1. Words are encrypted with pgp_sym_encrypt (pgcrypto, migration 001) into
+--    bounty_secrets, which clients can't read. The key is the Supabase Vault
+--    secret 'bounty_words_key', created here if missing.
+-- 2. The seal_bounty_words trigger encrypts whatever is written to
+--    bounties.words and sets the column back to NULL, so create_bounty_with_wallet,
+--    create_duel and updateBounty keep writing words as before. A CHECK
+--    makes sure plain text can never be stored.
+-- 3. Table reads get metadata only: word_lengths and words_count.
+--    revealed_words is filled in once the bounty is completed, cancelled or
+--    expired.
+-- 4. bounty_words() decrypts. It is internal: only the SECURITY DEFINER
+--    functions that score guesses or publish ended bounties call it.
+--    determine_bounty_winner() never needed the words.
+-- ============================================================================
+
+ALTER TABLE bounties ADD COLUMN IF NOT EXISTS word_lengths INTEGER[];
+ALTER TABLE bounties ADD COLUMN IF NOT EXISTS words_count INTEGER
+    GENERATED ALWAYS AS (COALESCE(array_length(word_lengths, 1), 0)) STORED;
+ALTER TABLE bounties ADD COLUMN IF NOT EXISTS revealed_words TEXT[];
+
+-- Sealed rows keep NULL here; the trigger below runs before NOT NULL is checked
+ALTER TABLE bounties ALTER COLUMN words DROP NOT NULL;
+
+COMMENT ON COLUMN bounties.words IS 'Write-only: the seal_bounty_words trigger encrypts it into bounty_secrets and stores NULL';
+COMMENT ON COLUMN bounties.word_lengths IS 'Length of each secret word, in order';
+COMMENT ON COLUMN bounties.words_count IS 'Number of secret words';
+COMMENT ON COLUMN bounties.revealed_words IS 'The words once the bounty is completed, cancelled or expired; NULL before';
+
+CREATE TABLE IF NOT EXISTS bounty_secrets (
+    -- Deferred: the row is written by a BEFORE INSERT trigger on bounties
+    bounty_id UUID PRIMARY KEY REFERENCES bounties(id) ON DELETE CASCADE DEFERRABLE INITIALLY DEFERRED,
+    words_encrypted BYTEA NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE bounty_secrets ENABLE ROW LEVEL SECURITY;
+
+-- Ciphertext only leaves through bounty_words()
+REVOKE ALL ON bounty_secrets FROM anon, authenticated;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM vault.secrets WHERE name = 'bounty_words_key') THEN
+        PERFORM vault.create_secret(
+            encode(gen_random_bytes(32), 'base64'),
+            'bounty_words_key',
+            'Encrypts bounty solutions in bounty_secrets (migration 040)'
+        );
+    END IF;
+END $$;
+
+-- ============================================================================
+-- FUNCTION 1: bounty_words_key (internal)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION bounty_words_key()
+RETURNS TEXT AS $$
+DECLARE
+    v_key TEXT;
+BEGIN
+    SELECT decrypted_secret INTO v_key
+    FROM vault.decrypted_secrets
+    WHERE name = 'bounty_words_key';
+
+    IF v_key IS NULL THEN
+        RAISE EXCEPTION 'Vault secret bounty_words_key is missing';
+    END IF;
+
+    RETURN v_key;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+COMMENT ON FUNCTION bounty_words_key() IS
+'Key for bounty_secrets, read from Supabase Vault.';
+
+REVOKE EXECUTE ON FUNCTION bounty_words_key() FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- FUNCTION 2: bounty_words (internal)
+-- ============================================================================
+-- Decrypted words of a bounty, or NULL if it has none. Never granted to
+-- clients: callers decide what may be shown.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION bounty_words(bounty_uuid UUID)
+RETURNS TEXT[] AS $$
+DECLARE
+    v_words TEXT[];
+BEGIN
+    SELECT ARRAY(
+        SELECT w
+        FROM jsonb_array_elements_text(
+            pgp_sym_decrypt(bs.words_encrypted, bounty_words_key())::JSONB
+        ) WITH ORDINALITY AS t(w, ord)
+        ORDER BY ord
+    )
+    INTO v_words
+    FROM bounty_secrets bs
+    WHERE bs.bounty_id = bounty_uuid;
+
+    RETURN v_words;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+COMMENT ON FUNCTION bounty_words(UUID) IS
+'Decrypts a bounty''s words from bounty_secrets. Internal: only SECURITY DEFINER functions may call it.';
+
+REVOKE EXECUTE ON FUNCTION bounty_words(UUID) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- FUNCTION 3: seal_bounty_words (trigger on bounties)
+-- ============================================================================
+-- Runs after lock_committed_words (triggers fire in name order), so a
+-- committed bounty still rejects new words before they are sealed.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION seal_bounty_words()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.words IS NOT NULL THEN
+        INSERT INTO bounty_secrets (bounty_id, words_encrypted)
+        VALUES (NEW.id, pgp_sym_encrypt(to_jsonb(NEW.words)::TEXT, bounty_words_key()))
+        ON CONFLICT (bounty_id) DO UPDATE
+        SET words_encrypted = EXCLUDED.words_encrypted, updated_at = NOW();
+
+        NEW.word_lengths := ARRAY(
+            SELECT LENGTH(w)
+            FROM unnest(NEW.words) WITH ORDINALITY AS t(w, ord)
+            ORDER BY ord
+        );
+        NEW.words := NULL;
+    END IF;
+
+    -- Same rule as get_bounty_details: publish once nobody can play anymore
+    IF NEW.status IN ('completed', 'cancelled', 'expired') THEN
+        NEW.revealed_words := bounty_words(NEW.id);
+    ELSE
+        NEW.revealed_words := NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION seal_bounty_words() FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- FUNCTION 4: lock_committed_words (trigger on bounties)
+-- ============================================================================
+-- Same as migration 039, except sealed rows keep NULL in words: any words
+-- written to a committed bounty are a change, and rewriting the same words
+-- (the backfill below) is not.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION lock_committed_words()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.solution_commitment IS NOT NULL AND (
+        (NEW.words IS NOT NULL AND NEW.words IS DISTINCT FROM OLD.words)
+        OR NEW.solution_commitment IS DISTINCT FROM OLD.solution_commitment
+    ) THEN
+        RAISE EXCEPTION 'Bounty % words are locked by their on-chain commitment', OLD.id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS seal_bounty_words ON bounties;
+CREATE TRIGGER seal_bounty_words
+    BEFORE INSERT OR UPDATE ON bounties
+    FOR EACH ROW EXECUTE FUNCTION seal_bounty_words();
+
+-- Seal existing bounties, then make sure plain text can't come back
+UPDATE bounties SET words = words WHERE words IS NOT NULL;
+
+ALTER TABLE bounties ALTER COLUMN word_lengths SET NOT NULL;
+
+ALTER TABLE bounties DROP CONSTRAINT IF EXISTS bounties_words_sealed;
+ALTER TABLE bounties ADD CONSTRAINT bounties_words_sealed CHECK (words IS NULL);
+
+-- ============================================================================
+-- FUNCTION 5: start_word_session
+-- ============================================================================
+-- Same as migration 025, but the word index is checked against word_lengths.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION start_word_session(
+    bounty_uuid UUID,
+    wallet_addr TEXT,
+    word_idx INTEGER DEFAULT 0
+)
+RETURNS JSONB AS $$
+DECLARE
+    user_uuid UUID;
+    participant_record RECORD;
+    bounty_record RECORD;
+    v_session_started TIMESTAMP WITH TIME ZONE;
+    v_word_started TIMESTAMP WITH TIME ZONE;
+BEGIN
+    SELECT id INTO user_uuid FROM users WHERE wallet_address = wallet_addr;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User not found for wallet: %', wallet_addr;
+    END IF;
+
+    SELECT * INTO participant_record
+    FROM bounty_participants
+    WHERE bounty_id = bounty_uuid AND user_id = user_uuid;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User % not participating in bounty %', wallet_addr, bounty_uuid;
+    END IF;
+
+    SELECT * INTO bounty_record FROM bounties WHERE id = bounty_uuid;
+    IF NOT FOUND OR word_idx < 0 OR word_idx >= array_length(bounty_record.word_lengths, 1) THEN
+        RAISE EXCEPTION 'Invalid bounty or word index';
+    END IF;
+
+    IF word_idx > participant_record.current_word_index THEN
+        RAISE EXCEPTION 'Word % is not unlocked yet', word_idx + 1;
+    END IF;
+
+    -- The session clock starts once and is never reset
+    UPDATE bounty_participants
+    SET session_started_at = COALESCE(session_started_at, NOW())
+    WHERE id = participant_record.id
+    RETURNING session_started_at INTO v_session_started;
+
+    INSERT INTO word_sessions (participant_id, bounty_id, word_index, started_at)
+    VALUES (participant_record.id, bounty_uuid, word_idx, NOW())
+    ON CONFLICT (participant_id, word_index) DO NOTHING;
+
+    SELECT started_at INTO v_word_started
+    FROM word_sessions
+    WHERE participant_id = participant_record.id AND word_index = word_idx;
+
+    RETURN jsonb_build_object(
+        'session_started_at', v_session_started,
+        'word_started_at', v_word_started,
+        'server_time', NOW(),
+        'time_limit_seconds', bounty_record.time_limit_seconds,
+        'deadline', CASE
+            WHEN bounty_record.bounty_type = 'Time-based' AND bounty_record.time_limit_seconds IS NOT NULL
+            THEN v_session_started + make_interval(secs => bounty_record.time_limit_seconds)
+            ELSE NULL
+        END
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION start_word_session(UUID, TEXT, INTEGER) IS
+'Starts (or returns the existing) server-side clock for a participant and word. Returns session/word start, server_time and the deadline for Time-based bounties.';
+
+-- ============================================================================
+-- FUNCTION 6: submit_attempt
+-- ============================================================================
+-- Same as migration 037, but the index is checked against word_lengths and
+-- the words are decrypted only after the multi-board and puzzle hand-offs.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION submit_attempt(
+    bounty_uuid UUID,
+    wallet_addr TEXT,
+    word_idx INTEGER,
+    guessed_word TEXT,
+    time_taken INTEGER DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    user_uuid UUID;
+    participant_record RECORD;
+    bounty_record RECORD;
+    target_word TEXT;
+    attempt_num INTEGER;
+    letter_results JSONB;
+    is_correct BOOLEAN;
+    is_last_word BOOLEAN;
+    attempt_result attempt_result;
+    result JSONB;
+    rows_updated INTEGER;
+    v_is_timed BOOLEAN;
+    v_session_started TIMESTAMP WITH TIME ZONE;
+    v_word_started TIMESTAMP WITH TIME ZONE;
+    v_last_attempt_at TIMESTAMP WITH TIME ZONE;
+    v_attempt_seconds INTEGER;
+    v_elapsed_seconds INTEGER;
+    v_hard_mode_violation TEXT;
+    v_guess TEXT;
+BEGIN
+    -- Get user
+    SELECT id INTO user_uuid FROM users WHERE wallet_address = wallet_addr;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User not found for wallet: %', wallet_addr;
+    END IF;
+
+    -- Get participant record (allow any active status, including 'completed' for multi-word bounties)
+    SELECT * INTO participant_record
+    FROM bounty_participants
+    WHERE bounty_id = bounty_uuid AND user_id = user_uuid;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User % not participating in bounty %', wallet_addr, bounty_uuid;
+    END IF;
+
+    -- Check if participation is active or completed
+    IF participant_record.status NOT IN ('registered', 'active', 'completed') THEN
+        RAISE EXCEPTION 'User participation status is %', participant_record.status;
+    END IF;
+
+    -- A finished session can't be extended by further guesses
+    IF participant_record.session_ended_at IS NOT NULL THEN
+        RAISE EXCEPTION 'User % already finished bounty %', wallet_addr, bounty_uuid;
+    END IF;
+
+    -- Get bounty and target word
+    SELECT * INTO bounty_record FROM bounties WHERE id = bounty_uuid;
+    IF NOT FOUND OR word_idx < 0 OR word_idx >= array_length(bounty_record.word_lengths, 1) THEN
+        RAISE EXCEPTION 'Invalid bounty or word index';
+    END IF;
+
+    -- Multi-board: one guess is scored against every unsolved board
+    IF bounty_record.bounty_type = 'Multi-board' THEN
+        RETURN submit_multi_board_attempt(participant_record.id, guessed_word);
+    END IF;
+
+    -- Word ladder and anagram: one target word, each with its own rules
+    IF bounty_record.bounty_type IN ('Word-ladder', 'Anagram') THEN
+        RETURN submit_puzzle_attempt(participant_record.id, guessed_word);
+    END IF;
+
+    -- The solutions only exist decrypted inside this call
+    bounty_record.words := bounty_words(bounty_uuid);
+
+    -- Both sides in the bounty's normalised form, so accents that have no
+    -- key of their own never count against the player
+    target_word := normalize_word(bounty_record.words[word_idx + 1], bounty_record.language); -- Arrays are 1-indexed in PostgreSQL
+    v_guess := normalize_word(guessed_word, bounty_record.language);
+    is_last_word := word_idx + 1 >= array_length(bounty_record.words, 1);
+
+    -- Reject guesses of the wrong length before anything is recorded
+    IF LENGTH(v_guess) <> LENGTH(target_word) THEN
+        RAISE EXCEPTION 'Guess must be % letters long', LENGTH(target_word);
+    END IF;
+
+    -- Session clock: falls back to the join time, so skipping
+    -- start_word_session() can never make a run look faster
+    v_session_started := COALESCE(participant_record.session_started_at, participant_record.joined_at, NOW());
+    v_is_timed := bounty_record.bounty_type = 'Time-based' AND bounty_record.time_limit_seconds IS NOT NULL;
+
+    IF v_is_timed AND NOW() > v_session_started + make_interval(secs => bounty_record.time_limit_seconds) THEN
+        RAISE EXCEPTION 'Time limit of % seconds exceeded', bounty_record.time_limit_seconds;
+    END IF;
+
+    -- Hard mode: the guess must reuse everything this word has revealed so far
+    IF bounty_record.hard_mode THEN
+        SELECT check_hard_mode_guess(
+            v_guess,
+            COALESCE(jsonb_agg(ga.letter_results ORDER BY ga.attempt_number), '[]'::JSONB)
+        )
+        INTO v_hard_mode_violation
+        FROM game_attempts ga
+        WHERE ga.participant_id = participant_record.id AND ga.word_index = word_idx;
+
+        IF v_hard_mode_violation IS NOT NULL THEN
+            RAISE EXCEPTION 'Hard mode: %', v_hard_mode_violation;
+        END IF;
+    END IF;
+
+    -- Word clock: word 0 starts with the session, later words when the previous one was solved
+    INSERT INTO word_sessions (participant_id, bounty_id, word_index, started_at)
+    VALUES (
+        participant_record.id,
+        bounty_uuid,
+        word_idx,
+        CASE WHEN word_idx = 0 THEN v_session_started ELSE NOW() END
+    )
+    ON CONFLICT (participant_id, word_index) DO NOTHING;
+
+    SELECT started_at INTO v_word_started
+    FROM word_sessions
+    WHERE participant_id = participant_record.id AND word_index = word_idx;
+
+    -- Get next attempt number and the previous guess time for this word
+    SELECT COALESCE(MAX(attempt_number), 0) + 1, MAX(created_at)
+    INTO attempt_num, v_last_attempt_at
+    FROM game_attempts
+    WHERE participant_id = participant_record.id AND word_index = word_idx;
+
+    v_attempt_seconds := FLOOR(EXTRACT(EPOCH FROM (NOW() - COALESCE(v_last_attempt_at, v_word_started))))::INTEGER;
+    v_elapsed_seconds := FLOOR(EXTRACT(EPOCH FROM (NOW() - v_session_started)))::INTEGER;
+
+    -- Score the guess
+    letter_results := calculate_letter_results(v_guess, target_word);
+    is_correct := v_guess = target_word;
+
+    -- Determine attempt result
+    IF is_correct THEN
+        attempt_result := 'correct';
+    ELSIF jsonb_path_exists(letter_results, '$[*] ? (@.status != "absent")') THEN
+        attempt_result := 'partial';
+    ELSE
+        attempt_result := 'incorrect';
+    END IF;
+
+    -- Insert attempt
+    INSERT INTO game_attempts (
+        participant_id,
+        bounty_id,
+        word_index,
+        attempt_number,
+        guessed_word,
+        target_word,
+        result,
+        letter_results,
+        time_taken_seconds
+    ) VALUES (
+        participant_record.id,
+        bounty_uuid,
+        word_idx,
+        attempt_num,
+        v_guess,
+        target_word,
+        attempt_result,
+        letter_results,
+        GREATEST(v_attempt_seconds, 0)
+    );
+
+    -- Close the word clock and open the next one
+    IF is_correct THEN
+        UPDATE word_sessions
+        SET completed_at = NOW()
+        WHERE participant_id = participant_record.id AND word_index = word_idx;
+
+        IF NOT is_last_word THEN
+            INSERT INTO word_sessions (participant_id, bounty_id, word_index, started_at)
+            VALUES (participant_record.id, bounty_uuid, word_idx + 1, NOW())
+            ON CONFLICT (participant_id, word_index) DO NOTHING;
+        END IF;
+    END IF;
+
+    -- Update participant progress
+    UPDATE bounty_participants
+    SET
+        total_attempts = total_attempts + 1,
+        total_time_seconds = GREATEST(v_elapsed_seconds, 0),
+        session_started_at = v_session_started,
+        session_ended_at = CASE
+            WHEN is_correct AND is_last_word THEN NOW()
+            ELSE session_ended_at
+        END,
+        words_completed = CASE
+            WHEN is_correct THEN GREATEST(words_completed, word_idx + 1)
+            ELSE words_completed
+        END,
+        current_word_index = CASE
+            WHEN is_correct AND is_last_word THEN word_idx
+            WHEN is_correct THEN word_idx + 1
+            ELSE current_word_index
+        END,
+        status = CASE
+            WHEN is_correct AND is_last_word THEN 'completed'::participation_status
+            ELSE status
+        END,
+        completed_at = CASE
+            WHEN is_correct AND is_last_word THEN NOW()
+            ELSE completed_at
+        END
+    WHERE id = participant_record.id;
+
+    -- Check how many rows were actually updated
+    GET DIAGNOSTICS rows_updated = ROW_COUNT;
+
+    IF rows_updated = 0 THEN
+        RAISE WARNING 'No rows updated for participant % in bounty %', participant_record.id, bounty_uuid;
+    END IF;
+
+    -- Build result (no target word - the client renders only what we return)
+    result := jsonb_build_object(
+        'correct', is_correct,
+        'attempt_number', attempt_num,
+        'letter_results', letter_results,
+        'completed_bounty', is_correct AND is_last_word,
+        'participant_id', participant_record.id,
+        'rows_updated', rows_updated,
+        'elapsed_seconds', GREATEST(v_elapsed_seconds, 0),
+        'time_remaining_seconds', CASE
+            WHEN v_is_timed THEN GREATEST(bounty_record.time_limit_seconds - v_elapsed_seconds, 0)
+            ELSE NULL
+        END
+    );
+
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION submit_attempt(UUID, TEXT, INTEGER, TEXT, INTEGER) IS
+'Records a guess, scores it server-side and returns { correct, attempt_number, letter_results, completed_bounty, elapsed_seconds, time_remaining_seconds }. Timing is measured on the server; the time_taken argument is ignored. Hard-mode bounties reject guesses that drop revealed letters with "Hard mode: <rule>". Guess and target are compared after normalize_word() for the bounty language. Multi-board bounties return the submit_multi_board_attempt() payload instead; Word-ladder and Anagram bounties are checked by submit_puzzle_attempt().';
+
+-- ============================================================================
+-- FUNCTION 7: submit_multi_board_attempt (internal)
+-- ============================================================================
+-- Same as migration 035, with the words decrypted.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION submit_multi_board_attempt(
+    participant_uuid UUID,
+    guessed_word TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+    participant_record RECORD;
+    bounty_record RECORD;
+    v_guess TEXT;
+    v_target TEXT;
+    v_board_count INTEGER;
+    v_budget INTEGER;
+    v_attempt_num INTEGER;
+    v_last_attempt_at TIMESTAMP WITH TIME ZONE;
+    v_session_started TIMESTAMP WITH TIME ZONE;
+    v_is_timed BOOLEAN;
+    v_elapsed_seconds INTEGER;
+    v_attempt_seconds INTEGER;
+    v_solved_boards INTEGER[];
+    v_letter_results JSONB;
+    v_is_correct BOOLEAN;
+    v_boards JSONB := '[]'::JSONB;
+    v_boards_solved INTEGER;
+    v_all_solved BOOLEAN;
+    v_out_of_guesses BOOLEAN;
+BEGIN
+    SELECT * INTO participant_record
+    FROM bounty_participants
+    WHERE id = participant_uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Participant not found: %', participant_uuid;
+    END IF;
+
+    -- Re-checked under the lock so two racing guesses can't both spend the last one
+    IF participant_record.session_ended_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Participant % already finished', participant_uuid;
+    END IF;
+
+    SELECT * INTO bounty_record FROM bounties WHERE id = participant_record.bounty_id;
+    bounty_record.words := bounty_words(bounty_record.id);
+
+    v_board_count := array_length(bounty_record.words, 1);
+    v_budget := COALESCE(bounty_record.max_attempts_per_user, v_board_count + 5);
+    v_guess := normalize_word(guessed_word, bounty_record.language);
+
+    IF LENGTH(v_guess) <> LENGTH(normalize_word(bounty_record.words[1], bounty_record.language)) THEN
+        RAISE EXCEPTION 'Guess must be % letters long',
+            LENGTH(normalize_word(bounty_record.words[1], bounty_record.language));
+    END IF;
+
+    -- Same session clock as single-board play
+    v_session_started := COALESCE(participant_record.session_started_at, participant_record.joined_at, NOW());
+    v_is_timed := bounty_record.time_limit_seconds IS NOT NULL;
+
+    IF v_is_timed AND NOW() > v_session_started + make_interval(secs => bounty_record.time_limit_seconds) THEN
+        RAISE EXCEPTION 'Time limit of % seconds exceeded', bounty_record.time_limit_seconds;
+    END IF;
+
+    -- One shared guess counter across all boards
+    SELECT COALESCE(MAX(ga.attempt_number), 0) + 1, MAX(ga.created_at)
+    INTO v_attempt_num, v_last_attempt_at
+    FROM game_attempts ga
+    WHERE ga.participant_id = participant_uuid;
+
+    IF v_attempt_num > v_budget THEN
+        RAISE EXCEPTION 'No attempts left: all % guesses used', v_budget;
+    END IF;
+
+    SELECT COALESCE(array_agg(DISTINCT ga.word_index), '{}')
+    INTO v_solved_boards
+    FROM game_attempts ga
+    WHERE ga.participant_id = participant_uuid AND ga.result = 'correct';
+
+    v_attempt_seconds := FLOOR(EXTRACT(EPOCH FROM (NOW() - COALESCE(v_last_attempt_at, v_session_started))))::INTEGER;
+    v_elapsed_seconds := FLOOR(EXTRACT(EPOCH FROM (NOW() - v_session_started)))::INTEGER;
+
+    FOR board IN 0..v_board_count - 1 LOOP
+        CONTINUE WHEN board = ANY(v_solved_boards);
+
+        v_target := normalize_word(bounty_record.words[board + 1], bounty_record.language);
+        v_letter_results := calculate_letter_results(v_guess, v_target);
+        v_is_correct := v_guess = v_target;
+
+        INSERT INTO game_attempts (
+            participant_id,
+            bounty_id,
+            word_index,
+            attempt_number,
+            guessed_word,
+            target_word,
+            result,
+            letter_results,
+            time_taken_seconds
+        ) VALUES (
+            participant_uuid,
+            bounty_record.id,
+            board,
+            v_attempt_num,
+            v_guess,
+            v_target,
+            CASE
+                WHEN v_is_correct THEN 'correct'::attempt_result
+                WHEN jsonb_path_exists(v_letter_results, '$[*] ? (@.status != "absent")') THEN 'partial'::attempt_result
+                ELSE 'incorrect'::attempt_result
+            END,
+            v_letter_results,
+            GREATEST(v_attempt_seconds, 0)
+        );
+
+        v_boards := v_boards || jsonb_build_array(jsonb_build_object(
+            'word_index', board,
+            'letter_results', v_letter_results,
+            'correct', v_is_correct
+        ));
+
+        IF v_is_correct THEN
+            v_solved_boards := v_solved_boards || board;
+        END IF;
+    END LOOP;
+
+    v_boards_solved := COALESCE(array_length(v_solved_boards, 1), 0);
+    v_all_solved := v_boards_solved = v_board_count;
+    v_out_of_guesses := NOT v_all_solved AND v_attempt_num >= v_budget;
+
+    UPDATE bounty_participants
+    SET
+        total_attempts = total_attempts + 1,
+        total_time_seconds = GREATEST(v_elapsed_seconds, 0),
+        session_started_at = v_session_started,
+        session_ended_at = CASE
+            WHEN v_all_solved OR v_out_of_guesses THEN NOW()
+            ELSE session_ended_at
+        END,
+        words_completed = v_boards_solved,
+        status = CASE
+            WHEN v_all_solved THEN 'completed'::participation_status
+            WHEN v_out_of_guesses THEN 'failed'::participation_status
+            ELSE status
+        END,
+        completed_at = CASE
+            WHEN v_all_solved THEN NOW()
+            ELSE completed_at
+        END
+    WHERE id = participant_uuid;
+
+    RETURN jsonb_build_object(
+        'correct', v_all_solved,
+        'attempt_number', v_attempt_num,
+        'attempts_remaining', v_budget - v_attempt_num,
+        'boards', v_boards,
+        'boards_solved', v_boards_solved,
+        'boards_total', v_board_count,
+        'completed_bounty', v_all_solved,
+        'participant_id', participant_uuid,
+        'elapsed_seconds', GREATEST(v_elapsed_seconds, 0),
+        'time_remaining_seconds', CASE
+            WHEN v_is_timed THEN GREATEST(bounty_record.time_limit_seconds - v_elapsed_seconds, 0)
+            ELSE NULL
+        END
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION submit_multi_board_attempt(UUID, TEXT) IS
+'Scores one guess against every unsolved board of a Multi-board bounty. Internal: called by submit_attempt().';
+
+REVOKE EXECUTE ON FUNCTION submit_multi_board_attempt(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- FUNCTION 8: submit_puzzle_attempt (internal)
+-- ============================================================================
+-- Same as migration 037, with the words decrypted.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION submit_puzzle_attempt(
+    participant_uuid UUID,
+    guessed_word TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+    participant_record RECORD;
+    bounty_record RECORD;
+    v_guess TEXT;
+    v_target TEXT;
+    v_previous TEXT;
+    v_attempt_num INTEGER;
+    v_last_attempt_at TIMESTAMP WITH TIME ZONE;
+    v_session_started TIMESTAMP WITH TIME ZONE;
+    v_is_timed BOOLEAN;
+    v_elapsed_seconds INTEGER;
+    v_attempt_seconds INTEGER;
+    v_letter_results JSONB;
+    v_is_correct BOOLEAN;
+    v_out_of_guesses BOOLEAN;
+BEGIN
+    SELECT * INTO participant_record
+    FROM bounty_participants
+    WHERE id = participant_uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Participant not found: %', participant_uuid;
+    END IF;
+
+    -- Re-checked under the lock so two racing guesses can't both finish the puzzle
+    IF participant_record.session_ended_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Participant % already finished', participant_uuid;
+    END IF;
+
+    SELECT * INTO bounty_record FROM bounties WHERE id = participant_record.bounty_id;
+    bounty_record.words := bounty_words(bounty_record.id);
+
+    v_target := normalize_word(bounty_record.words[1], bounty_record.language);
+    v_guess := normalize_word(guessed_word, bounty_record.language);
+
+    IF LENGTH(v_guess) <> LENGTH(v_target) THEN
+        RAISE EXCEPTION 'Guess must be % letters long', LENGTH(v_target);
+    END IF;
+
+    -- Same session clock as every other bounty type
+    v_session_started := COALESCE(participant_record.session_started_at, participant_record.joined_at, NOW());
+    v_is_timed := bounty_record.time_limit_seconds IS NOT NULL;
+
+    IF v_is_timed AND NOW() > v_session_started + make_interval(secs => bounty_record.time_limit_seconds) THEN
+        RAISE EXCEPTION 'Time limit of % seconds exceeded', bounty_record.time_limit_seconds;
+    END IF;
+
+    SELECT COALESCE(MAX(ga.attempt_number), 0) + 1, MAX(ga.created_at)
+    INTO v_attempt_num, v_last_attempt_at
+    FROM game_attempts ga
+    WHERE ga.participant_id = participant_uuid;
+
+    IF bounty_record.max_attempts_per_user IS NOT NULL AND v_attempt_num > bounty_record.max_attempts_per_user THEN
+        RAISE EXCEPTION 'No attempts left: all % guesses used', bounty_record.max_attempts_per_user;
+    END IF;
+
+    IF bounty_record.bounty_type = 'Word-ladder' THEN
+        -- Only valid steps are recorded, so the latest attempt is the top of the ladder
+        SELECT ga.guessed_word INTO v_previous
+        FROM game_attempts ga
+        WHERE ga.participant_id = participant_uuid
+        ORDER BY ga.attempt_number DESC
+        LIMIT 1;
+
+        v_previous := COALESCE(v_previous, bounty_record.puzzle->>'start_word');
+
+        IF count_letter_changes(v_previous, v_guess) <> 1 THEN
+            RAISE EXCEPTION 'Word ladder: Change exactly one letter of %', v_previous;
+        END IF;
+
+        IF v_guess = bounty_record.puzzle->>'start_word' OR EXISTS (
+            SELECT 1 FROM game_attempts ga
+            WHERE ga.participant_id = participant_uuid AND ga.guessed_word = v_guess
+        ) THEN
+            RAISE EXCEPTION 'Word ladder: % is already on your ladder', v_guess;
+        END IF;
+
+        IF NOT validate_word(v_guess, bounty_record.language) THEN
+            RAISE EXCEPTION 'Word ladder: % is not in the dictionary', v_guess;
+        END IF;
+
+        v_is_correct := v_guess = v_target;
+    ELSE
+        IF sort_letters(v_guess) <> sort_letters(bounty_record.puzzle->>'letters') THEN
+            RAISE EXCEPTION 'Anagram: Use each of the letters % exactly once', bounty_record.puzzle->>'letters';
+        END IF;
+
+        -- Any real word made of the letters counts, not just the creator's;
+        -- anything else is a wrong guess and uses up an attempt
+        v_is_correct := v_guess = v_target OR validate_word(v_guess, bounty_record.language);
+    END IF;
+
+    v_letter_results := calculate_letter_results(v_guess, v_target);
+    v_attempt_seconds := FLOOR(EXTRACT(EPOCH FROM (NOW() - COALESCE(v_last_attempt_at, v_session_started))))::INTEGER;
+    v_elapsed_seconds := FLOOR(EXTRACT(EPOCH FROM (NOW() - v_session_started)))::INTEGER;
+    v_out_of_guesses := NOT v_is_correct
+        AND bounty_record.max_attempts_per_user IS NOT NULL
+        AND v_attempt_num >= bounty_record.max_attempts_per_user;
+
+    INSERT INTO game_attempts (
+        participant_id,
+        bounty_id,
+        word_index,
+        attempt_number,
+        guessed_word,
+        target_word,
+        result,
+        letter_results,
+        time_taken_seconds
+    ) VALUES (
+        participant_uuid,
+        bounty_record.id,
+        0,
+        v_attempt_num,
+        v_guess,
+        v_target,
+        CASE
+            WHEN v_is_correct THEN 'correct'::attempt_result
+            WHEN jsonb_path_exists(v_letter_results, '$[*] ? (@.status != "absent")') THEN 'partial'::attempt_result
+            ELSE 'incorrect'::attempt_result
+        END,
+        v_letter_results,
+        GREATEST(v_attempt_seconds, 0)
+    );
+
+    UPDATE bounty_participants
+    SET
+        total_attempts = total_attempts + 1,
+        total_time_seconds = GREATEST(v_elapsed_seconds, 0),
+        session_started_at = v_session_started,
+        session_ended_at = CASE
+            WHEN v_is_correct OR v_out_of_guesses THEN NOW()
+            ELSE session_ended_at
+        END,
+        words_completed = CASE WHEN v_is_correct THEN 1 ELSE words_completed END,
+        status = CASE
+            WHEN v_is_correct THEN 'completed'::participation_status
+            WHEN v_out_of_guesses THEN 'failed'::participation_status
+            ELSE status
+        END,
+        completed_at = CASE
+            WHEN v_is_correct THEN NOW()
+            ELSE completed_at
+        END
+    WHERE id = participant_uuid;
+
+    RETURN jsonb_build_object(
+        'correct', v_is_correct,
+        'attempt_number', v_attempt_num,
+        'letter_results', v_letter_results,
+        'completed_bounty', v_is_correct,
+        'attempts_remaining', bounty_record.max_attempts_per_user - v_attempt_num,
+        'participant_id', participant_uuid,
+        'elapsed_seconds', GREATEST(v_elapsed_seconds, 0),
+        'time_remaining_seconds', CASE
+            WHEN v_is_timed THEN GREATEST(bounty_record.time_limit_seconds - v_elapsed_seconds, 0)
+            ELSE NULL
+        END
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION submit_puzzle_attempt(UUID, TEXT) IS
+'Checks and scores one Word-ladder step or Anagram guess. Rule violations raise "Word ladder: <rule>" or "Anagram: <rule>" and record nothing. Internal: called by submit_attempt().';
+
+REVOKE EXECUTE ON FUNCTION submit_puzzle_attempt(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- FUNCTION 9: get_bounty_details
+-- ============================================================================
+-- Same as migration 037; word_lengths and words_count come from the row and
+-- 'words' is decrypted only once the bounty has ended.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_bounty_details(
+    bounty_uuid UUID,
+    wallet_addr TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    bounty_record RECORD;
+    participation_record RECORD;
+    user_uuid UUID;
+    words_revealed BOOLEAN;
+    result JSONB;
+BEGIN
+    -- Get bounty
+    SELECT
+        b.*,
+        u.username as creator_username,
+        u.display_name as creator_display_name
+    INTO bounty_record
+    FROM bounties b
+    JOIN users u ON b.creator_id = u.id
+    WHERE b.id = bounty_uuid;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bounty not found';
+    END IF;
+
+    -- Solutions are only safe to publish once nobody can play anymore
+    words_revealed := bounty_record.status IN ('completed', 'cancelled', 'expired')
+        OR (bounty_record.end_time IS NOT NULL AND bounty_record.end_time <= NOW());
+
+    -- Get user participation if wallet provided
+    participation_record := NULL;
+    IF wallet_addr IS NOT NULL THEN
+        SELECT id INTO user_uuid FROM users WHERE wallet_address = wallet_addr;
+        IF FOUND THEN
+            SELECT * INTO participation_record
+            FROM bounty_participants
+            WHERE bounty_id = bounty_uuid AND user_id = user_uuid;
+        END IF;
+    END IF;
+
+    -- Build result
+    result := jsonb_build_object(
+        'id', bounty_record.id,
+        'name', bounty_record.name,
+        'description', bounty_record.description,
+        'bounty_type', bounty_record.bounty_type,
+        'prize_amount', bounty_record.prize_amount,
+        'prize_currency', bounty_record.prize_currency,
+        'status', bounty_record.status,
+        'is_public', bounty_record.is_public,
+        'participant_count', bounty_record.participant_count,
+        'max_participants', bounty_record.max_participants,
+        'max_attempts_per_user', bounty_record.max_attempts_per_user,
+        'time_limit_seconds', bounty_record.time_limit_seconds,
+        'hard_mode', bounty_record.hard_mode,
+        'language', bounty_record.language,
+        'puzzle', bounty_record.puzzle,
+        'start_time', bounty_record.start_time,
+        'end_time', bounty_record.end_time,
+        'duration_hours', bounty_record.duration_hours,
+        'created_at', bounty_record.created_at,
+        'server_time', NOW(),
+        'creator', jsonb_build_object(
+            'username', bounty_record.creator_username,
+            'display_name', bounty_record.creator_display_name
+        ),
+        'words', CASE WHEN words_revealed THEN to_jsonb(bounty_words(bounty_record.id)) ELSE NULL END,
+        'word_lengths', to_jsonb(bounty_record.word_lengths),
+        'words_count', bounty_record.words_count,
+        -- Hint text is only handed out through unlock_hint() while the bounty runs
+        'hints', CASE WHEN words_revealed THEN to_jsonb(bounty_record.hints) ELSE NULL END,
+        'hints_count', COALESCE(array_length(bounty_record.hints, 1), 0),
+        'hint_penalties', to_jsonb(bounty_record.hint_penalties),
+        'participation', CASE
+            WHEN participation_record IS NOT NULL THEN
+                jsonb_build_object(
+                    'status', participation_record.status,
+                    'joined_at', participation_record.joined_at,
+                    'current_word_index', participation_record.current_word_index,
+                    'total_attempts', participation_record.total_attempts,
+                    'words_completed', participation_record.words_completed,
+                    'total_time_seconds', participation_record.total_time_seconds,
+                    'session_started_at', participation_record.session_started_at,
+                    'session_ended_at', participation_record.session_ended_at,
+                    'is_winner', participation_record.is_winner,
+                    'hints_used', participation_record.hints_used,
+                    'hint_penalty_total', participation_record.hint_penalty_total,
+                    'unlocked_hints', to_jsonb(bounty_record.hints[1:participation_record.hints_used])
+                )
+            ELSE NULL
+        END
+    );
+
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- FUNCTION 10: get_bounty_replay
+-- ============================================================================
+-- Same as migration 031, with the words decrypted.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_bounty_replay(
+    bounty_uuid UUID,
+    participant_user UUID DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    bounty_record RECORD;
+    v_participants JSONB;
+BEGIN
+    SELECT b.id, b.name, b.status, b.word_lengths, b.bounty_type, b.winner_criteria
+    INTO bounty_record
+    FROM bounties b
+    WHERE b.id = bounty_uuid;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bounty not found: %', bounty_uuid;
+    END IF;
+
+    IF bounty_record.status <> 'completed' THEN
+        RAISE EXCEPTION 'Replays are available once the bounty is completed (current status: %)', bounty_record.status;
+    END IF;
+
+    SELECT COALESCE(jsonb_agg(p.replay ORDER BY p.sort_winner DESC, p.sort_words DESC, p.sort_attempts ASC, p.sort_time ASC), '[]'::JSONB)
+    INTO v_participants
+    FROM (
+        SELECT
+            bp.is_winner AS sort_winner,
+            bp.words_completed AS sort_words,
+            bp.total_attempts AS sort_attempts,
+            bp.total_time_seconds AS sort_time,
+            jsonb_build_object(
+                'participant_id', bp.id,
+                'user_id', u.id,
+                'username', u.username,
+                'display_name', u.display_name,
+                'status', bp.status,
+                'is_winner', bp.is_winner,
+                'words_completed', bp.words_completed,
+                'total_attempts', bp.total_attempts,
+                'total_time_seconds', bp.total_time_seconds,
+                'hints_used', bp.hints_used,
+                'session_started_at', bp.session_started_at,
+                'attempts', COALESCE((
+                    SELECT jsonb_agg(
+                        jsonb_build_object(
+                            'word_index', ga.word_index,
+                            'attempt_number', ga.attempt_number,
+                            'guessed_word', ga.guessed_word,
+                            'letter_results', ga.letter_results,
+                            'time_taken_seconds', ga.time_taken_seconds,
+                            'created_at', ga.created_at,
+                            'elapsed_seconds', GREATEST(FLOOR(EXTRACT(EPOCH FROM (
+                                ga.created_at - COALESCE(bp.session_started_at, bp.joined_at)
+                            ))), 0)::INTEGER
+                        )
+                        ORDER BY ga.word_index, ga.attempt_number
+                    )
+                    FROM game_attempts ga
+                    WHERE ga.participant_id = bp.id
+                ), '[]'::JSONB)
+            ) AS replay
+        FROM bounty_participants bp
+        JOIN users u ON u.id = bp.user_id
+        WHERE bp.bounty_id = bounty_uuid
+          AND (participant_user IS NULL OR bp.user_id = participant_user)
+    ) p;
+
+    RETURN jsonb_build_object(
+        'bounty_id', bounty_record.id,
+        'name', bounty_record.name,
+        'status', bounty_record.status,
+        'bounty_type', bounty_record.bounty_type,
+        'winner_criteria', bounty_record.winner_criteria,
+        'words', to_jsonb(bounty_words(bounty_record.id)),
+        'word_lengths', to_jsonb(bounty_record.word_lengths),
+        'participants', v_participants
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION get_bounty_replay(UUID, UUID) IS
+'Returns { name, words, word_lengths, participants: [{ user, stats, attempts[] }] } for a completed bounty. Raises for any other status.';
+
+-- ============================================================================
+-- FUNCTION 11: get_duel
+-- ============================================================================
+-- Same as migration 033, with the word decrypted once the duel has ended.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_duel(
+    duel_uuid UUID,
+    wallet_addr TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    duel_record RECORD;
+    v_user_id UUID;
+BEGIN
+    SELECT d.*, b.max_attempts_per_user
+    INTO duel_record
+    FROM duels d
+    JOIN bounties b ON b.id = d.bounty_id
+    WHERE d.id = duel_uuid;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Duel not found';
+    END IF;
+
+    IF wallet_addr IS NOT NULL THEN
+        SELECT u.id INTO v_user_id FROM users u WHERE u.wallet_address = wallet_addr;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'id', duel_record.id,
+        'bounty_id', duel_record.bounty_id,
+        'status', duel_record.status,
+        'is_open', duel_record.is_open,
+        'word_length', duel_record.word_length,
+        'language', duel_record.language,
+        'max_guesses', COALESCE(duel_record.max_attempts_per_user, 6),
+        'stake_amount', duel_record.stake_amount,
+        'pot', duel_record.stake_amount * 2,
+        'created_at', duel_record.created_at,
+        'started_at', duel_record.started_at,
+        'ended_at', duel_record.ended_at,
+        'server_time', NOW(),
+        'challenger_id', duel_record.challenger_id,
+        'opponent_id', duel_record.opponent_id,
+        'winner_id', duel_record.winner_id,
+        'players', (
+            SELECT COALESCE(jsonb_agg(jsonb_build_object(
+                'user_id', u.id,
+                'wallet_address', u.wallet_address,
+                'username', u.username,
+                'display_name', u.display_name
+            ) ORDER BY u.id = duel_record.challenger_id DESC), '[]'::JSONB)
+            FROM users u
+            WHERE u.id IN (duel_record.challenger_id, duel_record.opponent_id)
+        ),
+        'moves', (
+            SELECT COALESCE(jsonb_agg(jsonb_build_object(
+                'user_id', dm.user_id,
+                'attempt_number', dm.attempt_number,
+                'statuses', dm.statuses,
+                'solved', dm.solved,
+                'created_at', dm.created_at
+            ) ORDER BY dm.created_at, dm.attempt_number), '[]'::JSONB)
+            FROM duel_moves dm
+            WHERE dm.duel_id = duel_uuid
+        ),
+        'invite_code', CASE
+            WHEN v_user_id IS NOT NULL AND v_user_id = duel_record.challenger_id THEN
+                (SELECT di.invite_code FROM duel_invites di WHERE di.duel_id = duel_uuid)
+            ELSE NULL
+        END,
+        'word', CASE
+            WHEN duel_record.status IN ('completed', 'draw', 'cancelled') THEN (bounty_words(duel_record.bounty_id))[1]
+            ELSE NULL
+        END
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION get_duel(UUID, TEXT) IS
+'Returns a duel with its players and colour-only moves. invite_code is only returned to the challenger; word only once the duel has ended.';
+
+-- ============================================================================
+-- FUNCTION 12: prepare_bounty_commitment / get_bounty_reveal
+-- ============================================================================
+-- Same as migration 039, with the solution decrypted.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION prepare_bounty_commitment(
+    bounty_uuid UUID,
+    wallet_addr TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+    bounty_record RECORD;
+    v_salt TEXT;
+BEGIN
+    SELECT b.* INTO bounty_record
+    FROM bounties b
+    JOIN users u ON u.id = b.creator_id
+    WHERE b.id = bounty_uuid AND u.wallet_address = wallet_addr;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Only the creator can commit bounty %', bounty_uuid;
+    END IF;
+
+    IF bounty_record.solution_commitment IS NOT NULL THEN
+        RAISE EXCEPTION 'Bounty % is already committed', bounty_uuid;
+    END IF;
+
+    -- 32 random bytes as a bytes32 hex string
+    INSERT INTO bounty_commitments (bounty_id, salt)
+    VALUES (bounty_uuid, '0x' || md5(gen_random_uuid()::TEXT) || md5(gen_random_uuid()::TEXT))
+    ON CONFLICT (bounty_id) DO NOTHING;
+
+    SELECT salt INTO v_salt FROM bounty_commitments WHERE bounty_id = bounty_uuid;
+
+    RETURN jsonb_build_object(
+        'solution', bounty_solution(bounty_words(bounty_uuid)),
+        'salt', v_salt
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION prepare_bounty_commitment(UUID, TEXT) IS
+'Creator only: returns { solution, salt } to build the createBounty commitment.';
+
+CREATE OR REPLACE FUNCTION get_bounty_reveal(bounty_uuid UUID)
+RETURNS JSONB AS $$
+DECLARE
+    bounty_record RECORD;
+BEGIN
+    SELECT b.*, bc.salt INTO bounty_record
+    FROM bounties b
+    JOIN bounty_commitments bc ON bc.bounty_id = b.id
+    WHERE b.id = bounty_uuid AND b.solution_commitment IS NOT NULL;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bounty % has no recorded commitment', bounty_uuid;
+    END IF;
+
+    IF NOT (
+        bounty_record.status IN ('completed', 'cancelled', 'expired')
+        OR (bounty_record.end_time IS NOT NULL AND bounty_record.end_time <= NOW())
+    ) THEN
+        RAISE EXCEPTION 'Bounty % has not ended yet', bounty_uuid;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'solution', bounty_solution(bounty_words(bounty_uuid)),
+        'salt', bounty_record.salt,
+        'commitment', bounty_record.solution_commitment,
+        'transaction_hash', bounty_record.transaction_hash
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION get_bounty_reveal(UUID) IS
+'After a bounty ends: { solution, salt, commitment, transaction_hash } for checking the on-chain commitment.';
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+-- What changed:
+-- - Private bounty_secrets (pgp_sym_encrypt, key in Vault 'bounty_words_key')
+-- - bounties.words is always NULL; new word_lengths, words_count and
+--   revealed_words columns
+-- - seal_bounty_words trigger; internal bounty_words() / bounty_words_key()
+-- - lock_committed_words, start_word_session, submit_attempt,
+--   submit_multi_board_attempt, submit_puzzle_attempt, get_bounty_details,
+--   get_bounty_replay, get_duel, prepare_bounty_commitment and
+--   get_bounty_reveal read the decrypted words
+--
+-- Client:
+-- - getBounties / BountyWithCreator: words is always null; use word_lengths
+--   and words_count, and revealed_words once the bounty has ended
+-- - Creating and editing bounties still writes words; reading them back
+--   returns null
+-- - Run VACUUM FULL bounties after deploying so old row versions with plain
+--   text words are rewritten
+-- ============================================================================
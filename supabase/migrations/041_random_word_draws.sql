@@ -0,0 +1,614 @@
+-- ============================================================================
+-- Migration 041: Verifiable Random Word Draws
+-- Created: 2026-10-19
+-- Purpose: Draw "Random words" bounty words on the server, provably fairly
+-- ============================================================================
+-- ISSUE: CreateBountyPage picks Random words with getRandomWords() in the
+-- creator's browser, so the creator knows every word and can share them.
+--
+-- SOLUTION (commit-reveal with the escrow deposit as public entropy):
+-- 1. create_bounty_with_wallet() takes word_length and words_count instead
+--    of words, creates the bounty as a draft and stores a secret server_seed
+--    in bounty_draws. Only seed_commitment = sha256(server_seed) is public.
+-- 2. For these bounties the on-chain commitment (migration 039) is to
+--    seed_commitment instead of the words, so the server seed is fixed
+--    on-chain before the draw.
+-- 3. activate_random_bounty() runs once the createBounty transaction is
+--    recorded. It draws with
+--      seed = sha256(server_seed || ':' || transaction_hash)
+--    The server couldn't predict the transaction and the creator doesn't
+--    know server_seed. The draw works like this:
+--      pool  = dictionary words of that language and length (common only by
+--              default), sorted by byte value
+--      index = first 8 hex digits of sha256(seed || ':' || n) mod pool size,
+--              for n = 0, 1, 2, ... skipping words already drawn
+--    The bounty then goes live with the words sealed (migration 040).
+-- 4. get_bounty_draw() publishes the commitment, entropy and a hash of the
+--    pool right away. server_seed, seed and the words follow once the bounty
+--    has ended, so anyone can redo the draw (verifyRandomDraw() in
+--    src/utils/game/random-draw.ts).
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS bounty_draws (
+    bounty_id UUID PRIMARY KEY REFERENCES bounties(id) ON DELETE CASCADE,
+    server_seed VARCHAR(64) NOT NULL,
+    seed_commitment VARCHAR(64) NOT NULL,
+    language VARCHAR(5) NOT NULL,
+    word_length INTEGER NOT NULL,
+    words_count INTEGER NOT NULL,
+    common_only BOOLEAN NOT NULL DEFAULT true,
+    -- Set by activate_random_bounty()
+    entropy VARCHAR(255),
+    seed VARCHAR(64),
+    pool_size INTEGER,
+    pool_hash VARCHAR(64),
+    drawn_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE bounty_draws ENABLE ROW LEVEL SECURITY;
+
+-- Server seeds only leave through get_bounty_draw() once the bounty has ended
+REVOKE ALL ON bounty_draws FROM anon, authenticated;
+
+-- ============================================================================
+-- FUNCTION 1: random_word_pool / draw_random_words
+-- ============================================================================
+-- Public and deterministic: anyone holding a revealed seed can repeat a draw.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION random_word_pool(
+    word_language TEXT,
+    word_len INTEGER,
+    common_only BOOLEAN DEFAULT true
+)
+RETURNS TEXT[] AS $$
+BEGIN
+    RETURN ARRAY(
+        SELECT d.word::TEXT
+        FROM public.dictionary d
+        WHERE d.language = word_language
+          AND d.word_length = word_len
+          AND (NOT common_only OR d.is_common = true)
+        ORDER BY d.word COLLATE "C"
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION draw_random_words(
+    draw_seed TEXT,
+    pool TEXT[],
+    draw_count INTEGER
+)
+RETURNS TEXT[] AS $$
+DECLARE
+    v_pool_size INTEGER := COALESCE(array_length(pool, 1), 0);
+    v_words TEXT[] := ARRAY[]::TEXT[];
+    v_word TEXT;
+    v_n INTEGER := 0;
+BEGIN
+    IF v_pool_size < draw_count THEN
+        RAISE EXCEPTION 'Can''t draw % words from a pool of %', draw_count, v_pool_size;
+    END IF;
+
+    WHILE COALESCE(array_length(v_words, 1), 0) < draw_count LOOP
+        v_word := pool[1 + (
+            ('x' || substr(encode(digest(draw_seed || ':' || v_n, 'sha256'), 'hex'), 1, 8))::BIT(32)::BIGINT
+            % v_pool_size
+        )];
+
+        IF NOT v_word = ANY(v_words) THEN
+            v_words := v_words || v_word;
+        END IF;
+
+        v_n := v_n + 1;
+    END LOOP;
+
+    RETURN v_words;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+COMMENT ON FUNCTION random_word_pool(TEXT, INTEGER, BOOLEAN) IS
+'Dictionary words a Random words bounty draws from, sorted by byte value.';
+COMMENT ON FUNCTION draw_random_words(TEXT, TEXT[], INTEGER) IS
+'Deterministic draw of distinct words from a pool: pool[sha256(seed:n)[0..8] mod size] for n = 0, 1, ...';
+
+GRANT EXECUTE ON FUNCTION random_word_pool(TEXT, INTEGER, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION random_word_pool(TEXT, INTEGER, BOOLEAN) TO anon;
+GRANT EXECUTE ON FUNCTION draw_random_words(TEXT, TEXT[], INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION draw_random_words(TEXT, TEXT[], INTEGER) TO anon;
+
+-- ============================================================================
+-- FUNCTION 2: bounty_committed_solution (internal)
+-- ============================================================================
+-- What a bounty commits to on-chain: its words (migration 039), or the seed
+-- commitment for Random words draws, whose words don't exist yet.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION bounty_committed_solution(bounty_uuid UUID)
+RETURNS TEXT AS $$
+DECLARE
+    v_seed_commitment TEXT;
+BEGIN
+    SELECT bd.seed_commitment INTO v_seed_commitment
+    FROM bounty_draws bd
+    WHERE bd.bounty_id = bounty_uuid;
+
+    IF FOUND THEN
+        RETURN v_seed_commitment;
+    END IF;
+
+    RETURN bounty_solution(bounty_words(bounty_uuid));
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+COMMENT ON FUNCTION bounty_committed_solution(UUID) IS
+'Solution string passed to the escrow commitment: the words, or seed_commitment for Random words draws.';
+
+REVOKE EXECUTE ON FUNCTION bounty_committed_solution(UUID) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- FUNCTION 3: prepare_bounty_commitment / get_bounty_reveal
+-- ============================================================================
+-- Same as migration 040, with the solution from bounty_committed_solution().
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION prepare_bounty_commitment(
+    bounty_uuid UUID,
+    wallet_addr TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+    bounty_record RECORD;
+    v_salt TEXT;
+BEGIN
+    SELECT b.* INTO bounty_record
+    FROM bounties b
+    JOIN users u ON u.id = b.creator_id
+    WHERE b.id = bounty_uuid AND u.wallet_address = wallet_addr;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Only the creator can commit bounty %', bounty_uuid;
+    END IF;
+
+    IF bounty_record.solution_commitment IS NOT NULL THEN
+        RAISE EXCEPTION 'Bounty % is already committed', bounty_uuid;
+    END IF;
+
+    -- 32 random bytes as a bytes32 hex string
+    INSERT INTO bounty_commitments (bounty_id, salt)
+    VALUES (bounty_uuid, '0x' || md5(gen_random_uuid()::TEXT) || md5(gen_random_uuid()::TEXT))
+    ON CONFLICT (bounty_id) DO NOTHING;
+
+    SELECT salt INTO v_salt FROM bounty_commitments WHERE bounty_id = bounty_uuid;
+
+    RETURN jsonb_build_object(
+        'solution', bounty_committed_solution(bounty_uuid),
+        'salt', v_salt
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION prepare_bounty_commitment(UUID, TEXT) IS
+'Creator only: returns { solution, salt } to build the createBounty commitment.';
+
+CREATE OR REPLACE FUNCTION get_bounty_reveal(bounty_uuid UUID)
+RETURNS JSONB AS $$
+DECLARE
+    bounty_record RECORD;
+BEGIN
+    SELECT b.*, bc.salt INTO bounty_record
+    FROM bounties b
+    JOIN bounty_commitments bc ON bc.bounty_id = b.id
+    WHERE b.id = bounty_uuid AND b.solution_commitment IS NOT NULL;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bounty % has no recorded commitment', bounty_uuid;
+    END IF;
+
+    IF NOT (
+        bounty_record.status IN ('completed', 'cancelled', 'expired')
+        OR (bounty_record.end_time IS NOT NULL AND bounty_record.end_time <= NOW())
+    ) THEN
+        RAISE EXCEPTION 'Bounty % has not ended yet', bounty_uuid;
+    END IF;
+
+    RETURN jsonb_build_object(
+        'solution', bounty_committed_solution(bounty_uuid),
+        'salt', bounty_record.salt,
+        'commitment', bounty_record.solution_commitment,
+        'transaction_hash', bounty_record.transaction_hash
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION get_bounty_reveal(UUID) IS
+'After a bounty ends: { solution, salt, commitment, transaction_hash } for checking the on-chain commitment.';
+
+-- ============================================================================
+-- FUNCTION 4: create_bounty_with_wallet
+-- ============================================================================
+-- Same as migration 037, plus Random words draws: no words from the client,
+-- a draft bounty with word_lengths set up front, and a committed server seed.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.create_bounty_with_wallet(
+  wallet_addr VARCHAR(255),
+  bounty_data JSONB
+) RETURNS UUID AS $$
+DECLARE
+  user_uuid UUID;
+  bounty_uuid UUID;
+  v_language TEXT := COALESCE(bounty_data->>'language', 'en');
+  v_board_count INTEGER;
+  v_max_attempts INTEGER := (bounty_data->>'max_attempts_per_user')::INTEGER;
+  v_winner_criteria winner_criteria := (bounty_data->>'winner_criteria')::winner_criteria;
+  v_target TEXT;
+  v_start TEXT;
+  v_puzzle JSONB;
+  v_is_random BOOLEAN := bounty_data->>'bounty_type' = 'Random words';
+  v_word_length INTEGER;
+  v_words_count INTEGER;
+  v_common_only BOOLEAN := COALESCE((bounty_data->>'common_only')::BOOLEAN, true);
+  v_server_seed TEXT;
+BEGIN
+  -- Multi-board: 2, 4 or 8 words of one length, sharing one attempt budget
+  IF bounty_data->>'bounty_type' = 'Multi-board' THEN
+    v_board_count := jsonb_array_length(COALESCE(bounty_data->'words', '[]'::JSONB));
+
+    IF v_board_count NOT IN (2, 4, 8) THEN
+      RAISE EXCEPTION 'Multi-board bounties need 2, 4 or 8 words (got %)', v_board_count;
+    END IF;
+
+    IF (
+      SELECT COUNT(DISTINCT LENGTH(normalize_word(w, v_language)))
+      FROM jsonb_array_elements_text(bounty_data->'words') AS w
+    ) <> 1 THEN
+      RAISE EXCEPTION 'Every board of a multi-board bounty needs a word of the same length';
+    END IF;
+
+    v_max_attempts := COALESCE(v_max_attempts, v_board_count + 5);
+  END IF;
+
+  -- Word ladder and anagram: exactly one target word
+  IF bounty_data->>'bounty_type' IN ('Word-ladder', 'Anagram') THEN
+    IF jsonb_array_length(COALESCE(bounty_data->'words', '[]'::JSONB)) <> 1 THEN
+      RAISE EXCEPTION '% bounties need exactly one word', bounty_data->>'bounty_type';
+    END IF;
+
+    IF v_winner_criteria IN ('words-correct', 'boards-solved') THEN
+      RAISE EXCEPTION '% bounties can''t use winner criteria %', bounty_data->>'bounty_type', v_winner_criteria;
+    END IF;
+
+    v_target := normalize_word(bounty_data->'words'->>0, v_language);
+  END IF;
+
+  -- Word ladder: every step is checked against the dictionary, so both ends must be in it
+  IF bounty_data->>'bounty_type' = 'Word-ladder' THEN
+    v_start := normalize_word(bounty_data->>'start_word', v_language);
+
+    IF v_start IS NULL OR LENGTH(v_start) <> LENGTH(v_target) OR v_start = v_target THEN
+      RAISE EXCEPTION 'A word ladder needs a start word of the same length as its target';
+    END IF;
+
+    IF NOT validate_word(v_start, v_language) OR NOT validate_word(v_target, v_language) THEN
+      RAISE EXCEPTION 'Word ladder start and target must both be in the dictionary';
+    END IF;
+
+    v_puzzle := jsonb_build_object('start_word', v_start, 'target_word', v_target);
+    v_winner_criteria := COALESCE(v_winner_criteria, 'attempts');
+  END IF;
+
+  -- Anagram: players get the letters, scrambled here so the creator can't leak an order
+  IF bounty_data->>'bounty_type' = 'Anagram' THEN
+    v_puzzle := jsonb_build_object('letters', scramble_word(v_target));
+    v_winner_criteria := COALESCE(v_winner_criteria, 'time');
+    v_max_attempts := COALESCE(v_max_attempts, 6);
+  END IF;
+
+  -- Random words: drawn by activate_random_bounty(), so the creator never sees them
+  IF v_is_random THEN
+    IF jsonb_array_length(COALESCE(bounty_data->'words', '[]'::JSONB)) > 0 THEN
+      RAISE EXCEPTION 'Random words bounties draw their words on the server; send word_length and words_count instead';
+    END IF;
+
+    v_word_length := COALESCE((bounty_data->>'word_length')::INTEGER, 5);
+    v_words_count := COALESCE((bounty_data->>'words_count')::INTEGER, 1);
+
+    IF v_words_count NOT BETWEEN 1 AND 10 THEN
+      RAISE EXCEPTION 'Random words bounties draw 1 to 10 words (got %)', v_words_count;
+    END IF;
+
+    IF COALESCE(array_length(random_word_pool(v_language, v_word_length, v_common_only), 1), 0) < v_words_count THEN
+      RAISE EXCEPTION 'Not enough % letter words in the % dictionary to draw %', v_word_length, v_language, v_words_count;
+    END IF;
+  END IF;
+
+  -- Get or create user
+  user_uuid := public.get_or_create_user(wallet_addr);
+
+  -- Create bounty
+  INSERT INTO bounties (
+    name,
+    description,
+    creator_id,
+    bounty_type,
+    prize_amount,
+    prize_currency,
+    words,
+    word_lengths,
+    hints,
+    hint_penalties,
+    max_participants,
+    max_attempts_per_user,
+    time_limit_seconds,
+    winner_criteria,
+    duration_hours,
+    status,
+    is_public,
+    requires_registration,
+    hard_mode,
+    language,
+    puzzle,
+    start_time,
+    end_time
+  ) VALUES (
+    bounty_data->>'name',
+    bounty_data->>'description',
+    user_uuid,
+    COALESCE((bounty_data->>'bounty_type')::bounty_type, 'Simple'::bounty_type),
+    COALESCE((bounty_data->>'prize_amount')::DECIMAL, 0),
+    COALESCE(bounty_data->>'prize_currency', 'HBAR'),
+    CASE WHEN v_is_random THEN NULL ELSE COALESCE(
+      ARRAY(SELECT normalize_word(w, v_language) FROM jsonb_array_elements_text(bounty_data->'words') AS w),
+      ARRAY['WORDLE']
+    ) END,
+    -- Set from the words by seal_bounty_words (migration 040); known up front for draws
+    CASE WHEN v_is_random THEN array_fill(v_word_length, ARRAY[v_words_count]) END,
+    COALESCE(
+      ARRAY(SELECT jsonb_array_elements_text(bounty_data->'hints')),
+      ARRAY[]::TEXT[]
+    ),
+    COALESCE(
+      ARRAY(SELECT jsonb_array_elements_text(bounty_data->'hint_penalties')::DECIMAL(10, 2)),
+      ARRAY[]::DECIMAL(10, 2)[]
+    ),
+    (bounty_data->>'max_participants')::INTEGER,
+    v_max_attempts,
+    (bounty_data->>'time_limit_seconds')::INTEGER,
+    COALESCE(v_winner_criteria, 'attempts'::winner_criteria),
+    (bounty_data->>'duration_hours')::INTEGER,
+    CASE
+      WHEN v_is_random THEN 'draft'::bounty_status
+      ELSE COALESCE((bounty_data->>'status')::bounty_status, 'active'::bounty_status)
+    END,
+    COALESCE((bounty_data->>'is_public')::BOOLEAN, true),
+    COALESCE((bounty_data->>'requires_registration')::BOOLEAN, false),
+    COALESCE((bounty_data->>'hard_mode')::BOOLEAN, false),
+    v_language,
+    v_puzzle,
+    -- Draws start their clock at activation
+    CASE WHEN v_is_random THEN NULL ELSE NOW() END,
+    CASE
+      WHEN NOT v_is_random AND bounty_data->>'duration_hours' IS NOT NULL
+      THEN NOW() + ((bounty_data->>'duration_hours')::INTEGER || ' hours')::INTERVAL
+      ELSE NULL
+    END
+  ) RETURNING id INTO bounty_uuid;
+
+  -- Commit to the draw's server seed before any entropy exists
+  IF v_is_random THEN
+    v_server_seed := md5(gen_random_uuid()::TEXT) || md5(gen_random_uuid()::TEXT);
+
+    INSERT INTO bounty_draws (bounty_id, server_seed, seed_commitment, language, word_length, words_count, common_only)
+    VALUES (
+      bounty_uuid,
+      v_server_seed,
+      encode(digest(v_server_seed, 'sha256'), 'hex'),
+      v_language,
+      v_word_length,
+      v_words_count,
+      v_common_only
+    );
+  END IF;
+
+  RETURN bounty_uuid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.create_bounty_with_wallet(VARCHAR, JSONB) TO anon;
+GRANT EXECUTE ON FUNCTION public.create_bounty_with_wallet(VARCHAR, JSONB) TO authenticated;
+
+-- ============================================================================
+-- FUNCTION 5: activate_random_bounty
+-- ============================================================================
+-- Creator only, once record_bounty_commitment() has stored the createBounty
+-- transaction. Draws the words, seals them and starts the bounty. Returns
+-- get_bounty_draw(), which still hides the words.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION activate_random_bounty(
+    bounty_uuid UUID,
+    wallet_addr TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+    bounty_record RECORD;
+    draw_record RECORD;
+    v_entropy TEXT;
+    v_seed TEXT;
+    v_pool TEXT[];
+BEGIN
+    SELECT b.* INTO bounty_record
+    FROM bounties b
+    JOIN users u ON u.id = b.creator_id
+    WHERE b.id = bounty_uuid AND u.wallet_address = wallet_addr
+    FOR UPDATE OF b;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Only the creator can activate bounty %', bounty_uuid;
+    END IF;
+
+    SELECT * INTO draw_record FROM bounty_draws WHERE bounty_id = bounty_uuid;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bounty % has no random draw', bounty_uuid;
+    END IF;
+
+    IF draw_record.drawn_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Bounty % words were already drawn', bounty_uuid;
+    END IF;
+
+    -- The entropy must postdate seed_commitment, which createBounty puts on-chain
+    IF bounty_record.solution_commitment IS NULL OR bounty_record.transaction_hash IS NULL THEN
+        RAISE EXCEPTION 'Record the createBounty transaction with record_bounty_commitment() first';
+    END IF;
+
+    v_entropy := lower(bounty_record.transaction_hash);
+    v_seed := encode(digest(draw_record.server_seed || ':' || v_entropy, 'sha256'), 'hex');
+    v_pool := random_word_pool(draw_record.language, draw_record.word_length, draw_record.common_only);
+
+    UPDATE bounty_draws
+    SET
+        entropy = v_entropy,
+        seed = v_seed,
+        pool_size = COALESCE(array_length(v_pool, 1), 0),
+        pool_hash = encode(digest(array_to_string(v_pool, ','), 'sha256'), 'hex'),
+        drawn_at = NOW()
+    WHERE bounty_id = bounty_uuid;
+
+    -- Sealed by seal_bounty_words (migration 040) before the row is stored
+    UPDATE bounties
+    SET
+        words = draw_random_words(v_seed, v_pool, draw_record.words_count),
+        status = 'active',
+        start_time = NOW(),
+        end_time = CASE
+            WHEN duration_hours IS NOT NULL THEN NOW() + (duration_hours || ' hours')::INTERVAL
+            ELSE NULL
+        END,
+        updated_at = NOW()
+    WHERE id = bounty_uuid;
+
+    RETURN get_bounty_draw(bounty_uuid);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION activate_random_bounty(UUID, TEXT) IS
+'Creator only: draws a Random words bounty''s words from its committed seed and the createBounty transaction, then makes it active.';
+
+GRANT EXECUTE ON FUNCTION activate_random_bounty(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION activate_random_bounty(UUID, TEXT) TO anon;
+
+-- ============================================================================
+-- FUNCTION 6: get_bounty_draw
+-- ============================================================================
+-- Public. Returns
+-- { seed_commitment, language, word_length, words_count, common_only,
+--   entropy, pool_size, pool_hash, drawn_at, server_seed, seed, words }.
+-- server_seed, seed and words stay null until the bounty has ended (same
+-- rule as get_bounty_details).
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_bounty_draw(bounty_uuid UUID)
+RETURNS JSONB AS $$
+DECLARE
+    draw_record RECORD;
+    v_revealed BOOLEAN;
+BEGIN
+    SELECT bd.*, b.status, b.end_time INTO draw_record
+    FROM bounty_draws bd
+    JOIN bounties b ON b.id = bd.bounty_id
+    WHERE bd.bounty_id = bounty_uuid;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bounty % has no random draw', bounty_uuid;
+    END IF;
+
+    v_revealed := draw_record.drawn_at IS NOT NULL AND (
+        draw_record.status IN ('completed', 'cancelled', 'expired')
+        OR (draw_record.end_time IS NOT NULL AND draw_record.end_time <= NOW())
+    );
+
+    RETURN jsonb_build_object(
+        'seed_commitment', draw_record.seed_commitment,
+        'language', draw_record.language,
+        'word_length', draw_record.word_length,
+        'words_count', draw_record.words_count,
+        'common_only', draw_record.common_only,
+        'entropy', draw_record.entropy,
+        'pool_size', draw_record.pool_size,
+        'pool_hash', draw_record.pool_hash,
+        'drawn_at', draw_record.drawn_at,
+        'server_seed', CASE WHEN v_revealed THEN draw_record.server_seed ELSE NULL END,
+        'seed', CASE WHEN v_revealed THEN draw_record.seed ELSE NULL END,
+        'words', CASE WHEN v_revealed THEN to_jsonb(bounty_words(bounty_uuid)) ELSE NULL END
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION get_bounty_draw(UUID) IS
+'Public record of a Random words draw. server_seed, seed and words are only returned once the bounty has ended.';
+
+GRANT EXECUTE ON FUNCTION get_bounty_draw(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_bounty_draw(UUID) TO anon;
+
+-- ============================================================================
+-- FUNCTION 7: lock_committed_words (trigger on bounties)
+-- ============================================================================
+-- Same as migration 040, plus: Random words bounties only take words from
+-- their draw, once. Their commitment is to the seed, so the draw itself may
+-- write words after it is recorded. Now also runs on INSERT, and as
+-- SECURITY DEFINER since clients can't read bounty_draws.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION lock_committed_words()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.bounty_type = 'Random words' AND NEW.words IS NOT NULL AND NOT EXISTS (
+        SELECT 1
+        FROM bounty_draws bd
+        WHERE bd.bounty_id = NEW.id
+          AND bd.drawn_at IS NOT NULL
+          AND NOT EXISTS (SELECT 1 FROM bounty_secrets bs WHERE bs.bounty_id = NEW.id)
+    ) THEN
+        RAISE EXCEPTION 'Random words bounty % draws its words on the server', NEW.id;
+    END IF;
+
+    IF TG_OP = 'UPDATE' AND OLD.solution_commitment IS NOT NULL AND (
+        (NEW.words IS NOT NULL AND NEW.words IS DISTINCT FROM OLD.words AND NEW.bounty_type <> 'Random words')
+        OR NEW.solution_commitment IS DISTINCT FROM OLD.solution_commitment
+    ) THEN
+        RAISE EXCEPTION 'Bounty % words are locked by their on-chain commitment', OLD.id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS lock_committed_words ON bounties;
+CREATE TRIGGER lock_committed_words
+    BEFORE INSERT OR UPDATE OF words, solution_commitment ON bounties
+    FOR EACH ROW EXECUTE FUNCTION lock_committed_words();
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+-- What changed:
+-- - Private bounty_draws (server seeds and draw records)
+-- - random_word_pool() / draw_random_words(), public and deterministic
+-- - activate_random_bounty() and get_bounty_draw()
+-- - create_bounty_with_wallet(): Random words take word_length, words_count
+--   and common_only, and start as drafts
+-- - prepare_bounty_commitment() / get_bounty_reveal() commit Random words
+--   bounties to seed_commitment
+-- - lock_committed_words() only lets the draw write Random words words
+--
+-- Client:
+-- - CreateBountyPage: drop getRandomWords() for Random words; send
+--   { word_length: 5, words_count: form.words.length }, then after
+--   record_bounty_commitment call activate_random_bounty
+-- - BountyDetails: once ended, fetch get_bounty_draw() and the pool with
+--   random_word_pool(language, word_length, common_only), then show
+--   verifyRandomDraw()
+-- ============================================================================
@@ -0,0 +1,751 @@
+-- ============================================================================
+-- Migration 042: Entry-Fee Bounties
+-- Created: 2026-10-19
+-- Purpose: Let creators charge an entry fee that grows the prize pool
+-- ============================================================================
+-- ISSUE: joinBounty on the escrow is free and joinBountyWithTracking records
+-- a zero-amount 'bounty_join' transaction (which the transaction_type and
+-- amount checks reject anyway). The prize is whatever the creator deposited.
+--
+-- SOLUTION:
+-- 1. bounties.entry_fee is set at creation and matches the escrow's
+--    createBountyWithEntryFee. Every join pays it on-chain into the
+--    bounty's escrowed prize, and join_bounty() records the payment.
+-- 2. entry_fees_collected is kept up to date by a trigger on
+--    bounty_participants (like participant_count, migration 015), and
+--    prize_pool = prize_amount + entry_fees_collected. The creator's
+--    prize_amount is the guaranteed minimum.
+-- 3. Winners split prize_pool. If the bounty is cancelled or expires,
+--    players claim their fee back with claimEntryRefund on the escrow, and
+--    record_entry_refund() records it.
+-- 4. bounties joins the supabase_realtime publication so BountyCard and
+--    GameplayPage can follow prize_pool as players join.
+-- ============================================================================
+
+ALTER TABLE bounties
+    ADD COLUMN IF NOT EXISTS entry_fee DECIMAL(20, 8) NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS entry_fees_collected DECIMAL(20, 8) NOT NULL DEFAULT 0;
+
+ALTER TABLE bounties
+    ADD COLUMN IF NOT EXISTS prize_pool DECIMAL(20, 8)
+        GENERATED ALWAYS AS (prize_amount + entry_fees_collected) STORED;
+
+ALTER TABLE bounties DROP CONSTRAINT IF EXISTS bounties_entry_fee_check;
+ALTER TABLE bounties
+    ADD CONSTRAINT bounties_entry_fee_check CHECK (entry_fee >= 0 AND entry_fees_collected >= 0);
+
+COMMENT ON COLUMN bounties.entry_fee IS
+'HBAR each player pays into the escrowed prize when joining (0 = free)';
+COMMENT ON COLUMN bounties.prize_pool IS
+'prize_amount plus every entry fee paid; what the winners split';
+
+ALTER TABLE bounty_participants
+    ADD COLUMN IF NOT EXISTS entry_fee_paid DECIMAL(20, 8) NOT NULL DEFAULT 0,
+    ADD COLUMN IF NOT EXISTS entry_tx_hash VARCHAR(255),
+    ADD COLUMN IF NOT EXISTS entry_refunded_at TIMESTAMP WITH TIME ZONE;
+
+-- Entry fees are payment transactions too
+ALTER TABLE payment_transactions
+DROP CONSTRAINT IF EXISTS check_valid_transaction_type;
+
+ALTER TABLE payment_transactions
+ADD CONSTRAINT check_valid_transaction_type
+CHECK (transaction_type IN ('deposit', 'prize_payment', 'refund', 'entry_fee'));
+
+CREATE OR REPLACE FUNCTION is_valid_transaction_type(tx_type VARCHAR(50))
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN tx_type IN ('deposit', 'prize_payment', 'refund', 'entry_fee');
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Realtime: BountyCard and GameplayPage subscribe to prize_pool updates
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime') THEN
+        IF NOT EXISTS (
+            SELECT 1 FROM pg_publication_tables
+            WHERE pubname = 'supabase_realtime' AND tablename = 'bounties'
+        ) THEN
+            ALTER PUBLICATION supabase_realtime ADD TABLE bounties;
+        END IF;
+    END IF;
+END $$;
+
+-- ============================================================================
+-- TRIGGERS: add_entry_fee_to_pool / lock_entry_fee
+-- ============================================================================
+-- Fees join the pool when a player joins, the same way
+-- auto_increment_participant_count counts them. A bounty's fee can't change
+-- once someone has paid it.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION add_entry_fee_to_pool()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.entry_fee_paid > 0 THEN
+        UPDATE bounties
+        SET entry_fees_collected = entry_fees_collected + NEW.entry_fee_paid
+        WHERE id = NEW.bounty_id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS add_entry_fee_to_pool ON bounty_participants;
+CREATE TRIGGER add_entry_fee_to_pool
+    AFTER INSERT ON bounty_participants
+    FOR EACH ROW EXECUTE FUNCTION add_entry_fee_to_pool();
+
+CREATE OR REPLACE FUNCTION lock_entry_fee()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.entry_fee IS DISTINCT FROM OLD.entry_fee AND OLD.entry_fees_collected > 0 THEN
+        RAISE EXCEPTION 'Bounty % entry fee is locked once players have paid it', OLD.id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS lock_entry_fee ON bounties;
+CREATE TRIGGER lock_entry_fee
+    BEFORE UPDATE OF entry_fee ON bounties
+    FOR EACH ROW EXECUTE FUNCTION lock_entry_fee();
+
+-- ============================================================================
+-- FUNCTION 1: join_bounty
+-- ============================================================================
+-- Same as migration 021, plus entry fees: a fee bounty needs the joinBounty
+-- transaction that paid it, which is recorded as an 'entry_fee' payment.
+-- The old two-argument version is dropped so RPC calls aren't ambiguous.
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS join_bounty(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION join_bounty(
+    bounty_uuid UUID,
+    wallet_addr TEXT,
+    entry_tx_hash TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+    user_uuid UUID;
+    participant_id UUID;
+    bounty_record RECORD;
+BEGIN
+    -- Get or create user
+    user_uuid := upsert_user(wallet_addr);
+
+    -- Check if bounty exists and is joinable
+    SELECT * INTO bounty_record
+    FROM bounties
+    WHERE id = bounty_uuid
+    AND status = 'active'
+    AND is_public = true
+    AND (end_time IS NULL OR end_time > NOW())
+    AND (max_participants IS NULL OR participant_count < max_participants);
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bounty not found or not joinable';
+    END IF;
+
+    -- Check if user already joined
+    SELECT id INTO participant_id
+    FROM bounty_participants
+    WHERE bounty_id = bounty_uuid AND user_id = user_uuid;
+
+    IF FOUND THEN
+        RAISE EXCEPTION 'User already joined this bounty';
+    END IF;
+
+    IF bounty_record.entry_fee > 0 AND entry_tx_hash IS NULL THEN
+        RAISE EXCEPTION 'Bounty % has a % % entry fee; pay it with joinBounty first',
+            bounty_uuid, bounty_record.entry_fee, bounty_record.prize_currency;
+    END IF;
+
+    -- Join the bounty (participant_count and entry_fees_collected follow by trigger)
+    INSERT INTO bounty_participants (bounty_id, user_id, status, entry_fee_paid, entry_tx_hash)
+    VALUES (
+        bounty_uuid,
+        user_uuid,
+        'active',
+        bounty_record.entry_fee,
+        CASE WHEN bounty_record.entry_fee > 0 THEN entry_tx_hash END
+    )
+    RETURNING id INTO participant_id;
+
+    IF bounty_record.entry_fee > 0 THEN
+        INSERT INTO payment_transactions (
+            bounty_id, user_id, transaction_hash, transaction_type,
+            amount, currency, from_address, status, confirmed_at
+        ) VALUES (
+            bounty_uuid, user_uuid, entry_tx_hash, 'entry_fee',
+            bounty_record.entry_fee, bounty_record.prize_currency, wallet_addr, 'confirmed', NOW()
+        );
+    END IF;
+
+    RETURN participant_id;
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION join_bounty(UUID, TEXT, TEXT) IS
+'Adds a user to a bounty. Fee bounties need the joinBounty transaction hash, recorded as an entry_fee payment (migration 042). Participant count and entry_fees_collected are kept by triggers.';
+
+GRANT EXECUTE ON FUNCTION join_bounty(UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION join_bounty(UUID, TEXT, TEXT) TO anon;
+
+-- ============================================================================
+-- FUNCTION 2: record_entry_refund
+-- ============================================================================
+-- Player only, after claimEntryRefund on the escrow. Only cancelled or
+-- expired bounties refund entry fees. Returns the amount refunded.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION record_entry_refund(
+    bounty_uuid UUID,
+    wallet_addr TEXT,
+    refund_tx_hash TEXT
+)
+RETURNS DECIMAL(20, 8) AS $$
+DECLARE
+    participant_record RECORD;
+BEGIN
+    SELECT bp.*, b.status AS bounty_status, b.prize_currency INTO participant_record
+    FROM bounty_participants bp
+    JOIN bounties b ON b.id = bp.bounty_id
+    JOIN users u ON u.id = bp.user_id
+    WHERE bp.bounty_id = bounty_uuid AND u.wallet_address = wallet_addr
+    FOR UPDATE OF bp;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User has not joined bounty %', bounty_uuid;
+    END IF;
+
+    IF participant_record.bounty_status NOT IN ('cancelled', 'expired') THEN
+        RAISE EXCEPTION 'Entry fees are only refunded for cancelled or expired bounties (bounty % is %)',
+            bounty_uuid, participant_record.bounty_status;
+    END IF;
+
+    IF participant_record.entry_fee_paid <= 0 THEN
+        RAISE EXCEPTION 'No entry fee to refund for bounty %', bounty_uuid;
+    END IF;
+
+    IF participant_record.entry_refunded_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Entry fee for bounty % was already refunded', bounty_uuid;
+    END IF;
+
+    UPDATE bounty_participants
+    SET entry_refunded_at = NOW()
+    WHERE id = participant_record.id;
+
+    INSERT INTO payment_transactions (
+        bounty_id, user_id, transaction_hash, transaction_type,
+        amount, currency, to_address, status, confirmed_at
+    ) VALUES (
+        bounty_uuid, participant_record.user_id, refund_tx_hash, 'refund',
+        participant_record.entry_fee_paid, participant_record.prize_currency, wallet_addr, 'confirmed', NOW()
+    );
+
+    RETURN participant_record.entry_fee_paid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION record_entry_refund(UUID, TEXT, TEXT) IS
+'Records a player''s claimEntryRefund for a cancelled or expired bounty and returns the refunded entry fee.';
+
+GRANT EXECUTE ON FUNCTION record_entry_refund(UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION record_entry_refund(UUID, TEXT, TEXT) TO anon;
+
+-- ============================================================================
+-- FUNCTION 3: create_bounty_with_wallet
+-- ============================================================================
+-- Same as migration 041, plus entry_fee (HBAR per join, default 0).
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.create_bounty_with_wallet(
+  wallet_addr VARCHAR(255),
+  bounty_data JSONB
+) RETURNS UUID AS $$
+DECLARE
+  user_uuid UUID;
+  bounty_uuid UUID;
+  v_language TEXT := COALESCE(bounty_data->>'language', 'en');
+  v_board_count INTEGER;
+  v_max_attempts INTEGER := (bounty_data->>'max_attempts_per_user')::INTEGER;
+  v_winner_criteria winner_criteria := (bounty_data->>'winner_criteria')::winner_criteria;
+  v_target TEXT;
+  v_start TEXT;
+  v_puzzle JSONB;
+  v_is_random BOOLEAN := bounty_data->>'bounty_type' = 'Random words';
+  v_word_length INTEGER;
+  v_words_count INTEGER;
+  v_common_only BOOLEAN := COALESCE((bounty_data->>'common_only')::BOOLEAN, true);
+  v_server_seed TEXT;
+  v_entry_fee DECIMAL(20, 8) := COALESCE((bounty_data->>'entry_fee')::DECIMAL(20, 8), 0);
+BEGIN
+  IF v_entry_fee < 0 THEN
+    RAISE EXCEPTION 'Entry fee can''t be negative (got %)', v_entry_fee;
+  END IF;
+
+  -- Multi-board: 2, 4 or 8 words of one length, sharing one attempt budget
+  IF bounty_data->>'bounty_type' = 'Multi-board' THEN
+    v_board_count := jsonb_array_length(COALESCE(bounty_data->'words', '[]'::JSONB));
+
+    IF v_board_count NOT IN (2, 4, 8) THEN
+      RAISE EXCEPTION 'Multi-board bounties need 2, 4 or 8 words (got %)', v_board_count;
+    END IF;
+
+    IF (
+      SELECT COUNT(DISTINCT LENGTH(normalize_word(w, v_language)))
+      FROM jsonb_array_elements_text(bounty_data->'words') AS w
+    ) <> 1 THEN
+      RAISE EXCEPTION 'Every board of a multi-board bounty needs a word of the same length';
+    END IF;
+
+    v_max_attempts := COALESCE(v_max_attempts, v_board_count + 5);
+  END IF;
+
+  -- Word ladder and anagram: exactly one target word
+  IF bounty_data->>'bounty_type' IN ('Word-ladder', 'Anagram') THEN
+    IF jsonb_array_length(COALESCE(bounty_data->'words', '[]'::JSONB)) <> 1 THEN
+      RAISE EXCEPTION '% bounties need exactly one word', bounty_data->>'bounty_type';
+    END IF;
+
+    IF v_winner_criteria IN ('words-correct', 'boards-solved') THEN
+      RAISE EXCEPTION '% bounties can''t use winner criteria %', bounty_data->>'bounty_type', v_winner_criteria;
+    END IF;
+
+    v_target := normalize_word(bounty_data->'words'->>0, v_language);
+  END IF;
+
+  -- Word ladder: every step is checked against the dictionary, so both ends must be in it
+  IF bounty_data->>'bounty_type' = 'Word-ladder' THEN
+    v_start := normalize_word(bounty_data->>'start_word', v_language);
+
+    IF v_start IS NULL OR LENGTH(v_start) <> LENGTH(v_target) OR v_start = v_target THEN
+      RAISE EXCEPTION 'A word ladder needs a start word of the same length as its target';
+    END IF;
+
+    IF NOT validate_word(v_start, v_language) OR NOT validate_word(v_target, v_language) THEN
+      RAISE EXCEPTION 'Word ladder start and target must both be in the dictionary';
+    END IF;
+
+    v_puzzle := jsonb_build_object('start_word', v_start, 'target_word', v_target);
+    v_winner_criteria := COALESCE(v_winner_criteria, 'attempts');
+  END IF;
+
+  -- Anagram: players get the letters, scrambled here so the creator can't leak an order
+  IF bounty_data->>'bounty_type' = 'Anagram' THEN
+    v_puzzle := jsonb_build_object('letters', scramble_word(v_target));
+    v_winner_criteria := COALESCE(v_winner_criteria, 'time');
+    v_max_attempts := COALESCE(v_max_attempts, 6);
+  END IF;
+
+  -- Random words: drawn by activate_random_bounty(), so the creator never sees them
+  IF v_is_random THEN
+    IF jsonb_array_length(COALESCE(bounty_data->'words', '[]'::JSONB)) > 0 THEN
+      RAISE EXCEPTION 'Random words bounties draw their words on the server; send word_length and words_count instead';
+    END IF;
+
+    v_word_length := COALESCE((bounty_data->>'word_length')::INTEGER, 5);
+    v_words_count := COALESCE((bounty_data->>'words_count')::INTEGER, 1);
+
+    IF v_words_count NOT BETWEEN 1 AND 10 THEN
+      RAISE EXCEPTION 'Random words bounties draw 1 to 10 words (got %)', v_words_count;
+    END IF;
+
+    IF COALESCE(array_length(random_word_pool(v_language, v_word_length, v_common_only), 1), 0) < v_words_count THEN
+      RAISE EXCEPTION 'Not enough % letter words in the % dictionary to draw %', v_word_length, v_language, v_words_count;
+    END IF;
+  END IF;
+
+  -- Get or create user
+  user_uuid := public.get_or_create_user(wallet_addr);
+
+  -- Create bounty
+  INSERT INTO bounties (
+    name,
+    description,
+    creator_id,
+    bounty_type,
+    prize_amount,
+    prize_currency,
+    entry_fee,
+    words,
+    word_lengths,
+    hints,
+    hint_penalties,
+    max_participants,
+    max_attempts_per_user,
+    time_limit_seconds,
+    winner_criteria,
+    duration_hours,
+    status,
+    is_public,
+    requires_registration,
+    hard_mode,
+    language,
+    puzzle,
+    start_time,
+    end_time
+  ) VALUES (
+    bounty_data->>'name',
+    bounty_data->>'description',
+    user_uuid,
+    COALESCE((bounty_data->>'bounty_type')::bounty_type, 'Simple'::bounty_type),
+    COALESCE((bounty_data->>'prize_amount')::DECIMAL, 0),
+    COALESCE(bounty_data->>'prize_currency', 'HBAR'),
+    v_entry_fee,
+    CASE WHEN v_is_random THEN NULL ELSE COALESCE(
+      ARRAY(SELECT normalize_word(w, v_language) FROM jsonb_array_elements_text(bounty_data->'words') AS w),
+      ARRAY['WORDLE']
+    ) END,
+    -- Set from the words by seal_bounty_words (migration 040); known up front for draws
+    CASE WHEN v_is_random THEN array_fill(v_word_length, ARRAY[v_words_count]) END,
+    COALESCE(
+      ARRAY(SELECT jsonb_array_elements_text(bounty_data->'hints')),
+      ARRAY[]::TEXT[]
+    ),
+    COALESCE(
+      ARRAY(SELECT jsonb_array_elements_text(bounty_data->'hint_penalties')::DECIMAL(10, 2)),
+      ARRAY[]::DECIMAL(10, 2)[]
+    ),
+    (bounty_data->>'max_participants')::INTEGER,
+    v_max_attempts,
+    (bounty_data->>'time_limit_seconds')::INTEGER,
+    COALESCE(v_winner_criteria, 'attempts'::winner_criteria),
+    (bounty_data->>'duration_hours')::INTEGER,
+    CASE
+      WHEN v_is_random THEN 'draft'::bounty_status
+      ELSE COALESCE((bounty_data->>'status')::bounty_status, 'active'::bounty_status)
+    END,
+    COALESCE((bounty_data->>'is_public')::BOOLEAN, true),
+    COALESCE((bounty_data->>'requires_registration')::BOOLEAN, false),
+    COALESCE((bounty_data->>'hard_mode')::BOOLEAN, false),
+    v_language,
+    v_puzzle,
+    -- Draws start their clock at activation
+    CASE WHEN v_is_random THEN NULL ELSE NOW() END,
+    CASE
+      WHEN NOT v_is_random AND bounty_data->>'duration_hours' IS NOT NULL
+      THEN NOW() + ((bounty_data->>'duration_hours')::INTEGER || ' hours')::INTERVAL
+      ELSE NULL
+    END
+  ) RETURNING id INTO bounty_uuid;
+
+  -- Commit to the draw's server seed before any entropy exists
+  IF v_is_random THEN
+    v_server_seed := md5(gen_random_uuid()::TEXT) || md5(gen_random_uuid()::TEXT);
+
+    INSERT INTO bounty_draws (bounty_id, server_seed, seed_commitment, language, word_length, words_count, common_only)
+    VALUES (
+      bounty_uuid,
+      v_server_seed,
+      encode(digest(v_server_seed, 'sha256'), 'hex'),
+      v_language,
+      v_word_length,
+      v_words_count,
+      v_common_only
+    );
+  END IF;
+
+  RETURN bounty_uuid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.create_bounty_with_wallet(VARCHAR, JSONB) TO anon;
+GRANT EXECUTE ON FUNCTION public.create_bounty_with_wallet(VARCHAR, JSONB) TO authenticated;
+
+-- ============================================================================
+-- FUNCTION 4: get_bounty_details
+-- ============================================================================
+-- Same as migration 040, plus entry_fee and prize_pool, and the caller's
+-- entry_fee_paid / entry_refunded_at.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_bounty_details(
+    bounty_uuid UUID,
+    wallet_addr TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    bounty_record RECORD;
+    participation_record RECORD;
+    user_uuid UUID;
+    words_revealed BOOLEAN;
+    result JSONB;
+BEGIN
+    -- Get bounty
+    SELECT
+        b.*,
+        u.username as creator_username,
+        u.display_name as creator_display_name
+    INTO bounty_record
+    FROM bounties b
+    JOIN users u ON b.creator_id = u.id
+    WHERE b.id = bounty_uuid;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bounty not found';
+    END IF;
+
+    -- Solutions are only safe to publish once nobody can play anymore
+    words_revealed := bounty_record.status IN ('completed', 'cancelled', 'expired')
+        OR (bounty_record.end_time IS NOT NULL AND bounty_record.end_time <= NOW());
+
+    -- Get user participation if wallet provided
+    participation_record := NULL;
+    IF wallet_addr IS NOT NULL THEN
+        SELECT id INTO user_uuid FROM users WHERE wallet_address = wallet_addr;
+        IF FOUND THEN
+            SELECT * INTO participation_record
+            FROM bounty_participants
+            WHERE bounty_id = bounty_uuid AND user_id = user_uuid;
+        END IF;
+    END IF;
+
+    -- Build result
+    result := jsonb_build_object(
+        'id', bounty_record.id,
+        'name', bounty_record.name,
+        'description', bounty_record.description,
+        'bounty_type', bounty_record.bounty_type,
+        'prize_amount', bounty_record.prize_amount,
+        'prize_currency', bounty_record.prize_currency,
+        'entry_fee', bounty_record.entry_fee,
+        'prize_pool', bounty_record.prize_pool,
+        'status', bounty_record.status,
+        'is_public', bounty_record.is_public,
+        'participant_count', bounty_record.participant_count,
+        'max_participants', bounty_record.max_participants,
+        'max_attempts_per_user', bounty_record.max_attempts_per_user,
+        'time_limit_seconds', bounty_record.time_limit_seconds,
+        'hard_mode', bounty_record.hard_mode,
+        'language', bounty_record.language,
+        'puzzle', bounty_record.puzzle,
+        'start_time', bounty_record.start_time,
+        'end_time', bounty_record.end_time,
+        'duration_hours', bounty_record.duration_hours,
+        'created_at', bounty_record.created_at,
+        'server_time', NOW(),
+        'creator', jsonb_build_object(
+            'username', bounty_record.creator_username,
+            'display_name', bounty_record.creator_display_name
+        ),
+        'words', CASE WHEN words_revealed THEN to_jsonb(bounty_words(bounty_record.id)) ELSE NULL END,
+        'word_lengths', to_jsonb(bounty_record.word_lengths),
+        'words_count', bounty_record.words_count,
+        -- Hint text is only handed out through unlock_hint() while the bounty runs
+        'hints', CASE WHEN words_revealed THEN to_jsonb(bounty_record.hints) ELSE NULL END,
+        'hints_count', COALESCE(array_length(bounty_record.hints, 1), 0),
+        'hint_penalties', to_jsonb(bounty_record.hint_penalties),
+        'participation', CASE
+            WHEN participation_record IS NOT NULL THEN
+                jsonb_build_object(
+                    'status', participation_record.status,
+                    'joined_at', participation_record.joined_at,
+                    'current_word_index', participation_record.current_word_index,
+                    'total_attempts', participation_record.total_attempts,
+                    'words_completed', participation_record.words_completed,
+                    'total_time_seconds', participation_record.total_time_seconds,
+                    'session_started_at', participation_record.session_started_at,
+                    'session_ended_at', participation_record.session_ended_at,
+                    'is_winner', participation_record.is_winner,
+                    'hints_used', participation_record.hints_used,
+                    'hint_penalty_total', participation_record.hint_penalty_total,
+                    'entry_fee_paid', participation_record.entry_fee_paid,
+                    'entry_refunded_at', participation_record.entry_refunded_at,
+                    'unlocked_hints', to_jsonb(bounty_record.hints[1:participation_record.hints_used])
+                )
+            ELSE NULL
+        END
+    );
+
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+
+-- ============================================================================
+-- FUNCTION 5: determine_bounty_winner
+-- ============================================================================
+-- Same as migration 037, except prize shares split prize_pool instead of
+-- prize_amount.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION determine_bounty_winner(bounty_uuid UUID)
+RETURNS TABLE(
+    user_id UUID,
+    prize_share DECIMAL(20, 8),
+    ranking INTEGER,
+    metric_value DECIMAL(20, 4)
+) AS $$
+DECLARE
+    v_winner_criteria winner_criteria;
+    v_prize_distribution prize_distribution;
+    v_prize_amount DECIMAL(20, 8);
+    v_bounty_status VARCHAR(20);
+    v_max_winners INTEGER;
+    v_is_duel BOOLEAN;
+    v_bounty_type bounty_type;
+BEGIN
+    -- Log function call
+    RAISE NOTICE 'determine_bounty_winner() called for bounty: %', bounty_uuid;
+
+    -- Get bounty details
+    SELECT b.winner_criteria, b.prize_distribution, b.prize_pool, b.status, b.bounty_type
+    INTO v_winner_criteria, v_prize_distribution, v_prize_amount, v_bounty_status, v_bounty_type
+    FROM bounties b
+    WHERE b.id = bounty_uuid;
+
+    -- Validate bounty exists
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bounty not found: %', bounty_uuid;
+    END IF;
+
+    -- Validate bounty is completed or can be completed
+    IF v_bounty_status NOT IN ('completed', 'active', 'expired') THEN
+        RAISE EXCEPTION 'Bounty cannot be completed. Current status: %', v_bounty_status;
+    END IF;
+
+    -- Duels: whoever solved first takes the pot
+    v_is_duel := EXISTS (SELECT 1 FROM duels d WHERE d.bounty_id = bounty_uuid);
+
+    IF v_is_duel THEN
+        v_winner_criteria := 'first-to-solve';
+        v_prize_distribution := 'winner-take-all';
+    END IF;
+
+    -- Word ladders and anagrams have a single word, so counting words or
+    -- boards can't separate players: shortest ladder / fastest unscramble
+    IF v_bounty_type = 'Word-ladder' AND v_winner_criteria IN ('words-correct', 'boards-solved') THEN
+        v_winner_criteria := 'attempts';
+    ELSIF v_bounty_type = 'Anagram' AND v_winner_criteria IN ('words-correct', 'boards-solved') THEN
+        v_winner_criteria := 'time';
+    END IF;
+
+    IF v_winner_criteria NOT IN ('first-to-solve', 'time', 'attempts', 'words-correct', 'boards-solved') THEN
+        RAISE EXCEPTION 'Unknown winner_criteria: %', v_winner_criteria;
+    END IF;
+
+    IF v_prize_distribution NOT IN ('winner-take-all', 'split-winners') THEN
+        RAISE EXCEPTION 'Unknown prize_distribution: %', v_prize_distribution;
+    END IF;
+
+    -- first-to-solve always has a single winner; split-winners pays the top 3
+    v_max_winners := CASE
+        WHEN v_winner_criteria <> 'first-to-solve' AND v_prize_distribution = 'split-winners' THEN 3
+        ELSE 1
+    END;
+
+    RAISE NOTICE 'Bounty details - Criteria: %, Distribution: %, Prize: %, Max winners: %',
+        v_winner_criteria, v_prize_distribution, v_prize_amount, v_max_winners;
+
+    RETURN QUERY
+    WITH candidates AS (
+        SELECT
+            bp.user_id AS candidate_id,
+            bp.completed_at,
+            bp.total_attempts,
+            bp.words_completed,
+            COALESCE(
+                EXTRACT(EPOCH FROM (bp.session_ended_at - bp.session_started_at)),
+                bp.total_time_seconds
+            )::DECIMAL(20, 4) AS session_seconds,
+            COALESCE(bp.hint_penalty_total, 0)::DECIMAL(20, 4) AS hint_penalty
+        FROM bounty_participants bp
+        WHERE bp.bounty_id = bounty_uuid
+          AND (
+              bp.status = 'completed'
+              -- Out of guesses with some boards solved still ranks on boards
+              OR (v_winner_criteria = 'boards-solved' AND bp.status = 'failed')
+          )
+    ),
+    scored AS (
+        SELECT
+            c.candidate_id,
+            c.session_seconds,
+            c.total_attempts,
+            (CASE v_winner_criteria
+                WHEN 'first-to-solve' THEN EXTRACT(EPOCH FROM c.completed_at) + c.hint_penalty
+                WHEN 'time' THEN c.session_seconds + c.hint_penalty
+                WHEN 'attempts' THEN c.total_attempts + c.hint_penalty
+                WHEN 'words-correct' THEN c.words_completed - c.hint_penalty
+                WHEN 'boards-solved' THEN c.words_completed - c.hint_penalty
+            END)::DECIMAL(20, 4) AS metric
+        FROM candidates c
+        WHERE CASE v_winner_criteria
+            WHEN 'first-to-solve' THEN c.completed_at IS NOT NULL
+            WHEN 'time' THEN c.session_seconds IS NOT NULL
+            WHEN 'attempts' THEN c.total_attempts > 0
+            WHEN 'words-correct' THEN c.words_completed > 0
+            WHEN 'boards-solved' THEN c.words_completed > 0
+        END
+    ),
+    ranked AS (
+        SELECT
+            s.candidate_id,
+            s.metric,
+            ROW_NUMBER() OVER (
+                ORDER BY
+                    -- words-correct and boards-solved are the criteria where higher is better
+                    CASE
+                        WHEN v_winner_criteria IN ('words-correct', 'boards-solved') THEN -s.metric
+                        ELSE s.metric
+                    END ASC,
+                    -- Equal boards: fewer guesses first
+                    CASE WHEN v_winner_criteria = 'boards-solved' THEN s.total_attempts END ASC NULLS LAST,
+                    s.session_seconds ASC NULLS LAST
+            ) AS position
+        FROM scored s
+    ),
+    winners AS (
+        SELECT r.candidate_id, r.metric, r.position
+        FROM ranked r
+        WHERE r.position <= v_max_winners
+    )
+    SELECT
+        w.candidate_id::UUID,
+        (v_prize_amount / COUNT(*) OVER ())::DECIMAL(20, 8),
+        w.position::INTEGER,
+        w.metric::DECIMAL(20, 4)
+    FROM winners w
+    ORDER BY w.position;
+
+    -- Log if no winners found
+    IF NOT FOUND THEN
+        RAISE WARNING 'No eligible winners found for bounty: %', bounty_uuid;
+    END IF;
+
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION determine_bounty_winner(UUID) IS
+'Analyzes all participants and determines winner(s) based on bounty winner_criteria. Time is taken from server-recorded session timestamps (migration 025); hint penalties are applied to the metric (migration 027). Duels are always first-to-solve (migration 033); boards-solved ranks multi-board bounties (migration 035); word ladders and anagrams fall back to attempts and time (migration 037). Prize shares split prize_pool, the prize plus entry fees (migration 042).';
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+-- What changed:
+-- - bounties.entry_fee, entry_fees_collected and generated prize_pool
+-- - bounty_participants.entry_fee_paid, entry_tx_hash, entry_refunded_at
+-- - 'entry_fee' payment transactions
+-- - bounties added to the supabase_realtime publication
+-- - join_bounty(bounty, wallet, entry_tx_hash) and record_entry_refund()
+-- - create_bounty_with_wallet() takes entry_fee; get_bounty_details()
+--   returns entry_fee, prize_pool and the caller's fee
+-- - determine_bounty_winner() splits prize_pool
+--
+-- Client:
+-- - EscrowService: createBountyWithEntryFee() when the form sets a fee;
+--   joinBounty() sends the fee from getBountyInfo as the transaction value
+-- - PaymentService.joinBountyWithTracking: pass the transaction hash to
+--   join_bounty instead of recording a zero 'bounty_join' transaction
+-- - BountyCard / GameplayPage: show prize_pool, kept live with a
+--   postgres_changes subscription on bounties (applyPrizePoolUpdate() in
+--   src/utils/game/prize-pool.ts)
+-- - Cancelled or expired fee bounties: claimEntryRefund, then
+--   record_entry_refund
+-- ============================================================================
@@ -0,0 +1,454 @@
+-- ============================================================================
+-- Migration 043: HTS Token Prizes
+-- Created: 2026-10-19
+-- Purpose: Fund and pay bounties in Hedera Token Service fungible tokens
+-- ============================================================================
+-- ISSUE: bounties.prize_currency defaults to 'HBAR' but nothing else works:
+-- the escrow only takes native value and the client assumes 18 decimals.
+--
+-- SOLUTION:
+-- 1. prize_tokens lists the HTS tokens bounties may use, with the ERC-20
+--    facade address the escrow calls (createBountyWithToken) and the
+--    token's decimals. Clients read it to scale amounts per token.
+-- 2. A token bounty stores prize_currency = the token symbol and
+--    prize_token_id. Amounts stay DECIMAL(20, 8) in whole tokens, so listed
+--    tokens can have at most 8 decimals.
+-- 3. Platform fees are kept per token on the escrow (accumulatedTokenFees);
+--    get_payment_stats_by_currency() gives AdminFeeManagement the same split.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS prize_tokens (
+    token_id VARCHAR(32) PRIMARY KEY,            -- e.g. '0.0.456858'
+    evm_address VARCHAR(42) UNIQUE NOT NULL,     -- ERC-20 facade address
+    symbol VARCHAR(10) UNIQUE NOT NULL,          -- stored in bounties.prize_currency
+    name VARCHAR(100),
+    decimals INTEGER NOT NULL,
+    is_active BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    CONSTRAINT prize_tokens_decimals_check CHECK (decimals BETWEEN 0 AND 8),
+    CONSTRAINT prize_tokens_symbol_check CHECK (symbol = upper(symbol) AND symbol <> 'HBAR')
+);
+
+ALTER TABLE prize_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Tokens are listed by the platform (service role); everyone can read them
+DROP POLICY IF EXISTS "Anyone can read prize tokens" ON prize_tokens;
+CREATE POLICY "Anyone can read prize tokens"
+    ON prize_tokens FOR SELECT
+    TO anon, authenticated
+    USING (true);
+
+COMMENT ON TABLE prize_tokens IS
+'HTS fungible tokens bounties can be funded in. The escrow must be associated with each one (associateToken) before use.';
+
+ALTER TABLE bounties
+    ADD COLUMN IF NOT EXISTS prize_token_id VARCHAR(32) REFERENCES prize_tokens(token_id);
+
+COMMENT ON COLUMN bounties.prize_token_id IS
+'HTS token the prize and entry fees are paid in; NULL for HBAR';
+
+-- ============================================================================
+-- FUNCTION 1: create_bounty_with_wallet
+-- ============================================================================
+-- Same as migration 042, plus token prizes: prize_currency must be HBAR or
+-- an active prize_tokens symbol, and amounts must fit the token's decimals.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.create_bounty_with_wallet(
+  wallet_addr VARCHAR(255),
+  bounty_data JSONB
+) RETURNS UUID AS $$
+DECLARE
+  user_uuid UUID;
+  bounty_uuid UUID;
+  v_language TEXT := COALESCE(bounty_data->>'language', 'en');
+  v_board_count INTEGER;
+  v_max_attempts INTEGER := (bounty_data->>'max_attempts_per_user')::INTEGER;
+  v_winner_criteria winner_criteria := (bounty_data->>'winner_criteria')::winner_criteria;
+  v_target TEXT;
+  v_start TEXT;
+  v_puzzle JSONB;
+  v_is_random BOOLEAN := bounty_data->>'bounty_type' = 'Random words';
+  v_word_length INTEGER;
+  v_words_count INTEGER;
+  v_common_only BOOLEAN := COALESCE((bounty_data->>'common_only')::BOOLEAN, true);
+  v_server_seed TEXT;
+  v_entry_fee DECIMAL(20, 8) := COALESCE((bounty_data->>'entry_fee')::DECIMAL(20, 8), 0);
+  v_currency TEXT := upper(COALESCE(bounty_data->>'prize_currency', 'HBAR'));
+  v_prize_amount DECIMAL(20, 8) := COALESCE((bounty_data->>'prize_amount')::DECIMAL(20, 8), 0);
+  v_token RECORD;
+  v_token_id TEXT;
+BEGIN
+  IF v_entry_fee < 0 THEN
+    RAISE EXCEPTION 'Entry fee can''t be negative (got %)', v_entry_fee;
+  END IF;
+
+  -- Token prizes: only listed tokens, and no amounts finer than the token allows
+  IF v_currency <> 'HBAR' THEN
+    SELECT * INTO v_token FROM prize_tokens WHERE symbol = v_currency AND is_active;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Unknown prize currency %', v_currency;
+    END IF;
+
+    IF round(v_prize_amount, v_token.decimals) <> v_prize_amount
+      OR round(v_entry_fee, v_token.decimals) <> v_entry_fee THEN
+      RAISE EXCEPTION '% amounts have at most % decimals', v_currency, v_token.decimals;
+    END IF;
+
+    v_token_id := v_token.token_id;
+  END IF;
+
+  -- Multi-board: 2, 4 or 8 words of one length, sharing one attempt budget
+  IF bounty_data->>'bounty_type' = 'Multi-board' THEN
+    v_board_count := jsonb_array_length(COALESCE(bounty_data->'words', '[]'::JSONB));
+
+    IF v_board_count NOT IN (2, 4, 8) THEN
+      RAISE EXCEPTION 'Multi-board bounties need 2, 4 or 8 words (got %)', v_board_count;
+    END IF;
+
+    IF (
+      SELECT COUNT(DISTINCT LENGTH(normalize_word(w, v_language)))
+      FROM jsonb_array_elements_text(bounty_data->'words') AS w
+    ) <> 1 THEN
+      RAISE EXCEPTION 'Every board of a multi-board bounty needs a word of the same length';
+    END IF;
+
+    v_max_attempts := COALESCE(v_max_attempts, v_board_count + 5);
+  END IF;
+
+  -- Word ladder and anagram: exactly one target word
+  IF bounty_data->>'bounty_type' IN ('Word-ladder', 'Anagram') THEN
+    IF jsonb_array_length(COALESCE(bounty_data->'words', '[]'::JSONB)) <> 1 THEN
+      RAISE EXCEPTION '% bounties need exactly one word', bounty_data->>'bounty_type';
+    END IF;
+
+    IF v_winner_criteria IN ('words-correct', 'boards-solved') THEN
+      RAISE EXCEPTION '% bounties can''t use winner criteria %', bounty_data->>'bounty_type', v_winner_criteria;
+    END IF;
+
+    v_target := normalize_word(bounty_data->'words'->>0, v_language);
+  END IF;
+
+  -- Word ladder: every step is checked against the dictionary, so both ends must be in it
+  IF bounty_data->>'bounty_type' = 'Word-ladder' THEN
+    v_start := normalize_word(bounty_data->>'start_word', v_language);
+
+    IF v_start IS NULL OR LENGTH(v_start) <> LENGTH(v_target) OR v_start = v_target THEN
+      RAISE EXCEPTION 'A word ladder needs a start word of the same length as its target';
+    END IF;
+
+    IF NOT validate_word(v_start, v_language) OR NOT validate_word(v_target, v_language) THEN
+      RAISE EXCEPTION 'Word ladder start and target must both be in the dictionary';
+    END IF;
+
+    v_puzzle := jsonb_build_object('start_word', v_start, 'target_word', v_target);
+    v_winner_criteria := COALESCE(v_winner_criteria, 'attempts');
+  END IF;
+
+  -- Anagram: players get the letters, scrambled here so the creator can't leak an order
+  IF bounty_data->>'bounty_type' = 'Anagram' THEN
+    v_puzzle := jsonb_build_object('letters', scramble_word(v_target));
+    v_winner_criteria := COALESCE(v_winner_criteria, 'time');
+    v_max_attempts := COALESCE(v_max_attempts, 6);
+  END IF;
+
+  -- Random words: drawn by activate_random_bounty(), so the creator never sees them
+  IF v_is_random THEN
+    IF jsonb_array_length(COALESCE(bounty_data->'words', '[]'::JSONB)) > 0 THEN
+      RAISE EXCEPTION 'Random words bounties draw their words on the server; send word_length and words_count instead';
+    END IF;
+
+    v_word_length := COALESCE((bounty_data->>'word_length')::INTEGER, 5);
+    v_words_count := COALESCE((bounty_data->>'words_count')::INTEGER, 1);
+
+    IF v_words_count NOT BETWEEN 1 AND 10 THEN
+      RAISE EXCEPTION 'Random words bounties draw 1 to 10 words (got %)', v_words_count;
+    END IF;
+
+    IF COALESCE(array_length(random_word_pool(v_language, v_word_length, v_common_only), 1), 0) < v_words_count THEN
+      RAISE EXCEPTION 'Not enough % letter words in the % dictionary to draw %', v_word_length, v_language, v_words_count;
+    END IF;
+  END IF;
+
+  -- Get or create user
+  user_uuid := public.get_or_create_user(wallet_addr);
+
+  -- Create bounty
+  INSERT INTO bounties (
+    name,
+    description,
+    creator_id,
+    bounty_type,
+    prize_amount,
+    prize_currency,
+    prize_token_id,
+    entry_fee,
+    words,
+    word_lengths,
+    hints,
+    hint_penalties,
+    max_participants,
+    max_attempts_per_user,
+    time_limit_seconds,
+    winner_criteria,
+    duration_hours,
+    status,
+    is_public,
+    requires_registration,
+    hard_mode,
+    language,
+    puzzle,
+    start_time,
+    end_time
+  ) VALUES (
+    bounty_data->>'name',
+    bounty_data->>'description',
+    user_uuid,
+    COALESCE((bounty_data->>'bounty_type')::bounty_type, 'Simple'::bounty_type),
+    v_prize_amount,
+    v_currency,
+    v_token_id,
+    v_entry_fee,
+    CASE WHEN v_is_random THEN NULL ELSE COALESCE(
+      ARRAY(SELECT normalize_word(w, v_language) FROM jsonb_array_elements_text(bounty_data->'words') AS w),
+      ARRAY['WORDLE']
+    ) END,
+    -- Set from the words by seal_bounty_words (migration 040); known up front for draws
+    CASE WHEN v_is_random THEN array_fill(v_word_length, ARRAY[v_words_count]) END,
+    COALESCE(
+      ARRAY(SELECT jsonb_array_elements_text(bounty_data->'hints')),
+      ARRAY[]::TEXT[]
+    ),
+    COALESCE(
+      ARRAY(SELECT jsonb_array_elements_text(bounty_data->'hint_penalties')::DECIMAL(10, 2)),
+      ARRAY[]::DECIMAL(10, 2)[]
+    ),
+    (bounty_data->>'max_participants')::INTEGER,
+    v_max_attempts,
+    (bounty_data->>'time_limit_seconds')::INTEGER,
+    COALESCE(v_winner_criteria, 'attempts'::winner_criteria),
+    (bounty_data->>'duration_hours')::INTEGER,
+    CASE
+      WHEN v_is_random THEN 'draft'::bounty_status
+      ELSE COALESCE((bounty_data->>'status')::bounty_status, 'active'::bounty_status)
+    END,
+    COALESCE((bounty_data->>'is_public')::BOOLEAN, true),
+    COALESCE((bounty_data->>'requires_registration')::BOOLEAN, false),
+    COALESCE((bounty_data->>'hard_mode')::BOOLEAN, false),
+    v_language,
+    v_puzzle,
+    -- Draws start their clock at activation
+    CASE WHEN v_is_random THEN NULL ELSE NOW() END,
+    CASE
+      WHEN NOT v_is_random AND bounty_data->>'duration_hours' IS NOT NULL
+      THEN NOW() + ((bounty_data->>'duration_hours')::INTEGER || ' hours')::INTERVAL
+      ELSE NULL
+    END
+  ) RETURNING id INTO bounty_uuid;
+
+  -- Commit to the draw's server seed before any entropy exists
+  IF v_is_random THEN
+    v_server_seed := md5(gen_random_uuid()::TEXT) || md5(gen_random_uuid()::TEXT);
+
+    INSERT INTO bounty_draws (bounty_id, server_seed, seed_commitment, language, word_length, words_count, common_only)
+    VALUES (
+      bounty_uuid,
+      v_server_seed,
+      encode(digest(v_server_seed, 'sha256'), 'hex'),
+      v_language,
+      v_word_length,
+      v_words_count,
+      v_common_only
+    );
+  END IF;
+
+  RETURN bounty_uuid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.create_bounty_with_wallet(VARCHAR, JSONB) TO anon;
+GRANT EXECUTE ON FUNCTION public.create_bounty_with_wallet(VARCHAR, JSONB) TO authenticated;
+
+
+-- ============================================================================
+-- FUNCTION 2: get_bounty_details
+-- ============================================================================
+-- Same as migration 042, plus prize_token { token_id, evm_address, decimals }
+-- for token bounties (null for HBAR).
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_bounty_details(
+    bounty_uuid UUID,
+    wallet_addr TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    bounty_record RECORD;
+    participation_record RECORD;
+    user_uuid UUID;
+    words_revealed BOOLEAN;
+    result JSONB;
+BEGIN
+    -- Get bounty
+    SELECT
+        b.*,
+        u.username as creator_username,
+        u.display_name as creator_display_name,
+        pt.evm_address as prize_token_address,
+        pt.decimals as prize_token_decimals
+    INTO bounty_record
+    FROM bounties b
+    JOIN users u ON b.creator_id = u.id
+    LEFT JOIN prize_tokens pt ON pt.token_id = b.prize_token_id
+    WHERE b.id = bounty_uuid;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bounty not found';
+    END IF;
+
+    -- Solutions are only safe to publish once nobody can play anymore
+    words_revealed := bounty_record.status IN ('completed', 'cancelled', 'expired')
+        OR (bounty_record.end_time IS NOT NULL AND bounty_record.end_time <= NOW());
+
+    -- Get user participation if wallet provided
+    participation_record := NULL;
+    IF wallet_addr IS NOT NULL THEN
+        SELECT id INTO user_uuid FROM users WHERE wallet_address = wallet_addr;
+        IF FOUND THEN
+            SELECT * INTO participation_record
+            FROM bounty_participants
+            WHERE bounty_id = bounty_uuid AND user_id = user_uuid;
+        END IF;
+    END IF;
+
+    -- Build result
+    result := jsonb_build_object(
+        'id', bounty_record.id,
+        'name', bounty_record.name,
+        'description', bounty_record.description,
+        'bounty_type', bounty_record.bounty_type,
+        'prize_amount', bounty_record.prize_amount,
+        'prize_currency', bounty_record.prize_currency,
+        'prize_token', CASE WHEN bounty_record.prize_token_id IS NOT NULL THEN
+            jsonb_build_object(
+                'token_id', bounty_record.prize_token_id,
+                'evm_address', bounty_record.prize_token_address,
+                'decimals', bounty_record.prize_token_decimals
+            )
+        END,
+        'entry_fee', bounty_record.entry_fee,
+        'prize_pool', bounty_record.prize_pool,
+        'status', bounty_record.status,
+        'is_public', bounty_record.is_public,
+        'participant_count', bounty_record.participant_count,
+        'max_participants', bounty_record.max_participants,
+        'max_attempts_per_user', bounty_record.max_attempts_per_user,
+        'time_limit_seconds', bounty_record.time_limit_seconds,
+        'hard_mode', bounty_record.hard_mode,
+        'language', bounty_record.language,
+        'puzzle', bounty_record.puzzle,
+        'start_time', bounty_record.start_time,
+        'end_time', bounty_record.end_time,
+        'duration_hours', bounty_record.duration_hours,
+        'created_at', bounty_record.created_at,
+        'server_time', NOW(),
+        'creator', jsonb_build_object(
+            'username', bounty_record.creator_username,
+            'display_name', bounty_record.creator_display_name
+        ),
+        'words', CASE WHEN words_revealed THEN to_jsonb(bounty_words(bounty_record.id)) ELSE NULL END,
+        'word_lengths', to_jsonb(bounty_record.word_lengths),
+        'words_count', bounty_record.words_count,
+        -- Hint text is only handed out through unlock_hint() while the bounty runs
+        'hints', CASE WHEN words_revealed THEN to_jsonb(bounty_record.hints) ELSE NULL END,
+        'hints_count', COALESCE(array_length(bounty_record.hints, 1), 0),
+        'hint_penalties', to_jsonb(bounty_record.hint_penalties),
+        'participation', CASE
+            WHEN participation_record IS NOT NULL THEN
+                jsonb_build_object(
+                    'status', participation_record.status,
+                    'joined_at', participation_record.joined_at,
+                    'current_word_index', participation_record.current_word_index,
+                    'total_attempts', participation_record.total_attempts,
+                    'words_completed', participation_record.words_completed,
+                    'total_time_seconds', participation_record.total_time_seconds,
+                    'session_started_at', participation_record.session_started_at,
+                    'session_ended_at', participation_record.session_ended_at,
+                    'is_winner', participation_record.is_winner,
+                    'hints_used', participation_record.hints_used,
+                    'hint_penalty_total', participation_record.hint_penalty_total,
+                    'entry_fee_paid', participation_record.entry_fee_paid,
+                    'entry_refunded_at', participation_record.entry_refunded_at,
+                    'unlocked_hints', to_jsonb(bounty_record.hints[1:participation_record.hints_used])
+                )
+            ELSE NULL
+        END
+    );
+
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- FUNCTION 3: get_payment_stats_by_currency
+-- ============================================================================
+-- get_platform_payment_stats() per prize currency, for AdminFeeManagement.
+-- Amounts in different tokens can't be summed together.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_payment_stats_by_currency()
+RETURNS TABLE (
+    prize_currency VARCHAR(10),
+    prize_token_id VARCHAR(32),
+    total_bounties_created INTEGER,
+    total_prize_pool DECIMAL(20, 8),
+    total_prizes_distributed DECIMAL(20, 8),
+    active_bounty_count INTEGER,
+    completed_bounty_count INTEGER
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        COALESCE(b.prize_currency, 'HBAR')::VARCHAR(10),
+        b.prize_token_id,
+        COUNT(*)::INTEGER,
+        COALESCE(SUM(b.prize_pool), 0)::DECIMAL(20, 8),
+        COALESCE(SUM(CASE WHEN b.status = 'completed' THEN b.prize_pool ELSE 0 END), 0)::DECIMAL(20, 8),
+        COUNT(CASE WHEN b.status = 'active' THEN 1 END)::INTEGER,
+        COUNT(CASE WHEN b.status = 'completed' THEN 1 END)::INTEGER
+    FROM bounties b
+    GROUP BY COALESCE(b.prize_currency, 'HBAR'), b.prize_token_id
+    ORDER BY COALESCE(b.prize_currency, 'HBAR');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION get_payment_stats_by_currency() IS
+'Platform payment totals grouped by prize currency (HBAR or an HTS token).';
+
+GRANT EXECUTE ON FUNCTION get_payment_stats_by_currency() TO authenticated;
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+-- What changed:
+-- - prize_tokens (public, read-only list of HTS prize tokens)
+-- - bounties.prize_token_id
+-- - create_bounty_with_wallet() checks prize_currency against prize_tokens
+-- - get_bounty_details() returns prize_token
+-- - get_payment_stats_by_currency()
+--
+-- Client:
+-- - CreateBountyPage: currency picker from prize_tokens; for tokens,
+--   approve(escrow, prize) on the token's ERC-20 facade before
+--   createBountyWithToken (needsApproval() in src/utils/game/tokens.ts)
+-- - EscrowService: scale with toBaseUnits / fromBaseUnits and the token's
+--   decimals instead of 1e18; contract amounts are tinybars for HBAR, and
+--   only the msg.value sent through JSON-RPC is in weibars
+-- - joinBounty on a token bounty: approve the entry fee, send no value
+-- - PaymentService / usePrizeCalculation: format with the bounty's
+--   prize_token decimals
+-- - AdminFeeManagement: accumulatedFees for HBAR plus
+--   accumulatedTokenFees(evm_address) and withdrawTokenFees per token
+-- ============================================================================
@@ -0,0 +1,281 @@
+-- ============================================================================
+-- Migration 044: Winner Trophies
+-- Created: 2026-10-19
+-- Purpose: Record the trophy NFTs minted to bounty winners and serve their metadata
+-- ============================================================================
+-- ISSUE: Winning a bounty leaves nothing behind but a bounty_participants
+-- row.
+--
+-- SOLUTION:
+-- 1. When WordleBountyEscrow has a trophy contract set, completeBounty and
+--    completeBountyWithWinners mint a non-transferable WordleTrophy
+--    (ERC-721) to each winner. The mint emits TrophyMinted(tokenId,
+--    bountyId, winner).
+-- 2. CompleteBountyModal passes those events to record_bounty_trophies(),
+--    which stores them in bounty_trophies.
+-- 3. The token URI is the trophy-metadata edge function plus the token ID.
+--    It serves get_trophy_metadata(): bounty name, date won, rank, attempts,
+--    time and the spoiler-safe result grid (colours only, never letters).
+-- 4. get_user_trophies() lists a wallet's trophies for the ProfilePage
+--    trophy cabinet.
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS bounty_trophies (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    bounty_id UUID NOT NULL REFERENCES bounties(id) ON DELETE CASCADE,
+    user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+    contract_address VARCHAR(42) NOT NULL,
+    token_serial BIGINT NOT NULL,
+    mint_tx_hash VARCHAR(255) NOT NULL,
+    minted_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+    UNIQUE(bounty_id, user_id),
+    UNIQUE(contract_address, token_serial),
+    CONSTRAINT bounty_trophies_serial_check CHECK (token_serial > 0)
+);
+
+CREATE INDEX IF NOT EXISTS idx_bounty_trophies_user ON bounty_trophies(user_id);
+
+ALTER TABLE bounty_trophies ENABLE ROW LEVEL SECURITY;
+
+-- Trophies are public proof; they are only written through record_bounty_trophies()
+DROP POLICY IF EXISTS "Anyone can view trophies" ON bounty_trophies;
+CREATE POLICY "Anyone can view trophies"
+    ON bounty_trophies FOR SELECT
+    TO anon, authenticated
+    USING (true);
+
+-- ============================================================================
+-- FUNCTION 1: trophy_result_grid (internal)
+-- ============================================================================
+-- One emoji line per guess from letter_results, a blank line between
+-- words. Same colours as SHARE_EMOJI in src/utils/game/share.ts.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION trophy_result_grid(participant_uuid UUID)
+RETURNS TEXT AS $$
+    SELECT string_agg(words.word_grid, E'\n\n' ORDER BY words.word_index)
+    FROM (
+        SELECT ga.word_index, string_agg(line.tiles, E'\n' ORDER BY ga.attempt_number) AS word_grid
+        FROM game_attempts ga
+        CROSS JOIN LATERAL (
+            SELECT string_agg(
+                CASE t.tile->>'status'
+                    WHEN 'correct' THEN '🟩'
+                    WHEN 'present' THEN '🟨'
+                    ELSE '⬛'
+                END,
+                '' ORDER BY t.position
+            ) AS tiles
+            FROM jsonb_array_elements(ga.letter_results) WITH ORDINALITY AS t(tile, position)
+        ) line
+        WHERE ga.participant_id = participant_uuid
+          AND jsonb_typeof(ga.letter_results) = 'array'
+        GROUP BY ga.word_index
+    ) words;
+$$ LANGUAGE sql STABLE SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION trophy_result_grid(UUID) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- FUNCTION 2: record_bounty_trophies
+-- ============================================================================
+-- Called after the completion transaction with its TrophyMinted events:
+-- trophies = [{ "token_id": 1, "winner": "0x..." }, ...]. Every wallet must
+-- be a recorded winner of the completed bounty. Returns the number stored;
+-- trophies already recorded are skipped.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION record_bounty_trophies(
+    bounty_uuid UUID,
+    contract_addr TEXT,
+    mint_tx_hash TEXT,
+    trophies JSONB
+)
+RETURNS INTEGER AS $$
+DECLARE
+    trophy JSONB;
+    winner_uuid UUID;
+    v_recorded INTEGER := 0;
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM bounties WHERE id = bounty_uuid AND status = 'completed') THEN
+        RAISE EXCEPTION 'Bounty % is not completed', bounty_uuid;
+    END IF;
+
+    IF contract_addr IS NULL OR mint_tx_hash IS NULL THEN
+        RAISE EXCEPTION 'Trophy contract and mint transaction are required';
+    END IF;
+
+    FOR trophy IN SELECT * FROM jsonb_array_elements(COALESCE(trophies, '[]'::JSONB)) LOOP
+        SELECT bp.user_id INTO winner_uuid
+        FROM bounty_participants bp
+        JOIN users u ON u.id = bp.user_id
+        WHERE bp.bounty_id = bounty_uuid
+          AND bp.is_winner = true
+          AND lower(u.wallet_address) = lower(trophy->>'winner');
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION '% is not a winner of bounty %', trophy->>'winner', bounty_uuid;
+        END IF;
+
+        INSERT INTO bounty_trophies (bounty_id, user_id, contract_address, token_serial, mint_tx_hash)
+        VALUES (bounty_uuid, winner_uuid, lower(contract_addr), (trophy->>'token_id')::BIGINT, mint_tx_hash)
+        ON CONFLICT DO NOTHING;
+
+        IF FOUND THEN
+            v_recorded := v_recorded + 1;
+        END IF;
+    END LOOP;
+
+    RETURN v_recorded;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION record_bounty_trophies(UUID, TEXT, TEXT, JSONB) IS
+'Stores the WordleTrophy NFTs minted to a completed bounty''s winners, from the completion transaction''s TrophyMinted events.';
+
+GRANT EXECUTE ON FUNCTION record_bounty_trophies(UUID, TEXT, TEXT, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION record_bounty_trophies(UUID, TEXT, TEXT, JSONB) TO anon;
+
+-- ============================================================================
+-- FUNCTION 3: get_trophy_metadata
+-- ============================================================================
+-- Public. ERC-721 metadata JSON for one trophy, or NULL if it isn't
+-- recorded. The trophy-metadata edge function adds image and external_url.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_trophy_metadata(
+    contract_addr TEXT,
+    trophy_serial BIGINT
+)
+RETURNS JSONB AS $$
+DECLARE
+    trophy_record RECORD;
+    v_time_seconds INTEGER;
+BEGIN
+    SELECT
+        bt.token_serial,
+        bt.minted_at,
+        b.id AS bounty_id,
+        b.name AS bounty_name,
+        bp.id AS participant_id,
+        bp.total_attempts,
+        bp.total_time_seconds,
+        bp.session_started_at,
+        bp.session_ended_at,
+        bp.prize_amount_won,
+        b.prize_currency,
+        COALESCE(bp.completed_at, b.updated_at) AS won_at,
+        (
+            SELECT COUNT(*) + 1
+            FROM bounty_participants other
+            WHERE other.bounty_id = bp.bounty_id
+              AND other.is_winner = true
+              AND (other.prize_amount_won > bp.prize_amount_won
+                   OR (other.prize_amount_won = bp.prize_amount_won AND other.completed_at < bp.completed_at))
+        ) AS winner_rank
+    INTO trophy_record
+    FROM bounty_trophies bt
+    JOIN bounties b ON b.id = bt.bounty_id
+    JOIN bounty_participants bp ON bp.bounty_id = bt.bounty_id AND bp.user_id = bt.user_id
+    WHERE bt.contract_address = lower(contract_addr)
+      AND bt.token_serial = trophy_serial;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    -- Server-recorded session time (migration 025) when there is one
+    v_time_seconds := COALESCE(
+        EXTRACT(EPOCH FROM (trophy_record.session_ended_at - trophy_record.session_started_at))::INTEGER,
+        trophy_record.total_time_seconds
+    );
+
+    RETURN jsonb_build_object(
+        'name', 'Trophy #' || trophy_record.token_serial || ': ' || trophy_record.bounty_name,
+        'description', 'Won "' || trophy_record.bounty_name || '" on Web3 Wordle Bounty on '
+            || to_char(trophy_record.won_at AT TIME ZONE 'UTC', 'YYYY-MM-DD') || '.',
+        'attributes', jsonb_build_array(
+            jsonb_build_object('trait_type', 'Bounty', 'value', trophy_record.bounty_name),
+            jsonb_build_object('trait_type', 'Date', 'display_type', 'date',
+                'value', EXTRACT(EPOCH FROM trophy_record.won_at)::BIGINT),
+            jsonb_build_object('trait_type', 'Rank', 'value', trophy_record.winner_rank),
+            jsonb_build_object('trait_type', 'Attempts', 'value', trophy_record.total_attempts),
+            jsonb_build_object('trait_type', 'Time (seconds)', 'value', v_time_seconds),
+            jsonb_build_object('trait_type', 'Prize', 'value',
+                trophy_record.prize_amount_won || ' ' || COALESCE(trophy_record.prize_currency, 'HBAR'))
+        ),
+        'properties', jsonb_build_object(
+            'bounty_id', trophy_record.bounty_id,
+            'won_at', trophy_record.won_at,
+            'result_grid', trophy_result_grid(trophy_record.participant_id)
+        )
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION get_trophy_metadata(TEXT, BIGINT) IS
+'ERC-721 metadata for a WordleTrophy: bounty, date, rank, attempts, time and the colour-only result grid.';
+
+GRANT EXECUTE ON FUNCTION get_trophy_metadata(TEXT, BIGINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_trophy_metadata(TEXT, BIGINT) TO anon;
+
+-- ============================================================================
+-- FUNCTION 4: get_user_trophies
+-- ============================================================================
+-- Public. A wallet's trophies, newest first, for the ProfilePage cabinet.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_user_trophies(wallet_addr TEXT)
+RETURNS TABLE (
+    bounty_id UUID,
+    bounty_name VARCHAR(255),
+    contract_address VARCHAR(42),
+    token_serial BIGINT,
+    mint_tx_hash VARCHAR(255),
+    minted_at TIMESTAMP WITH TIME ZONE,
+    metadata JSONB
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        bt.bounty_id,
+        b.name::VARCHAR(255),
+        bt.contract_address,
+        bt.token_serial,
+        bt.mint_tx_hash,
+        bt.minted_at,
+        get_trophy_metadata(bt.contract_address, bt.token_serial)
+    FROM bounty_trophies bt
+    JOIN bounties b ON b.id = bt.bounty_id
+    JOIN users u ON u.id = bt.user_id
+    WHERE lower(u.wallet_address) = lower(wallet_addr)
+    ORDER BY bt.minted_at DESC, bt.token_serial DESC;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION get_user_trophies(TEXT) IS
+'Trophies owned by a wallet with their metadata, newest first.';
+
+GRANT EXECUTE ON FUNCTION get_user_trophies(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_user_trophies(TEXT) TO anon;
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+-- What changed:
+-- - bounty_trophies (public, written by record_bounty_trophies())
+-- - trophy_result_grid() (internal)
+-- - record_bounty_trophies(), get_trophy_metadata(), get_user_trophies()
+--
+-- Client:
+-- - CompleteBountyModal: after completeBounty / completeBountyWithWinners,
+--   read the TrophyMinted logs (toTrophyMints() in
+--   src/utils/game/trophies.ts) and call record_bounty_trophies
+-- - ProfilePage: trophy cabinet from get_user_trophies, linked with
+--   getTransactionUrl(mint_tx_hash) and getContractUrl(contract_address)
+--   from utils/hashscan.ts
+-- - Deploy WordleTrophy(escrow, '<SUPABASE_URL>/functions/v1/trophy-metadata/'),
+--   call setTrophyContract on the escrow and set TROPHY_CONTRACT_ADDRESS
+--   for the edge function
+-- ============================================================================
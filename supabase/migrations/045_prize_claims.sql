@@ -0,0 +1,303 @@
+-- ============================================================================
+-- Migration 045: Prize Claims
+-- Created: 2026-10-19
+-- Purpose: Winners claim their prize from the escrow before a deadline
+-- ============================================================================
+-- ISSUE: completeBounty sent the prize straight to the winner. A winner
+-- address that could not receive HBAR (or was not associated with the prize
+-- token) made the whole completion revert. mark_prize_paid (migration 020)
+-- also wrote prize_paid and blockchain_tx_hash, which bounty_participants
+-- never had, and a payment status outside check_valid_transaction_status.
+--
+-- SOLUTION:
+-- 1. completeBounty and completeBountyWithWinners now only credit each
+--    winner (PrizeClaimable(bountyId, winner, amount, claimDeadline)).
+--    Winners withdraw with claimPrize(bountyId) until the claim deadline,
+--    which is the completion time plus the escrow's claimPeriod (30 days
+--    unless the owner changes it).
+-- 2. After the deadline anyone can call sweepUnclaimedPrize(bountyId). What
+--    is left goes back to the creator, or into the platform fees when the
+--    owner has turned unclaimedToCreator off.
+-- 3. The database follows along: set_prize_claim_deadline() after
+--    completion, mark_prize_paid() after each claimPrize and
+--    record_unclaimed_sweep() after the sweep.
+-- 4. get_pending_prize_claims() lists a wallet's open claims with their
+--    deadline for PrizeClaimModal and ProfilePage.
+-- ============================================================================
+
+ALTER TABLE bounties
+    ADD COLUMN IF NOT EXISTS claim_deadline TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS unclaimed_swept_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS unclaimed_sweep_tx_hash VARCHAR(255),
+    ADD COLUMN IF NOT EXISTS unclaimed_recipient VARCHAR(10);
+
+ALTER TABLE bounties DROP CONSTRAINT IF EXISTS bounties_unclaimed_recipient_check;
+ALTER TABLE bounties
+    ADD CONSTRAINT bounties_unclaimed_recipient_check
+    CHECK (unclaimed_recipient IS NULL OR unclaimed_recipient IN ('creator', 'platform'));
+
+COMMENT ON COLUMN bounties.claim_deadline IS
+'Last moment winners can claimPrize on the escrow; NULL until the completion is recorded';
+COMMENT ON COLUMN bounties.unclaimed_recipient IS
+'Who sweepUnclaimedPrize paid the unclaimed prizes to: creator or platform';
+
+CREATE INDEX IF NOT EXISTS idx_bounties_claim_deadline
+    ON bounties(claim_deadline)
+    WHERE claim_deadline IS NOT NULL AND unclaimed_swept_at IS NULL;
+
+-- ============================================================================
+-- FUNCTION 1: set_prize_claim_deadline
+-- ============================================================================
+-- Called after the completion transaction with the claimDeadline of its
+-- PrizeClaimable events. The deadline is set once per bounty.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION set_prize_claim_deadline(
+    bounty_uuid UUID,
+    deadline_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS void AS $$
+DECLARE
+    bounty_record RECORD;
+BEGIN
+    SELECT status, claim_deadline INTO bounty_record
+    FROM bounties
+    WHERE id = bounty_uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bounty % not found', bounty_uuid;
+    END IF;
+
+    IF bounty_record.status <> 'completed' THEN
+        RAISE EXCEPTION 'Bounty % is not completed', bounty_uuid;
+    END IF;
+
+    IF deadline_at IS NULL THEN
+        RAISE EXCEPTION 'Claim deadline is required';
+    END IF;
+
+    IF bounty_record.claim_deadline IS NOT NULL THEN
+        IF bounty_record.claim_deadline = deadline_at THEN
+            RETURN;
+        END IF;
+
+        RAISE EXCEPTION 'Claim deadline for bounty % is already set', bounty_uuid;
+    END IF;
+
+    UPDATE bounties
+    SET claim_deadline = deadline_at
+    WHERE id = bounty_uuid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION set_prize_claim_deadline(UUID, TIMESTAMP WITH TIME ZONE) IS
+'Records the escrow claim deadline of a completed bounty.';
+
+GRANT EXECUTE ON FUNCTION set_prize_claim_deadline(UUID, TIMESTAMP WITH TIME ZONE) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_prize_claim_deadline(UUID, TIMESTAMP WITH TIME ZONE) TO anon;
+
+-- ============================================================================
+-- FUNCTION 2: mark_prize_paid
+-- ============================================================================
+-- Same as migration 020, except that it writes the prize_paid_at and
+-- prize_transaction_hash columns from migration 001, records a 'confirmed'
+-- payment in the prize currency, and refuses claims that were already
+-- recorded or come after the claim deadline. Called by PrizeClaimModal
+-- after claimPrize.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION mark_prize_paid(
+    bounty_uuid UUID,
+    winner_user_id UUID,
+    transaction_hash VARCHAR(255),
+    blockchain_amount DECIMAL(20, 8)
+)
+RETURNS void AS $$
+DECLARE
+    winner_record RECORD;
+BEGIN
+    SELECT bp.id, bp.prize_paid_at, b.claim_deadline, b.prize_currency, u.wallet_address
+    INTO winner_record
+    FROM bounty_participants bp
+    JOIN bounties b ON b.id = bp.bounty_id
+    JOIN users u ON u.id = bp.user_id
+    WHERE bp.bounty_id = bounty_uuid
+      AND bp.user_id = winner_user_id
+      AND bp.is_winner = true
+    FOR UPDATE OF bp;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Winner record not found for bounty % and user %',
+            bounty_uuid, winner_user_id;
+    END IF;
+
+    IF winner_record.prize_paid_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Prize for bounty % was already claimed', bounty_uuid;
+    END IF;
+
+    IF winner_record.claim_deadline IS NOT NULL AND winner_record.claim_deadline < NOW() THEN
+        RAISE EXCEPTION 'Claim period for bounty % ended at %',
+            bounty_uuid, winner_record.claim_deadline;
+    END IF;
+
+    UPDATE bounty_participants
+    SET
+        prize_paid_at = NOW(),
+        prize_transaction_hash = transaction_hash
+    WHERE id = winner_record.id;
+
+    INSERT INTO payment_transactions (
+        bounty_id, user_id, transaction_hash, transaction_type,
+        amount, currency, to_address, status, confirmed_at
+    ) VALUES (
+        bounty_uuid, winner_user_id, transaction_hash, 'prize_payment',
+        blockchain_amount, COALESCE(winner_record.prize_currency, 'HBAR'),
+        winner_record.wallet_address, 'confirmed', NOW()
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION mark_prize_paid(UUID, UUID, VARCHAR, DECIMAL) IS
+'Records a winner''s claimPrize transaction before the claim deadline.';
+
+GRANT EXECUTE ON FUNCTION mark_prize_paid(UUID, UUID, VARCHAR, DECIMAL) TO authenticated;
+
+-- ============================================================================
+-- FUNCTION 3: record_unclaimed_sweep
+-- ============================================================================
+-- Called after sweepUnclaimedPrize with its UnclaimedPrizeSwept toCreator
+-- flag. A sweep back to the creator is logged as a refund to them. Returns
+-- the amount swept: every winner share without prize_paid_at.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION record_unclaimed_sweep(
+    bounty_uuid UUID,
+    sweep_tx_hash TEXT,
+    to_creator BOOLEAN
+)
+RETURNS DECIMAL(20, 8) AS $$
+DECLARE
+    bounty_record RECORD;
+    v_unclaimed DECIMAL(20, 8);
+BEGIN
+    SELECT b.id, b.creator_id, b.prize_currency, b.claim_deadline, b.unclaimed_swept_at, u.wallet_address
+    INTO bounty_record
+    FROM bounties b
+    JOIN users u ON u.id = b.creator_id
+    WHERE b.id = bounty_uuid
+    FOR UPDATE OF b;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bounty % not found', bounty_uuid;
+    END IF;
+
+    IF bounty_record.claim_deadline IS NULL OR bounty_record.claim_deadline >= NOW() THEN
+        RAISE EXCEPTION 'Claim period for bounty % has not ended', bounty_uuid;
+    END IF;
+
+    IF bounty_record.unclaimed_swept_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Unclaimed prizes for bounty % were already swept', bounty_uuid;
+    END IF;
+
+    SELECT COALESCE(SUM(bp.prize_amount_won), 0) INTO v_unclaimed
+    FROM bounty_participants bp
+    WHERE bp.bounty_id = bounty_uuid
+      AND bp.is_winner = true
+      AND bp.prize_paid_at IS NULL;
+
+    UPDATE bounties
+    SET
+        unclaimed_swept_at = NOW(),
+        unclaimed_sweep_tx_hash = sweep_tx_hash,
+        unclaimed_recipient = CASE WHEN to_creator THEN 'creator' ELSE 'platform' END
+    WHERE id = bounty_uuid;
+
+    IF to_creator AND v_unclaimed > 0 THEN
+        INSERT INTO payment_transactions (
+            bounty_id, user_id, transaction_hash, transaction_type,
+            amount, currency, to_address, status, confirmed_at
+        ) VALUES (
+            bounty_uuid, bounty_record.creator_id, sweep_tx_hash, 'refund',
+            v_unclaimed, COALESCE(bounty_record.prize_currency, 'HBAR'),
+            bounty_record.wallet_address, 'confirmed', NOW()
+        );
+    END IF;
+
+    RETURN v_unclaimed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION record_unclaimed_sweep(UUID, TEXT, BOOLEAN) IS
+'Records sweepUnclaimedPrize for a bounty whose claim period ended and returns the unclaimed amount.';
+
+GRANT EXECUTE ON FUNCTION record_unclaimed_sweep(UUID, TEXT, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION record_unclaimed_sweep(UUID, TEXT, BOOLEAN) TO anon;
+
+-- ============================================================================
+-- FUNCTION 4: get_pending_prize_claims
+-- ============================================================================
+-- A wallet's prizes that are credited on the escrow but not claimed yet,
+-- soonest deadline first. Expired and swept prizes are left out.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_pending_prize_claims(wallet_addr TEXT)
+RETURNS TABLE (
+    bounty_id UUID,
+    bounty_name VARCHAR(255),
+    prize_amount DECIMAL(20, 8),
+    prize_currency VARCHAR(10),
+    prize_token_id VARCHAR(32),
+    claim_deadline TIMESTAMP WITH TIME ZONE
+) AS $$
+BEGIN
+    RETURN QUERY
+    SELECT
+        b.id,
+        b.name::VARCHAR(255),
+        bp.prize_amount_won,
+        COALESCE(b.prize_currency, 'HBAR')::VARCHAR(10),
+        b.prize_token_id,
+        b.claim_deadline
+    FROM bounty_participants bp
+    JOIN bounties b ON b.id = bp.bounty_id
+    JOIN users u ON u.id = bp.user_id
+    WHERE lower(u.wallet_address) = lower(wallet_addr)
+      AND bp.is_winner = true
+      AND bp.prize_amount_won > 0
+      AND bp.prize_paid_at IS NULL
+      AND b.claim_deadline > NOW()
+      AND b.unclaimed_swept_at IS NULL
+    ORDER BY b.claim_deadline, b.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION get_pending_prize_claims(TEXT) IS
+'Unclaimed prizes a wallet can still withdraw from the escrow, soonest deadline first.';
+
+GRANT EXECUTE ON FUNCTION get_pending_prize_claims(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_pending_prize_claims(TEXT) TO anon;
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+-- What changed:
+-- - bounties.claim_deadline, unclaimed_swept_at, unclaimed_sweep_tx_hash,
+--   unclaimed_recipient
+-- - set_prize_claim_deadline(), record_unclaimed_sweep(),
+--   get_pending_prize_claims()
+-- - mark_prize_paid() writes the columns that exist and checks the deadline
+--
+-- Client:
+-- - CompleteBountyModal: after completion, read claimDeadline from a
+--   PrizeClaimable log (claimDeadlineToIso() in
+--   src/utils/game/prize-claims.ts) and call set_prize_claim_deadline
+-- - PrizeClaimModal: call claimPrize(bountyId) instead of completeBounty,
+--   then mark_prize_paid; show getClaimCountdown(claim_deadline) and
+--   disable the button once it has expired
+-- - ProfilePage: pending claims from get_pending_prize_claims with the same
+--   countdown, each opening PrizeClaimModal
+-- - AdminFeeManagement: sweepUnclaimedPrize for expired bounties, then
+--   record_unclaimed_sweep; setClaimPeriod / setUnclaimedRecipient on the
+--   escrow
+-- ============================================================================
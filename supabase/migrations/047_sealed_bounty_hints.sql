@@ -0,0 +1,304 @@
+-- ============================================================================
+-- Migration 047: Sealed Bounty Hints
+-- Created: 2026-10-19
+-- Purpose: Keep hint text out of table reads until it is unlocked
+-- ============================================================================
+-- ISSUE: unlock_hint() and get_bounty_details() (migration 027) only hid
+-- hints in their own payloads. bounties.hints stayed readable through "Anyone
+-- can view active public bounties" and getBounties() (select '*'), so every
+-- hint could be read without unlocking it or paying its penalty.
+--
+-- SOLUTION:
+-- 1. Hint text moves to bounty_hints, which clients can't read.
+--    bounties.hints_count keeps the number of hints public.
+-- 2. The seal_bounty_hints trigger moves whatever is written to
+--    bounties.hints there and sets the column back to NULL, the same way
+--    seal_bounty_words handles words (migration 040). create_bounty_with_wallet
+--    and updateBounty keep writing hints as before. A CHECK makes sure hint
+--    text can never be stored in bounties again.
+-- 3. unlock_hint() and get_bounty_details() read bounty_hints.
+-- 4. get_bounty_details() returned participation: null for everyone still
+--    playing: a record IS NOT NULL only when every column is, and
+--    completed_at is NULL until the player finishes. So hints_used,
+--    hint_penalty_total and unlocked_hints never reached GameplayPage.
+-- ============================================================================
+
+ALTER TABLE bounties ADD COLUMN IF NOT EXISTS hints_count INTEGER NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN bounties.hints IS 'Write-only: the seal_bounty_hints trigger moves it into bounty_hints and stores NULL';
+COMMENT ON COLUMN bounties.hints_count IS 'Number of hints; the text is handed out by unlock_hint()';
+
+CREATE TABLE IF NOT EXISTS bounty_hints (
+    -- Deferred: the row is written by a BEFORE INSERT trigger on bounties
+    bounty_id UUID PRIMARY KEY REFERENCES bounties(id) ON DELETE CASCADE DEFERRABLE INITIALLY DEFERRED,
+    hints TEXT[] NOT NULL DEFAULT '{}',
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE bounty_hints ENABLE ROW LEVEL SECURITY;
+
+-- Hint text only leaves through unlock_hint() and get_bounty_details()
+REVOKE ALL ON bounty_hints FROM anon, authenticated;
+
+-- ============================================================================
+-- FUNCTION 1: seal_bounty_hints (trigger on bounties)
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION seal_bounty_hints()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.hints IS NOT NULL THEN
+        INSERT INTO bounty_hints (bounty_id, hints)
+        VALUES (NEW.id, NEW.hints)
+        ON CONFLICT (bounty_id) DO UPDATE
+        SET hints = EXCLUDED.hints, updated_at = NOW();
+
+        NEW.hints_count := COALESCE(array_length(NEW.hints, 1), 0);
+        NEW.hints := NULL;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION seal_bounty_hints() FROM PUBLIC, anon, authenticated;
+
+DROP TRIGGER IF EXISTS seal_bounty_hints ON bounties;
+CREATE TRIGGER seal_bounty_hints
+    BEFORE INSERT OR UPDATE ON bounties
+    FOR EACH ROW EXECUTE FUNCTION seal_bounty_hints();
+
+-- Seal existing bounties, then make sure hint text can't come back
+UPDATE bounties SET hints = hints WHERE hints IS NOT NULL;
+
+ALTER TABLE bounties DROP CONSTRAINT IF EXISTS bounties_hints_sealed;
+ALTER TABLE bounties ADD CONSTRAINT bounties_hints_sealed CHECK (hints IS NULL);
+
+-- ============================================================================
+-- FUNCTION 2: unlock_hint
+-- ============================================================================
+-- Same as migration 027, with the hint read from bounty_hints.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION unlock_hint(
+    bounty_uuid UUID,
+    wallet_addr TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+    user_uuid UUID;
+    participant_record RECORD;
+    bounty_record RECORD;
+    v_hint_index INTEGER;
+    v_hints_count INTEGER;
+    v_penalty DECIMAL(10, 2);
+    v_hint TEXT;
+BEGIN
+    SELECT id INTO user_uuid FROM users WHERE wallet_address = wallet_addr;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User not found for wallet: %', wallet_addr;
+    END IF;
+
+    SELECT * INTO bounty_record FROM bounties WHERE id = bounty_uuid;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bounty not found';
+    END IF;
+
+    IF bounty_record.status <> 'active' THEN
+        RAISE EXCEPTION 'Hints can only be unlocked while the bounty is active';
+    END IF;
+
+    -- Lock the row so two clicks can't unlock the same hint twice
+    SELECT * INTO participant_record
+    FROM bounty_participants
+    WHERE bounty_id = bounty_uuid AND user_id = user_uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User % not participating in bounty %', wallet_addr, bounty_uuid;
+    END IF;
+
+    IF participant_record.status NOT IN ('registered', 'active') THEN
+        RAISE EXCEPTION 'User participation status is %', participant_record.status;
+    END IF;
+
+    v_hint_index := participant_record.hints_used;
+    v_hints_count := bounty_record.hints_count;
+
+    IF v_hint_index >= v_hints_count THEN
+        RAISE EXCEPTION 'No more hints available';
+    END IF;
+
+    SELECT bh.hints[v_hint_index + 1] INTO v_hint
+    FROM bounty_hints bh
+    WHERE bh.bounty_id = bounty_uuid;
+
+    v_penalty := COALESCE(bounty_record.hint_penalties[v_hint_index + 1], 0);
+
+    INSERT INTO hint_unlocks (participant_id, bounty_id, hint_index, penalty)
+    VALUES (participant_record.id, bounty_uuid, v_hint_index, v_penalty);
+
+    UPDATE bounty_participants
+    SET
+        hints_used = hints_used + 1,
+        hint_penalty_total = hint_penalty_total + v_penalty
+    WHERE id = participant_record.id;
+
+    RETURN jsonb_build_object(
+        'hint_index', v_hint_index,
+        'hint', v_hint,
+        'penalty', v_penalty,
+        'hints_used', v_hint_index + 1,
+        'hints_remaining', v_hints_count - v_hint_index - 1,
+        'hint_penalty_total', participant_record.hint_penalty_total + v_penalty
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION unlock_hint(UUID, TEXT) IS
+'Unlocks the next hint for a participant, records the unlock and its penalty, and returns { hint_index, hint, penalty, hints_used, hints_remaining, hint_penalty_total }.';
+
+GRANT EXECUTE ON FUNCTION unlock_hint(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION unlock_hint(UUID, TEXT) TO anon;
+
+-- ============================================================================
+-- FUNCTION 3: get_bounty_details
+-- ============================================================================
+-- Same as migration 043, with hints and hints_count from bounty_hints and
+-- participation set whenever the wallet has joined. participation_record is
+-- a bounty_participants row, so visitors who haven't joined (or sent no
+-- wallet) read its fields as NULL instead of hitting an unassigned record.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_bounty_details(
+    bounty_uuid UUID,
+    wallet_addr TEXT DEFAULT NULL
+)
+RETURNS JSONB AS $$
+DECLARE
+    bounty_record RECORD;
+    participation_record bounty_participants%ROWTYPE;
+    user_uuid UUID;
+    words_revealed BOOLEAN;
+    v_hints TEXT[];
+    v_is_participant BOOLEAN := false;
+    result JSONB;
+BEGIN
+    -- Get bounty
+    SELECT
+        b.*,
+        u.username as creator_username,
+        u.display_name as creator_display_name,
+        pt.evm_address as prize_token_address,
+        pt.decimals as prize_token_decimals
+    INTO bounty_record
+    FROM bounties b
+    JOIN users u ON b.creator_id = u.id
+    LEFT JOIN prize_tokens pt ON pt.token_id = b.prize_token_id
+    WHERE b.id = bounty_uuid;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bounty not found';
+    END IF;
+
+    -- Solutions are only safe to publish once nobody can play anymore
+    words_revealed := bounty_record.status IN ('completed', 'cancelled', 'expired')
+        OR (bounty_record.end_time IS NOT NULL AND bounty_record.end_time <= NOW());
+
+    SELECT bh.hints INTO v_hints
+    FROM bounty_hints bh
+    WHERE bh.bounty_id = bounty_uuid;
+
+    -- Get user participation if wallet provided
+    participation_record := NULL;
+    IF wallet_addr IS NOT NULL THEN
+        SELECT id INTO user_uuid FROM users WHERE wallet_address = wallet_addr;
+        IF FOUND THEN
+            SELECT * INTO participation_record
+            FROM bounty_participants
+            WHERE bounty_id = bounty_uuid AND user_id = user_uuid;
+            v_is_participant := FOUND;
+        END IF;
+    END IF;
+
+    -- Build result
+    result := jsonb_build_object(
+        'id', bounty_record.id,
+        'name', bounty_record.name,
+        'description', bounty_record.description,
+        'bounty_type', bounty_record.bounty_type,
+        'prize_amount', bounty_record.prize_amount,
+        'prize_currency', bounty_record.prize_currency,
+        'prize_token', CASE WHEN bounty_record.prize_token_id IS NOT NULL THEN
+            jsonb_build_object(
+                'token_id', bounty_record.prize_token_id,
+                'evm_address', bounty_record.prize_token_address,
+                'decimals', bounty_record.prize_token_decimals
+            )
+        END,
+        'entry_fee', bounty_record.entry_fee,
+        'prize_pool', bounty_record.prize_pool,
+        'status', bounty_record.status,
+        'is_public', bounty_record.is_public,
+        'participant_count', bounty_record.participant_count,
+        'max_participants', bounty_record.max_participants,
+        'max_attempts_per_user', bounty_record.max_attempts_per_user,
+        'time_limit_seconds', bounty_record.time_limit_seconds,
+        'hard_mode', bounty_record.hard_mode,
+        'language', bounty_record.language,
+        'puzzle', bounty_record.puzzle,
+        'start_time', bounty_record.start_time,
+        'end_time', bounty_record.end_time,
+        'duration_hours', bounty_record.duration_hours,
+        'created_at', bounty_record.created_at,
+        'server_time', NOW(),
+        'creator', jsonb_build_object(
+            'username', bounty_record.creator_username,
+            'display_name', bounty_record.creator_display_name
+        ),
+        'words', CASE WHEN words_revealed THEN to_jsonb(bounty_words(bounty_record.id)) ELSE NULL END,
+        'word_lengths', to_jsonb(bounty_record.word_lengths),
+        'words_count', bounty_record.words_count,
+        -- Hint text is only handed out through unlock_hint() while the bounty runs
+        'hints', CASE WHEN words_revealed THEN to_jsonb(COALESCE(v_hints, ARRAY[]::TEXT[])) ELSE NULL END,
+        'hints_count', bounty_record.hints_count,
+        'hint_penalties', to_jsonb(bounty_record.hint_penalties),
+        'participation', CASE
+            WHEN v_is_participant THEN
+                jsonb_build_object(
+                    'status', participation_record.status,
+                    'joined_at', participation_record.joined_at,
+                    'current_word_index', participation_record.current_word_index,
+                    'total_attempts', participation_record.total_attempts,
+                    'words_completed', participation_record.words_completed,
+                    'total_time_seconds', participation_record.total_time_seconds,
+                    'session_started_at', participation_record.session_started_at,
+                    'session_ended_at', participation_record.session_ended_at,
+                    'is_winner', participation_record.is_winner,
+                    'hints_used', participation_record.hints_used,
+                    'hint_penalty_total', participation_record.hint_penalty_total,
+                    'entry_fee_paid', participation_record.entry_fee_paid,
+                    'entry_refunded_at', participation_record.entry_refunded_at,
+                    'unlocked_hints', to_jsonb(COALESCE(v_hints[1:participation_record.hints_used], ARRAY[]::TEXT[]))
+                )
+            ELSE NULL
+        END
+    );
+
+    RETURN result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+-- What changed:
+-- - bounty_hints table (no client access) and bounties.hints_count
+-- - seal_bounty_hints trigger; bounties.hints is always NULL
+-- - unlock_hint() and get_bounty_details() read bounty_hints
+-- - get_bounty_details() returns participation for players still playing
+--
+-- Client:
+-- - BountyHuntPage maps bounty.hints, which is now always NULL; use
+--   hints_count, and unlock_hint() for the text
+-- ============================================================================
@@ -0,0 +1,203 @@
+-- ============================================================================
+-- Migration 048: Multi-Board Attempts Without Target Words
+-- Created: 2026-10-19
+-- Purpose: Stop storing each board's solution next to multi-board guesses
+-- ============================================================================
+-- ISSUE: Migration 046 stopped submit_attempt() from writing
+-- game_attempts.target_word, but Multi-board guesses are recorded by
+-- submit_multi_board_attempt(), which still wrote every unsolved board's
+-- word on every guess. The first guess handed all N solutions to the player
+-- through "Users can view own attempts" and getUserAttempts().
+--
+-- SOLUTION:
+-- submit_multi_board_attempt() no longer writes target_word; word_index
+-- already says which board a row belongs to. Rows written since 046 are
+-- cleared.
+-- ============================================================================
+
+UPDATE game_attempts SET target_word = NULL WHERE target_word IS NOT NULL;
+
+-- ============================================================================
+-- FUNCTION 1: submit_multi_board_attempt (internal)
+-- ============================================================================
+-- Same as migration 040, without target_word in the recorded attempts.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION submit_multi_board_attempt(
+    participant_uuid UUID,
+    guessed_word TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+    participant_record RECORD;
+    bounty_record RECORD;
+    v_guess TEXT;
+    v_target TEXT;
+    v_board_count INTEGER;
+    v_budget INTEGER;
+    v_attempt_num INTEGER;
+    v_last_attempt_at TIMESTAMP WITH TIME ZONE;
+    v_session_started TIMESTAMP WITH TIME ZONE;
+    v_is_timed BOOLEAN;
+    v_elapsed_seconds INTEGER;
+    v_attempt_seconds INTEGER;
+    v_solved_boards INTEGER[];
+    v_letter_results JSONB;
+    v_is_correct BOOLEAN;
+    v_boards JSONB := '[]'::JSONB;
+    v_boards_solved INTEGER;
+    v_all_solved BOOLEAN;
+    v_out_of_guesses BOOLEAN;
+BEGIN
+    SELECT * INTO participant_record
+    FROM bounty_participants
+    WHERE id = participant_uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Participant not found: %', participant_uuid;
+    END IF;
+
+    -- Re-checked under the lock so two racing guesses can't both spend the last one
+    IF participant_record.session_ended_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Participant % already finished', participant_uuid;
+    END IF;
+
+    SELECT * INTO bounty_record FROM bounties WHERE id = participant_record.bounty_id;
+    bounty_record.words := bounty_words(bounty_record.id);
+
+    v_board_count := array_length(bounty_record.words, 1);
+    v_budget := COALESCE(bounty_record.max_attempts_per_user, v_board_count + 5);
+    v_guess := normalize_word(guessed_word, bounty_record.language);
+
+    IF LENGTH(v_guess) <> LENGTH(normalize_word(bounty_record.words[1], bounty_record.language)) THEN
+        RAISE EXCEPTION 'Guess must be % letters long',
+            LENGTH(normalize_word(bounty_record.words[1], bounty_record.language));
+    END IF;
+
+    -- Same session clock as single-board play
+    v_session_started := COALESCE(participant_record.session_started_at, participant_record.joined_at, NOW());
+    v_is_timed := bounty_record.time_limit_seconds IS NOT NULL;
+
+    IF v_is_timed AND NOW() > v_session_started + make_interval(secs => bounty_record.time_limit_seconds) THEN
+        RAISE EXCEPTION 'Time limit of % seconds exceeded', bounty_record.time_limit_seconds;
+    END IF;
+
+    -- One shared guess counter across all boards
+    SELECT COALESCE(MAX(ga.attempt_number), 0) + 1, MAX(ga.created_at)
+    INTO v_attempt_num, v_last_attempt_at
+    FROM game_attempts ga
+    WHERE ga.participant_id = participant_uuid;
+
+    IF v_attempt_num > v_budget THEN
+        RAISE EXCEPTION 'No attempts left: all % guesses used', v_budget;
+    END IF;
+
+    SELECT COALESCE(array_agg(DISTINCT ga.word_index), '{}')
+    INTO v_solved_boards
+    FROM game_attempts ga
+    WHERE ga.participant_id = participant_uuid AND ga.result = 'correct';
+
+    v_attempt_seconds := FLOOR(EXTRACT(EPOCH FROM (NOW() - COALESCE(v_last_attempt_at, v_session_started))))::INTEGER;
+    v_elapsed_seconds := FLOOR(EXTRACT(EPOCH FROM (NOW() - v_session_started)))::INTEGER;
+
+    FOR board IN 0..v_board_count - 1 LOOP
+        CONTINUE WHEN board = ANY(v_solved_boards);
+
+        v_target := normalize_word(bounty_record.words[board + 1], bounty_record.language);
+        v_letter_results := calculate_letter_results(v_guess, v_target);
+        v_is_correct := v_guess = v_target;
+
+        INSERT INTO game_attempts (
+            participant_id,
+            bounty_id,
+            word_index,
+            attempt_number,
+            guessed_word,
+            result,
+            letter_results,
+            time_taken_seconds
+        ) VALUES (
+            participant_uuid,
+            bounty_record.id,
+            board,
+            v_attempt_num,
+            v_guess,
+            CASE
+                WHEN v_is_correct THEN 'correct'::attempt_result
+                WHEN jsonb_path_exists(v_letter_results, '$[*] ? (@.status != "absent")') THEN 'partial'::attempt_result
+                ELSE 'incorrect'::attempt_result
+            END,
+            v_letter_results,
+            GREATEST(v_attempt_seconds, 0)
+        );
+
+        v_boards := v_boards || jsonb_build_array(jsonb_build_object(
+            'word_index', board,
+            'letter_results', v_letter_results,
+            'correct', v_is_correct
+        ));
+
+        IF v_is_correct THEN
+            v_solved_boards := v_solved_boards || board;
+        END IF;
+    END LOOP;
+
+    v_boards_solved := COALESCE(array_length(v_solved_boards, 1), 0);
+    v_all_solved := v_boards_solved = v_board_count;
+    v_out_of_guesses := NOT v_all_solved AND v_attempt_num >= v_budget;
+
+    UPDATE bounty_participants
+    SET
+        total_attempts = total_attempts + 1,
+        total_time_seconds = GREATEST(v_elapsed_seconds, 0),
+        session_started_at = v_session_started,
+        session_ended_at = CASE
+            WHEN v_all_solved OR v_out_of_guesses THEN NOW()
+            ELSE session_ended_at
+        END,
+        words_completed = v_boards_solved,
+        status = CASE
+            WHEN v_all_solved THEN 'completed'::participation_status
+            WHEN v_out_of_guesses THEN 'failed'::participation_status
+            ELSE status
+        END,
+        completed_at = CASE
+            WHEN v_all_solved THEN NOW()
+            ELSE completed_at
+        END
+    WHERE id = participant_uuid;
+
+    RETURN jsonb_build_object(
+        'correct', v_all_solved,
+        'attempt_number', v_attempt_num,
+        'attempts_remaining', v_budget - v_attempt_num,
+        'boards', v_boards,
+        'boards_solved', v_boards_solved,
+        'boards_total', v_board_count,
+        'completed_bounty', v_all_solved,
+        'participant_id', participant_uuid,
+        'elapsed_seconds', GREATEST(v_elapsed_seconds, 0),
+        'time_remaining_seconds', CASE
+            WHEN v_is_timed THEN GREATEST(bounty_record.time_limit_seconds - v_elapsed_seconds, 0)
+            ELSE NULL
+        END
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION submit_multi_board_attempt(UUID, TEXT) IS
+'Scores one guess against every unsolved board of a Multi-board bounty. Internal: called by submit_attempt().';
+
+REVOKE EXECUTE ON FUNCTION submit_multi_board_attempt(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+-- What changed:
+-- - submit_multi_board_attempt() stops recording the target word of each board
+-- - target words written since migration 046 are cleared
+--
+-- Client:
+-- - No changes; multi-board restores already group attempts by word_index
+-- ============================================================================
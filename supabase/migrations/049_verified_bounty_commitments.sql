@@ -0,0 +1,281 @@
+-- ============================================================================
+-- Migration 049: Verified Bounty Commitments
+-- Created: 2026-10-19
+-- Purpose: Check the createBounty commitment on the server before storing it
+-- ============================================================================
+-- ISSUE: record_bounty_commitment() (migration 039) stored whatever
+-- commitment the creator sent, as long as it looked like bytes32. A creator
+-- could record a commitment to different words (or random bytes), and the
+-- badge would still say "Words committed on-chain" until the bounty ended.
+-- The salt came from two md5(gen_random_uuid()) halves, so only 244 of its
+-- 256 bits were random.
+--
+-- SOLUTION:
+-- 1. keccak256() in PL/pgSQL (Ethereum's Keccak-256, not SHA3-256), so the
+--    database can compute WordleBountyEscrow.computeCommitment itself.
+-- 2. bounty_commitment() is that commitment for a bounty's stored solution
+--    and salt. record_bounty_commitment() rejects anything else, and only
+--    accepts a transaction hash in the format EscrowService returns.
+-- 3. prepare_bounty_commitment() draws salts with pgcrypto's
+--    gen_random_bytes(32).
+-- ============================================================================
+
+-- ============================================================================
+-- FUNCTION 1: keccak256
+-- ============================================================================
+-- Keccak-f[1600] on 64-bit lanes held in BIGINT. Postgres shifts BIGINT
+-- arithmetically, so rotations mask off the copied sign bits.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION keccak256(input BYTEA)
+RETURNS BYTEA AS $$
+DECLARE
+    -- Round constants, and rotation offsets indexed by x + 5y
+    round_constants BIGINT[] := ARRAY(
+        SELECT ('x' || c)::BIT(64)::BIGINT
+        FROM unnest(ARRAY[
+            '0000000000000001', '0000000000008082', '800000000000808a', '8000000080008000',
+            '000000000000808b', '0000000080000001', '8000000080008081', '8000000000008009',
+            '000000000000008a', '0000000000000088', '0000000080008009', '000000008000000a',
+            '000000008000808b', '800000000000008b', '8000000000008089', '8000000000008003',
+            '8000000000008002', '8000000000000080', '000000000000800a', '800000008000000a',
+            '8000000080008081', '8000000000008080', '0000000080000001', '8000000080008008'
+        ]) WITH ORDINALITY AS t(c, n)
+        ORDER BY n
+    );
+    rotations INTEGER[] := ARRAY[
+        0, 1, 62, 28, 27,
+        36, 44, 6, 55, 20,
+        3, 10, 43, 25, 39,
+        41, 45, 15, 21, 8,
+        18, 2, 61, 56, 14
+    ];
+    rate CONSTANT INTEGER := 136;
+    state BIGINT[] := array_fill(0::BIGINT, ARRAY[25]);
+    b BIGINT[] := array_fill(0::BIGINT, ARRAY[25]);
+    c BIGINT[] := array_fill(0::BIGINT, ARRAY[5]);
+    padded BYTEA;
+    lane BIGINT;
+    d BIGINT;
+    n INTEGER;
+    r INTEGER;
+    output BYTEA := ''::BYTEA;
+BEGIN
+    -- Keccak padding: 0x01, zeros, then 0x80 in the last byte of the block
+    padded := input || '\x01'::BYTEA;
+    padded := padded || decode(repeat('00', (rate - length(padded) % rate) % rate), 'hex');
+    padded := set_byte(padded, length(padded) - 1, get_byte(padded, length(padded) - 1) | 128);
+
+    FOR block_start IN 0..length(padded) - 1 BY rate LOOP
+        -- Absorb: XOR the block into the first 17 lanes, little-endian
+        FOR i IN 0..rate / 8 - 1 LOOP
+            lane := 0;
+            FOR k IN 0..7 LOOP
+                lane := lane | (get_byte(padded, block_start + i * 8 + k)::BIGINT << (8 * k));
+            END LOOP;
+            state[i + 1] := state[i + 1] # lane;
+        END LOOP;
+
+        FOR round_number IN 1..24 LOOP
+            -- Theta
+            FOR x IN 0..4 LOOP
+                c[x + 1] := state[x + 1] # state[x + 6] # state[x + 11] # state[x + 16] # state[x + 21];
+            END LOOP;
+            FOR x IN 0..4 LOOP
+                lane := c[(x + 1) % 5 + 1];
+                d := c[(x + 4) % 5 + 1] # ((lane << 1) | ((lane >> 63) & 1));
+                FOR y IN 0..4 LOOP
+                    state[x + 5 * y + 1] := state[x + 5 * y + 1] # d;
+                END LOOP;
+            END LOOP;
+
+            -- Rho and pi
+            FOR x IN 0..4 LOOP
+                FOR y IN 0..4 LOOP
+                    lane := state[x + 5 * y + 1];
+                    r := rotations[x + 5 * y + 1];
+                    IF r > 0 THEN
+                        lane := (lane << r) | ((lane >> (64 - r)) & ~((-1)::BIGINT << r));
+                    END IF;
+                    b[y + 5 * ((2 * x + 3 * y) % 5) + 1] := lane;
+                END LOOP;
+            END LOOP;
+
+            -- Chi
+            FOR x IN 0..4 LOOP
+                FOR y IN 0..4 LOOP
+                    state[x + 5 * y + 1] := b[x + 5 * y + 1]
+                        # (~b[(x + 1) % 5 + 5 * y + 1] & b[(x + 2) % 5 + 5 * y + 1]);
+                END LOOP;
+            END LOOP;
+
+            -- Iota
+            state[1] := state[1] # round_constants[round_number];
+        END LOOP;
+    END LOOP;
+
+    -- Squeeze: the first four lanes, little-endian
+    FOR i IN 1..4 LOOP
+        FOR k IN 0..7 LOOP
+            n := ((state[i] >> (8 * k)) & 255)::INTEGER;
+            output := output || decode(lpad(to_hex(n), 2, '0'), 'hex');
+        END LOOP;
+    END LOOP;
+
+    RETURN output;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE STRICT;
+
+COMMENT ON FUNCTION keccak256(BYTEA) IS
+'Ethereum Keccak-256 of the input bytes (ethers keccak256, Solidity keccak256).';
+
+-- ============================================================================
+-- FUNCTION 2: bounty_commitment (internal)
+-- ============================================================================
+-- computeCommitment(bountyId, salt, solution) for the stored solution and
+-- salt, with bountyId built like bountyIdToBytes32() in
+-- src/utils/commitment.ts: the UUID's 16 bytes, zero-padded to 32. Null
+-- before prepare_bounty_commitment() has run.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION bounty_commitment(bounty_uuid UUID)
+RETURNS TEXT AS $$
+DECLARE
+    v_salt TEXT;
+BEGIN
+    SELECT salt INTO v_salt FROM bounty_commitments WHERE bounty_id = bounty_uuid;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN '0x' || encode(keccak256(
+        decode(repeat('00', 16) || replace(bounty_uuid::TEXT, '-', ''), 'hex')
+        || decode(substring(v_salt FROM 3), 'hex')
+        || convert_to(bounty_committed_solution(bounty_uuid), 'UTF8')
+    ), 'hex');
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+COMMENT ON FUNCTION bounty_commitment(UUID) IS
+'The commitment createBounty must carry for this bounty: keccak256(bountyId, salt, solution).';
+
+REVOKE EXECUTE ON FUNCTION bounty_commitment(UUID) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- FUNCTION 3: prepare_bounty_commitment
+-- ============================================================================
+-- Same as migration 041, with the salt from gen_random_bytes(32).
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION prepare_bounty_commitment(
+    bounty_uuid UUID,
+    wallet_addr TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+    bounty_record RECORD;
+    v_salt TEXT;
+BEGIN
+    SELECT b.* INTO bounty_record
+    FROM bounties b
+    JOIN users u ON u.id = b.creator_id
+    WHERE b.id = bounty_uuid AND u.wallet_address = wallet_addr;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Only the creator can commit bounty %', bounty_uuid;
+    END IF;
+
+    IF bounty_record.solution_commitment IS NOT NULL THEN
+        RAISE EXCEPTION 'Bounty % is already committed', bounty_uuid;
+    END IF;
+
+    -- 32 random bytes as a bytes32 hex string
+    INSERT INTO bounty_commitments (bounty_id, salt)
+    VALUES (bounty_uuid, '0x' || encode(gen_random_bytes(32), 'hex'))
+    ON CONFLICT (bounty_id) DO NOTHING;
+
+    SELECT salt INTO v_salt FROM bounty_commitments WHERE bounty_id = bounty_uuid;
+
+    RETURN jsonb_build_object(
+        'solution', bounty_committed_solution(bounty_uuid),
+        'salt', v_salt
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION prepare_bounty_commitment(UUID, TEXT) IS
+'Creator only: returns { solution, salt } to build the createBounty commitment.';
+
+-- ============================================================================
+-- FUNCTION 4: record_bounty_commitment
+-- ============================================================================
+-- Same as migration 039, but the commitment must equal bounty_commitment()
+-- and tx_hash must be a 0x-prefixed 32-byte transaction hash.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION record_bounty_commitment(
+    bounty_uuid UUID,
+    wallet_addr TEXT,
+    commitment TEXT,
+    tx_hash TEXT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    v_expected TEXT;
+BEGIN
+    IF commitment !~ '^0x[0-9a-fA-F]{64}$' THEN
+        RAISE EXCEPTION 'Commitment must be a bytes32 hex string';
+    END IF;
+
+    IF tx_hash IS NULL OR tx_hash !~ '^0x[0-9a-fA-F]{64}$' THEN
+        RAISE EXCEPTION 'Transaction hash must be a 0x-prefixed 32-byte hex string';
+    END IF;
+
+    v_expected := bounty_commitment(bounty_uuid);
+
+    IF v_expected IS NULL THEN
+        RAISE EXCEPTION 'Call prepare_bounty_commitment() first';
+    END IF;
+
+    IF lower(commitment) <> v_expected THEN
+        RAISE EXCEPTION 'Commitment does not match the bounty words and salt';
+    END IF;
+
+    UPDATE bounties b
+    SET
+        solution_commitment = v_expected,
+        transaction_hash = lower(tx_hash),
+        updated_at = NOW()
+    FROM users u
+    WHERE b.id = bounty_uuid
+      AND u.id = b.creator_id
+      AND u.wallet_address = wallet_addr
+      AND b.solution_commitment IS NULL;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bounty % is already committed or not yours', bounty_uuid;
+    END IF;
+
+    RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION record_bounty_commitment(UUID, TEXT, TEXT, TEXT) IS
+'Creator only: records the createBounty transaction once its commitment matches the bounty words and salt. Locks bounties.words.';
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+-- What changed:
+-- - keccak256() and bounty_commitment()
+-- - record_bounty_commitment() rejects commitments that don't match the
+--   stored words and salt, and malformed transaction hashes
+-- - prepare_bounty_commitment() salts come from gen_random_bytes(32)
+--
+-- Client:
+-- - CreateBountyPage: pass the commitment built with
+--   computeSolutionCommitment() from prepare_bounty_commitment()'s
+--   { solution, salt }, and the createBounty receipt's hash. A mismatch now
+--   fails before the bounty is shown as committed.
+-- ============================================================================
@@ -0,0 +1,219 @@
+-- ============================================================================
+-- Migration 050: Puzzle Attempts Without Target Words
+-- Created: 2026-10-19
+-- Purpose: Stop storing the solution next to Word-ladder and Anagram guesses
+-- ============================================================================
+-- ISSUE: Migrations 046 and 048 stopped submit_attempt() and
+-- submit_multi_board_attempt() from writing game_attempts.target_word, but
+-- Word-ladder and Anagram guesses go through submit_puzzle_attempt(), which
+-- still wrote the solution on every guess. The first step of a ladder or the
+-- first anagram guess gave the answer away through getUserAttempts().
+--
+-- SOLUTION:
+-- 1. submit_puzzle_attempt() no longer writes target_word.
+-- 2. A CHECK constraint keeps game_attempts.target_word NULL, so any other
+--    writer fails instead of leaking words.
+-- ============================================================================
+
+UPDATE game_attempts SET target_word = NULL WHERE target_word IS NOT NULL;
+
+-- ============================================================================
+-- FUNCTION 1: submit_puzzle_attempt (internal)
+-- ============================================================================
+-- Same as migration 040, without target_word in the recorded attempt.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION submit_puzzle_attempt(
+    participant_uuid UUID,
+    guessed_word TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+    participant_record RECORD;
+    bounty_record RECORD;
+    v_guess TEXT;
+    v_target TEXT;
+    v_previous TEXT;
+    v_attempt_num INTEGER;
+    v_last_attempt_at TIMESTAMP WITH TIME ZONE;
+    v_session_started TIMESTAMP WITH TIME ZONE;
+    v_is_timed BOOLEAN;
+    v_elapsed_seconds INTEGER;
+    v_attempt_seconds INTEGER;
+    v_letter_results JSONB;
+    v_is_correct BOOLEAN;
+    v_out_of_guesses BOOLEAN;
+BEGIN
+    SELECT * INTO participant_record
+    FROM bounty_participants
+    WHERE id = participant_uuid
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Participant not found: %', participant_uuid;
+    END IF;
+
+    -- Re-checked under the lock so two racing guesses can't both finish the puzzle
+    IF participant_record.session_ended_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Participant % already finished', participant_uuid;
+    END IF;
+
+    SELECT * INTO bounty_record FROM bounties WHERE id = participant_record.bounty_id;
+    bounty_record.words := bounty_words(bounty_record.id);
+
+    v_target := normalize_word(bounty_record.words[1], bounty_record.language);
+    v_guess := normalize_word(guessed_word, bounty_record.language);
+
+    IF LENGTH(v_guess) <> LENGTH(v_target) THEN
+        RAISE EXCEPTION 'Guess must be % letters long', LENGTH(v_target);
+    END IF;
+
+    -- Same session clock as every other bounty type
+    v_session_started := COALESCE(participant_record.session_started_at, participant_record.joined_at, NOW());
+    v_is_timed := bounty_record.time_limit_seconds IS NOT NULL;
+
+    IF v_is_timed AND NOW() > v_session_started + make_interval(secs => bounty_record.time_limit_seconds) THEN
+        RAISE EXCEPTION 'Time limit of % seconds exceeded', bounty_record.time_limit_seconds;
+    END IF;
+
+    SELECT COALESCE(MAX(ga.attempt_number), 0) + 1, MAX(ga.created_at)
+    INTO v_attempt_num, v_last_attempt_at
+    FROM game_attempts ga
+    WHERE ga.participant_id = participant_uuid;
+
+    IF bounty_record.max_attempts_per_user IS NOT NULL AND v_attempt_num > bounty_record.max_attempts_per_user THEN
+        RAISE EXCEPTION 'No attempts left: all % guesses used', bounty_record.max_attempts_per_user;
+    END IF;
+
+    IF bounty_record.bounty_type = 'Word-ladder' THEN
+        -- Only valid steps are recorded, so the latest attempt is the top of the ladder
+        SELECT ga.guessed_word INTO v_previous
+        FROM game_attempts ga
+        WHERE ga.participant_id = participant_uuid
+        ORDER BY ga.attempt_number DESC
+        LIMIT 1;
+
+        v_previous := COALESCE(v_previous, bounty_record.puzzle->>'start_word');
+
+        IF count_letter_changes(v_previous, v_guess) <> 1 THEN
+            RAISE EXCEPTION 'Word ladder: Change exactly one letter of %', v_previous;
+        END IF;
+
+        IF v_guess = bounty_record.puzzle->>'start_word' OR EXISTS (
+            SELECT 1 FROM game_attempts ga
+            WHERE ga.participant_id = participant_uuid AND ga.guessed_word = v_guess
+        ) THEN
+            RAISE EXCEPTION 'Word ladder: % is already on your ladder', v_guess;
+        END IF;
+
+        IF NOT validate_word(v_guess, bounty_record.language) THEN
+            RAISE EXCEPTION 'Word ladder: % is not in the dictionary', v_guess;
+        END IF;
+
+        v_is_correct := v_guess = v_target;
+    ELSE
+        IF sort_letters(v_guess) <> sort_letters(bounty_record.puzzle->>'letters') THEN
+            RAISE EXCEPTION 'Anagram: Use each of the letters % exactly once', bounty_record.puzzle->>'letters';
+        END IF;
+
+        -- Any real word made of the letters counts, not just the creator's;
+        -- anything else is a wrong guess and uses up an attempt
+        v_is_correct := v_guess = v_target OR validate_word(v_guess, bounty_record.language);
+    END IF;
+
+    v_letter_results := calculate_letter_results(v_guess, v_target);
+    v_attempt_seconds := FLOOR(EXTRACT(EPOCH FROM (NOW() - COALESCE(v_last_attempt_at, v_session_started))))::INTEGER;
+    v_elapsed_seconds := FLOOR(EXTRACT(EPOCH FROM (NOW() - v_session_started)))::INTEGER;
+    v_out_of_guesses := NOT v_is_correct
+        AND bounty_record.max_attempts_per_user IS NOT NULL
+        AND v_attempt_num >= bounty_record.max_attempts_per_user;
+
+    INSERT INTO game_attempts (
+        participant_id,
+        bounty_id,
+        word_index,
+        attempt_number,
+        guessed_word,
+        result,
+        letter_results,
+        time_taken_seconds
+    ) VALUES (
+        participant_uuid,
+        bounty_record.id,
+        0,
+        v_attempt_num,
+        v_guess,
+        CASE
+            WHEN v_is_correct THEN 'correct'::attempt_result
+            WHEN jsonb_path_exists(v_letter_results, '$[*] ? (@.status != "absent")') THEN 'partial'::attempt_result
+            ELSE 'incorrect'::attempt_result
+        END,
+        v_letter_results,
+        GREATEST(v_attempt_seconds, 0)
+    );
+
+    UPDATE bounty_participants
+    SET
+        total_attempts = total_attempts + 1,
+        total_time_seconds = GREATEST(v_elapsed_seconds, 0),
+        session_started_at = v_session_started,
+        session_ended_at = CASE
+            WHEN v_is_correct OR v_out_of_guesses THEN NOW()
+            ELSE session_ended_at
+        END,
+        words_completed = CASE WHEN v_is_correct THEN 1 ELSE words_completed END,
+        status = CASE
+            WHEN v_is_correct THEN 'completed'::participation_status
+            WHEN v_out_of_guesses THEN 'failed'::participation_status
+            ELSE status
+        END,
+        completed_at = CASE
+            WHEN v_is_correct THEN NOW()
+            ELSE completed_at
+        END
+    WHERE id = participant_uuid;
+
+    RETURN jsonb_build_object(
+        'correct', v_is_correct,
+        'attempt_number', v_attempt_num,
+        'letter_results', v_letter_results,
+        'completed_bounty', v_is_correct,
+        'attempts_remaining', bounty_record.max_attempts_per_user - v_attempt_num,
+        'participant_id', participant_uuid,
+        'elapsed_seconds', GREATEST(v_elapsed_seconds, 0),
+        'time_remaining_seconds', CASE
+            WHEN v_is_timed THEN GREATEST(bounty_record.time_limit_seconds - v_elapsed_seconds, 0)
+            ELSE NULL
+        END
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION submit_puzzle_attempt(UUID, TEXT) IS
+'Checks and scores one Word-ladder step or Anagram guess. Rule violations raise "Word ladder: <rule>" or "Anagram: <rule>" and record nothing. Internal: called by submit_attempt().';
+
+REVOKE EXECUTE ON FUNCTION submit_puzzle_attempt(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- CONSTRAINT: game_attempts.target_word stays empty
+-- ============================================================================
+
+ALTER TABLE game_attempts DROP CONSTRAINT IF EXISTS game_attempts_no_target_word;
+ALTER TABLE game_attempts
+    ADD CONSTRAINT game_attempts_no_target_word CHECK (target_word IS NULL);
+
+COMMENT ON COLUMN game_attempts.target_word IS
+'Always NULL (migration 050): use word_index and bounties.revealed_words';
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+-- What changed:
+-- - submit_puzzle_attempt() stops recording the solution
+-- - CHECK (target_word IS NULL) on game_attempts
+-- - target words written since migration 046 are cleared
+--
+-- Client:
+-- - No changes; puzzle boards are restored from guessed_word and
+--   letter_results
+-- ============================================================================
@@ -0,0 +1,449 @@
+-- ============================================================================
+-- Migration 051: Consensus Draw Entropy
+-- Created: 2026-10-19
+-- Purpose: Draw Random words from entropy the bounty creator can't choose
+-- ============================================================================
+-- ISSUE: activate_random_bounty() (migration 041) mixed the server seed with
+-- bounties.transaction_hash, a string the creator sends to
+-- record_bounty_commitment() and can pick freely, and the creator called
+-- activate_random_bounty() themselves. Server seeds came from two
+-- md5(gen_random_uuid()) halves.
+--
+-- SOLUTION:
+-- 1. The entropy is the hash of the Hedera block (record file) that holds
+--    the createBounty transaction. The network sets it at consensus, after
+--    seed_commitment is on-chain, and anyone can look it up on HashScan.
+-- 2. activate_random_bounty() is service role only and takes the block from
+--    the activate-random-bounty edge function, which reads the transaction
+--    from the mirror node and checks it is the creator's successful
+--    createBounty call carrying the recorded commitment.
+-- 3. bounty_draws.entropy_block records the block number;
+--    get_bounty_draw() returns it.
+-- 4. Server seeds come from gen_random_bytes(32).
+-- ============================================================================
+
+ALTER TABLE bounty_draws ADD COLUMN IF NOT EXISTS entropy_block BIGINT;
+
+COMMENT ON COLUMN bounty_draws.entropy IS
+'Hash of the Hedera block holding the createBounty transaction (migration 051)';
+COMMENT ON COLUMN bounty_draws.entropy_block IS
+'Number of that block, for looking it up on HashScan';
+
+-- ============================================================================
+-- FUNCTION 1: create_bounty_with_wallet
+-- ============================================================================
+-- Same as migration 043, with the server seed from gen_random_bytes(32).
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.create_bounty_with_wallet(
+  wallet_addr VARCHAR(255),
+  bounty_data JSONB
+) RETURNS UUID AS $$
+DECLARE
+  user_uuid UUID;
+  bounty_uuid UUID;
+  v_language TEXT := COALESCE(bounty_data->>'language', 'en');
+  v_board_count INTEGER;
+  v_max_attempts INTEGER := (bounty_data->>'max_attempts_per_user')::INTEGER;
+  v_winner_criteria winner_criteria := (bounty_data->>'winner_criteria')::winner_criteria;
+  v_target TEXT;
+  v_start TEXT;
+  v_puzzle JSONB;
+  v_is_random BOOLEAN := bounty_data->>'bounty_type' = 'Random words';
+  v_word_length INTEGER;
+  v_words_count INTEGER;
+  v_common_only BOOLEAN := COALESCE((bounty_data->>'common_only')::BOOLEAN, true);
+  v_server_seed TEXT;
+  v_entry_fee DECIMAL(20, 8) := COALESCE((bounty_data->>'entry_fee')::DECIMAL(20, 8), 0);
+  v_currency TEXT := upper(COALESCE(bounty_data->>'prize_currency', 'HBAR'));
+  v_prize_amount DECIMAL(20, 8) := COALESCE((bounty_data->>'prize_amount')::DECIMAL(20, 8), 0);
+  v_token RECORD;
+  v_token_id TEXT;
+BEGIN
+  IF v_entry_fee < 0 THEN
+    RAISE EXCEPTION 'Entry fee can''t be negative (got %)', v_entry_fee;
+  END IF;
+
+  -- Token prizes: only listed tokens, and no amounts finer than the token allows
+  IF v_currency <> 'HBAR' THEN
+    SELECT * INTO v_token FROM prize_tokens WHERE symbol = v_currency AND is_active;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Unknown prize currency %', v_currency;
+    END IF;
+
+    IF round(v_prize_amount, v_token.decimals) <> v_prize_amount
+      OR round(v_entry_fee, v_token.decimals) <> v_entry_fee THEN
+      RAISE EXCEPTION '% amounts have at most % decimals', v_currency, v_token.decimals;
+    END IF;
+
+    v_token_id := v_token.token_id;
+  END IF;
+
+  -- Multi-board: 2, 4 or 8 words of one length, sharing one attempt budget
+  IF bounty_data->>'bounty_type' = 'Multi-board' THEN
+    v_board_count := jsonb_array_length(COALESCE(bounty_data->'words', '[]'::JSONB));
+
+    IF v_board_count NOT IN (2, 4, 8) THEN
+      RAISE EXCEPTION 'Multi-board bounties need 2, 4 or 8 words (got %)', v_board_count;
+    END IF;
+
+    IF (
+      SELECT COUNT(DISTINCT LENGTH(normalize_word(w, v_language)))
+      FROM jsonb_array_elements_text(bounty_data->'words') AS w
+    ) <> 1 THEN
+      RAISE EXCEPTION 'Every board of a multi-board bounty needs a word of the same length';
+    END IF;
+
+    v_max_attempts := COALESCE(v_max_attempts, v_board_count + 5);
+  END IF;
+
+  -- Word ladder and anagram: exactly one target word
+  IF bounty_data->>'bounty_type' IN ('Word-ladder', 'Anagram') THEN
+    IF jsonb_array_length(COALESCE(bounty_data->'words', '[]'::JSONB)) <> 1 THEN
+      RAISE EXCEPTION '% bounties need exactly one word', bounty_data->>'bounty_type';
+    END IF;
+
+    IF v_winner_criteria IN ('words-correct', 'boards-solved') THEN
+      RAISE EXCEPTION '% bounties can''t use winner criteria %', bounty_data->>'bounty_type', v_winner_criteria;
+    END IF;
+
+    v_target := normalize_word(bounty_data->'words'->>0, v_language);
+  END IF;
+
+  -- Word ladder: every step is checked against the dictionary, so both ends must be in it
+  IF bounty_data->>'bounty_type' = 'Word-ladder' THEN
+    v_start := normalize_word(bounty_data->>'start_word', v_language);
+
+    IF v_start IS NULL OR LENGTH(v_start) <> LENGTH(v_target) OR v_start = v_target THEN
+      RAISE EXCEPTION 'A word ladder needs a start word of the same length as its target';
+    END IF;
+
+    IF NOT validate_word(v_start, v_language) OR NOT validate_word(v_target, v_language) THEN
+      RAISE EXCEPTION 'Word ladder start and target must both be in the dictionary';
+    END IF;
+
+    v_puzzle := jsonb_build_object('start_word', v_start, 'target_word', v_target);
+    v_winner_criteria := COALESCE(v_winner_criteria, 'attempts');
+  END IF;
+
+  -- Anagram: players get the letters, scrambled here so the creator can't leak an order
+  IF bounty_data->>'bounty_type' = 'Anagram' THEN
+    v_puzzle := jsonb_build_object('letters', scramble_word(v_target));
+    v_winner_criteria := COALESCE(v_winner_criteria, 'time');
+    v_max_attempts := COALESCE(v_max_attempts, 6);
+  END IF;
+
+  -- Random words: drawn by activate_random_bounty(), so the creator never sees them
+  IF v_is_random THEN
+    IF jsonb_array_length(COALESCE(bounty_data->'words', '[]'::JSONB)) > 0 THEN
+      RAISE EXCEPTION 'Random words bounties draw their words on the server; send word_length and words_count instead';
+    END IF;
+
+    v_word_length := COALESCE((bounty_data->>'word_length')::INTEGER, 5);
+    v_words_count := COALESCE((bounty_data->>'words_count')::INTEGER, 1);
+
+    IF v_words_count NOT BETWEEN 1 AND 10 THEN
+      RAISE EXCEPTION 'Random words bounties draw 1 to 10 words (got %)', v_words_count;
+    END IF;
+
+    IF COALESCE(array_length(random_word_pool(v_language, v_word_length, v_common_only), 1), 0) < v_words_count THEN
+      RAISE EXCEPTION 'Not enough % letter words in the % dictionary to draw %', v_word_length, v_language, v_words_count;
+    END IF;
+  END IF;
+
+  -- Get or create user
+  user_uuid := public.get_or_create_user(wallet_addr);
+
+  -- Create bounty
+  INSERT INTO bounties (
+    name,
+    description,
+    creator_id,
+    bounty_type,
+    prize_amount,
+    prize_currency,
+    prize_token_id,
+    entry_fee,
+    words,
+    word_lengths,
+    hints,
+    hint_penalties,
+    max_participants,
+    max_attempts_per_user,
+    time_limit_seconds,
+    winner_criteria,
+    duration_hours,
+    status,
+    is_public,
+    requires_registration,
+    hard_mode,
+    language,
+    puzzle,
+    start_time,
+    end_time
+  ) VALUES (
+    bounty_data->>'name',
+    bounty_data->>'description',
+    user_uuid,
+    COALESCE((bounty_data->>'bounty_type')::bounty_type, 'Simple'::bounty_type),
+    v_prize_amount,
+    v_currency,
+    v_token_id,
+    v_entry_fee,
+    CASE WHEN v_is_random THEN NULL ELSE COALESCE(
+      ARRAY(SELECT normalize_word(w, v_language) FROM jsonb_array_elements_text(bounty_data->'words') AS w),
+      ARRAY['WORDLE']
+    ) END,
+    -- Set from the words by seal_bounty_words (migration 040); known up front for draws
+    CASE WHEN v_is_random THEN array_fill(v_word_length, ARRAY[v_words_count]) END,
+    COALESCE(
+      ARRAY(SELECT jsonb_array_elements_text(bounty_data->'hints')),
+      ARRAY[]::TEXT[]
+    ),
+    COALESCE(
+      ARRAY(SELECT jsonb_array_elements_text(bounty_data->'hint_penalties')::DECIMAL(10, 2)),
+      ARRAY[]::DECIMAL(10, 2)[]
+    ),
+    (bounty_data->>'max_participants')::INTEGER,
+    v_max_attempts,
+    (bounty_data->>'time_limit_seconds')::INTEGER,
+    COALESCE(v_winner_criteria, 'attempts'::winner_criteria),
+    (bounty_data->>'duration_hours')::INTEGER,
+    CASE
+      WHEN v_is_random THEN 'draft'::bounty_status
+      ELSE COALESCE((bounty_data->>'status')::bounty_status, 'active'::bounty_status)
+    END,
+    COALESCE((bounty_data->>'is_public')::BOOLEAN, true),
+    COALESCE((bounty_data->>'requires_registration')::BOOLEAN, false),
+    COALESCE((bounty_data->>'hard_mode')::BOOLEAN, false),
+    v_language,
+    v_puzzle,
+    -- Draws start their clock at activation
+    CASE WHEN v_is_random THEN NULL ELSE NOW() END,
+    CASE
+      WHEN NOT v_is_random AND bounty_data->>'duration_hours' IS NOT NULL
+      THEN NOW() + ((bounty_data->>'duration_hours')::INTEGER || ' hours')::INTERVAL
+      ELSE NULL
+    END
+  ) RETURNING id INTO bounty_uuid;
+
+  -- Commit to the draw's server seed before any entropy exists
+  IF v_is_random THEN
+    v_server_seed := encode(gen_random_bytes(32), 'hex');
+
+    INSERT INTO bounty_draws (bounty_id, server_seed, seed_commitment, language, word_length, words_count, common_only)
+    VALUES (
+      bounty_uuid,
+      v_server_seed,
+      encode(digest(v_server_seed, 'sha256'), 'hex'),
+      v_language,
+      v_word_length,
+      v_words_count,
+      v_common_only
+    );
+  END IF;
+
+  RETURN bounty_uuid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.create_bounty_with_wallet(VARCHAR, JSONB) TO anon;
+GRANT EXECUTE ON FUNCTION public.create_bounty_with_wallet(VARCHAR, JSONB) TO authenticated;
+
+-- ============================================================================
+-- FUNCTION 2: activate_random_bounty
+-- ============================================================================
+-- Service role only (activate-random-bounty edge function), once the
+-- createBounty transaction has been checked on the mirror node. Same draw as
+-- migration 041, with the block hash as entropy.
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS activate_random_bounty(UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION activate_random_bounty(
+    bounty_uuid UUID,
+    block_number BIGINT,
+    block_hash TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+    bounty_record RECORD;
+    draw_record RECORD;
+    v_entropy TEXT;
+    v_seed TEXT;
+    v_pool TEXT[];
+BEGIN
+    -- Mirror nodes return the 48-byte record file hash; JSON-RPC relays the first 32 bytes
+    IF block_hash IS NULL OR block_hash !~ '^0x[0-9a-fA-F]{64}([0-9a-fA-F]{32})?$' THEN
+        RAISE EXCEPTION 'Block hash must be a 0x-prefixed 32- or 48-byte hex string';
+    END IF;
+
+    IF block_number IS NULL OR block_number < 0 THEN
+        RAISE EXCEPTION 'Block number is required';
+    END IF;
+
+    SELECT b.* INTO bounty_record
+    FROM bounties b
+    WHERE b.id = bounty_uuid
+    FOR UPDATE OF b;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bounty % not found', bounty_uuid;
+    END IF;
+
+    SELECT * INTO draw_record FROM bounty_draws WHERE bounty_id = bounty_uuid;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bounty % has no random draw', bounty_uuid;
+    END IF;
+
+    IF draw_record.drawn_at IS NOT NULL THEN
+        RAISE EXCEPTION 'Bounty % words were already drawn', bounty_uuid;
+    END IF;
+
+    -- The block must hold createBounty, which puts seed_commitment on-chain
+    IF bounty_record.solution_commitment IS NULL OR bounty_record.transaction_hash IS NULL THEN
+        RAISE EXCEPTION 'Record the createBounty transaction with record_bounty_commitment() first';
+    END IF;
+
+    v_entropy := lower(block_hash);
+    v_seed := encode(digest(draw_record.server_seed || ':' || v_entropy, 'sha256'), 'hex');
+    v_pool := random_word_pool(draw_record.language, draw_record.word_length, draw_record.common_only);
+
+    UPDATE bounty_draws
+    SET
+        entropy = v_entropy,
+        entropy_block = block_number,
+        seed = v_seed,
+        pool_size = COALESCE(array_length(v_pool, 1), 0),
+        pool_hash = encode(digest(array_to_string(v_pool, ','), 'sha256'), 'hex'),
+        drawn_at = NOW()
+    WHERE bounty_id = bounty_uuid;
+
+    -- Sealed by seal_bounty_words (migration 040) before the row is stored
+    UPDATE bounties
+    SET
+        words = draw_random_words(v_seed, v_pool, draw_record.words_count),
+        status = 'active',
+        start_time = NOW(),
+        end_time = CASE
+            WHEN duration_hours IS NOT NULL THEN NOW() + (duration_hours || ' hours')::INTERVAL
+            ELSE NULL
+        END,
+        updated_at = NOW()
+    WHERE id = bounty_uuid;
+
+    RETURN get_bounty_draw(bounty_uuid);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION activate_random_bounty(UUID, BIGINT, TEXT) IS
+'Service role only: draws a Random words bounty''s words from its committed seed and the hash of the block holding createBounty, then makes it active.';
+
+REVOKE EXECUTE ON FUNCTION activate_random_bounty(UUID, BIGINT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION activate_random_bounty(UUID, BIGINT, TEXT) TO service_role;
+
+-- ============================================================================
+-- FUNCTION 3: get_random_bounty_activation
+-- ============================================================================
+-- Service role only. What the edge function checks on the mirror node:
+-- { transaction_hash, commitment, creator_wallet }, or null when the bounty
+-- is not a committed Random words draft waiting for its draw.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_random_bounty_activation(bounty_uuid UUID)
+RETURNS JSONB AS $$
+DECLARE
+    v_result JSONB;
+BEGIN
+    SELECT jsonb_build_object(
+        'transaction_hash', b.transaction_hash,
+        'commitment', b.solution_commitment,
+        'creator_wallet', u.wallet_address
+    ) INTO v_result
+    FROM bounties b
+    JOIN bounty_draws bd ON bd.bounty_id = b.id
+    JOIN users u ON u.id = b.creator_id
+    WHERE b.id = bounty_uuid
+      AND bd.drawn_at IS NULL
+      AND b.solution_commitment IS NOT NULL
+      AND b.transaction_hash IS NOT NULL;
+
+    RETURN v_result;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+COMMENT ON FUNCTION get_random_bounty_activation(UUID) IS
+'Service role only: the createBounty transaction, commitment and creator wallet of a Random words bounty waiting for its draw.';
+
+REVOKE EXECUTE ON FUNCTION get_random_bounty_activation(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_random_bounty_activation(UUID) TO service_role;
+
+-- ============================================================================
+-- FUNCTION 4: get_bounty_draw
+-- ============================================================================
+-- Same as migration 041, plus entropy_block.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_bounty_draw(bounty_uuid UUID)
+RETURNS JSONB AS $$
+DECLARE
+    draw_record RECORD;
+    v_revealed BOOLEAN;
+BEGIN
+    SELECT bd.*, b.status, b.end_time INTO draw_record
+    FROM bounty_draws bd
+    JOIN bounties b ON b.id = bd.bounty_id
+    WHERE bd.bounty_id = bounty_uuid;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bounty % has no random draw', bounty_uuid;
+    END IF;
+
+    v_revealed := draw_record.drawn_at IS NOT NULL AND (
+        draw_record.status IN ('completed', 'cancelled', 'expired')
+        OR (draw_record.end_time IS NOT NULL AND draw_record.end_time <= NOW())
+    );
+
+    RETURN jsonb_build_object(
+        'seed_commitment', draw_record.seed_commitment,
+        'language', draw_record.language,
+        'word_length', draw_record.word_length,
+        'words_count', draw_record.words_count,
+        'common_only', draw_record.common_only,
+        'entropy', draw_record.entropy,
+        'entropy_block', draw_record.entropy_block,
+        'pool_size', draw_record.pool_size,
+        'pool_hash', draw_record.pool_hash,
+        'drawn_at', draw_record.drawn_at,
+        'server_seed', CASE WHEN v_revealed THEN draw_record.server_seed ELSE NULL END,
+        'seed', CASE WHEN v_revealed THEN draw_record.seed ELSE NULL END,
+        'words', CASE WHEN v_revealed THEN to_jsonb(bounty_words(bounty_uuid)) ELSE NULL END
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION get_bounty_draw(UUID) IS
+'Public record of a Random words draw. server_seed, seed and words are only returned once the bounty has ended.';
+
+GRANT EXECUTE ON FUNCTION get_bounty_draw(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_bounty_draw(UUID) TO anon;
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+-- What changed:
+-- - Random words draws use the hash of the block holding createBounty as
+--   entropy, instead of the transaction hash the creator records
+-- - activate_random_bounty(bounty_uuid, block_number, block_hash) and
+--   get_random_bounty_activation() are service role only
+-- - bounty_draws.entropy_block, returned by get_bounty_draw()
+-- - Server seeds come from gen_random_bytes(32)
+--
+-- Client:
+-- - CreateBountyPage: after record_bounty_commitment, call the
+--   activate-random-bounty edge function instead of the RPC
+-- - BountyDetails: link entropy_block to the block on HashScan next to the
+--   verifyRandomDraw() result
+-- ============================================================================
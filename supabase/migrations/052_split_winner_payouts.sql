@@ -0,0 +1,409 @@
+-- ============================================================================
+-- Migration 052: Split-Winner Payouts
+-- Created: 2026-10-19
+-- Purpose: Let split-winners bounties exist and pay winners in rank order
+-- ============================================================================
+-- ISSUE: CreateBountyPage sends bounty_data.prize_distribution, but
+-- create_bounty_with_wallet() never read it, so every bounty was stored as
+-- 'winner-take-all' and completeBountyWithWinners() only ever had one
+-- winner to pay. complete_bounty_with_winners() also numbered winners by
+-- prize and completed_at rather than by determine_bounty_winner()'s ranking.
+-- complete_bounty() resets the first winner's completed_at, so the best
+-- player came back last and the escrow recorded the wrong winner.
+--
+-- SOLUTION:
+-- 1. create_bounty_with_wallet() stores prize_distribution
+--    ('winner-take-all' by default).
+-- 2. bounty_participants.winner_rank keeps the ranking
+--    complete_bounty_with_winners() was given, and winner_rank in its result
+--    comes from it.
+-- ============================================================================
+
+ALTER TABLE bounty_participants ADD COLUMN IF NOT EXISTS winner_rank INTEGER;
+
+COMMENT ON COLUMN bounty_participants.winner_rank IS
+'Ranking from determine_bounty_winner() when the bounty was completed; NULL for non-winners';
+
+-- ============================================================================
+-- FUNCTION 1: create_bounty_with_wallet
+-- ============================================================================
+-- Same as migration 051, plus prize_distribution.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.create_bounty_with_wallet(
+  wallet_addr VARCHAR(255),
+  bounty_data JSONB
+) RETURNS UUID AS $$
+DECLARE
+  user_uuid UUID;
+  bounty_uuid UUID;
+  v_language TEXT := COALESCE(bounty_data->>'language', 'en');
+  v_board_count INTEGER;
+  v_max_attempts INTEGER := (bounty_data->>'max_attempts_per_user')::INTEGER;
+  v_winner_criteria winner_criteria := (bounty_data->>'winner_criteria')::winner_criteria;
+  v_target TEXT;
+  v_start TEXT;
+  v_puzzle JSONB;
+  v_is_random BOOLEAN := bounty_data->>'bounty_type' = 'Random words';
+  v_word_length INTEGER;
+  v_words_count INTEGER;
+  v_common_only BOOLEAN := COALESCE((bounty_data->>'common_only')::BOOLEAN, true);
+  v_server_seed TEXT;
+  v_entry_fee DECIMAL(20, 8) := COALESCE((bounty_data->>'entry_fee')::DECIMAL(20, 8), 0);
+  v_currency TEXT := upper(COALESCE(bounty_data->>'prize_currency', 'HBAR'));
+  v_prize_amount DECIMAL(20, 8) := COALESCE((bounty_data->>'prize_amount')::DECIMAL(20, 8), 0);
+  v_token RECORD;
+  v_token_id TEXT;
+BEGIN
+  IF v_entry_fee < 0 THEN
+    RAISE EXCEPTION 'Entry fee can''t be negative (got %)', v_entry_fee;
+  END IF;
+
+  -- Token prizes: only listed tokens, and no amounts finer than the token allows
+  IF v_currency <> 'HBAR' THEN
+    SELECT * INTO v_token FROM prize_tokens WHERE symbol = v_currency AND is_active;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Unknown prize currency %', v_currency;
+    END IF;
+
+    IF round(v_prize_amount, v_token.decimals) <> v_prize_amount
+      OR round(v_entry_fee, v_token.decimals) <> v_entry_fee THEN
+      RAISE EXCEPTION '% amounts have at most % decimals', v_currency, v_token.decimals;
+    END IF;
+
+    v_token_id := v_token.token_id;
+  END IF;
+
+  -- Multi-board: 2, 4 or 8 words of one length, sharing one attempt budget
+  IF bounty_data->>'bounty_type' = 'Multi-board' THEN
+    v_board_count := jsonb_array_length(COALESCE(bounty_data->'words', '[]'::JSONB));
+
+    IF v_board_count NOT IN (2, 4, 8) THEN
+      RAISE EXCEPTION 'Multi-board bounties need 2, 4 or 8 words (got %)', v_board_count;
+    END IF;
+
+    IF (
+      SELECT COUNT(DISTINCT LENGTH(normalize_word(w, v_language)))
+      FROM jsonb_array_elements_text(bounty_data->'words') AS w
+    ) <> 1 THEN
+      RAISE EXCEPTION 'Every board of a multi-board bounty needs a word of the same length';
+    END IF;
+
+    v_max_attempts := COALESCE(v_max_attempts, v_board_count + 5);
+  END IF;
+
+  -- Word ladder and anagram: exactly one target word
+  IF bounty_data->>'bounty_type' IN ('Word-ladder', 'Anagram') THEN
+    IF jsonb_array_length(COALESCE(bounty_data->'words', '[]'::JSONB)) <> 1 THEN
+      RAISE EXCEPTION '% bounties need exactly one word', bounty_data->>'bounty_type';
+    END IF;
+
+    IF v_winner_criteria IN ('words-correct', 'boards-solved') THEN
+      RAISE EXCEPTION '% bounties can''t use winner criteria %', bounty_data->>'bounty_type', v_winner_criteria;
+    END IF;
+
+    v_target := normalize_word(bounty_data->'words'->>0, v_language);
+  END IF;
+
+  -- Word ladder: every step is checked against the dictionary, so both ends must be in it
+  IF bounty_data->>'bounty_type' = 'Word-ladder' THEN
+    v_start := normalize_word(bounty_data->>'start_word', v_language);
+
+    IF v_start IS NULL OR LENGTH(v_start) <> LENGTH(v_target) OR v_start = v_target THEN
+      RAISE EXCEPTION 'A word ladder needs a start word of the same length as its target';
+    END IF;
+
+    IF NOT validate_word(v_start, v_language) OR NOT validate_word(v_target, v_language) THEN
+      RAISE EXCEPTION 'Word ladder start and target must both be in the dictionary';
+    END IF;
+
+    v_puzzle := jsonb_build_object('start_word', v_start, 'target_word', v_target);
+    v_winner_criteria := COALESCE(v_winner_criteria, 'attempts');
+  END IF;
+
+  -- Anagram: players get the letters, scrambled here so the creator can't leak an order
+  IF bounty_data->>'bounty_type' = 'Anagram' THEN
+    v_puzzle := jsonb_build_object('letters', scramble_word(v_target));
+    v_winner_criteria := COALESCE(v_winner_criteria, 'time');
+    v_max_attempts := COALESCE(v_max_attempts, 6);
+  END IF;
+
+  -- Random words: drawn by activate_random_bounty(), so the creator never sees them
+  IF v_is_random THEN
+    IF jsonb_array_length(COALESCE(bounty_data->'words', '[]'::JSONB)) > 0 THEN
+      RAISE EXCEPTION 'Random words bounties draw their words on the server; send word_length and words_count instead';
+    END IF;
+
+    v_word_length := COALESCE((bounty_data->>'word_length')::INTEGER, 5);
+    v_words_count := COALESCE((bounty_data->>'words_count')::INTEGER, 1);
+
+    IF v_words_count NOT BETWEEN 1 AND 10 THEN
+      RAISE EXCEPTION 'Random words bounties draw 1 to 10 words (got %)', v_words_count;
+    END IF;
+
+    IF COALESCE(array_length(random_word_pool(v_language, v_word_length, v_common_only), 1), 0) < v_words_count THEN
+      RAISE EXCEPTION 'Not enough % letter words in the % dictionary to draw %', v_word_length, v_language, v_words_count;
+    END IF;
+  END IF;
+
+  -- Get or create user
+  user_uuid := public.get_or_create_user(wallet_addr);
+
+  -- Create bounty
+  INSERT INTO bounties (
+    name,
+    description,
+    creator_id,
+    bounty_type,
+    prize_amount,
+    prize_currency,
+    prize_token_id,
+    entry_fee,
+    words,
+    word_lengths,
+    hints,
+    hint_penalties,
+    max_participants,
+    max_attempts_per_user,
+    time_limit_seconds,
+    winner_criteria,
+    prize_distribution,
+    duration_hours,
+    status,
+    is_public,
+    requires_registration,
+    hard_mode,
+    language,
+    puzzle,
+    start_time,
+    end_time
+  ) VALUES (
+    bounty_data->>'name',
+    bounty_data->>'description',
+    user_uuid,
+    COALESCE((bounty_data->>'bounty_type')::bounty_type, 'Simple'::bounty_type),
+    v_prize_amount,
+    v_currency,
+    v_token_id,
+    v_entry_fee,
+    CASE WHEN v_is_random THEN NULL ELSE COALESCE(
+      ARRAY(SELECT normalize_word(w, v_language) FROM jsonb_array_elements_text(bounty_data->'words') AS w),
+      ARRAY['WORDLE']
+    ) END,
+    -- Set from the words by seal_bounty_words (migration 040); known up front for draws
+    CASE WHEN v_is_random THEN array_fill(v_word_length, ARRAY[v_words_count]) END,
+    COALESCE(
+      ARRAY(SELECT jsonb_array_elements_text(bounty_data->'hints')),
+      ARRAY[]::TEXT[]
+    ),
+    COALESCE(
+      ARRAY(SELECT jsonb_array_elements_text(bounty_data->'hint_penalties')::DECIMAL(10, 2)),
+      ARRAY[]::DECIMAL(10, 2)[]
+    ),
+    (bounty_data->>'max_participants')::INTEGER,
+    v_max_attempts,
+    (bounty_data->>'time_limit_seconds')::INTEGER,
+    COALESCE(v_winner_criteria, 'attempts'::winner_criteria),
+    COALESCE((bounty_data->>'prize_distribution')::prize_distribution, 'winner-take-all'::prize_distribution),
+    (bounty_data->>'duration_hours')::INTEGER,
+    CASE
+      WHEN v_is_random THEN 'draft'::bounty_status
+      ELSE COALESCE((bounty_data->>'status')::bounty_status, 'active'::bounty_status)
+    END,
+    COALESCE((bounty_data->>'is_public')::BOOLEAN, true),
+    COALESCE((bounty_data->>'requires_registration')::BOOLEAN, false),
+    COALESCE((bounty_data->>'hard_mode')::BOOLEAN, false),
+    v_language,
+    v_puzzle,
+    -- Draws start their clock at activation
+    CASE WHEN v_is_random THEN NULL ELSE NOW() END,
+    CASE
+      WHEN NOT v_is_random AND bounty_data->>'duration_hours' IS NOT NULL
+      THEN NOW() + ((bounty_data->>'duration_hours')::INTEGER || ' hours')::INTERVAL
+      ELSE NULL
+    END
+  ) RETURNING id INTO bounty_uuid;
+
+  -- Commit to the draw's server seed before any entropy exists
+  IF v_is_random THEN
+    v_server_seed := encode(gen_random_bytes(32), 'hex');
+
+    INSERT INTO bounty_draws (bounty_id, server_seed, seed_commitment, language, word_length, words_count, common_only)
+    VALUES (
+      bounty_uuid,
+      v_server_seed,
+      encode(digest(v_server_seed, 'sha256'), 'hex'),
+      v_language,
+      v_word_length,
+      v_words_count,
+      v_common_only
+    );
+  END IF;
+
+  RETURN bounty_uuid;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION public.create_bounty_with_wallet(VARCHAR, JSONB) TO anon;
+GRANT EXECUTE ON FUNCTION public.create_bounty_with_wallet(VARCHAR, JSONB) TO authenticated;
+
+-- ============================================================================
+-- FUNCTION 2: complete_bounty_with_winners
+-- ============================================================================
+-- Same as migration 020, except that it stores each winner's ranking from
+-- determine_bounty_winner() and returns winners in that order.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION complete_bounty_with_winners(bounty_uuid UUID)
+RETURNS TABLE(
+    winner_user_id UUID,
+    prize_awarded DECIMAL(20, 8),
+    winner_rank INTEGER
+) AS $$
+DECLARE
+    v_bounty_status VARCHAR(20);
+    v_bounty_name TEXT;
+    v_winner_count INTEGER := 0;
+    v_first_winner_id UUID;
+    v_first_prize DECIMAL(20, 8);
+BEGIN
+    -- Log function call
+    RAISE NOTICE 'complete_bounty_with_winners() called for bounty: %', bounty_uuid;
+
+    -- Get bounty details
+    SELECT b.status, b.name INTO v_bounty_status, v_bounty_name
+    FROM bounties b
+    WHERE b.id = bounty_uuid;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bounty not found: %', bounty_uuid;
+    END IF;
+
+    RAISE NOTICE 'Processing bounty: % (status: %)', v_bounty_name, v_bounty_status;
+
+    -- Check if bounty already has winners marked
+    IF EXISTS (
+        SELECT 1 FROM bounty_participants
+        WHERE bounty_id = bounty_uuid AND is_winner = true
+    ) THEN
+        RAISE WARNING 'Bounty % already has winners marked. Returning existing winners.', bounty_uuid;
+
+        -- Return existing winners
+        RETURN QUERY
+        SELECT
+            bp.user_id::UUID AS winner_user_id,
+            bp.prize_amount_won::DECIMAL(20, 8) AS prize_awarded,
+            ROW_NUMBER() OVER (
+            ORDER BY bp.winner_rank ASC NULLS LAST, bp.prize_amount_won DESC, bp.completed_at ASC
+        )::INTEGER AS winner_rank
+        FROM bounty_participants bp
+        WHERE bp.bounty_id = bounty_uuid AND bp.is_winner = true
+        ORDER BY 3;
+
+        RETURN;
+    END IF;
+
+    -- Process winners using CTE to mark them in one operation
+    WITH winners AS (
+        SELECT
+            user_id,
+            prize_share,
+            ranking
+        FROM determine_bounty_winner(bounty_uuid)
+    ),
+    updated_participants AS (
+        UPDATE bounty_participants bp
+        SET
+            status = 'completed',
+            is_winner = true,
+            prize_amount_won = w.prize_share,
+            winner_rank = w.ranking,
+            completed_at = COALESCE(bp.completed_at, NOW())
+        FROM winners w
+        WHERE bp.bounty_id = bounty_uuid
+          AND bp.user_id = w.user_id
+        RETURNING bp.user_id, bp.prize_amount_won, w.ranking
+    )
+    SELECT COUNT(*) INTO v_winner_count FROM updated_participants;
+
+    -- Update user statistics for all winners
+    IF v_winner_count > 0 THEN
+        UPDATE users u
+        SET
+            total_bounties_won = total_bounties_won + 1,
+            total_hbar_earned = total_hbar_earned + bp.prize_amount_won,
+            updated_at = NOW()
+        FROM bounty_participants bp
+        WHERE u.id = bp.user_id
+          AND bp.bounty_id = bounty_uuid
+          AND bp.is_winner = true;
+
+        RAISE NOTICE 'Completed bounty: % - Marked % winner(s)', v_bounty_name, v_winner_count;
+
+        -- Get first winner for complete_bounty call
+        SELECT user_id, prize_share
+        INTO v_first_winner_id, v_first_prize
+        FROM determine_bounty_winner(bounty_uuid)
+        ORDER BY ranking ASC
+        LIMIT 1;
+
+        -- Call complete_bounty for first winner to ensure bounty status update
+        IF v_first_winner_id IS NOT NULL THEN
+            PERFORM complete_bounty(
+                bounty_uuid,
+                v_first_winner_id,
+                v_first_prize
+            );
+        END IF;
+    ELSE
+        RAISE WARNING 'No winners determined for bounty: % (%)', v_bounty_name, bounty_uuid;
+    END IF;
+
+    -- Ensure bounty status is completed
+    UPDATE bounties
+    SET
+        status = 'completed',
+        updated_at = NOW()
+    WHERE id = bounty_uuid AND status != 'completed';
+
+    RAISE NOTICE 'complete_bounty_with_winners() completed successfully';
+
+    -- Return the winners with proper column mapping (uses RETURN QUERY, not RETURN NEXT)
+    RETURN QUERY
+    SELECT
+        bp.user_id::UUID AS winner_user_id,
+        bp.prize_amount_won::DECIMAL(20, 8) AS prize_awarded,
+        ROW_NUMBER() OVER (
+            ORDER BY bp.winner_rank ASC NULLS LAST, bp.prize_amount_won DESC, bp.completed_at ASC
+        )::INTEGER AS winner_rank
+    FROM bounty_participants bp
+    WHERE bp.bounty_id = bounty_uuid
+      AND bp.is_winner = true
+    ORDER BY 3;
+
+EXCEPTION
+    WHEN OTHERS THEN
+        -- Log error and re-raise
+        RAISE EXCEPTION 'Error in complete_bounty_with_winners for bounty %: % (SQLSTATE: %)',
+            bounty_uuid, SQLERRM, SQLSTATE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Add comment
+COMMENT ON FUNCTION complete_bounty_with_winners(UUID) IS
+'Determines winners automatically, marks them with their ranking, and returns winner details in ranking order.';
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+-- What changed:
+-- - create_bounty_with_wallet() stores bounty_data.prize_distribution
+-- - bounty_participants.winner_rank; complete_bounty_with_winners() returns
+--   winners in determine_bounty_winner() order
+--
+-- Client:
+-- - No changes for creation; CreateBountyPage already sends
+--   form.prizeDistribution
+-- - CompleteBountyModal: pass the rows to buildWinnerPayout()
+-- ============================================================================
@@ -0,0 +1,320 @@
+-- ============================================================================
+-- Migration 053: Verified Entry Fees
+-- Created: 2026-10-19
+-- Purpose: Only count entry fees the mirror node shows were paid
+-- ============================================================================
+-- ISSUE: join_bounty() (migration 042) took any string as the joinBounty
+-- transaction hash. It credited entry_fees_collected and recorded a
+-- 'confirmed' entry_fee payment straight away, so anyone could grow a
+-- bounty's prize_pool, and play for it, without paying.
+--
+-- SOLUTION:
+-- 1. join_bounty() records the entry fee as a 'pending' payment and leaves
+--    bounty_participants.entry_fee_paid at 0, so prize_pool doesn't move.
+--    The hash must look like a transaction hash. A player whose hash didn't
+--    verify can call join_bounty() again with the right one.
+-- 2. The verify-entry-fee edge function reads the transaction from the
+--    mirror node and calls confirm_entry_fee() (service role only) once it
+--    is the player's successful joinBounty call for this bounty.
+--    confirm_entry_fee() sets entry_fee_paid and confirms the payment;
+--    add_entry_fee_to_pool now also runs on that update.
+-- 3. Players can't submit guesses to a fee bounty until their fee is
+--    confirmed, so they can't win it either.
+-- ============================================================================
+
+-- ============================================================================
+-- TRIGGERS: add_entry_fee_to_pool / lock_entry_fee / require_paid_entry_fee
+-- ============================================================================
+-- add_entry_fee_to_pool: same as migration 042, plus confirmations, which
+-- raise entry_fee_paid from 0. lock_entry_fee: same as migration 042, but
+-- pending payments lock the fee too, since they were paid on-chain at the
+-- old one.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION add_entry_fee_to_pool()
+RETURNS TRIGGER AS $$
+DECLARE
+    v_added DECIMAL(20, 8);
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        v_added := NEW.entry_fee_paid;
+    ELSE
+        v_added := NEW.entry_fee_paid - OLD.entry_fee_paid;
+    END IF;
+
+    IF v_added > 0 THEN
+        UPDATE bounties
+        SET entry_fees_collected = entry_fees_collected + v_added
+        WHERE id = NEW.bounty_id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS add_entry_fee_to_pool ON bounty_participants;
+CREATE TRIGGER add_entry_fee_to_pool
+    AFTER INSERT OR UPDATE OF entry_fee_paid ON bounty_participants
+    FOR EACH ROW EXECUTE FUNCTION add_entry_fee_to_pool();
+
+CREATE OR REPLACE FUNCTION lock_entry_fee()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.entry_fee IS DISTINCT FROM OLD.entry_fee AND EXISTS (
+        SELECT 1 FROM bounty_participants
+        WHERE bounty_id = OLD.id AND entry_tx_hash IS NOT NULL
+    ) THEN
+        RAISE EXCEPTION 'Bounty % entry fee is locked once players have paid it', OLD.id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION require_paid_entry_fee()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF EXISTS (
+        SELECT 1
+        FROM bounty_participants bp
+        JOIN bounties b ON b.id = bp.bounty_id
+        WHERE bp.id = NEW.participant_id
+          AND bp.entry_fee_paid < b.entry_fee
+    ) THEN
+        RAISE EXCEPTION 'Entry fee for bounty % is not confirmed yet', NEW.bounty_id;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS require_paid_entry_fee ON game_attempts;
+CREATE TRIGGER require_paid_entry_fee
+    BEFORE INSERT ON game_attempts
+    FOR EACH ROW EXECUTE FUNCTION require_paid_entry_fee();
+
+-- ============================================================================
+-- FUNCTION 1: join_bounty
+-- ============================================================================
+-- Same as migration 042, but the entry fee payment is 'pending' until
+-- confirm_entry_fee(). Joining again replaces a hash that hasn't been
+-- confirmed, and the old payment is marked 'failed'. SECURITY DEFINER like
+-- record_entry_refund(), since payment_transactions RLS doesn't let players
+-- write their own payments.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION join_bounty(
+    bounty_uuid UUID,
+    wallet_addr TEXT,
+    entry_tx_hash TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+    user_uuid UUID;
+    participant_record RECORD;
+    participant_id UUID;
+    bounty_record RECORD;
+BEGIN
+    -- Get or create user
+    user_uuid := upsert_user(wallet_addr);
+
+    -- Check if bounty exists and is joinable
+    SELECT * INTO bounty_record
+    FROM bounties
+    WHERE id = bounty_uuid
+    AND status = 'active'
+    AND is_public = true
+    AND (end_time IS NULL OR end_time > NOW())
+    AND (max_participants IS NULL OR participant_count < max_participants);
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bounty not found or not joinable';
+    END IF;
+
+    IF bounty_record.entry_fee > 0 THEN
+        IF entry_tx_hash IS NULL THEN
+            RAISE EXCEPTION 'Bounty % has a % % entry fee; pay it with joinBounty first',
+                bounty_uuid, bounty_record.entry_fee, bounty_record.prize_currency;
+        END IF;
+
+        IF entry_tx_hash !~ '^0x[0-9a-fA-F]{64}$' THEN
+            RAISE EXCEPTION 'Transaction hash must be a 0x-prefixed 32-byte hex string';
+        END IF;
+
+        entry_tx_hash := lower(entry_tx_hash);
+    END IF;
+
+    -- Check if user already joined
+    SELECT * INTO participant_record
+    FROM bounty_participants bp
+    WHERE bp.bounty_id = bounty_uuid AND bp.user_id = user_uuid
+    FOR UPDATE;
+
+    IF FOUND AND (bounty_record.entry_fee = 0 OR participant_record.entry_fee_paid > 0) THEN
+        RAISE EXCEPTION 'User already joined this bounty';
+    END IF;
+
+    IF FOUND THEN
+        -- Unconfirmed fee: retry with another joinBounty transaction
+        UPDATE payment_transactions
+        SET status = 'failed'
+        WHERE bounty_id = bounty_uuid
+          AND user_id = user_uuid
+          AND transaction_type = 'entry_fee'
+          AND status = 'pending';
+
+        UPDATE bounty_participants
+        SET entry_tx_hash = join_bounty.entry_tx_hash
+        WHERE id = participant_record.id;
+
+        participant_id := participant_record.id;
+    ELSE
+        -- Join the bounty (participant_count follows by trigger; the fee once confirmed)
+        INSERT INTO bounty_participants (bounty_id, user_id, status, entry_fee_paid, entry_tx_hash)
+        VALUES (
+            bounty_uuid,
+            user_uuid,
+            'active',
+            0,
+            CASE WHEN bounty_record.entry_fee > 0 THEN entry_tx_hash END
+        )
+        RETURNING id INTO participant_id;
+    END IF;
+
+    IF bounty_record.entry_fee > 0 THEN
+        INSERT INTO payment_transactions (
+            bounty_id, user_id, transaction_hash, transaction_type,
+            amount, currency, from_address, status
+        ) VALUES (
+            bounty_uuid, user_uuid, entry_tx_hash, 'entry_fee',
+            bounty_record.entry_fee, bounty_record.prize_currency, wallet_addr, 'pending'
+        );
+    END IF;
+
+    RETURN participant_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION join_bounty(UUID, TEXT, TEXT) IS
+'Adds a user to a bounty. Fee bounties need the joinBounty transaction hash, recorded as a pending entry_fee payment until confirm_entry_fee() (migration 053).';
+
+GRANT EXECUTE ON FUNCTION join_bounty(UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION join_bounty(UUID, TEXT, TEXT) TO anon;
+
+-- ============================================================================
+-- FUNCTION 2: get_pending_entry_fee
+-- ============================================================================
+-- Service role only. What the edge function checks on the mirror node:
+-- { transaction_hash, entry_fee, prize_token }, with prize_token
+-- { evm_address, decimals } for token bounties (null for HBAR), or null when
+-- the player has no unconfirmed entry fee for the bounty.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_pending_entry_fee(
+    bounty_uuid UUID,
+    wallet_addr TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+    v_result JSONB;
+BEGIN
+    SELECT jsonb_build_object(
+        'transaction_hash', bp.entry_tx_hash,
+        'entry_fee', b.entry_fee::TEXT,
+        'prize_token', CASE WHEN pt.token_id IS NOT NULL THEN
+            jsonb_build_object('evm_address', pt.evm_address, 'decimals', pt.decimals)
+        END
+    ) INTO v_result
+    FROM bounty_participants bp
+    JOIN bounties b ON b.id = bp.bounty_id
+    JOIN users u ON u.id = bp.user_id
+    LEFT JOIN prize_tokens pt ON pt.token_id = b.prize_token_id
+    WHERE bp.bounty_id = bounty_uuid
+      AND u.wallet_address = wallet_addr
+      AND bp.entry_tx_hash IS NOT NULL
+      AND bp.entry_fee_paid < b.entry_fee;
+
+    RETURN v_result;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+COMMENT ON FUNCTION get_pending_entry_fee(UUID, TEXT) IS
+'Service role only: the joinBounty transaction and entry fee of a player whose fee is not confirmed yet.';
+
+REVOKE EXECUTE ON FUNCTION get_pending_entry_fee(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_pending_entry_fee(UUID, TEXT) TO service_role;
+
+-- ============================================================================
+-- FUNCTION 3: confirm_entry_fee
+-- ============================================================================
+-- Service role only, from the verify-entry-fee edge function. Adds the fee
+-- to the pool (by trigger) and confirms the payment with its block.
+-- Returns the bounty's new prize_pool.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION confirm_entry_fee(
+    bounty_uuid UUID,
+    wallet_addr TEXT,
+    block_number BIGINT,
+    consensus_timestamp TEXT
+)
+RETURNS DECIMAL(20, 8) AS $$
+DECLARE
+    participant_record RECORD;
+    v_prize_pool DECIMAL(20, 8);
+BEGIN
+    SELECT bp.*, b.entry_fee INTO participant_record
+    FROM bounty_participants bp
+    JOIN bounties b ON b.id = bp.bounty_id
+    JOIN users u ON u.id = bp.user_id
+    WHERE bp.bounty_id = bounty_uuid AND u.wallet_address = wallet_addr
+    FOR UPDATE OF bp;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'User has not joined bounty %', bounty_uuid;
+    END IF;
+
+    IF participant_record.entry_tx_hash IS NULL OR participant_record.entry_fee_paid >= participant_record.entry_fee THEN
+        RAISE EXCEPTION 'No pending entry fee for bounty %', bounty_uuid;
+    END IF;
+
+    UPDATE bounty_participants
+    SET entry_fee_paid = participant_record.entry_fee
+    WHERE id = participant_record.id;
+
+    UPDATE payment_transactions
+    SET
+        status = 'confirmed',
+        block_number = confirm_entry_fee.block_number,
+        block_timestamp = to_timestamp(consensus_timestamp::NUMERIC),
+        confirmed_at = NOW()
+    WHERE transaction_hash = participant_record.entry_tx_hash
+      AND transaction_type = 'entry_fee';
+
+    SELECT prize_pool INTO v_prize_pool FROM bounties WHERE id = bounty_uuid;
+
+    RETURN v_prize_pool;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION confirm_entry_fee(UUID, TEXT, BIGINT, TEXT) IS
+'Service role only: confirms a player''s joinBounty payment read from the mirror node and adds their entry fee to the prize pool.';
+
+REVOKE EXECUTE ON FUNCTION confirm_entry_fee(UUID, TEXT, BIGINT, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION confirm_entry_fee(UUID, TEXT, BIGINT, TEXT) TO service_role;
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+-- What changed:
+-- - join_bounty() records entry fees as 'pending' and doesn't grow the pool;
+--   it is SECURITY DEFINER so the payment insert passes RLS
+-- - get_pending_entry_fee() and confirm_entry_fee() for the
+--   verify-entry-fee edge function
+-- - add_entry_fee_to_pool also counts confirmations; pending payments lock
+--   the entry fee; require_paid_entry_fee blocks guesses until confirmed
+--
+-- Client:
+-- - GameplayPage: after join_bounty, call the verify-entry-fee function
+--   (retrying on 409) before the first guess.
+-- ============================================================================
@@ -0,0 +1,109 @@
+-- ============================================================================
+-- Migration 054: Trophy Winner Ranks
+-- Created: 2026-10-19
+-- Purpose: Give trophies the rank the bounty was paid out in
+-- ============================================================================
+-- ISSUE: get_trophy_metadata() (migration 044) worked out a winner's Rank
+-- from prize_amount_won and completed_at. complete_bounty() resets the
+-- first winner's completed_at and split winners share one prize, so the
+-- best player's trophy could say Rank 3 while completeBountyWithWinners()
+-- paid them first.
+--
+-- SOLUTION:
+-- 1. Rank is bounty_participants.winner_rank (migration 052), the ranking
+--    complete_bounty_with_winners() was given. Winners marked before 052
+--    keep the old prize / completion order.
+-- ============================================================================
+
+-- ============================================================================
+-- FUNCTION 1: get_trophy_metadata
+-- ============================================================================
+-- Same as migration 044, with Rank from winner_rank.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_trophy_metadata(
+    contract_addr TEXT,
+    trophy_serial BIGINT
+)
+RETURNS JSONB AS $$
+DECLARE
+    trophy_record RECORD;
+    v_time_seconds INTEGER;
+BEGIN
+    SELECT
+        bt.token_serial,
+        bt.minted_at,
+        b.id AS bounty_id,
+        b.name AS bounty_name,
+        bp.id AS participant_id,
+        bp.total_attempts,
+        bp.total_time_seconds,
+        bp.session_started_at,
+        bp.session_ended_at,
+        bp.prize_amount_won,
+        b.prize_currency,
+        COALESCE(bp.completed_at, b.updated_at) AS won_at,
+        COALESCE(bp.winner_rank, (
+            SELECT COUNT(*) + 1
+            FROM bounty_participants other
+            WHERE other.bounty_id = bp.bounty_id
+              AND other.is_winner = true
+              AND (other.prize_amount_won > bp.prize_amount_won
+                   OR (other.prize_amount_won = bp.prize_amount_won AND other.completed_at < bp.completed_at))
+        )) AS winner_rank
+    INTO trophy_record
+    FROM bounty_trophies bt
+    JOIN bounties b ON b.id = bt.bounty_id
+    JOIN bounty_participants bp ON bp.bounty_id = bt.bounty_id AND bp.user_id = bt.user_id
+    WHERE bt.contract_address = lower(contract_addr)
+      AND bt.token_serial = trophy_serial;
+
+    IF NOT FOUND THEN
+        RETURN NULL;
+    END IF;
+
+    -- Server-recorded session time (migration 025) when there is one
+    v_time_seconds := COALESCE(
+        EXTRACT(EPOCH FROM (trophy_record.session_ended_at - trophy_record.session_started_at))::INTEGER,
+        trophy_record.total_time_seconds
+    );
+
+    RETURN jsonb_build_object(
+        'name', 'Trophy #' || trophy_record.token_serial || ': ' || trophy_record.bounty_name,
+        'description', 'Won "' || trophy_record.bounty_name || '" on Web3 Wordle Bounty on '
+            || to_char(trophy_record.won_at AT TIME ZONE 'UTC', 'YYYY-MM-DD') || '.',
+        'attributes', jsonb_build_array(
+            jsonb_build_object('trait_type', 'Bounty', 'value', trophy_record.bounty_name),
+            jsonb_build_object('trait_type', 'Date', 'display_type', 'date',
+                'value', EXTRACT(EPOCH FROM trophy_record.won_at)::BIGINT),
+            jsonb_build_object('trait_type', 'Rank', 'value', trophy_record.winner_rank),
+            jsonb_build_object('trait_type', 'Attempts', 'value', trophy_record.total_attempts),
+            jsonb_build_object('trait_type', 'Time (seconds)', 'value', v_time_seconds),
+            jsonb_build_object('trait_type', 'Prize', 'value',
+                trophy_record.prize_amount_won || ' ' || COALESCE(trophy_record.prize_currency, 'HBAR'))
+        ),
+        'properties', jsonb_build_object(
+            'bounty_id', trophy_record.bounty_id,
+            'won_at', trophy_record.won_at,
+            'result_grid', trophy_result_grid(trophy_record.participant_id)
+        )
+    );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION get_trophy_metadata(TEXT, BIGINT) IS
+'ERC-721 metadata for a WordleTrophy: bounty, date, rank, attempts, time and the colour-only result grid.';
+
+GRANT EXECUTE ON FUNCTION get_trophy_metadata(TEXT, BIGINT) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_trophy_metadata(TEXT, BIGINT) TO anon;
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+-- What changed:
+-- - get_trophy_metadata() Rank comes from winner_rank when there is one
+--
+-- Client:
+-- - None. Wallets and marketplaces pick the new Rank up the next time they
+--   refresh the token's metadata.
+-- ============================================================================
@@ -0,0 +1,43 @@
+-- ============================================================================
+-- Migration 056: Participant Writes Through RPCs
+-- Created: 2026-10-19
+-- Purpose: Only the server functions write bounty_participants
+-- ============================================================================
+-- ISSUE: "Users can update own participation" (migration 002) lets a player
+-- UPDATE every column of their own row, and "Users can join bounties"
+-- (migration 005) lets anyone INSERT any row WITH CHECK (true). A player
+-- could:
+-- - set entry_fee_paid themselves, which grows prize_pool and passes
+--   require_paid_entry_fee without the mirror node check (migration 053)
+-- - rewrite session_started_at / session_ended_at, so elapsed_seconds,
+--   speed rankings and time limits (migration 025) mean nothing
+-- - reset hints_used / hint_penalty_total after unlock_hint (migration 027)
+-- - mark themselves is_winner, completed or paid
+--
+-- SOLUTION:
+-- Both client write policies go, and clients lose INSERT, UPDATE and DELETE
+-- on bounty_participants. Every write already goes through a SECURITY
+-- DEFINER function: join_bounty() and confirm_entry_fee() for entry fees,
+-- start_word_session() and submit_attempt() for the session clock,
+-- unlock_hint() for hint penalties, and the completion, claim, refund and
+-- duel functions for the rest. Reads are unchanged.
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Users can join bounties" ON bounty_participants;
+DROP POLICY IF EXISTS "Users can update own participation" ON bounty_participants;
+
+REVOKE INSERT, UPDATE, DELETE ON bounty_participants FROM anon, authenticated;
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+-- What changed:
+-- - No client writes to bounty_participants; the RPCs are the only writers
+--
+-- Client:
+-- - joinBounty() (src/utils/supabase/api.ts) calls join_bounty instead of
+--   inserting into bounty_participants
+-- - completeBounty() / distributePrize() stop updating participants;
+--   complete_bounty_with_winners and mark_prize_paid record winners and
+--   claims (see Multi-Winner Payouts and Prize Claims in CLIENT_WIRING.md)
+-- ============================================================================
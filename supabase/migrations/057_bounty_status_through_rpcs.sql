@@ -0,0 +1,121 @@
+-- ============================================================================
+-- Migration 057: Bounty Status Through RPCs
+-- Created: 2026-10-19
+-- Purpose: Keep sealed words sealed until a bounty really ends
+-- ============================================================================
+-- ISSUE: seal_bounty_words (migration 040) fills revealed_words as soon as a
+-- row's status is completed, cancelled or expired, and get_bounty_details
+-- reveals the words once end_time has passed. "Creators can update their
+-- bounties" and "Anyone can update bounty transaction info" (migration 007)
+-- let anyone UPDATE any bounty USING (true), so a player could run
+--   UPDATE bounties SET status = 'completed' RETURNING revealed_words
+-- on a live bounty, read its words, put the status back and win.
+--
+-- SOLUTION:
+-- 1. Both migration 007 policies go, leaving "Users can update own bounties"
+--    (migration 002): creators only, until the bounty is completed or
+--    cancelled.
+-- 2. Clients keep UPDATE on the columns a creator edits and nothing else.
+--    status, start_time, end_time and revealed_words, like the prize,
+--    commitment and claim columns, are written by SECURITY DEFINER
+--    functions only.
+-- 3. activate_bounty() replaces CreateBountyPage's
+--    updateBounty({ status: 'active' }) once the createBounty transaction
+--    is recorded.
+-- ============================================================================
+
+DROP POLICY IF EXISTS "Creators can update their bounties" ON bounties;
+DROP POLICY IF EXISTS "Anyone can update bounty transaction info" ON bounties;
+
+REVOKE UPDATE ON bounties FROM anon, authenticated;
+
+GRANT UPDATE (
+    name,
+    description,
+    words,
+    hints,
+    hint_penalties,
+    hard_mode,
+    max_participants,
+    max_attempts_per_user,
+    time_limit_seconds,
+    is_public,
+    requires_registration,
+    updated_at
+) ON bounties TO anon, authenticated;
+
+-- ============================================================================
+-- FUNCTION 1: activate_bounty
+-- ============================================================================
+-- Creator only. Makes a committed draft active and starts its clock, like
+-- activate_random_bounty() (migration 051) does for Random words draws.
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION activate_bounty(
+    bounty_uuid UUID,
+    wallet_addr TEXT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+    bounty_record RECORD;
+BEGIN
+    SELECT b.* INTO bounty_record
+    FROM bounties b
+    JOIN users u ON u.id = b.creator_id
+    WHERE b.id = bounty_uuid
+      AND u.wallet_address = wallet_addr
+    FOR UPDATE OF b;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Bounty % not found or not yours', bounty_uuid;
+    END IF;
+
+    IF bounty_record.status <> 'draft' THEN
+        RAISE EXCEPTION 'Bounty % is not a draft', bounty_uuid;
+    END IF;
+
+    IF EXISTS (SELECT 1 FROM bounty_draws WHERE bounty_id = bounty_uuid) THEN
+        RAISE EXCEPTION 'Random words bounties are activated by the activate-random-bounty function';
+    END IF;
+
+    IF bounty_record.solution_commitment IS NULL OR bounty_record.transaction_hash IS NULL THEN
+        RAISE EXCEPTION 'Record the createBounty transaction with record_bounty_commitment() first';
+    END IF;
+
+    UPDATE bounties
+    SET
+        status = 'active',
+        start_time = NOW(),
+        end_time = CASE
+            WHEN duration_hours IS NOT NULL THEN NOW() + (duration_hours || ' hours')::INTERVAL
+            ELSE NULL
+        END,
+        updated_at = NOW()
+    WHERE id = bounty_uuid;
+
+    RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+COMMENT ON FUNCTION activate_bounty(UUID, TEXT) IS
+'Creator only: makes a draft bounty active once its createBounty transaction is recorded. Clients can no longer write bounties.status.';
+
+GRANT EXECUTE ON FUNCTION activate_bounty(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION activate_bounty(UUID, TEXT) TO anon;
+
+-- ============================================================================
+-- MIGRATION COMPLETE
+-- ============================================================================
+-- What changed:
+-- - Only creators update their bounties, and only the columns they edit
+-- - status, start_time, end_time and revealed_words change through the
+--   server functions alone
+-- - activate_bounty()
+--
+-- Client:
+-- - CreateBountyPage: after recordBountyCommitment, call activate_bounty
+--   instead of updateBounty(bountyUUID, { status: 'active' }) (see
+--   Verified-Fair Bounties in CLIENT_WIRING.md)
+-- - completeBounty() stops updating bounties; complete_bounty_with_winners
+--   sets the status (see Multi-Winner Payouts)
+-- ============================================================================
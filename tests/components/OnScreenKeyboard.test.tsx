@@ -0,0 +1,69 @@
+import { describe, it, expect, vi } from 'vitest';
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { OnScreenKeyboard } from '@/components/OnScreenKeyboard';
+import { getKeyboardStates, scoreGuess, TILE_PALETTES } from '@/utils/game';
+
+/**
+ * On-Screen Keyboard Component Tests
+ * Tests key colours, taps, physical keys and the disabled state
+ */
+
+describe('OnScreenKeyboard', () => {
+  const letterStates = getKeyboardStates([scoreGuess('CRANE', 'CRATE')]);
+
+  it('colours keys from the letter states and reports taps', () => {
+    const onKey = vi.fn();
+    render(<OnScreenKeyboard language="en" letterStates={letterStates} onKey={onKey} />);
+
+    expect(screen.getByRole('button', { name: 'C correct' })).toHaveStyle({
+      backgroundColor: TILE_PALETTES.standard.correct,
+    });
+    expect(screen.getByRole('button', { name: 'Q' })).not.toHaveAttribute('style');
+
+    fireEvent.click(screen.getByRole('button', { name: 'N absent' }));
+    fireEvent.click(screen.getByRole('button', { name: 'Submit guess' }));
+    expect(onKey.mock.calls).toEqual([['N'], ['ENTER']]);
+  });
+
+  it('types physical keys in the language layout and skips text fields', () => {
+    const onKey = vi.fn();
+    render(
+      <>
+        <input aria-label="Message" />
+        <OnScreenKeyboard language="es" letterStates={{}} onKey={onKey} />
+      </>
+    );
+
+    fireEvent.keyDown(window, { key: 'ñ' });
+    fireEvent.keyDown(window, { key: 'Backspace' });
+    fireEvent.keyDown(window, { key: 'c', ctrlKey: true });
+    fireEvent.keyDown(screen.getByRole('textbox', { name: 'Message' }), { key: 'a' });
+
+    expect(onKey.mock.calls).toEqual([['Ñ'], ['BACKSPACE']]);
+    expect(screen.getByRole('button', { name: 'Ñ' })).toBeInTheDocument();
+  });
+
+  it('ignores taps and key presses while disabled', () => {
+    const onKey = vi.fn();
+    render(<OnScreenKeyboard language="en" letterStates={{}} disabled onKey={onKey} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'A' }));
+    fireEvent.keyDown(window, { key: 'Enter' });
+
+    expect(onKey).not.toHaveBeenCalled();
+    expect(screen.getAllByRole('button').every(button => button.hasAttribute('disabled'))).toBe(true);
+  });
+
+  it('moves focus between keys with the arrow keys', () => {
+    render(<OnScreenKeyboard language="en" letterStates={{}} onKey={vi.fn()} />);
+    const q = screen.getByRole('button', { name: 'Q' });
+
+    act(() => q.focus());
+    fireEvent.keyDown(q, { key: 'ArrowDown' });
+    expect(screen.getByRole('button', { name: 'A' })).toHaveFocus();
+
+    fireEvent.keyDown(document.activeElement!, { key: 'End' });
+    expect(screen.getByRole('button', { name: 'L' })).toHaveFocus();
+    expect(screen.getByRole('button', { name: 'L' })).toHaveAttribute('tabindex', '0');
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import { keccak256, toUtf8Bytes } from 'ethers';
+import {
+  createTestDatabase,
+  createTestUser,
+  createTestBounty,
+  callRpc,
+  queryAs,
+} from '../helpers/database';
+import { computeSolutionCommitment, verifySolutionReveal, type BountyReveal } from '@/utils/commitment';
+import { getFairnessBadge } from '@/utils/game';
+
+/**
+ * Commitment Database Tests
+ * On-chain word commitments checked by record_bounty_commitment and the
+ * fairness badge built from them
+ */
+
+describe('Bounty commitments', () => {
+  let db: PGlite;
+  let creator: Awaited<ReturnType<typeof createTestUser>>;
+  let bountyId: string;
+
+  const txHash = '0x' + 'ab'.repeat(32);
+
+  const prepare = () =>
+    callRpc<{ solution: string; salt: string }>(db, 'prepare_bounty_commitment', {
+      bounty_uuid: bountyId,
+      wallet_addr: creator.wallet,
+    }, { wallet: creator.wallet });
+
+  const record = (commitment: string, hash: string | null = txHash) =>
+    callRpc(db, 'record_bounty_commitment', {
+      bounty_uuid: bountyId,
+      wallet_addr: creator.wallet,
+      commitment,
+      tx_hash: hash,
+    }, { wallet: creator.wallet });
+
+  const storedBounty = async () => {
+    const { rows: [bounty] } = await db.query<{ solution_commitment: string | null; transaction_hash: string | null }>(
+      `SELECT solution_commitment, transaction_hash FROM bounties WHERE id = $1`,
+      [bountyId]
+    );
+    return bounty;
+  };
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+  });
+
+  beforeEach(async () => {
+    creator = await createTestUser(db);
+    bountyId = await createTestBounty(db, creator.wallet, { words: ['CRANE', 'PLANT'] });
+  });
+
+  it('hashes with Keccak-256 like ethers', async () => {
+    // Empty, one block, exactly one rate (136 bytes) and two blocks
+    for (const input of ['', 'CRANE,PLANT', 'x'.repeat(135), 'x'.repeat(136), 'ÑANDÚ'.repeat(40)]) {
+      const { rows: [row] } = await db.query<{ hash: string }>(
+        `SELECT '0x' || encode(keccak256(convert_to($1, 'UTF8')), 'hex') AS hash`,
+        [input]
+      );
+      expect(row.hash).toBe(keccak256(toUtf8Bytes(input)));
+    }
+  });
+
+  it('hands the creator the solution and a 32-byte salt, the same on retry', async () => {
+    const first = await prepare();
+
+    expect(first.solution).toBe('CRANE,PLANT');
+    expect(first.salt).toMatch(/^0x[0-9a-f]{64}$/);
+    expect((await prepare()).salt).toBe(first.salt);
+  });
+
+  it('records the commitment the client computes and locks the words', async () => {
+    const { solution, salt } = await prepare();
+
+    await record(computeSolutionCommitment(bountyId, salt, solution));
+
+    const bounty = await storedBounty();
+    expect(bounty.solution_commitment).toBe(computeSolutionCommitment(bountyId, salt, solution));
+    expect(getFairnessBadge(bounty, null, 'testnet')).toEqual({
+      status: 'committed',
+      label: 'Words committed on-chain',
+      transactionHash: txHash,
+      transactionUrl: `https://hashscan.io/testnet/transaction/${txHash}`,
+    });
+    await expect(
+      db.query(`UPDATE bounties SET words = ARRAY['SLATE', 'PLANT'] WHERE id = $1`, [bountyId])
+    ).rejects.toThrow('locked by their on-chain commitment');
+  });
+
+  it('rejects commitments to other words or salts, and malformed transaction hashes', async () => {
+    const { solution, salt } = await prepare();
+    const otherSalt = '0x' + '00'.repeat(32);
+
+    await expect(record(computeSolutionCommitment(bountyId, salt, 'SLATE,PLANT')))
+      .rejects.toThrow('Commitment does not match the bounty words and salt');
+    await expect(record(computeSolutionCommitment(bountyId, otherSalt, solution)))
+      .rejects.toThrow('Commitment does not match the bounty words and salt');
+    await expect(record(computeSolutionCommitment(bountyId, salt, solution), '0.0.123@1700000000.000'))
+      .rejects.toThrow('Transaction hash must be a 0x-prefixed 32-byte hex string');
+
+    const bounty = await storedBounty();
+    expect(bounty.solution_commitment).toBeNull();
+    expect(getFairnessBadge(bounty, null, 'testnet')).toMatchObject({ status: 'none', transactionUrl: null });
+  });
+
+  it('publishes a reveal that verifies once the bounty has ended', async () => {
+    const { solution, salt } = await prepare();
+    await record(computeSolutionCommitment(bountyId, salt, solution));
+
+    await expect(callRpc(db, 'get_bounty_reveal', { bounty_uuid: bountyId }, 'anon'))
+      .rejects.toThrow('has not ended yet');
+
+    await db.query(`UPDATE bounties SET status = 'completed' WHERE id = $1`, [bountyId]);
+    const reveal = await callRpc<BountyReveal>(db, 'get_bounty_reveal', { bounty_uuid: bountyId }, 'anon');
+
+    expect(reveal).toEqual({
+      solution: 'CRANE,PLANT',
+      salt,
+      commitment: computeSolutionCommitment(bountyId, salt, solution),
+      transaction_hash: txHash,
+    });
+    expect(getFairnessBadge(await storedBounty(), verifySolutionReveal(bountyId, reveal), 'mainnet')).toMatchObject({
+      status: 'verified',
+      transactionUrl: `https://hashscan.io/mainnet/transaction/${txHash}`,
+    });
+  });
+
+  it('won\'t let clients end a running bounty to read its words', async () => {
+    for (const caller of ['anon', { wallet: creator.wallet }] as const) {
+      await expect(queryAs(db, caller,
+        `UPDATE bounties SET status = 'completed' WHERE id = $1 RETURNING revealed_words`,
+        [bountyId]
+      )).rejects.toThrow('permission denied');
+      await expect(queryAs(db, caller,
+        `UPDATE bounties SET end_time = NOW() - INTERVAL '1 minute' WHERE id = $1`,
+        [bountyId]
+      )).rejects.toThrow('permission denied');
+    }
+
+    await queryAs(db, { wallet: creator.wallet }, `UPDATE bounties SET name = 'Renamed' WHERE id = $1`, [bountyId]);
+    expect(await queryAs(db, 'anon', `UPDATE bounties SET name = 'Hijacked' WHERE id = $1 RETURNING id`, [bountyId]))
+      .toEqual([]);
+
+    const { rows: [bounty] } = await db.query<{ name: string; status: string; revealed_words: string[] | null }>(
+      `SELECT name, status, revealed_words FROM bounties WHERE id = $1`,
+      [bountyId]
+    );
+    expect(bounty).toEqual({ name: 'Renamed', status: 'active', revealed_words: null });
+  });
+
+  it('activates a draft for its creator once the commitment is recorded', async () => {
+    bountyId = await createTestBounty(db, creator.wallet, { words: ['CRANE', 'PLANT'], status: 'draft', duration_hours: 24 });
+    const activate = (wallet = creator.wallet) =>
+      callRpc(db, 'activate_bounty', { bounty_uuid: bountyId, wallet_addr: wallet }, { wallet });
+
+    await expect(activate()).rejects.toThrow('Record the createBounty transaction with record_bounty_commitment() first');
+
+    const { solution, salt } = await prepare();
+    await record(computeSolutionCommitment(bountyId, salt, solution));
+
+    const stranger = await createTestUser(db);
+    await expect(activate(stranger.wallet)).rejects.toThrow(`Bounty ${bountyId} not found or not yours`);
+
+    await activate();
+    await expect(activate()).rejects.toThrow(`Bounty ${bountyId} is not a draft`);
+
+    const { rows: [bounty] } = await db.query<{ status: string; hours_left: number }>(
+      `SELECT status, ROUND(EXTRACT(EPOCH FROM end_time - NOW()) / 3600)::INTEGER AS hours_left FROM bounties WHERE id = $1`,
+      [bountyId]
+    );
+    expect(bounty).toEqual({ status: 'active', hours_left: 24 });
+  });
+});
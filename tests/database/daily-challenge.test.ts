@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import { createTestDatabase, createTestUser, callRpc, queryAs } from '../helpers/database';
+import { getDailyChallengeDate, getNextDailyReset } from '@/utils/game';
+
+/**
+ * Daily Challenge Database Tests
+ * One shared word a day, scored by submit_daily_guess and kept secret until played
+ */
+
+describe('Daily challenge', () => {
+  let db: PGlite;
+  let word: string;
+  let wrongGuesses: string[];
+
+  const guess = (wallet: string, guessedWord: string) =>
+    callRpc(db, 'submit_daily_guess', { wallet_addr: wallet, guessed_word: guessedWord }, { wallet });
+
+  const challenge = (wallet: string) =>
+    callRpc(db, 'get_daily_challenge', { wallet_addr: wallet }, { wallet });
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+
+    // Opening the daily picks the word; read it back as the database owner
+    await challenge((await createTestUser(db)).wallet);
+    const { rows: [today] } = await db.query<{ word: string }>(
+      `SELECT word FROM daily_challenges WHERE challenge_date = (NOW() AT TIME ZONE 'UTC')::DATE`
+    );
+    word = today.word;
+
+    const { rows } = await db.query<{ word: string }>(
+      `SELECT word FROM dictionary WHERE language = 'en' AND word_length = 5 AND word <> $1 ORDER BY word LIMIT 6`,
+      [word]
+    );
+    wrongGuesses = rows.map(r => r.word);
+  });
+
+  it('uses the same UTC day and reset time as the client', async () => {
+    const daily = await callRpc(db, 'get_daily_challenge', {}, 'anon');
+
+    expect(daily.challenge_date).toBe(getDailyChallengeDate());
+    expect(new Date(daily.next_challenge_at).getTime()).toBe(getNextDailyReset().getTime());
+    expect(daily).toMatchObject({ word_length: 5, max_guesses: 6, result: null });
+  });
+
+  it('keeps the word secret until the player has finished', async () => {
+    const { wallet } = await createTestUser(db);
+
+    const first = await guess(wallet, wrongGuesses[0]);
+    expect(first).toMatchObject({ correct: false, attempt_number: 1, completed: false, word: null });
+    expect((await challenge(wallet)).result.word).toBeNull();
+
+    const last = await guess(wallet, word);
+    expect(last).toMatchObject({ correct: true, attempt_number: 2, completed: true, word });
+    expect((await challenge(wallet)).result).toMatchObject({ solved: true, attempts: 2, word });
+  });
+
+  it('scores guesses on the server', async () => {
+    const { wallet } = await createTestUser(db);
+
+    const result = await guess(wallet, word);
+
+    expect(result.letter_results.map((r: { status: string }) => r.status)).toEqual(Array(5).fill('correct'));
+  });
+
+  it('ends the play after six wrong guesses and allows one play a day', async () => {
+    const { wallet } = await createTestUser(db);
+
+    for (const wrong of wrongGuesses.slice(0, 5)) {
+      expect((await guess(wallet, wrong)).completed).toBe(false);
+    }
+    expect(await guess(wallet, wrongGuesses[5])).toMatchObject({ correct: false, completed: true, word });
+
+    await expect(guess(wallet, word)).rejects.toThrow('Daily challenge already played today');
+  });
+
+  it('rejects guesses that are not words of the right length', async () => {
+    const { wallet } = await createTestUser(db);
+
+    await expect(guess(wallet, 'CRANES')).rejects.toThrow('Guess must be 5 letters long');
+    await expect(guess(wallet, 'QXZVJ')).rejects.toThrow('Not in word list: QXZVJ');
+    expect((await challenge(wallet)).result).toBeNull();
+  });
+
+  it('ranks solvers by fewest guesses', async () => {
+    const slow = await createTestUser(db, 'slow_solver');
+    const fast = await createTestUser(db, 'fast_solver');
+    const failed = await createTestUser(db, 'no_solver');
+
+    await guess(slow.wallet, wrongGuesses[0]);
+    await guess(slow.wallet, wrongGuesses[1]);
+    await guess(slow.wallet, word);
+    await guess(fast.wallet, word);
+    for (const wrong of wrongGuesses) {
+      await guess(failed.wallet, wrong);
+    }
+
+    const leaderboard = await callRpc<{ username: string | null; attempts: number }[]>(
+      db, 'get_daily_leaderboard', {}, 'anon'
+    );
+    const names = leaderboard.map(entry => entry.username);
+
+    expect(names).toContain('fast_solver');
+    expect(names.indexOf('fast_solver')).toBeLessThan(names.indexOf('slow_solver'));
+    expect(names).not.toContain('no_solver');
+  });
+
+  it('only opens past days to direct reads and the archive', async () => {
+    await db.query(
+      `INSERT INTO daily_challenges (challenge_date, word) VALUES ((NOW() AT TIME ZONE 'UTC')::DATE - 1, 'PLANT')`
+    );
+
+    const rows = await queryAs<{ word: string }>(db, 'anon', `SELECT word FROM daily_challenges`);
+    const archive = await callRpc<{ word: string }[]>(db, 'get_daily_archive', {}, 'anon');
+
+    expect(rows.map(r => r.word)).toEqual(['PLANT']);
+    expect(archive.map(r => r.word)).toEqual(['PLANT']);
+    expect(await queryAs(db, 'anon', `SELECT id FROM daily_challenge_results`)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import { createTestDatabase, createTestUser, callRpc, queryAs } from '../helpers/database';
+import { buildDuelInviteUrl, getDuelOutcome, getDuelRows, parseDuelInvite } from '@/utils/game';
+
+/**
+ * Duel Database Tests
+ * Invites, matchmaking, colour-only moves and first-to-solve settlement
+ */
+
+describe('Duels', () => {
+  let db: PGlite;
+  let challenger: Awaited<ReturnType<typeof createTestUser>>;
+  let opponent: Awaited<ReturnType<typeof createTestUser>>;
+  let duel: { duel_id: string; bounty_id: string; invite_code: string };
+  let word: string;
+  let wrongGuesses: string[];
+
+  const guess = (player: { wallet: string }, guessedWord: string) =>
+    callRpc(db, 'submit_attempt', {
+      bounty_uuid: duel.bounty_id,
+      wallet_addr: player.wallet,
+      word_idx: 0,
+      guessed_word: guessedWord,
+    }, { wallet: player.wallet });
+
+  const getDuel = (player: { wallet: string }) =>
+    callRpc(db, 'get_duel', { duel_uuid: duel.duel_id, wallet_addr: player.wallet }, { wallet: player.wallet });
+
+  const accept = (player: { wallet: string }, code: string | null) =>
+    callRpc(db, 'accept_duel', { duel_uuid: duel.duel_id, wallet_addr: player.wallet, code }, { wallet: player.wallet });
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+  });
+
+  beforeEach(async () => {
+    challenger = await createTestUser(db);
+    opponent = await createTestUser(db);
+    duel = await callRpc(db, 'create_duel', { wallet_addr: challenger.wallet, duel_data: { stake_amount: 5 } }, { wallet: challenger.wallet });
+
+    // The word is drawn on the server; read it back as the database owner
+    const { rows: [bounty] } = await db.query<{ word: string }>(`SELECT (bounty_words($1))[1] AS word`, [duel.bounty_id]);
+    word = bounty.word;
+
+    const { rows } = await db.query<{ word: string }>(
+      `SELECT word FROM dictionary WHERE language = 'en' AND word_length = 5 AND word <> $1 ORDER BY word LIMIT 6`,
+      [word]
+    );
+    wrongGuesses = rows.map(r => r.word);
+  });
+
+  it('starts invite-only duels from the invite link', async () => {
+    const invite = parseDuelInvite(buildDuelInviteUrl('https://app.example/', duel.duel_id, duel.invite_code));
+
+    await expect(accept(opponent, 'wrong-code')).rejects.toThrow('Invalid invite code');
+    await expect(accept(challenger, invite!.code)).rejects.toThrow('You cannot accept your own duel');
+    await expect(guess(challenger, wrongGuesses[0])).rejects.toThrow('Duel is not running');
+
+    expect(await accept(opponent, invite!.code)).toMatchObject({ status: 'active' });
+    expect((await getDuel(challenger)).invite_code).toBe(duel.invite_code);
+    expect((await getDuel(opponent)).invite_code).toBeNull();
+  });
+
+  it('matches open duels with the same settings', async () => {
+    const first = await createTestUser(db);
+    const second = await createTestUser(db);
+    const settings = { word_length: 5, stake_amount: 2 };
+
+    const waiting = await callRpc(db, 'find_duel', { wallet_addr: first.wallet, duel_data: settings }, { wallet: first.wallet });
+    const matched = await callRpc(db, 'find_duel', { wallet_addr: second.wallet, duel_data: settings }, { wallet: second.wallet });
+
+    expect(waiting).toMatchObject({ matched: false, status: 'waiting' });
+    expect(matched).toMatchObject({ matched: true, status: 'active', duel_id: waiting.duel_id });
+  });
+
+  it("shows the opponent's colours but never their letters or the word", async () => {
+    await accept(opponent, duel.invite_code);
+    const result = await guess(opponent, wrongGuesses[0]);
+
+    const seen = await getDuel(challenger);
+    const challengerAttempts = await queryAs(db, { wallet: challenger.wallet }, `SELECT * FROM game_attempts WHERE bounty_id = $1`, [duel.bounty_id]);
+    const [ownAttempt] = await queryAs<{ target_word: string | null }>(
+      db, { wallet: opponent.wallet }, `SELECT * FROM game_attempts WHERE bounty_id = $1`, [duel.bounty_id]
+    );
+
+    expect(getDuelRows(seen.moves, opponent.id)).toEqual([
+      result.letter_results.map((r: { status: string }) => r.status),
+    ]);
+    expect(JSON.stringify(seen)).not.toContain(wrongGuesses[0]);
+    expect(seen.word).toBeNull();
+    expect(challengerAttempts).toHaveLength(0);
+    expect(ownAttempt.target_word).toBeNull();
+  });
+
+  it('gives the pot to the first player to solve', async () => {
+    await accept(opponent, duel.invite_code);
+    await guess(challenger, wrongGuesses[0]);
+    await guess(opponent, word);
+
+    const finished = await getDuel(challenger);
+    const { rows: [bounty] } = await db.query<{ status: string; prize_amount: string }>(
+      `SELECT status, prize_amount FROM bounties WHERE id = $1`,
+      [duel.bounty_id]
+    );
+
+    expect(getDuelOutcome(finished, opponent.id)).toBe('won');
+    expect(getDuelOutcome(finished, challenger.id)).toBe('lost');
+    expect(finished.word).toBe(word);
+    expect(bounty.status).toBe('completed');
+    expect(Number(bounty.prize_amount)).toBe(10);
+    await expect(guess(challenger, word)).rejects.toThrow();
+  });
+
+  it('is a draw when both players run out of guesses', async () => {
+    await accept(opponent, duel.invite_code);
+    for (const wrong of wrongGuesses) {
+      await guess(challenger, wrong);
+      await guess(opponent, wrong);
+    }
+
+    const { rows: [bounty] } = await db.query<{ status: string }>(`SELECT status FROM bounties WHERE id = $1`, [duel.bounty_id]);
+
+    expect(getDuelOutcome(await getDuel(challenger), challenger.id)).toBe('draw');
+    expect(bounty.status).toBe('cancelled');
+  });
+});
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import {
+  createTestDatabase,
+  createTestUser,
+  createTestBounty,
+  callRpc,
+  queryAs,
+} from '../helpers/database';
+
+/**
+ * Hint Database Tests
+ * Hints handed out one at a time by unlock_hint, and nowhere else
+ */
+
+describe('Progressive hints', () => {
+  let db: PGlite;
+  let creator: Awaited<ReturnType<typeof createTestUser>>;
+  let player: Awaited<ReturnType<typeof createTestUser>>;
+  let bountyId: string;
+
+  const unlock = () =>
+    callRpc(db, 'unlock_hint', { bounty_uuid: bountyId, wallet_addr: player.wallet }, { wallet: player.wallet });
+
+  const details = () =>
+    callRpc(db, 'get_bounty_details', { bounty_uuid: bountyId, wallet_addr: player.wallet }, { wallet: player.wallet });
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+  });
+
+  beforeEach(async () => {
+    creator = await createTestUser(db);
+    player = await createTestUser(db);
+    bountyId = await createTestBounty(db, creator.wallet, {
+      words: ['CRANE'],
+      hints: ['A bird', 'Lifts heavy things'],
+      hint_penalties: [1, 2],
+    });
+    await callRpc(db, 'join_bounty', { bounty_uuid: bountyId, wallet_addr: player.wallet }, { wallet: player.wallet });
+  });
+
+  it('keeps hint text out of bounty reads', async () => {
+    const [bounty] = await queryAs<{ hints: string[] | null; hints_count: number }>(
+      db,
+      'anon',
+      `SELECT * FROM bounties WHERE id = $1`,
+      [bountyId]
+    );
+
+    expect(bounty.hints).toBeNull();
+    expect(bounty.hints_count).toBe(2);
+    await expect(queryAs(db, 'anon', `SELECT * FROM bounty_hints`)).rejects.toThrow('permission denied');
+
+    // Visitors who haven't joined get the bounty without hints or participation
+    expect(await callRpc(db, 'get_bounty_details', { bounty_uuid: bountyId }, 'anon'))
+      .toMatchObject({ hints: null, hints_count: 2, participation: null });
+  });
+
+  it('unlocks hints in order and records their penalties', async () => {
+    const first = await unlock();
+    const second = await unlock();
+
+    expect(first).toMatchObject({ hint: 'A bird', hints_used: 1, hints_remaining: 1 });
+    expect(second).toMatchObject({ hint: 'Lifts heavy things', hints_used: 2, hints_remaining: 0 });
+    expect(Number(second.hint_penalty_total)).toBe(3);
+    await expect(unlock()).rejects.toThrow('No more hints available');
+  });
+
+  it('keeps hint penalties out of the player\'s reach', async () => {
+    await unlock();
+    await unlock();
+
+    await expect(queryAs(db, { wallet: player.wallet },
+      `UPDATE bounty_participants SET hints_used = 0, hint_penalty_total = 0 WHERE bounty_id = $1`,
+      [bountyId]
+    )).rejects.toThrow('permission denied');
+
+    const { participation } = await details();
+    expect(participation.hints_used).toBe(2);
+    expect(Number(participation.hint_penalty_total)).toBe(3);
+  });
+
+  it('returns only unlocked hints while the bounty runs', async () => {
+    await unlock();
+
+    const bounty = await details();
+
+    expect(bounty.hints).toBeNull();
+    expect(bounty.hints_count).toBe(2);
+    expect(bounty.participation.hints_used).toBe(1);
+    expect(bounty.participation.unlocked_hints).toEqual(['A bird']);
+  });
+
+  it('publishes every hint once the bounty has ended', async () => {
+    await db.query(`UPDATE bounties SET status = 'completed' WHERE id = $1`, [bountyId]);
+
+    expect((await details()).hints).toEqual(['A bird', 'Lifts heavy things']);
+  });
+
+  it('shows hints used on the bounty leaderboard', async () => {
+    await unlock();
+
+    const [entry] = await callRpc(db, 'get_bounty_leaderboard', { bounty_uuid: bountyId }, 'anon');
+
+    expect(entry.wallet_address).toBe(player.wallet);
+    expect(entry.hints_used).toBe(1);
+  });
+
+  it('replaces the hints when the creator edits them', async () => {
+    await db.query(`UPDATE bounties SET hints = $2 WHERE id = $1`, [bountyId, ['Flies south']]);
+
+    const bounty = await details();
+
+    expect(bounty.hints_count).toBe(1);
+    expect((await unlock()).hint).toBe('Flies south');
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import { createTestDatabase, createTestUser, createTestBounty, callRpc } from '../helpers/database';
+import { normalizeWord, type GameLanguage } from '@/utils/game';
+
+/**
+ * Language Database Tests
+ * Per-language dictionaries and accent-aware scoring in submit_attempt
+ */
+
+describe('Languages', () => {
+  let db: PGlite;
+
+  const playBounty = async (language: GameLanguage, word: string, guesses: string[]) => {
+    const creator = await createTestUser(db);
+    const player = await createTestUser(db);
+    const bountyId = await createTestBounty(db, creator.wallet, { words: [word], language });
+    await callRpc(db, 'join_bounty', { bounty_uuid: bountyId, wallet_addr: player.wallet }, { wallet: player.wallet });
+
+    const results = [];
+    for (const guess of guesses) {
+      results.push(await callRpc(db, 'submit_attempt', {
+        bounty_uuid: bountyId,
+        wallet_addr: player.wallet,
+        word_idx: 0,
+        guessed_word: guess,
+      }, { wallet: player.wallet }));
+    }
+    return results;
+  };
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+  });
+
+  it('normalises words the same way as the client', async () => {
+    const cases: [string, GameLanguage][] = [
+      ['café', 'fr'], ['cœur', 'fr'], ['árbol', 'es'], ['sueño', 'es'],
+      ['sueño', 'fr'], ['höhle', 'de'], ['straße', 'de'], ['naïve', 'en'],
+    ];
+
+    for (const [word, language] of cases) {
+      const normalized = await callRpc(db, 'normalize_word', { word, word_language: language });
+      expect(normalized, `${word} (${language})`).toBe(normalizeWord(word, language));
+    }
+  });
+
+  it('validates words against the dictionary of the language', async () => {
+    const validate = (word: string, language: GameLanguage) =>
+      callRpc<boolean>(db, 'validate_word', { check_word: word, word_language: language }, 'anon');
+
+    expect(await validate('sueño', 'es')).toBe(true);
+    expect(await validate('SUEÑO', 'en')).toBe(false);
+    expect(await validate('Glück', 'de')).toBe(true);
+    expect(await validate('forêt', 'fr')).toBe(true);
+  });
+
+  it('draws random words from one language only', async () => {
+    const words = await callRpc<{ word: string }[]>(db, 'get_random_words', {
+      word_len: 5,
+      limit_count: 10,
+      word_language: 'de',
+    }, 'anon');
+    const { rows } = await db.query<{ word: string }>(`SELECT word FROM dictionary WHERE language = 'de'`);
+
+    expect(words).toHaveLength(10);
+    expect(rows.map(r => r.word)).toEqual(expect.arrayContaining(words.map(w => w.word)));
+  });
+
+  it('ignores accents the language has no key for', async () => {
+    const [result] = await playBounty('fr', 'Forêt', ['foret']);
+
+    expect(result.correct).toBe(true);
+  });
+
+  it('scores letters the language has a key for as their own letter', async () => {
+    const [wrong, right] = await playBounty('es', 'sueño', ['SUENO', 'sueño']);
+
+    expect(wrong.correct).toBe(false);
+    expect(wrong.letter_results.map((r: { status: string }) => r.status)).toEqual([
+      'correct', 'correct', 'correct', 'absent', 'correct',
+    ]);
+    expect(right.correct).toBe(true);
+  });
+});
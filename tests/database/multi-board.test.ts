@@ -0,0 +1,82 @@
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import { createTestDatabase, createTestUser, createTestBounty, callRpc, queryAs } from '../helpers/database';
+
+/**
+ * Multi-Board Database Tests
+ * One guess scored on every unsolved board, with a shared guess budget
+ */
+
+describe('Multi-board bounties', () => {
+  let db: PGlite;
+  let player: Awaited<ReturnType<typeof createTestUser>>;
+  let bountyId: string;
+
+  const guess = (word: string) =>
+    callRpc(db, 'submit_attempt', {
+      bounty_uuid: bountyId,
+      wallet_addr: player.wallet,
+      word_idx: 0,
+      guessed_word: word,
+    }, { wallet: player.wallet });
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+  });
+
+  beforeEach(async () => {
+    const creator = await createTestUser(db);
+    player = await createTestUser(db);
+    bountyId = await createTestBounty(db, creator.wallet, {
+      bounty_type: 'Multi-board',
+      winner_criteria: 'boards-solved',
+      words: ['CRANE', 'PLANT'],
+      max_attempts_per_user: 3,
+    });
+    await callRpc(db, 'join_bounty', { bounty_uuid: bountyId, wallet_addr: player.wallet }, { wallet: player.wallet });
+  });
+
+  it('scores each guess on every unsolved board', async () => {
+    const first = await guess('CRANE');
+    const second = await guess('PLANT');
+
+    expect(first.boards.map((b: { word_index: number; correct: boolean }) => [b.word_index, b.correct])).toEqual([
+      [0, true], [1, false],
+    ]);
+    expect(second.boards.map((b: { word_index: number }) => b.word_index)).toEqual([1]);
+    expect(second).toMatchObject({ boards_solved: 2, boards_total: 2, completed_bounty: true });
+  });
+
+  it('never stores the target words with the attempts', async () => {
+    await guess('TRACE');
+
+    const attempts = await queryAs<{ word_index: number; target_word: string | null }>(
+      db,
+      { wallet: player.wallet },
+      `SELECT word_index, target_word FROM game_attempts WHERE bounty_id = $1 ORDER BY word_index`,
+      [bountyId]
+    );
+
+    expect(attempts).toEqual([
+      { word_index: 0, target_word: null },
+      { word_index: 1, target_word: null },
+    ]);
+  });
+
+  it('shares one guess budget across the boards', async () => {
+    await guess('CRANE');
+    await guess('TRACE');
+    const last = await guess('TRAIN');
+
+    expect(last).toMatchObject({ attempts_remaining: 0, boards_solved: 1, completed_bounty: false });
+    await expect(guess('PLANT')).rejects.toThrow();
+
+    const [participant] = await queryAs<{ status: string; words_completed: number }>(
+      db,
+      { wallet: player.wallet },
+      `SELECT status, words_completed FROM bounty_participants WHERE bounty_id = $1`,
+      [bountyId]
+    );
+    expect(participant).toEqual({ status: 'failed', words_completed: 1 });
+  });
+});
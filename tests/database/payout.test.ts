@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import {
+  createTestDatabase,
+  createTestUser,
+  createTestBounty,
+  callRpc,
+} from '../helpers/database';
+import { buildWinnerPayout, hbarToTinybars, splitNetPrize, type BountyWinnerRow } from '@/utils/game';
+
+/**
+ * Winner Payout Database Tests
+ * complete_bounty_with_winners rows turned into one completeBountyWithWinners call
+ */
+
+describe('Winner payouts', () => {
+  let db: PGlite;
+
+  // WordleBountyEscrow keeps 2.5% of the prize
+  const netOf = (prize: bigint) => prize - (prize * 250n) / 10000n;
+
+  /**
+   * A finished bounty whose players solved CRANE in 1, 2, 3 and 4 guesses
+   */
+  const playBounty = async (bountyData: Record<string, unknown>) => {
+    const creator = await createTestUser(db);
+    const bountyId = await createTestBounty(db, creator.wallet, { words: ['CRANE'], ...bountyData });
+    const walletByUser: Record<string, string> = {};
+
+    for (const misses of [0, 1, 2, 3]) {
+      const player = await createTestUser(db);
+      walletByUser[player.id] = player.wallet;
+      await callRpc(db, 'join_bounty', { bounty_uuid: bountyId, wallet_addr: player.wallet }, { wallet: player.wallet });
+
+      for (const word of [...['SLATE', 'MOUSE', 'PLANT'].slice(0, misses), 'CRANE']) {
+        await callRpc(db, 'submit_attempt', {
+          bounty_uuid: bountyId,
+          wallet_addr: player.wallet,
+          word_idx: 0,
+          guessed_word: word,
+        }, { wallet: player.wallet });
+      }
+    }
+
+    const complete = () =>
+      callRpc<BountyWinnerRow[]>(db, 'complete_bounty_with_winners', { bounty_uuid: bountyId });
+    const winners = await complete();
+    const wallets = Object.values(walletByUser);
+
+    return { winners, walletByUser, wallets, complete };
+  };
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+  });
+
+  it('pays the top three of a split-winners bounty in rank order', async () => {
+    const { winners, walletByUser, wallets, complete } = await playBounty({
+      prize_amount: 10,
+      winner_criteria: 'attempts',
+      prize_distribution: 'split-winners',
+    });
+
+    const payout = buildWinnerPayout(winners, walletByUser);
+
+    expect(payout.winnerAddresses).toEqual(wallets.slice(0, 3));
+    expect(payout.shares).toEqual([333333333n, 333333333n, 333333333n]);
+
+    const amounts = splitNetPrize(netOf(hbarToTinybars(10)), payout.shares);
+    expect(amounts).toEqual([325000000n, 325000000n, 325000000n]);
+    expect(amounts.reduce((sum, amount) => sum + amount, 0n)).toBe(netOf(hbarToTinybars(10)));
+
+    // Retrying after a failed transaction returns the same winners in the same order
+    expect(buildWinnerPayout(await complete(), walletByUser)).toEqual(payout);
+  });
+
+  it('leaves the rounding dust with the last winner', async () => {
+    const { winners, walletByUser } = await playBounty({
+      prize_amount: 1,
+      winner_criteria: 'attempts',
+      prize_distribution: 'split-winners',
+    });
+
+    const { shares } = buildWinnerPayout(winners, walletByUser);
+
+    expect(splitNetPrize(netOf(hbarToTinybars(1)), shares)).toEqual([32500000n, 32500000n, 32500000n]);
+    expect(splitNetPrize(1000n, shares)).toEqual([333n, 333n, 334n]);
+  });
+
+  it('sends a winner-take-all prize to one address', async () => {
+    const { winners, walletByUser, wallets } = await playBounty({
+      prize_amount: 2.5,
+      winner_criteria: 'attempts',
+      prize_distribution: 'winner-take-all',
+    });
+
+    expect(buildWinnerPayout(winners, walletByUser)).toEqual({
+      winnerAddresses: [wallets[0]],
+      shares: [250000000n],
+    });
+  });
+
+  it('refuses winners the modal has no wallet for', async () => {
+    const { winners } = await playBounty({ winner_criteria: 'attempts', prize_distribution: 'split-winners' });
+
+    expect(() => buildWinnerPayout(winners, {})).toThrow(`No wallet address for winner ${winners[0].winner_user_id}`);
+  });
+});
@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import {
+  createTestDatabase,
+  createTestUser,
+  createTestBounty,
+  callRpc,
+} from '../helpers/database';
+import {
+  claimDeadlineToIso,
+  getClaimCountdown,
+  getOpenPrizeClaims,
+  type PendingPrizeClaim,
+} from '@/utils/game';
+
+/**
+ * Prize Claim Database Tests
+ * Claim deadlines recorded after completion, claimPrize recorded by
+ * mark_prize_paid, and unclaimed prizes swept after the deadline
+ */
+
+describe('Prize claims', () => {
+  let db: PGlite;
+  let bountyId: string;
+  let creator: Awaited<ReturnType<typeof createTestUser>>;
+  let winners: Array<Awaited<ReturnType<typeof createTestUser>> & { prize: number }>;
+
+  // payment_transactions hashes are unique across the shared database
+  let hashCount = 0;
+  const nextHash = () => '0x' + (++hashCount).toString(16).padStart(64, 'b');
+
+  const nowSeconds = () => Math.floor(Date.now() / 1000);
+
+  // claimDeadline of the PrizeClaimable events, as CompleteBountyModal reads it
+  const setDeadline = (claimDeadline: bigint) =>
+    callRpc(db, 'set_prize_claim_deadline', {
+      bounty_uuid: bountyId,
+      deadline_at: claimDeadlineToIso(claimDeadline),
+    }, { wallet: creator.wallet });
+
+  const markPaid = (winner: (typeof winners)[number], txHash = nextHash()) =>
+    callRpc(db, 'mark_prize_paid', {
+      bounty_uuid: bountyId,
+      winner_user_id: winner.id,
+      transaction_hash: txHash,
+      blockchain_amount: winner.prize,
+    }, { wallet: winner.wallet });
+
+  const sweep = (toCreator: boolean) =>
+    callRpc<string>(db, 'record_unclaimed_sweep', {
+      bounty_uuid: bountyId,
+      sweep_tx_hash: nextHash(),
+      to_creator: toCreator,
+    }, 'anon');
+
+  // claim_deadline as PostgREST sends it
+  const pendingClaims = async (wallet: string) => {
+    const claims = await callRpc<PendingPrizeClaim[]>(db, 'get_pending_prize_claims', { wallet_addr: wallet }, 'anon');
+    return claims.map(claim => ({ ...claim, claim_deadline: new Date(claim.claim_deadline).toISOString() }));
+  };
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+  });
+
+  /**
+   * A completed split-winners bounty with two winners
+   */
+  beforeEach(async () => {
+    creator = await createTestUser(db);
+    bountyId = await createTestBounty(db, creator.wallet, {
+      name: 'Claim Me',
+      prize_amount: 10,
+      winner_criteria: 'attempts',
+      prize_distribution: 'split-winners',
+    });
+
+    const players = [await createTestUser(db), await createTestUser(db)];
+    for (const [misses, player] of players.entries()) {
+      await callRpc(db, 'join_bounty', { bounty_uuid: bountyId, wallet_addr: player.wallet }, { wallet: player.wallet });
+
+      for (const word of [...['SLATE'].slice(0, misses), 'CRANE']) {
+        await callRpc(db, 'submit_attempt', {
+          bounty_uuid: bountyId,
+          wallet_addr: player.wallet,
+          word_idx: 0,
+          guessed_word: word,
+        }, { wallet: player.wallet });
+      }
+    }
+
+    const results = await callRpc<Array<{ winner_user_id: string; prize_awarded: string }>>(
+      db, 'complete_bounty_with_winners', { bounty_uuid: bountyId }
+    );
+    winners = players.map(player => ({
+      ...player,
+      prize: Number(results.find(result => result.winner_user_id === player.id)?.prize_awarded),
+    }));
+  });
+
+  it('records the claim deadline once, for completed bounties only', async () => {
+    const claimDeadline = BigInt(nowSeconds() + 30 * 24 * 60 * 60);
+
+    await setDeadline(claimDeadline);
+    await setDeadline(claimDeadline);
+    await expect(setDeadline(claimDeadline + 60n))
+      .rejects.toThrow(`Claim deadline for bounty ${bountyId} is already set`);
+
+    const running = await createTestBounty(db, creator.wallet);
+    await expect(callRpc(db, 'set_prize_claim_deadline', {
+      bounty_uuid: running,
+      deadline_at: claimDeadlineToIso(claimDeadline),
+    }, 'anon')).rejects.toThrow(`Bounty ${running} is not completed`);
+  });
+
+  it('lists a winner\'s open claims until they claim', async () => {
+    const claimDeadline = nowSeconds() + 30 * 24 * 60 * 60 + 60 * 60;
+    await setDeadline(BigInt(claimDeadline));
+
+    const [claim] = getOpenPrizeClaims(await pendingClaims(winners[0].wallet));
+    expect(claim).toMatchObject({
+      bounty_id: bountyId,
+      bounty_name: 'Claim Me',
+      prize_currency: 'HBAR',
+      prize_token_id: null,
+      claim_deadline: claimDeadlineToIso(claimDeadline),
+    });
+    expect(Number(claim.prize_amount)).toBe(winners[0].prize);
+    expect(getClaimCountdown(claim.claim_deadline).label).toBe('30d 0h');
+
+    const claimTxHash = nextHash();
+    await markPaid(winners[0], claimTxHash);
+    await expect(markPaid(winners[0])).rejects.toThrow(`Prize for bounty ${bountyId} was already claimed`);
+
+    expect(await pendingClaims(winners[0].wallet)).toEqual([]);
+    expect(await pendingClaims(winners[1].wallet)).toHaveLength(1);
+
+    const { rows: [payment] } = await db.query<{ status: string; amount: string; to_address: string }>(
+      `SELECT status, amount, to_address FROM payment_transactions WHERE transaction_hash = $1`,
+      [claimTxHash]
+    );
+    expect(payment.status).toBe('confirmed');
+    expect(Number(payment.amount)).toBe(winners[0].prize);
+    expect(payment.to_address).toBe(winners[0].wallet);
+
+    const loser = await createTestUser(db);
+    await expect(markPaid({ ...loser, prize: 1 })).rejects.toThrow('Winner record not found');
+  });
+
+  it('refuses claims after the deadline and sweeps what is left to the creator', async () => {
+    await markPaid(winners[0]);
+    await setDeadline(BigInt(nowSeconds() - 60));
+
+    await expect(markPaid(winners[1])).rejects.toThrow(`Claim period for bounty ${bountyId} ended`);
+    expect(await pendingClaims(winners[1].wallet)).toEqual([]);
+    expect(getClaimCountdown(claimDeadlineToIso(nowSeconds() - 60)).label).toBe('Claim period ended');
+
+    expect(Number(await sweep(true))).toBe(winners[1].prize);
+    await expect(sweep(true)).rejects.toThrow(`Unclaimed prizes for bounty ${bountyId} were already swept`);
+
+    const { rows: [refund] } = await db.query<{ amount: string; to_address: string }>(
+      `SELECT amount, to_address FROM payment_transactions WHERE bounty_id = $1 AND transaction_type = 'refund'`,
+      [bountyId]
+    );
+    expect(Number(refund.amount)).toBe(winners[1].prize);
+    expect(refund.to_address).toBe(creator.wallet);
+  });
+
+  it('sweeps to the platform only once the claim period has ended', async () => {
+    await expect(sweep(false)).rejects.toThrow(`Claim period for bounty ${bountyId} has not ended`);
+
+    await setDeadline(BigInt(nowSeconds() - 60));
+    expect(Number(await sweep(false))).toBe(winners[0].prize + winners[1].prize);
+
+    const { rows: [bounty] } = await db.query<{ unclaimed_recipient: string }>(
+      `SELECT unclaimed_recipient FROM bounties WHERE id = $1`,
+      [bountyId]
+    );
+    expect(bounty.unclaimed_recipient).toBe('platform');
+
+    const { rows: refunds } = await db.query(
+      `SELECT 1 FROM payment_transactions WHERE bounty_id = $1 AND transaction_type = 'refund'`,
+      [bountyId]
+    );
+    expect(refunds).toEqual([]);
+  });
+});
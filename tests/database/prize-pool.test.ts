@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import {
+  createTestDatabase,
+  createTestUser,
+  createTestBounty,
+  callRpc,
+  queryAs,
+} from '../helpers/database';
+import { applyPrizePoolUpdate, getPrizePool, hasEntryFee, netPrizePool, type BountyPrize } from '@/utils/game';
+
+/**
+ * Prize Pool Database Tests
+ * Entry fees recorded by join_bounty and added to the pool once the
+ * verify-entry-fee function confirms them
+ */
+
+describe('Entry-fee prize pools', () => {
+  let db: PGlite;
+  let player: Awaited<ReturnType<typeof createTestUser>>;
+  let bountyId: string;
+  let txHash: string;
+
+  // payment_transactions hashes are unique across the shared database
+  let hashCount = 0;
+  const nextHash = () => '0x' + (++hashCount).toString(16).padStart(64, 'a');
+
+  const join = (hash: string | null = txHash) =>
+    callRpc(db, 'join_bounty', {
+      bounty_uuid: bountyId,
+      wallet_addr: player.wallet,
+      entry_tx_hash: hash,
+    }, { wallet: player.wallet });
+
+  const confirm = (caller: Parameters<typeof callRpc>[3] = 'service_role') =>
+    callRpc<string>(db, 'confirm_entry_fee', {
+      bounty_uuid: bountyId,
+      wallet_addr: player.wallet,
+      block_number: 4242,
+      consensus_timestamp: '1760860800.123456789',
+    }, caller);
+
+  const guess = () =>
+    callRpc(db, 'submit_attempt', {
+      bounty_uuid: bountyId,
+      wallet_addr: player.wallet,
+      word_idx: 0,
+      guessed_word: 'SLATE',
+    }, { wallet: player.wallet });
+
+  const storedBounty = async () => {
+    const { rows: [bounty] } = await db.query<BountyPrize>(
+      `SELECT id, prize_amount, entry_fee, entry_fees_collected, prize_pool, participant_count FROM bounties WHERE id = $1`,
+      [bountyId]
+    );
+    return bounty;
+  };
+
+  const entryPayments = async () => {
+    const { rows } = await db.query<{ transaction_hash: string; status: string; block_number: number | null }>(
+      `SELECT transaction_hash, status, block_number FROM payment_transactions
+       WHERE bounty_id = $1 AND transaction_type = 'entry_fee' ORDER BY created_at`,
+      [bountyId]
+    );
+    return rows;
+  };
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+  });
+
+  beforeEach(async () => {
+    const creator = await createTestUser(db);
+    player = await createTestUser(db);
+    bountyId = await createTestBounty(db, creator.wallet, { prize_amount: 10, entry_fee: 0.5 });
+    txHash = nextHash();
+  });
+
+  it('records a joinBounty hash as a pending payment without growing the pool', async () => {
+    await expect(join(null)).rejects.toThrow('pay it with joinBounty first');
+    await expect(join('0.0.123@1700000000.000')).rejects.toThrow('Transaction hash must be a 0x-prefixed 32-byte hex string');
+
+    await join(txHash.replace(/a/g, 'A'));
+
+    const bounty = await storedBounty();
+    expect(hasEntryFee(bounty)).toBe(true);
+    expect(getPrizePool(bounty)).toBe(10);
+    expect(bounty.participant_count).toBe(1);
+    expect(await entryPayments()).toEqual([{ transaction_hash: txHash, status: 'pending', block_number: null }]);
+
+    expect(await callRpc(db, 'get_pending_entry_fee', { bounty_uuid: bountyId, wallet_addr: player.wallet }))
+      .toEqual({ transaction_hash: txHash, entry_fee: '0.50000000', prize_token: null });
+    await expect(guess()).rejects.toThrow('is not confirmed yet');
+  });
+
+  it('adds the fee to the pool once the service role confirms it', async () => {
+    await join();
+    const before = await storedBounty();
+
+    await expect(confirm({ wallet: player.wallet })).rejects.toThrow('permission denied');
+    await expect(confirm('anon')).rejects.toThrow('permission denied');
+
+    expect(Number(await confirm())).toBe(10.5);
+    await expect(confirm()).rejects.toThrow('No pending entry fee');
+
+    const after = await storedBounty();
+    expect(getPrizePool(applyPrizePoolUpdate(before, after))).toBe(10.5);
+    expect(netPrizePool(after, 250)).toBe(10.2375);
+    expect(await entryPayments()).toEqual([{ transaction_hash: txHash, status: 'confirmed', block_number: 4242 }]);
+    expect(await callRpc(db, 'get_pending_entry_fee', { bounty_uuid: bountyId, wallet_addr: player.wallet })).toBeNull();
+
+    await expect(guess()).resolves.toBeDefined();
+    await expect(join()).rejects.toThrow('User already joined this bounty');
+  });
+
+  it('won\'t let a player confirm their own fee', async () => {
+    await join();
+
+    await expect(queryAs(db, { wallet: player.wallet },
+      `UPDATE bounty_participants SET entry_fee_paid = 5 WHERE bounty_id = $1`, [bountyId]
+    )).rejects.toThrow('permission denied');
+
+    // Nor skip join_bounty() with a row of their own
+    const other = await createTestUser(db);
+    await expect(queryAs(db, 'anon',
+      `INSERT INTO bounty_participants (bounty_id, user_id, entry_fee_paid, status) VALUES ($1, $2, 5, 'active')`,
+      [bountyId, other.id]
+    )).rejects.toThrow('permission denied');
+
+    expect(getPrizePool(await storedBounty())).toBe(10);
+    await expect(guess()).rejects.toThrow('is not confirmed yet');
+  });
+
+  it('lets a player retry with another hash until their fee is confirmed', async () => {
+    const retryHash = nextHash();
+
+    await join();
+    await join(retryHash);
+    await confirm();
+
+    expect(await entryPayments()).toEqual([
+      { transaction_hash: txHash, status: 'failed', block_number: null },
+      { transaction_hash: retryHash, status: 'confirmed', block_number: 4242 },
+    ]);
+    expect((await storedBounty()).participant_count).toBe(1);
+    expect(getPrizePool(await storedBounty())).toBe(10.5);
+  });
+
+  it('only refunds confirmed fees when a bounty is cancelled', async () => {
+    await join();
+    await db.query(`UPDATE bounties SET status = 'cancelled' WHERE id = $1`, [bountyId]);
+
+    const refund = () =>
+      callRpc(db, 'record_entry_refund', {
+        bounty_uuid: bountyId,
+        wallet_addr: player.wallet,
+        refund_tx_hash: '0x' + 'ef'.repeat(32),
+      }, { wallet: player.wallet });
+
+    await expect(refund()).rejects.toThrow('No entry fee to refund');
+
+    await confirm();
+    expect(Number(await refund())).toBe(0.5);
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import { createTestDatabase, createTestUser, createTestBounty, callRpc } from '../helpers/database';
+import { checkAnagramGuess, checkLadderStep, getLadder, getPuzzleViolation } from '@/utils/game';
+
+/**
+ * Word Puzzle Database Tests
+ * Word-ladder and anagram rules in submit_attempt, and the client checks that mirror them
+ */
+
+describe('Word puzzles', () => {
+  let db: PGlite;
+
+  const startPuzzle = async (bountyData: Record<string, unknown>) => {
+    const creator = await createTestUser(db);
+    const player = await createTestUser(db);
+    const bountyId = await createTestBounty(db, creator.wallet, bountyData);
+    await callRpc(db, 'join_bounty', { bounty_uuid: bountyId, wallet_addr: player.wallet }, { wallet: player.wallet });
+
+    const guess = (word: string) =>
+      callRpc(db, 'submit_attempt', {
+        bounty_uuid: bountyId,
+        wallet_addr: player.wallet,
+        word_idx: 0,
+        guessed_word: word,
+      }, { wallet: player.wallet });
+
+    const details = () =>
+      callRpc(db, 'get_bounty_details', { bounty_uuid: bountyId, wallet_addr: player.wallet }, { wallet: player.wallet });
+
+    return { bountyId, guess, details };
+  };
+
+  /** The server's rejection, as the client would show it */
+  const violation = (promise: Promise<unknown>) =>
+    promise.then(() => null, (error: Error) => getPuzzleViolation(error.message));
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+  });
+
+  it('climbs a word ladder one dictionary word at a time', async () => {
+    const { guess, details } = await startPuzzle({ bounty_type: 'Word-ladder', start_word: 'CARD', words: ['WARM'] });
+
+    expect((await details()).puzzle).toEqual({ start_word: 'CARD', target_word: 'WARM' });
+
+    const step = await guess('WARD');
+    const ladder = getLadder('CARD', [step.letter_results]);
+
+    for (const next of ['WORM', 'CARD']) {
+      const expected = checkLadderStep(ladder, next).message;
+      expect(await violation(guess(next))).toBe(expected);
+    }
+    expect(await violation(guess('WARX'))).toBe('WARX is not in the dictionary');
+
+    expect(await guess('WARM')).toMatchObject({ correct: true, completed_bounty: true, attempt_number: 2 });
+  });
+
+  it('rejects ladders whose ends are not both dictionary words', async () => {
+    await expect(startPuzzle({ bounty_type: 'Word-ladder', start_word: 'CARX', words: ['WARM'] }))
+      .rejects.toThrow('Word ladder start and target must both be in the dictionary');
+  });
+
+  it('hands out scrambled letters and accepts any word made from them', async () => {
+    const { guess, details } = await startPuzzle({ bounty_type: 'Anagram', words: ['SLATE'] });
+
+    const { letters } = (await details()).puzzle;
+    expect([...letters].sort().join('')).toBe('AELST');
+    expect((await details()).puzzle).not.toHaveProperty('target_word');
+
+    expect(await violation(guess('SLATS'))).toBe(checkAnagramGuess(letters, 'SLATS').message);
+    expect(await guess('STEAL')).toMatchObject({ correct: true, attempt_number: 1 });
+  });
+
+  it('counts real letters in a non-word as a wrong anagram guess', async () => {
+    const { guess } = await startPuzzle({ bounty_type: 'Anagram', words: ['SLATE'] });
+
+    expect(await guess('TSLAE')).toMatchObject({ correct: false, attempt_number: 1, attempts_remaining: 5 });
+  });
+
+  it('never stores the solution with puzzle guesses', async () => {
+    const ladder = await startPuzzle({ bounty_type: 'Word-ladder', start_word: 'CARD', words: ['WARM'] });
+    const anagram = await startPuzzle({ bounty_type: 'Anagram', words: ['SLATE'] });
+    await ladder.guess('WARD');
+    await anagram.guess('TSLAE');
+
+    const { rows: attempts } = await db.query<{ id: string; target_word: string | null }>(
+      `SELECT * FROM game_attempts WHERE bounty_id IN ($1, $2)`,
+      [ladder.bountyId, anagram.bountyId]
+    );
+
+    expect(attempts.map(a => a.target_word)).toEqual([null, null]);
+    await expect(db.query(`UPDATE game_attempts SET target_word = 'WARM' WHERE id = $1`, [attempts[0].id]))
+      .rejects.toThrow('game_attempts_no_target_word');
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import {
+  createTestDatabase,
+  createTestUser,
+  createTestBounty,
+  callRpc,
+} from '../helpers/database';
+import { computeSolutionCommitment } from '@/utils/commitment';
+import { computeDrawSeed, drawRandomWords, verifyRandomDraw, type RandomDraw } from '@/utils/game';
+
+/**
+ * Random Draw Database Tests
+ * Random words bounties drawn on the server from a committed seed and the
+ * consensus hash of the createBounty block
+ */
+
+describe('Random words draws', () => {
+  let db: PGlite;
+  let creator: Awaited<ReturnType<typeof createTestUser>>;
+  let bountyId: string;
+
+  const blockHash = '0x' + '5e'.repeat(48);
+
+  const activate = (hash = blockHash, caller: Parameters<typeof callRpc>[3] = 'service_role') =>
+    callRpc<RandomDraw>(db, 'activate_random_bounty', {
+      bounty_uuid: bountyId,
+      block_number: 4242,
+      block_hash: hash,
+    }, caller);
+
+  const getDraw = () => callRpc<RandomDraw>(db, 'get_bounty_draw', { bounty_uuid: bountyId }, 'anon');
+
+  const commit = async () => {
+    const { solution, salt } = await callRpc(db, 'prepare_bounty_commitment', {
+      bounty_uuid: bountyId,
+      wallet_addr: creator.wallet,
+    }, { wallet: creator.wallet });
+
+    await callRpc(db, 'record_bounty_commitment', {
+      bounty_uuid: bountyId,
+      wallet_addr: creator.wallet,
+      commitment: computeSolutionCommitment(bountyId, salt, solution),
+      tx_hash: '0x' + 'cd'.repeat(32),
+    }, { wallet: creator.wallet });
+  };
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+  });
+
+  beforeEach(async () => {
+    creator = await createTestUser(db);
+    bountyId = await createTestBounty(db, creator.wallet, {
+      bounty_type: 'Random words',
+      words: [],
+      word_length: 5,
+      words_count: 2,
+    });
+  });
+
+  it('keeps the bounty a draft with a committed seed until the draw', async () => {
+    const draw = await getDraw();
+
+    expect(draw.seed_commitment).toMatch(/^[0-9a-f]{64}$/);
+    expect(draw).toMatchObject({ entropy: null, entropy_block: null, server_seed: null, words: null });
+    await expect(activate()).rejects.toThrow('Record the createBounty transaction with record_bounty_commitment() first');
+  });
+
+  it('only lets the service role draw, from a block hash', async () => {
+    await commit();
+
+    await expect(activate(blockHash, { wallet: creator.wallet })).rejects.toThrow('permission denied');
+    await expect(activate(blockHash, 'anon')).rejects.toThrow('permission denied');
+    await expect(activate('0x' + 'cd'.repeat(31))).rejects.toThrow('Block hash must be');
+
+    const draw = await activate();
+
+    expect(draw).toMatchObject({ entropy: blockHash, entropy_block: 4242, server_seed: null, words: null });
+    await expect(activate()).rejects.toThrow('words were already drawn');
+  });
+
+  it('draws words anyone can verify once the bounty has ended', async () => {
+    await commit();
+    await activate();
+    await db.query(`UPDATE bounties SET status = 'completed' WHERE id = $1`, [bountyId]);
+
+    const draw = await getDraw();
+    const pool = await callRpc<string[]>(db, 'random_word_pool', {
+      word_language: draw.language,
+      word_len: draw.word_length,
+      common_only: draw.common_only,
+    }, 'anon');
+
+    expect(draw.server_seed).toMatch(/^[0-9a-f]{64}$/);
+    expect(draw.seed).toBe(await computeDrawSeed(draw.server_seed!, blockHash));
+    expect(draw.words).toEqual(await drawRandomWords(draw.seed!, pool, 2));
+    expect(await verifyRandomDraw(draw, pool)).toEqual({ status: 'verified' });
+  });
+
+  it('reports the first check a tampered reveal fails', async () => {
+    await commit();
+    await activate();
+    await db.query(`UPDATE bounties SET status = 'completed' WHERE id = $1`, [bountyId]);
+
+    const draw = await getDraw();
+    const pool = await callRpc<string[]>(db, 'random_word_pool', { word_language: 'en', word_len: 5 }, 'anon');
+
+    expect(await verifyRandomDraw({ ...draw, server_seed: 'b'.repeat(64) }, pool))
+      .toEqual({ status: 'mismatch', failed: 'commitment' });
+    expect(await verifyRandomDraw({ ...draw, entropy: '0xfeed' }, pool))
+      .toEqual({ status: 'mismatch', failed: 'seed' });
+    expect(await verifyRandomDraw(draw, pool.slice(1))).toEqual({ status: 'mismatch', failed: 'pool' });
+    expect(await verifyRandomDraw({ ...draw, words: [...draw.words!].reverse() }, pool))
+      .toEqual({ status: 'mismatch', failed: 'words' });
+  });
+});
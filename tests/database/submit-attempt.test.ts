@@ -0,0 +1,127 @@
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import {
+  createTestDatabase,
+  createTestUser,
+  createTestBounty,
+  callRpc,
+  queryAs,
+} from '../helpers/database';
+
+/**
+ * Submit Attempt Database Tests
+ * Guesses scored by submit_attempt and what players can read back
+ */
+
+describe('submit_attempt', () => {
+  let db: PGlite;
+  let player: Awaited<ReturnType<typeof createTestUser>>;
+  let bountyId: string;
+
+  const guess = (word: string, wordIdx = 0) =>
+    callRpc(db, 'submit_attempt', {
+      bounty_uuid: bountyId,
+      wallet_addr: player.wallet,
+      word_idx: wordIdx,
+      guessed_word: word,
+    }, { wallet: player.wallet });
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+  });
+
+  beforeEach(async () => {
+    const creator = await createTestUser(db);
+    player = await createTestUser(db);
+    bountyId = await createTestBounty(db, creator.wallet, { words: ['CRANE', 'PLANT'] });
+    await callRpc(db, 'join_bounty', { bounty_uuid: bountyId, wallet_addr: player.wallet }, { wallet: player.wallet });
+  });
+
+  it('scores the guess on the server', async () => {
+    const result = await guess('TRACE');
+
+    expect(result.correct).toBe(false);
+    expect(result.attempt_number).toBe(1);
+    expect(result.letter_results.map((r: { status: string }) => r.status)).toEqual([
+      'absent', 'correct', 'correct', 'present', 'correct',
+    ]);
+    expect(result).not.toHaveProperty('target_word');
+  });
+
+  it('never stores the target word with the attempt', async () => {
+    await guess('TRACE');
+    await guess('CRANE');
+
+    const attempts = await queryAs<{ word_index: number; target_word: string | null }>(
+      db,
+      { wallet: player.wallet },
+      `SELECT * FROM game_attempts WHERE bounty_id = $1 ORDER BY created_at`,
+      [bountyId]
+    );
+
+    expect(attempts).toHaveLength(2);
+    expect(attempts.map(a => a.target_word)).toEqual([null, null]);
+    expect(attempts.map(a => a.word_index)).toEqual([0, 0]);
+  });
+
+  it('keeps attempts private to their player until the bounty ends', async () => {
+    await guess('CRANE');
+
+    const rival = await createTestUser(db);
+    await callRpc(db, 'join_bounty', { bounty_uuid: bountyId, wallet_addr: rival.wallet }, { wallet: rival.wallet });
+
+    const readAttempts = (caller: Parameters<typeof queryAs>[1]) =>
+      queryAs<{ guessed_word: string }>(db, caller, `SELECT guessed_word FROM game_attempts WHERE bounty_id = $1`, [bountyId]);
+
+    expect(await readAttempts({ wallet: rival.wallet })).toEqual([]);
+    expect(await readAttempts('anon')).toEqual([]);
+    await expect(queryAs(db, { wallet: rival.wallet },
+      `INSERT INTO game_attempts (participant_id, bounty_id, word_index, attempt_number, guessed_word, result)
+       SELECT id, bounty_id, 0, 1, 'CRANE', 'correct' FROM bounty_participants WHERE bounty_id = $1 AND user_id = $2`,
+      [bountyId, rival.id]
+    )).rejects.toThrow('permission denied');
+
+    await db.query(`UPDATE bounties SET status = 'completed' WHERE id = $1`, [bountyId]);
+    expect(await readAttempts({ wallet: rival.wallet })).toEqual([{ guessed_word: 'CRANE' }]);
+  });
+
+  it('refuses guesses once the bounty has ended', async () => {
+    await db.query(`UPDATE bounties SET end_time = NOW() - INTERVAL '1 second' WHERE id = $1`, [bountyId]);
+    await expect(guess('CRANE')).rejects.toThrow(`Bounty ${bountyId} is not accepting guesses`);
+    expect(await callRpc(db, 'determine_bounty_winner', { bounty_uuid: bountyId })).toEqual([]);
+
+    await db.query(`UPDATE bounties SET end_time = NULL, status = 'cancelled' WHERE id = $1`, [bountyId]);
+    await expect(guess('CRANE')).rejects.toThrow(`Bounty ${bountyId} is not accepting guesses`);
+  });
+
+  it('times the session on the server, out of the player\'s reach', async () => {
+    await callRpc(db, 'start_word_session', { bounty_uuid: bountyId, wallet_addr: player.wallet, word_idx: 0 }, { wallet: player.wallet });
+    // A minute of play
+    await db.query(
+      `UPDATE bounty_participants SET session_started_at = NOW() - INTERVAL '60 seconds' WHERE bounty_id = $1 AND user_id = $2`,
+      [bountyId, player.id]
+    );
+
+    await expect(queryAs(db, { wallet: player.wallet },
+      `UPDATE bounty_participants SET session_started_at = NOW() - INTERVAL '1 second', session_ended_at = NULL
+       WHERE bounty_id = $1`,
+      [bountyId]
+    )).rejects.toThrow('permission denied');
+
+    expect((await guess('CRANE')).elapsed_seconds).toBeGreaterThanOrEqual(60);
+  });
+
+  it('rejects guesses of the wrong length without recording them', async () => {
+    await expect(guess('CRANES')).rejects.toThrow('Guess must be 5 letters long');
+
+    const attempts = await queryAs(db, { wallet: player.wallet }, `SELECT id FROM game_attempts WHERE bounty_id = $1`, [bountyId]);
+    expect(attempts).toHaveLength(0);
+  });
+
+  it('moves to the next word and completes the bounty on the last one', async () => {
+    expect((await guess('CRANE')).completed_bounty).toBe(false);
+    expect((await guess('PLANT', 1)).completed_bounty).toBe(true);
+
+    await expect(guess('PLANT', 1)).rejects.toThrow('already finished');
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import {
+  createTestDatabase,
+  createTestUser,
+  createTestBounty,
+  callRpc,
+  queryAs,
+} from '../helpers/database';
+import {
+  HBAR,
+  findPrizeToken,
+  formatTokenAmount,
+  getPrizePool,
+  needsApproval,
+  netPrizePool,
+  toBaseUnits,
+  type PrizeToken,
+} from '@/utils/game';
+
+/**
+ * Prize Token Database Tests
+ * Token bounties created against prize_tokens, and their amounts scaled by
+ * each token's decimals
+ */
+
+describe('Prize tokens', () => {
+  let db: PGlite;
+  let creator: Awaited<ReturnType<typeof createTestUser>>;
+  let tokens: PrizeToken[];
+
+  const usdcAddress = '0x000000000000000000000000000000000006f89a';
+
+  const createTokenBounty = (bountyData: Record<string, unknown>) =>
+    createTestBounty(db, creator.wallet, { prize_currency: 'usdc', prize_amount: 12.5, entry_fee: 0.25, ...bountyData });
+
+  const bountyDetails = async (bountyId: string) =>
+    callRpc(db, 'get_bounty_details', { bounty_uuid: bountyId }, 'anon');
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+
+    // Listed by the platform; clients can only read them
+    await db.query(
+      `INSERT INTO prize_tokens (token_id, evm_address, symbol, name, decimals, is_active)
+       VALUES ('0.0.456858', $1, 'USDC', 'USD Coin', 6, true),
+              ('0.0.731861', '0x00000000000000000000000000000000000b2ad5', 'SAUCE', 'SaucerSwap', 6, false)`,
+      [usdcAddress]
+    );
+    tokens = await queryAs<PrizeToken>(db, 'anon', `SELECT symbol, token_id, evm_address, decimals FROM prize_tokens`);
+  });
+
+  beforeEach(async () => {
+    creator = await createTestUser(db);
+  });
+
+  it('lets anyone read the listed tokens but not list one', async () => {
+    expect(findPrizeToken('usdc', tokens)).toEqual({
+      symbol: 'USDC',
+      token_id: '0.0.456858',
+      evm_address: usdcAddress,
+      decimals: 6,
+    });
+    expect(findPrizeToken(null, tokens)).toBe(HBAR);
+
+    await expect(queryAs(db, { wallet: creator.wallet },
+      `INSERT INTO prize_tokens (token_id, evm_address, symbol, decimals) VALUES ('0.0.1', '0x01', 'FAKE', 2)`
+    )).rejects.toThrow();
+  });
+
+  it('stores token bounties with the token and returns it with the details', async () => {
+    const bountyId = await createTokenBounty({});
+    const details = await bountyDetails(bountyId);
+    const usdc = findPrizeToken(details.prize_currency, tokens);
+
+    expect(details.prize_currency).toBe('USDC');
+    expect(details.prize_token).toEqual({ token_id: '0.0.456858', evm_address: usdcAddress, decimals: 6 });
+
+    // What CreateBountyPage approves and sends to createBountyWithToken
+    expect(toBaseUnits(details.prize_amount, usdc.decimals, usdc.symbol)).toBe(12500000n);
+    expect(toBaseUnits(details.entry_fee, usdc.decimals, usdc.symbol)).toBe(250000n);
+    expect(needsApproval(usdc, 0n, 12500000n)).toBe(true);
+    expect(needsApproval(findPrizeToken(null, tokens), 0n, 12500000n)).toBe(false);
+
+    // verify-entry-fee checks the token transfer in the token's smallest unit
+    const player = await createTestUser(db);
+    const entryTxHash = '0x' + '12'.repeat(32);
+    await callRpc(db, 'join_bounty', {
+      bounty_uuid: bountyId,
+      wallet_addr: player.wallet,
+      entry_tx_hash: entryTxHash,
+    }, { wallet: player.wallet });
+
+    expect(await callRpc(db, 'get_pending_entry_fee', { bounty_uuid: bountyId, wallet_addr: player.wallet })).toEqual({
+      transaction_hash: entryTxHash,
+      entry_fee: '0.25000000',
+      prize_token: { evm_address: usdcAddress, decimals: 6 },
+    });
+  });
+
+  it('shows token prizes with the token\'s decimals', async () => {
+    const bountyId = await createTokenBounty({ prize_amount: 10.000001 });
+    const details = await bountyDetails(bountyId);
+    const usdc = findPrizeToken(details.prize_currency, tokens);
+
+    expect(formatTokenAmount(details.prize_amount, usdc)).toBe('10.000001 USDC');
+    expect(formatTokenAmount(getPrizePool(details), usdc)).toBe('10.000001 USDC');
+    expect(netPrizePool(details, 250, usdc.decimals)).toBe(9.750001);
+    expect(formatTokenAmount(netPrizePool(details, 250, usdc.decimals), usdc)).toBe('9.750001 USDC');
+    expect(formatTokenAmount(0.5, HBAR)).toBe('0.5 HBAR');
+  });
+
+  it('rejects unlisted tokens and amounts finer than the token allows', async () => {
+    await expect(createTokenBounty({ prize_currency: 'SAUCE' })).rejects.toThrow('Unknown prize currency SAUCE');
+    await expect(createTokenBounty({ prize_currency: 'DOGE' })).rejects.toThrow('Unknown prize currency DOGE');
+    await expect(createTokenBounty({ prize_amount: 1.0000001 })).rejects.toThrow('USDC amounts have at most 6 decimals');
+    await expect(createTokenBounty({ entry_fee: 0.0000001 })).rejects.toThrow('USDC amounts have at most 6 decimals');
+
+    expect(() => formatTokenAmount('1.0000001', findPrizeToken('USDC', tokens))).toThrow('Invalid USDC amount: 1.0000001');
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import type { PGlite } from '@electric-sql/pglite';
+import {
+  createTestDatabase,
+  createTestUser,
+  createTestBounty,
+  callRpc,
+} from '../helpers/database';
+import {
+  buildTrophyCabinet,
+  getTrophyAttribute,
+  toTrophyMints,
+  type TrophyMetadata,
+  type TrophyRecord,
+} from '@/utils/game';
+
+/**
+ * Trophy Database Tests
+ * TrophyMinted events recorded by record_bounty_trophies, and the metadata
+ * and cabinet served back from them
+ */
+
+describe('Winner trophies', () => {
+  let db: PGlite;
+  let bountyId: string;
+  let players: string[];
+  let contract: string;
+
+  const mintTxHash = '0x' + 'ee'.repeat(32);
+
+  // Each test mints from its own trophy contract, like a redeploy
+  let contractCount = 0;
+
+  const record = (trophies: unknown, bounty = bountyId) =>
+    callRpc<number>(db, 'record_bounty_trophies', {
+      bounty_uuid: bounty,
+      contract_addr: contract,
+      mint_tx_hash: mintTxHash,
+      trophies,
+    }, 'anon');
+
+  const metadata = (serial: number) =>
+    callRpc<TrophyMetadata | null>(db, 'get_trophy_metadata', {
+      contract_addr: contract.toUpperCase().replace('0X', '0x'),
+      trophy_serial: serial,
+    }, 'anon');
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+  });
+
+  /**
+   * A completed split-winners bounty; players[i] solved CRANE in i + 1 guesses
+   */
+  beforeEach(async () => {
+    contract = '0x' + (++contractCount).toString(16).padStart(40, 'c');
+
+    const creator = await createTestUser(db);
+    bountyId = await createTestBounty(db, creator.wallet, {
+      name: 'Friday Five',
+      words: ['CRANE'],
+      winner_criteria: 'attempts',
+      prize_distribution: 'split-winners',
+    });
+    players = [];
+
+    for (const misses of [0, 1, 2, 3]) {
+      const player = await createTestUser(db);
+      players.push(player.wallet);
+      await callRpc(db, 'join_bounty', { bounty_uuid: bountyId, wallet_addr: player.wallet }, { wallet: player.wallet });
+
+      for (const word of [...['SLATE', 'MOUSE', 'PLANT'].slice(0, misses), 'CRANE']) {
+        await callRpc(db, 'submit_attempt', {
+          bounty_uuid: bountyId,
+          wallet_addr: player.wallet,
+          word_idx: 0,
+          guessed_word: word,
+        }, { wallet: player.wallet });
+      }
+    }
+
+    await callRpc(db, 'complete_bounty_with_winners', { bounty_uuid: bountyId });
+  });
+
+  it('records each winner\'s trophy once, from the TrophyMinted events', async () => {
+    const mints = toTrophyMints([
+      { tokenId: 3n, winner: players[2].toUpperCase().replace('0X', '0x') },
+      { tokenId: 1n, winner: players[0] },
+      { tokenId: 2n, winner: players[1] },
+      { tokenId: '3', winner: players[2] },
+    ]);
+
+    expect(mints.map(mint => mint.token_id)).toEqual([1, 2, 3]);
+    expect(await record(mints)).toBe(3);
+    expect(await record(mints)).toBe(0);
+  });
+
+  it('refuses trophies for players who didn\'t win or bounties still running', async () => {
+    await expect(record([{ token_id: 4, winner: players[3] }]))
+      .rejects.toThrow(`${players[3]} is not a winner of bounty ${bountyId}`);
+
+    const creator = await createTestUser(db);
+    const running = await createTestBounty(db, creator.wallet);
+    await expect(record([{ token_id: 5, winner: players[0] }], running))
+      .rejects.toThrow(`Bounty ${running} is not completed`);
+  });
+
+  it('serves metadata with the payout rank and a colour-only grid', async () => {
+    await record(toTrophyMints([
+      { tokenId: 1n, winner: players[2] },
+      { tokenId: 2n, winner: players[0] },
+      { tokenId: 3n, winner: players[1] },
+    ]));
+
+    const best = await metadata(2);
+    expect(best).toMatchObject({
+      name: 'Trophy #2: Friday Five',
+      properties: { bounty_id: bountyId, result_grid: '🟩🟩🟩🟩🟩' },
+    });
+    expect(getTrophyAttribute(best, 'Rank')).toBe(1);
+    expect(getTrophyAttribute(best, 'Attempts')).toBe(1);
+
+    const third = await metadata(1);
+    expect(getTrophyAttribute(third, 'Rank')).toBe(3);
+    expect(third?.properties.result_grid).toBe('⬛⬛🟩⬛🟩\n⬛⬛⬛⬛🟩\n🟩🟩🟩🟩🟩');
+    expect(third?.properties.result_grid).not.toMatch(/[A-Z]/);
+
+    expect(await metadata(99)).toBeNull();
+  });
+
+  it('fills the winner\'s trophy cabinet', async () => {
+    await record(toTrophyMints([{ tokenId: 1n, winner: players[0] }]));
+
+    const trophies = await callRpc<TrophyRecord[]>(db, 'get_user_trophies', { wallet_addr: players[0] }, 'anon');
+    const cabinet = buildTrophyCabinet(trophies);
+
+    expect(cabinet.total).toBe(1);
+    expect(cabinet.firstPlaces).toBe(1);
+    expect(cabinet.trophies[0]).toMatchObject({
+      bounty_id: bountyId,
+      bounty_name: 'Friday Five',
+      contract_address: contract,
+      token_serial: 1,
+      mint_tx_hash: mintTxHash,
+    });
+    expect(await callRpc(db, 'get_user_trophies', { wallet_addr: players[3] }, 'anon')).toEqual([]);
+  });
+});
@@ -0,0 +1,178 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { PGlite, type Transaction } from '@electric-sql/pglite';
+import { pgcrypto } from '@electric-sql/pglite/contrib/pgcrypto';
+import { uuid_ossp } from '@electric-sql/pglite/contrib/uuid_ossp';
+
+/**
+ * Database Test Helpers
+ * Runs the Supabase migrations in PGlite (Postgres compiled to WASM) so RPCs,
+ * RLS policies and grants can be tested against the real schema
+ */
+
+const SUPABASE_DIR = path.resolve(__dirname, '../../supabase');
+
+// 006 renames record_payment_transaction's parameters, which Postgres refuses
+// (42P13), so it never applies on a fresh database either
+const SKIPPED_MIGRATIONS = ['006_fix_payment_transactions_rls.sql'];
+
+// What a Supabase project has before the first migration: the API roles,
+// default grants to them and the Vault schema used by migration 040
+const SUPABASE_BOOTSTRAP = `
+  CREATE ROLE anon NOLOGIN;
+  CREATE ROLE authenticated NOLOGIN;
+  CREATE ROLE service_role NOLOGIN BYPASSRLS;
+
+  GRANT USAGE ON SCHEMA public TO anon, authenticated, service_role;
+  ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON TABLES TO anon, authenticated, service_role;
+  ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON SEQUENCES TO anon, authenticated, service_role;
+  ALTER DEFAULT PRIVILEGES IN SCHEMA public GRANT ALL ON FUNCTIONS TO anon, authenticated, service_role;
+
+  CREATE PUBLICATION supabase_realtime;
+
+  CREATE SCHEMA vault;
+  CREATE TABLE vault.secrets (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    name TEXT UNIQUE,
+    description TEXT,
+    secret TEXT NOT NULL
+  );
+  CREATE VIEW vault.decrypted_secrets AS
+    SELECT id, name, description, secret AS decrypted_secret FROM vault.secrets;
+  CREATE FUNCTION vault.create_secret(new_secret TEXT, new_name TEXT DEFAULT NULL, new_description TEXT DEFAULT '')
+  RETURNS UUID LANGUAGE sql AS $$
+    INSERT INTO vault.secrets (name, description, secret)
+    VALUES (new_name, new_description, new_secret)
+    RETURNING id
+  $$;
+`;
+
+/**
+ * Who a query runs as: a signed-in wallet, the anon key or the service key
+ */
+export type DatabaseCaller = { wallet: string } | 'anon' | 'service_role';
+
+/**
+ * Migration files in the order listed in supabase/MIGRATION_ORDER.md
+ */
+export const getMigrationFiles = (): string[] => {
+  const order = readFileSync(path.join(SUPABASE_DIR, 'MIGRATION_ORDER.md'), 'utf8');
+  const files = order.match(/^\d{3}[a-z]?_\w+\.sql/gm) ?? [];
+
+  return [...new Set(files)].filter(file => !SKIPPED_MIGRATIONS.includes(file));
+};
+
+/**
+ * A fresh database with every migration applied. Takes a few seconds, so
+ * create one per test file.
+ */
+export const createTestDatabase = async (): Promise<PGlite> => {
+  const db = await PGlite.create({ extensions: { pgcrypto, uuid_ossp } });
+  await db.exec(SUPABASE_BOOTSTRAP);
+
+  for (const file of getMigrationFiles()) {
+    const sql = readFileSync(path.join(SUPABASE_DIR, 'migrations', file), 'utf8');
+    try {
+      await db.exec(sql);
+    } catch (error) {
+      throw new Error(`Migration ${file} failed: ${(error as Error).message}`);
+    }
+  }
+
+  return db;
+};
+
+const impersonate = async (tx: Transaction, caller: DatabaseCaller) => {
+  const role = typeof caller === 'string' ? caller : 'authenticated';
+  const claims = typeof caller === 'string'
+    ? { role }
+    : { role, sub: caller.wallet, wallet_address: caller.wallet };
+
+  await tx.query(
+    `SELECT set_config('role', $1, true), set_config('request.jwt.claims', $2, true)`,
+    [role, JSON.stringify(claims)]
+  );
+};
+
+/**
+ * Runs SQL the way PostgREST would for the caller: under their role, with
+ * RLS and column grants applied
+ */
+export const queryAs = async <T = Record<string, unknown>>(
+  db: PGlite,
+  caller: DatabaseCaller,
+  sql: string,
+  params: unknown[] = []
+): Promise<T[]> =>
+  db.transaction(async tx => {
+    await impersonate(tx, caller);
+    const { rows } = await tx.query<T>(sql, params);
+    return rows;
+  });
+
+/**
+ * Calls a function like supabase.rpc(): named arguments, rows for set
+ * returning functions and the plain value otherwise
+ */
+export const callRpc = async <T = any>(
+  db: PGlite,
+  fn: string,
+  args: Record<string, unknown> = {},
+  caller: DatabaseCaller = 'service_role'
+): Promise<T> => {
+  const names = Object.keys(args);
+  const values = names.map(name => {
+    const value = args[name];
+    return value !== null && typeof value === 'object' && !Array.isArray(value)
+      ? JSON.stringify(value)
+      : value;
+  });
+  const argList = names.map((name, i) => `${name} => $${i + 1}`).join(', ');
+
+  const { rows: [proc] } = await db.query<{ proretset: boolean; is_composite: boolean }>(
+    `SELECT p.proretset, t.typtype = 'c' OR t.oid = 'record'::regtype AS is_composite
+     FROM pg_proc p JOIN pg_type t ON t.oid = p.prorettype
+     WHERE p.proname = $1
+     LIMIT 1`,
+    [fn]
+  );
+  if (!proc) {
+    throw new Error(`Function ${fn} does not exist`);
+  }
+
+  const rows = await queryAs<Record<string, unknown>>(db, caller, `SELECT * FROM ${fn}(${argList})`, values);
+
+  return (proc.proretset || proc.is_composite ? rows : rows[0]?.[fn]) as T;
+};
+
+/**
+ * A user row for a new random wallet
+ */
+export const createTestUser = async (db: PGlite, username?: string) => {
+  const wallet = '0x' + crypto.randomUUID().replace(/-/g, '').padEnd(40, '0');
+  const { rows: [user] } = await db.query<{ id: string; wallet_address: string }>(
+    `INSERT INTO users (wallet_address, username) VALUES ($1, $2) RETURNING id, wallet_address`,
+    [wallet, username ?? null]
+  );
+
+  return { ...user, wallet };
+};
+
+/**
+ * Creates a bounty through create_bounty_with_wallet, as CreateBountyPage does
+ */
+export const createTestBounty = async (
+  db: PGlite,
+  creatorWallet: string,
+  bountyData: Record<string, unknown> = {}
+): Promise<string> =>
+  callRpc<string>(db, 'create_bounty_with_wallet', {
+    wallet_addr: creatorWallet,
+    bounty_data: {
+      name: 'Test Bounty',
+      bounty_type: 'Simple',
+      prize_amount: 1,
+      words: ['CRANE'],
+      ...bountyData,
+    },
+  }, { wallet: creatorWallet });
@@ -12,8 +12,12 @@ describe("WordleBountyEscrow", function () {
   const MIN_BOUNTY = ethers.parseUnits("1", 8); // 1 HBAR = 100,000,000 tinybars
   const PRIZE_AMOUNT = ethers.parseUnits("10", 8); // 10 HBAR
   const BOUNTY_ID = ethers.encodeBytes32String("TEST_BOUNTY_001");
-  const SOLUTION = "WORDLE";
-  const SOLUTION_HASH = ethers.keccak256(ethers.toUtf8Bytes(SOLUTION));
+  const SOLUTION = "WORDLE,CRANE";
+  const SALT = ethers.id("test-salt");
+  const SOLUTION_HASH = ethers.solidityPackedKeccak256(
+    ["bytes32", "bytes32", "string"],
+    [BOUNTY_ID, SALT, SOLUTION]
+  );
 
   beforeEach(async function () {
     // Get signers
@@ -143,14 +147,13 @@ describe("WordleBountyEscrow", function () {
       await escrowContract.connect(winner).joinBounty(BOUNTY_ID);
     });
 
-    it("Should complete bounty and distribute prize", async function () {
-      const initialBalance = await ethers.provider.getBalance(winner.address);
-
+    it("Should complete bounty and credit the prize to the winner", async function () {
       await expect(
         escrowContract.connect(owner).completeBounty(
           BOUNTY_ID,
           winner.address,
-          SOLUTION
+          SOLUTION,
+          SALT
         )
       ).to.emit(escrowContract, "BountyCompleted");
 
@@ -158,11 +161,14 @@ describe("WordleBountyEscrow", function () {
       expect(bounty.isCompleted).to.be.true;
       expect(bounty.winner).to.equal(winner.address);
 
-      // Check winner received prize (minus platform fee)
+      // Check winner can claim the prize (minus platform fee)
       const platformFee = (PRIZE_AMOUNT * 250n) / 10000n; // 2.5%
       const expectedPrize = PRIZE_AMOUNT - platformFee;
-      const finalBalance = await ethers.provider.getBalance(winner.address);
-      expect(finalBalance - initialBalance).to.be.closeTo(expectedPrize, ethers.parseUnits("0.01", 8));
+      expect(await escrowContract.claimablePrizes(BOUNTY_ID, winner.address)).to.equal(expectedPrize);
+
+      await expect(
+        escrowContract.connect(winner).claimPrize(BOUNTY_ID)
+      ).to.changeEtherBalance(winner, expectedPrize);
     });
 
     it("Should reject completion with wrong solution", async function () {
@@ -170,20 +176,203 @@ describe("WordleBountyEscrow", function () {
         escrowContract.connect(owner).completeBounty(
           BOUNTY_ID,
           winner.address,
-          "WRONG"
+          "WRONG",
+          SALT
+        )
+      ).to.be.revertedWith("Invalid solution");
+    });
+
+    it("Should reject completion with the wrong salt", async function () {
+      await expect(
+        escrowContract.connect(owner).completeBounty(
+          BOUNTY_ID,
+          winner.address,
+          SOLUTION,
+          ethers.id("other-salt")
         )
       ).to.be.revertedWith("Invalid solution");
     });
 
+    it("Should reveal the solution on completion", async function () {
+      await expect(
+        escrowContract.connect(owner).completeBounty(BOUNTY_ID, winner.address, SOLUTION, SALT)
+      ).to.emit(escrowContract, "SolutionRevealed")
+        .withArgs(BOUNTY_ID, SOLUTION);
+
+      expect(await escrowContract.revealedSolutions(BOUNTY_ID)).to.equal(SOLUTION);
+      expect(await escrowContract.computeCommitment(BOUNTY_ID, SALT, SOLUTION)).to.equal(SOLUTION_HASH);
+    });
+
     it("Should only allow owner to complete bounty", async function () {
       await expect(
         escrowContract.connect(creator).completeBounty(
           BOUNTY_ID,
           winner.address,
-          SOLUTION
+          SOLUTION,
+          SALT
         )
       ).to.be.revertedWith("Ownable: caller is not the owner");
     });
+
+    it("Should split the prize between several winners by share", async function () {
+      await escrowContract.connect(participant).joinBounty(BOUNTY_ID);
+      const netPrize = PRIZE_AMOUNT - (PRIZE_AMOUNT * 250n) / 10000n;
+      const firstShare = (netPrize * 3n) / 4n;
+
+      await expect(
+        escrowContract.connect(owner).completeBountyWithWinners(
+          BOUNTY_ID,
+          [winner.address, participant.address],
+          [3, 1],
+          SOLUTION,
+          SALT
+        )
+      ).to.emit(escrowContract, "PrizeClaimable");
+
+      expect(await escrowContract.claimablePrizes(BOUNTY_ID, winner.address)).to.equal(firstShare);
+      expect(await escrowContract.claimablePrizes(BOUNTY_ID, participant.address))
+        .to.equal(netPrize - firstShare);
+      expect(await escrowContract.unclaimedPrizes(BOUNTY_ID)).to.equal(netPrize);
+
+      const bounty = await escrowContract.getBounty(BOUNTY_ID);
+      expect(bounty.isCompleted).to.be.true;
+      expect(bounty.winner).to.equal(winner.address);
+    });
+
+    it("Should reject multi-winner payouts to non-participants", async function () {
+      await expect(
+        escrowContract.connect(owner).completeBountyWithWinners(
+          BOUNTY_ID,
+          [winner.address, participant.address],
+          [1, 1],
+          SOLUTION,
+          SALT
+        )
+      ).to.be.revertedWith("Winner is not a participant");
+    });
+
+    it("Should reject mismatched or duplicate winners", async function () {
+      await expect(
+        escrowContract.connect(owner).completeBountyWithWinners(BOUNTY_ID, [winner.address], [1, 1], SOLUTION, SALT)
+      ).to.be.revertedWith("Winners and shares length mismatch");
+
+      await expect(
+        escrowContract.connect(owner).completeBountyWithWinners(
+          BOUNTY_ID,
+          [winner.address, winner.address],
+          [1, 1],
+          SOLUTION,
+          SALT
+        )
+      ).to.be.revertedWith("Duplicate winner");
+    });
+  });
+
+  describe("Prize Claims", function () {
+    const NET_PRIZE = PRIZE_AMOUNT - (PRIZE_AMOUNT * 250n) / 10000n;
+    const CLAIM_PERIOD = 86400; // 1 day
+    let snapshotId;
+
+    beforeEach(async function () {
+      // Claim deadlines move the clock; later tests expect it untouched
+      snapshotId = await ethers.provider.send("evm_snapshot", []);
+
+      const deadline = Math.floor(Date.now() / 1000) + 86400;
+      await escrowContract.connect(creator).createBounty(
+        BOUNTY_ID,
+        SOLUTION_HASH,
+        deadline,
+        "metadata",
+        { value: PRIZE_AMOUNT }
+      );
+      await escrowContract.connect(winner).joinBounty(BOUNTY_ID);
+      await escrowContract.connect(participant).joinBounty(BOUNTY_ID);
+      await escrowContract.connect(owner).setClaimPeriod(CLAIM_PERIOD);
+    });
+
+    afterEach(async function () {
+      await ethers.provider.send("evm_revert", [snapshotId]);
+    });
+
+    async function passClaimDeadline() {
+      await ethers.provider.send("evm_increaseTime", [CLAIM_PERIOD + 1]);
+      await ethers.provider.send("evm_mine", []);
+    }
+
+    it("Should let a winner claim their prize once", async function () {
+      await escrowContract.connect(owner).completeBounty(BOUNTY_ID, winner.address, SOLUTION, SALT);
+
+      await expect(
+        escrowContract.connect(participant).claimPrize(BOUNTY_ID)
+      ).to.be.revertedWith("No prize to claim");
+
+      await expect(
+        escrowContract.connect(winner).claimPrize(BOUNTY_ID)
+      ).to.emit(escrowContract, "PrizeClaimed")
+        .withArgs(BOUNTY_ID, winner.address, NET_PRIZE);
+      expect(await escrowContract.unclaimedPrizes(BOUNTY_ID)).to.equal(0);
+
+      await expect(
+        escrowContract.connect(winner).claimPrize(BOUNTY_ID)
+      ).to.be.revertedWith("No prize to claim");
+    });
+
+    it("Should return unclaimed prizes to the creator after the deadline", async function () {
+      await escrowContract.connect(owner).completeBounty(BOUNTY_ID, winner.address, SOLUTION, SALT);
+
+      await expect(
+        escrowContract.connect(participant).sweepUnclaimedPrize(BOUNTY_ID)
+      ).to.be.revertedWith("Claim period has not ended");
+
+      await passClaimDeadline();
+
+      await expect(
+        escrowContract.connect(winner).claimPrize(BOUNTY_ID)
+      ).to.be.revertedWith("Claim period has ended");
+
+      const sweep = escrowContract.connect(participant).sweepUnclaimedPrize(BOUNTY_ID);
+      await expect(sweep).to.changeEtherBalance(creator, NET_PRIZE);
+      await expect(sweep).to.emit(escrowContract, "UnclaimedPrizeSwept")
+        .withArgs(BOUNTY_ID, NET_PRIZE, true);
+
+      await expect(
+        escrowContract.connect(participant).sweepUnclaimedPrize(BOUNTY_ID)
+      ).to.be.revertedWith("No unclaimed prize");
+    });
+
+    it("Should only sweep the shares nobody claimed", async function () {
+      await escrowContract.connect(owner).setUnclaimedRecipient(false);
+      await escrowContract.connect(owner).completeBountyWithWinners(
+        BOUNTY_ID,
+        [winner.address, participant.address],
+        [1, 1],
+        SOLUTION,
+        SALT
+      );
+      await escrowContract.connect(winner).claimPrize(BOUNTY_ID);
+
+      await passClaimDeadline();
+      await escrowContract.connect(creator).sweepUnclaimedPrize(BOUNTY_ID);
+
+      // The participant's half joins the platform fee
+      const platformFee = PRIZE_AMOUNT - NET_PRIZE;
+      expect(await escrowContract.accumulatedFees()).to.equal(platformFee + NET_PRIZE - NET_PRIZE / 2n);
+    });
+
+    it("Should keep the claim period within bounds", async function () {
+      await expect(
+        escrowContract.connect(creator).setClaimPeriod(7 * 86400)
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+
+      await expect(
+        escrowContract.connect(owner).setClaimPeriod(3600)
+      ).to.be.revertedWith("Invalid claim period");
+
+      await expect(
+        escrowContract.connect(owner).setClaimPeriod(7 * 86400)
+      ).to.emit(escrowContract, "ClaimPeriodUpdated")
+        .withArgs(7 * 86400);
+    });
   });
 
   describe("Cancelling and Refunds", function () {
@@ -208,6 +397,32 @@ describe("WordleBountyEscrow", function () {
       expect(bounty.isActive).to.be.false;
     });
 
+    it("Should let anyone reveal the solution of a cancelled bounty", async function () {
+      const deadline = Math.floor(Date.now() / 1000) + 86400;
+      await escrowContract.connect(creator).createBounty(
+        BOUNTY_ID,
+        SOLUTION_HASH,
+        deadline,
+        "metadata",
+        { value: PRIZE_AMOUNT }
+      );
+
+      await expect(
+        escrowContract.connect(participant).revealSolution(BOUNTY_ID, SOLUTION, SALT)
+      ).to.be.revertedWith("Bounty is still active");
+
+      await escrowContract.connect(creator).cancelBounty(BOUNTY_ID);
+
+      await expect(
+        escrowContract.connect(participant).revealSolution(BOUNTY_ID, "WRONG", SALT)
+      ).to.be.revertedWith("Invalid solution");
+
+      await expect(
+        escrowContract.connect(participant).revealSolution(BOUNTY_ID, SOLUTION, SALT)
+      ).to.emit(escrowContract, "SolutionRevealed")
+        .withArgs(BOUNTY_ID, SOLUTION);
+    });
+
     it("Should refund expired bounty", async function () {
       const currentTime = Math.floor(Date.now() / 1000);
       const deadline = currentTime + 3600; // 1 hour from now
@@ -230,6 +445,314 @@ describe("WordleBountyEscrow", function () {
     });
   });
 
+  describe("Entry Fees", function () {
+    const ENTRY_FEE = ethers.parseUnits("2", 8); // 2 HBAR
+
+    beforeEach(async function () {
+      const deadline = Math.floor(Date.now() / 1000) + 86400;
+      await expect(
+        escrowContract.connect(creator).createBountyWithEntryFee(
+          BOUNTY_ID,
+          SOLUTION_HASH,
+          deadline,
+          "metadata",
+          ENTRY_FEE,
+          { value: PRIZE_AMOUNT }
+        )
+      ).to.emit(escrowContract, "EntryFeeSet")
+        .withArgs(BOUNTY_ID, ENTRY_FEE);
+    });
+
+    it("Should require the exact entry fee to join", async function () {
+      await expect(
+        escrowContract.connect(winner).joinBounty(BOUNTY_ID)
+      ).to.be.revertedWith("Incorrect entry fee");
+
+      await expect(
+        escrowContract.connect(winner).joinBounty(BOUNTY_ID, { value: ENTRY_FEE + 1n })
+      ).to.be.revertedWith("Incorrect entry fee");
+    });
+
+    it("Should grow the prize pool with every entry", async function () {
+      await expect(
+        escrowContract.connect(winner).joinBounty(BOUNTY_ID, { value: ENTRY_FEE })
+      ).to.emit(escrowContract, "PrizePoolIncreased")
+        .withArgs(BOUNTY_ID, PRIZE_AMOUNT + ENTRY_FEE);
+      await escrowContract.connect(participant).joinBounty(BOUNTY_ID, { value: ENTRY_FEE });
+
+      const bounty = await escrowContract.getBounty(BOUNTY_ID);
+      expect(bounty.prizeAmount).to.equal(PRIZE_AMOUNT + ENTRY_FEE * 2n);
+
+      await escrowContract.connect(owner).completeBounty(BOUNTY_ID, winner.address, SOLUTION, SALT);
+
+      const pool = PRIZE_AMOUNT + ENTRY_FEE * 2n;
+      expect(await escrowContract.claimablePrizes(BOUNTY_ID, winner.address))
+        .to.equal(pool - (pool * 250n) / 10000n);
+    });
+
+    it("Should refund the seed to the creator and fees to participants on cancel", async function () {
+      await escrowContract.connect(winner).joinBounty(BOUNTY_ID, { value: ENTRY_FEE });
+
+      await expect(
+        escrowContract.connect(creator).cancelBounty(BOUNTY_ID)
+      ).to.be.revertedWith("Cannot cancel with participants");
+
+      const creatorBalance = await ethers.provider.getBalance(creator.address);
+      await escrowContract.connect(owner).cancelBountyWithRefunds(BOUNTY_ID);
+      expect(await ethers.provider.getBalance(creator.address) - creatorBalance).to.equal(PRIZE_AMOUNT);
+
+      await expect(
+        escrowContract.connect(winner).claimEntryRefund(BOUNTY_ID)
+      ).to.emit(escrowContract, "EntryFeeRefunded")
+        .withArgs(BOUNTY_ID, winner.address, ENTRY_FEE);
+
+      await expect(
+        escrowContract.connect(winner).claimEntryRefund(BOUNTY_ID)
+      ).to.be.revertedWith("No entry fee to refund");
+    });
+
+    it("Should not refund entry fees while the bounty is active", async function () {
+      await escrowContract.connect(winner).joinBounty(BOUNTY_ID, { value: ENTRY_FEE });
+
+      await expect(
+        escrowContract.connect(winner).claimEntryRefund(BOUNTY_ID)
+      ).to.be.revertedWith("Bounty was not cancelled or expired");
+    });
+  });
+
+  describe("Token Prizes", function () {
+    const TOKEN_PRIZE = ethers.parseUnits("100", 6); // 100 tokens with 6 decimals
+    const TOKEN_FEE = ethers.parseUnits("5", 6);
+    let token;
+    let tokenAddress;
+    let escrowAddress;
+
+    beforeEach(async function () {
+      const MockERC20 = await ethers.getContractFactory("MockERC20");
+      token = await MockERC20.deploy("USD Coin", "USDC", 6);
+      await token.waitForDeployment();
+      tokenAddress = await token.getAddress();
+      escrowAddress = await escrowContract.getAddress();
+
+      for (const account of [creator, winner, participant]) {
+        await token.mint(account.address, ethers.parseUnits("1000", 6));
+      }
+    });
+
+    async function createTokenBounty(entryFee = TOKEN_FEE) {
+      const deadline = Math.floor(Date.now() / 1000) + 86400;
+      await token.connect(creator).approve(escrowAddress, TOKEN_PRIZE);
+
+      return escrowContract.connect(creator).createBountyWithToken(
+        BOUNTY_ID,
+        SOLUTION_HASH,
+        deadline,
+        "metadata",
+        tokenAddress,
+        TOKEN_PRIZE,
+        entryFee
+      );
+    }
+
+    async function joinWithToken(account) {
+      await token.connect(account).approve(escrowAddress, TOKEN_FEE);
+      return escrowContract.connect(account).joinBounty(BOUNTY_ID);
+    }
+
+    it("Should let the owner associate the escrow with a token", async function () {
+      await expect(
+        escrowContract.connect(creator).associateToken(tokenAddress)
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+
+      await expect(
+        escrowContract.connect(owner).associateToken(tokenAddress)
+      ).to.emit(escrowContract, "TokenAssociated")
+        .withArgs(tokenAddress);
+      expect(await token.associated(escrowAddress)).to.be.true;
+    });
+
+    it("Should take the token prize from the creator's allowance", async function () {
+      const deadline = Math.floor(Date.now() / 1000) + 86400;
+
+      await expect(
+        escrowContract.connect(creator).createBountyWithToken(
+          BOUNTY_ID, SOLUTION_HASH, deadline, "metadata", tokenAddress, TOKEN_PRIZE, TOKEN_FEE
+        )
+      ).to.be.revertedWith("Token transfer failed");
+
+      await expect(createTokenBounty())
+        .to.emit(escrowContract, "BountyTokenSet")
+        .withArgs(BOUNTY_ID, tokenAddress);
+
+      expect(await token.balanceOf(escrowAddress)).to.equal(TOKEN_PRIZE);
+      expect(await escrowContract.bountyTokens(BOUNTY_ID)).to.equal(tokenAddress);
+      expect((await escrowContract.getBounty(BOUNTY_ID)).prizeAmount).to.equal(TOKEN_PRIZE);
+    });
+
+    it("Should take token entry fees instead of HBAR", async function () {
+      await createTokenBounty();
+
+      await expect(
+        escrowContract.connect(winner).joinBounty(BOUNTY_ID, { value: TOKEN_FEE })
+      ).to.be.revertedWith("Incorrect entry fee");
+      await expect(
+        escrowContract.connect(winner).joinBounty(BOUNTY_ID)
+      ).to.be.revertedWith("Token transfer failed");
+
+      await expect(joinWithToken(winner))
+        .to.emit(escrowContract, "PrizePoolIncreased")
+        .withArgs(BOUNTY_ID, TOKEN_PRIZE + TOKEN_FEE);
+
+      expect(await token.balanceOf(escrowAddress)).to.equal(TOKEN_PRIZE + TOKEN_FEE);
+      expect(await ethers.provider.getBalance(escrowAddress)).to.equal(0);
+    });
+
+    it("Should pay prizes and platform fees in the token", async function () {
+      await createTokenBounty();
+      await joinWithToken(winner);
+      await joinWithToken(participant);
+      await escrowContract.connect(owner).completeBounty(BOUNTY_ID, winner.address, SOLUTION, SALT);
+
+      const pool = TOKEN_PRIZE + TOKEN_FEE * 2n;
+      const fee = (pool * 250n) / 10000n;
+      const winnerBalance = await token.balanceOf(winner.address);
+
+      await expect(
+        escrowContract.connect(winner).claimPrize(BOUNTY_ID)
+      ).to.emit(escrowContract, "PrizeClaimed")
+        .withArgs(BOUNTY_ID, winner.address, pool - fee);
+      expect(await token.balanceOf(winner.address) - winnerBalance).to.equal(pool - fee);
+
+      expect(await escrowContract.accumulatedTokenFees(tokenAddress)).to.equal(fee);
+      expect(await escrowContract.accumulatedFees()).to.equal(0);
+
+      await expect(
+        escrowContract.connect(owner).withdrawTokenFees(tokenAddress)
+      ).to.emit(escrowContract, "TokenFeesWithdrawn")
+        .withArgs(owner.address, tokenAddress, fee);
+      expect(await token.balanceOf(owner.address)).to.equal(fee);
+      expect(await token.balanceOf(escrowAddress)).to.equal(0);
+      expect(await escrowContract.accumulatedTokenFees(tokenAddress)).to.equal(0);
+
+      await expect(
+        escrowContract.connect(owner).withdrawTokenFees(tokenAddress)
+      ).to.be.revertedWith("No fees to withdraw");
+    });
+
+    it("Should refund the seed and entry fees in the token on cancel", async function () {
+      await createTokenBounty();
+      await joinWithToken(winner);
+
+      const creatorBalance = await token.balanceOf(creator.address);
+      await escrowContract.connect(owner).cancelBountyWithRefunds(BOUNTY_ID);
+      expect(await token.balanceOf(creator.address) - creatorBalance).to.equal(TOKEN_PRIZE);
+
+      const winnerBalance = await token.balanceOf(winner.address);
+      await expect(
+        escrowContract.connect(winner).claimEntryRefund(BOUNTY_ID)
+      ).to.emit(escrowContract, "EntryFeeRefunded")
+        .withArgs(BOUNTY_ID, winner.address, TOKEN_FEE);
+      expect(await token.balanceOf(winner.address) - winnerBalance).to.equal(TOKEN_FEE);
+      expect(await token.balanceOf(escrowAddress)).to.equal(0);
+    });
+
+    it("Should require a token for token bounties", async function () {
+      const deadline = Math.floor(Date.now() / 1000) + 86400;
+
+      await expect(
+        escrowContract.connect(creator).createBountyWithToken(
+          BOUNTY_ID,
+          SOLUTION_HASH,
+          deadline,
+          "metadata",
+          ethers.ZeroAddress,
+          PRIZE_AMOUNT,
+          0
+        )
+      ).to.be.revertedWith("Token required");
+    });
+
+    it("Should keep HBAR bounties and fees separate from tokens", async function () {
+      const deadline = Math.floor(Date.now() / 1000) + 86400;
+      await escrowContract.connect(creator).createBounty(
+        BOUNTY_ID,
+        SOLUTION_HASH,
+        deadline,
+        "metadata",
+        { value: PRIZE_AMOUNT }
+      );
+      await escrowContract.connect(winner).joinBounty(BOUNTY_ID);
+      await escrowContract.connect(owner).completeBounty(BOUNTY_ID, winner.address, SOLUTION, SALT);
+
+      expect(await escrowContract.bountyTokens(BOUNTY_ID)).to.equal(ethers.ZeroAddress);
+      expect(await escrowContract.accumulatedFees()).to.equal((PRIZE_AMOUNT * 250n) / 10000n);
+      expect(await escrowContract.accumulatedTokenFees(ethers.ZeroAddress)).to.equal(0);
+    });
+
+    it("Should only let the owner withdraw token fees", async function () {
+      await expect(
+        escrowContract.connect(creator).withdrawTokenFees(participant.address)
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+
+      await expect(
+        escrowContract.connect(owner).withdrawTokenFees(participant.address)
+      ).to.be.revertedWith("No fees to withdraw");
+    });
+  });
+
+  describe("Trophies", function () {
+    let trophyContract;
+
+    beforeEach(async function () {
+      const WordleTrophy = await ethers.getContractFactory("WordleTrophy");
+      trophyContract = await WordleTrophy.deploy(
+        await escrowContract.getAddress(),
+        "https://example.supabase.co/functions/v1/trophy-metadata/"
+      );
+      await trophyContract.waitForDeployment();
+
+      await expect(
+        escrowContract.connect(owner).setTrophyContract(await trophyContract.getAddress())
+      ).to.emit(escrowContract, "TrophyContractUpdated");
+
+      const deadline = Math.floor(Date.now() / 1000) + 86400;
+      await escrowContract.connect(creator).createBounty(
+        BOUNTY_ID,
+        SOLUTION_HASH,
+        deadline,
+        "metadata",
+        { value: PRIZE_AMOUNT }
+      );
+      await escrowContract.connect(winner).joinBounty(BOUNTY_ID);
+    });
+
+    it("Should mint a trophy to the winner on completion", async function () {
+      await expect(
+        escrowContract.connect(owner).completeBounty(BOUNTY_ID, winner.address, SOLUTION, SALT)
+      ).to.emit(trophyContract, "TrophyMinted")
+        .withArgs(1, BOUNTY_ID, winner.address);
+
+      expect(await trophyContract.ownerOf(1)).to.equal(winner.address);
+      expect(await trophyContract.trophyOf(BOUNTY_ID, winner.address)).to.equal(1);
+      expect(await trophyContract.tokenURI(1))
+        .to.equal("https://example.supabase.co/functions/v1/trophy-metadata/1");
+    });
+
+    it("Should keep trophies with their winner", async function () {
+      await escrowContract.connect(owner).completeBounty(BOUNTY_ID, winner.address, SOLUTION, SALT);
+
+      await expect(
+        trophyContract.connect(winner).transferFrom(winner.address, participant.address, 1)
+      ).to.be.revertedWith("Trophies are non-transferable");
+    });
+
+    it("Should only let the escrow mint", async function () {
+      await expect(
+        trophyContract.connect(owner).mintTrophy(winner.address, BOUNTY_ID)
+      ).to.be.revertedWith("Only escrow can mint");
+    });
+  });
+
   describe("Platform Fee Management", function () {
     it("Should allow owner to update platform fee", async function () {
       const newFee = 500; // 5%
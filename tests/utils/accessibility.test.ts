@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import {
+  announceGuessResult,
+  describeGuessResult,
+  describeKey,
+  describeTile,
+  getFocusTrapIndex,
+  getTileAppearance,
+  moveGridFocus,
+  parseBoardSettings,
+  scoreGuess,
+} from '@/utils/game';
+
+/**
+ * Accessibility Unit Tests
+ * Tests palettes, screen reader text and keyboard focus
+ */
+
+describe('Accessibility', () => {
+  it('reads saved settings and picks tile colours and patterns', () => {
+    const settings = parseBoardSettings({ board_palette: 'high-contrast', board_patterns: true });
+
+    expect(parseBoardSettings(null)).toEqual({ board_palette: 'standard', board_patterns: false });
+    expect(parseBoardSettings({ board_palette: 'neon' }).board_palette).toBe('standard');
+    expect(getTileAppearance('correct', settings)).toEqual({ color: '#f97316', pattern: 'dot' });
+    expect(getTileAppearance('present', parseBoardSettings(null)).pattern).toBe('none');
+  });
+
+  it('describes guesses, tiles and keys for screen readers', () => {
+    const result = scoreGuess('ARE', 'RAT');
+
+    expect(describeGuessResult(result)).toBe('A present, R present, E absent');
+    expect(announceGuessResult(result, 1)).toBe('A present, R present, E absent. 1 guess left.');
+    expect(announceGuessResult(scoreGuess('RAT', 'RAT'), 3)).toBe('R correct, A correct, T correct. Solved!');
+    expect(describeTile('R', 'present', 2, 1)).toBe('Row 2, letter 1, R present');
+    expect(describeTile('', 'empty', 3, 4)).toBe('Row 3, letter 4, empty');
+    expect(describeKey('E', 'absent')).toBe('E absent');
+    expect(describeKey('BACKSPACE')).toBe('Delete letter');
+  });
+
+  it('moves focus across rows of different lengths', () => {
+    const rows = [10, 9, 9];
+
+    expect(moveGridFocus({ row: 0, column: 9 }, 'ArrowDown', rows)).toEqual({ row: 1, column: 8 });
+    expect(moveGridFocus({ row: 0, column: 0 }, 'ArrowUp', rows)).toEqual({ row: 0, column: 0 });
+    expect(moveGridFocus({ row: 2, column: 3 }, 'End', rows)).toEqual({ row: 2, column: 8 });
+    expect(moveGridFocus({ row: 2, column: 3 }, 'a', rows)).toEqual({ row: 2, column: 3 });
+  });
+
+  it('wraps Tab focus inside modals', () => {
+    expect(getFocusTrapIndex(2, 3, false)).toBe(0);
+    expect(getFocusTrapIndex(0, 3, true)).toBe(2);
+    expect(getFocusTrapIndex(-1, 3, false)).toBe(0);
+    expect(getFocusTrapIndex(0, 0, false)).toBe(-1);
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeBounty,
+  renderBountyPreviewPage,
+  renderBountyPreviewImage,
+  PREVIEW_IMAGE_WIDTH,
+  PREVIEW_IMAGE_HEIGHT
+} from '@/utils/bounty-preview';
+
+/**
+ * Bounty Preview Unit Tests
+ * Tests the link preview page and its og:image
+ */
+
+const inflate = async (bytes: Uint8Array) => {
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/** Pixels of an RGB PNG written by renderBountyPreviewImage (filter 0 rows) */
+const decodePng = async (png: Blob) => {
+  const bytes = new Uint8Array(await png.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+  const width = view.getUint32(16);
+  const height = view.getUint32(20);
+  const idatLength = view.getUint32(33);
+  const raw = await inflate(bytes.subarray(41, 41 + idatLength));
+
+  const pixel = (x: number, y: number) => {
+    const offset = y * (width * 3 + 1) + 1 + x * 3;
+    return Array.from(raw.subarray(offset, offset + 3));
+  };
+
+  return { signature: Array.from(bytes.subarray(1, 4)), width, height, pixel };
+};
+
+describe('Bounty Preview', () => {
+  it('links the shared app URL and its card image', () => {
+    const html = renderBountyPreviewPage({
+      title: 'Crane <Bounty> | Web3 Wordle Bounty',
+      description: describeBounty({ name: 'Crane', prize_amount: 50, words_count: 3, participant_count: 12 }),
+      url: 'https://app.example/?bounty=1',
+      imageUrl: 'https://app.example/api/bounty-card?bounty=1'
+    });
+
+    expect(html).toContain('<meta property="og:url" content="https://app.example/?bounty=1" />');
+    expect(html).toContain('<meta property="og:image" content="https://app.example/api/bounty-card?bounty=1" />');
+    expect(html).toContain('<meta name="twitter:card" content="summary_large_image" />');
+    expect(html).toContain('content="Win 50 HBAR · 3 words · 12 playing"');
+    expect(html).toContain('Crane &lt;Bounty&gt;');
+  });
+
+  it('renders a PNG board with one empty tile per letter', async () => {
+    const png = await decodePng(await renderBountyPreviewImage({ name: 'Crane', word_lengths: [5] }));
+
+    expect(png.signature).toEqual([0x50, 0x4e, 0x47]); // "PNG"
+    expect([png.width, png.height]).toEqual([PREVIEW_IMAGE_WIDTH, PREVIEW_IMAGE_HEIGHT]);
+
+    // Each tile has a border on both sides, so a line through a row of
+    // tiles crosses into a border twice per tile
+    const isBorder = (x: number, y: number) => png.pixel(x, y).join() === '196,181,253';
+    const borderEntries = (points: [number, number][]) =>
+      points.filter(([x, y], i) => isBorder(x, y) && (i === 0 || !isBorder(...points[i - 1]))).map(([x, y]) => ({ x, y }));
+
+    const down = borderEntries(Array.from({ length: png.height }, (_, y): [number, number] => [png.width / 2, y]));
+    const firstRowY = Math.round((down[0].y + down[1].y) / 2);
+    const across = borderEntries(Array.from({ length: png.width }, (_, x): [number, number] => [x, firstRowY]));
+
+    expect(png.pixel(0, 0)).toEqual([0x1e, 0x1b, 0x4b]);
+    expect(down).toHaveLength(6 * 2);
+    expect(across).toHaveLength(5 * 2);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { describeHintPenalty, getHintPenaltyTotal } from '@/utils/game';
+
+/**
+ * Hint Penalty Unit Tests
+ * Tests penalty labels per winner criteria and penalty totals
+ */
+
+describe('Hint Penalties', () => {
+  describe('describeHintPenalty', () => {
+    it('labels penalties in the unit of the winner criteria', () => {
+      expect(describeHintPenalty(30, 'time')).toBe('+30s');
+      expect(describeHintPenalty(15, 'first-to-solve')).toBe('+15s');
+      expect(describeHintPenalty(1, 'attempts')).toBe('+1 attempt');
+      expect(describeHintPenalty(2, 'attempts')).toBe('+2 attempts');
+      expect(describeHintPenalty(0.5, 'words-correct')).toBe('-0.5 words');
+      expect(describeHintPenalty(1, 'boards-solved')).toBe('-1 board');
+    });
+
+    it('shows free hints as having no penalty', () => {
+      expect(describeHintPenalty(0, 'time')).toBe('No penalty');
+    });
+  });
+
+  describe('getHintPenaltyTotal', () => {
+    it('sums the penalties of unlocked hints only', () => {
+      expect(getHintPenaltyTotal([10, 20, 30], 2)).toBe(30);
+      expect(getHintPenaltyTotal([10, 20, 30], 0)).toBe(0);
+    });
+
+    it('treats hints without a configured penalty as free', () => {
+      expect(getHintPenaltyTotal([10], 3)).toBe(10);
+    });
+  });
+});
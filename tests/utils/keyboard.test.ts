@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyKeyboardKey,
+  createGame,
+  getKeyboardAction,
+  getKeyboardLayout,
+  getKeyboardStates,
+  scoreGuess,
+} from '@/utils/game';
+
+/**
+ * On-Screen Keyboard Unit Tests
+ * Tests layouts, letter colours and physical key input
+ */
+
+describe('On-screen keyboard', () => {
+  it('colours keys from the engine letter states', () => {
+    const states = getKeyboardStates([scoreGuess('CRANE', 'CRATE')]);
+    const layout = getKeyboardLayout('en', states);
+    const keys = layout.flat();
+
+    expect(layout.map((row) => row.length)).toEqual([10, 9, 9]);
+    expect(keys.find((k) => k.key === 'C')?.status).toBe('correct');
+    expect(keys.find((k) => k.key === 'N')?.ariaLabel).toBe('N absent');
+    expect(keys.find((k) => k.key === 'Q')?.status).toBeUndefined();
+    expect(keys.find((k) => k.key === 'ENTER')).toMatchObject({ isAction: true, label: 'Enter' });
+  });
+
+  it('uses the language layout and disables every key while submitting', () => {
+    const german = getKeyboardLayout('de', {}, { disabled: true });
+
+    expect(german[0][5].key).toBe('Z');
+    expect(german.flat().map((k) => k.key)).toContain('Ü');
+    expect(german.flat().every((k) => k.disabled)).toBe(true);
+  });
+
+  it('maps physical keys and leaves shortcuts alone', () => {
+    expect(getKeyboardAction({ key: 'Enter' }, 'en')).toBe('ENTER');
+    expect(getKeyboardAction({ key: 'Backspace' }, 'en')).toBe('BACKSPACE');
+    expect(getKeyboardAction({ key: 'a' }, 'en')).toBe('A');
+    expect(getKeyboardAction({ key: 'é' }, 'fr')).toBe('E');
+    expect(getKeyboardAction({ key: 'ñ' }, 'es')).toBe('Ñ');
+    expect(getKeyboardAction({ key: 'r', ctrlKey: true }, 'en')).toBeNull();
+    expect(getKeyboardAction({ key: 'Shift' }, 'en')).toBeNull();
+    expect(getKeyboardAction({ key: '1' }, 'en')).toBeNull();
+  });
+
+  it('types and deletes through the engine', () => {
+    let state = createGame({ wordLengths: [5] });
+
+    state = ['C', 'A', 'T', 'BACKSPACE', 'ENTER'].reduce(applyKeyboardKey, state);
+
+    expect(state.currentGuess).toBe('CA');
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createGame,
+  getLanguageConfig,
+  isLanguageWord,
+  normalizeWord,
+  resultToWord,
+  submitGuess,
+  typeLetter,
+  GAME_LANGUAGES,
+  type GameState,
+} from '@/utils/game';
+
+/**
+ * Language Unit Tests
+ * Tests word normalisation, alphabets and language-aware typing
+ */
+
+const typeWord = (state: GameState, word: string) =>
+  Array.from(word).reduce((current, letter) => typeLetter(current, letter), state);
+
+describe('Languages', () => {
+  describe('normalizeWord', () => {
+    it('folds accents that have no key of their own', () => {
+      expect(normalizeWord('café', 'fr')).toBe('CAFE');
+      expect(normalizeWord('cœur', 'fr')).toBe('COEUR');
+      expect(normalizeWord('árbol', 'es')).toBe('ARBOL');
+      expect(normalizeWord('naïve')).toBe('NAIVE');
+    });
+
+    it('keeps letters the language has a key for', () => {
+      expect(normalizeWord('sueño', 'es')).toBe('SUEÑO');
+      expect(normalizeWord('sueño', 'fr')).toBe('SUENO');
+      expect(normalizeWord('höhle', 'de')).toBe('HÖHLE');
+      expect(normalizeWord('straße', 'de')).toBe('STRASSE');
+    });
+
+    it('accepts decomposed input', () => {
+      expect(normalizeWord('suen\u0303o', 'es')).toBe('SUEÑO');
+    });
+  });
+
+  it('checks words against the language alphabet', () => {
+    expect(isLanguageWord('Glück', 'de')).toBe(true);
+    expect(isLanguageWord('Glück', 'en')).toBe(true);
+    expect(isLanguageWord('Łódź', 'de')).toBe(false);
+    expect(isLanguageWord('', 'en')).toBe(false);
+  });
+
+  it('has a key for every letter of the alphabet', () => {
+    for (const config of Object.values(GAME_LANGUAGES)) {
+      const keys = config.keyboard.flat().filter((key) => key !== 'ENTER' && key !== 'BACKSPACE');
+      expect([...keys].sort()).toEqual([...config.alphabet].sort());
+    }
+  });
+
+  it('falls back to English for unknown codes', () => {
+    expect(getLanguageConfig('xx').code).toBe('en');
+    expect(getLanguageConfig(null).code).toBe('en');
+  });
+
+  it('types language letters and scores against the normalised target', () => {
+    const spanish = typeWord(createGame({ wordLengths: [5], language: 'es' }), 'dueño');
+    expect(spanish.currentGuess).toBe('DUEÑO');
+
+    const english = typeWord(createGame({ wordLengths: [5] }), 'dueño');
+    expect(english.currentGuess).toBe('DUENO');
+
+    const french = submitGuess(typeWord(createGame({ wordLengths: [5], language: 'fr' }), 'foret'), 'Forêt');
+    expect(french.status).toBe('won');
+    expect(resultToWord(french.rows[0])).toBe('FORET');
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyMultiBoardResults,
+  createMultiBoardGame,
+  getBoardsSolved,
+  getMultiBoardGridColumns,
+  getMultiBoardKeyboardStates,
+  getMultiBoardRemainingGuesses,
+  restoreMultiBoardGame,
+  scoreGuess,
+  submitMultiBoardGuess,
+  typeMultiBoardLetter,
+  type MultiBoardState,
+} from '@/utils/game';
+
+/**
+ * Multi-Board Unit Tests
+ * Tests shared guess budgets, per-board solving and restore
+ */
+
+const type = (state: MultiBoardState, word: string): MultiBoardState =>
+  word.split('').reduce(typeMultiBoardLetter, state);
+
+describe('Multi-board games', () => {
+  it('defaults the shared budget to boards + 5 and rejects other board counts', () => {
+    expect(createMultiBoardGame({ boardCount: 4, wordLength: 5 }).maxGuesses).toBe(9);
+    expect(() => createMultiBoardGame({ boardCount: 3, wordLength: 5 })).toThrow();
+    expect(getMultiBoardGridColumns(2)).toBe(2);
+    expect(getMultiBoardGridColumns(4)).toBe(2);
+    expect(getMultiBoardGridColumns(8)).toBe(4);
+  });
+
+  it('plays each guess on every unsolved board and wins when all are solved', () => {
+    const targets = ['CRANE', 'SLATE'];
+    let state = createMultiBoardGame({ boardCount: 2, wordLength: 5 });
+
+    state = submitMultiBoardGuess(type(state, 'CRANE'), targets);
+    expect(getBoardsSolved(state)).toBe(1);
+    expect(state.boards[1]).toHaveLength(1);
+
+    state = submitMultiBoardGuess(type(state, 'SLATE'), targets);
+    expect(state.status).toBe('won');
+    expect(state.boards[0]).toHaveLength(1);
+    expect(state.boards[1]).toHaveLength(2);
+    expect(getMultiBoardRemainingGuesses(state)).toBe(5);
+    expect(getMultiBoardKeyboardStates(state)[0].C).toBe('correct');
+  });
+
+  it('loses when the shared budget runs out', () => {
+    let state = createMultiBoardGame({ boardCount: 2, wordLength: 5, maxGuesses: 2 });
+
+    state = submitMultiBoardGuess(type(state, 'MOUSE'), ['CRANE', 'SLATE']);
+    state = submitMultiBoardGuess(type(state, 'CRANE'), ['CRANE', 'SLATE']);
+
+    expect(state.status).toBe('lost');
+    expect(getBoardsSolved(state)).toBe(1);
+  });
+
+  it('ignores server results for boards that are already solved', () => {
+    let state = createMultiBoardGame({ boardCount: 2, wordLength: 5 });
+
+    state = applyMultiBoardResults(state, [
+      { word_index: 0, letter_results: scoreGuess('CRANE', 'CRANE') },
+      { word_index: 1, letter_results: scoreGuess('CRANE', 'SLATE') },
+    ]);
+    state = applyMultiBoardResults(state, [
+      { word_index: 0, letter_results: scoreGuess('SLATE', 'CRANE') },
+      { word_index: 1, letter_results: scoreGuess('SLATE', 'SLATE') },
+    ]);
+
+    expect(state.boards[0]).toHaveLength(1);
+    expect(state.status).toBe('won');
+  });
+
+  it('restores from game_attempts rows grouped by attempt number', () => {
+    const attempts = [
+      { word_index: 1, attempt_number: 2, letter_results: scoreGuess('SLATE', 'SLATE') },
+      { word_index: 0, attempt_number: 1, letter_results: scoreGuess('CRANE', 'CRANE') },
+      { word_index: 1, attempt_number: 1, letter_results: scoreGuess('CRANE', 'SLATE') },
+    ];
+
+    const state = restoreMultiBoardGame({ boardCount: 2, wordLength: 5 }, attempts);
+
+    expect(state.guessesUsed).toBe(2);
+    expect(state.status).toBe('won');
+    expect(restoreMultiBoardGame({ boardCount: 2, wordLength: 5 }, attempts.slice(1), { status: 'failed' }).status)
+      .toBe('lost');
+  });
+});
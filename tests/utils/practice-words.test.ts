@@ -0,0 +1,103 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  OFFLINE_WORDS,
+  getOfflineWord,
+  pickPracticeWord,
+  validatePracticeGuess,
+  MIN_WORD_LENGTH,
+  MAX_WORD_LENGTH,
+  type PracticeWordSource,
+} from '@/utils/game';
+
+/**
+ * Practice Word Unit Tests
+ * Tests dictionary-backed secrets, guess validation and the offline fallback
+ */
+
+const createSource = (overrides: Partial<PracticeWordSource> = {}): PracticeWordSource => ({
+  getRandomWords: vi.fn().mockResolvedValue([]),
+  validateWord: vi.fn().mockResolvedValue(true),
+  ...overrides,
+});
+
+const unreachable = () => Promise.reject(new Error('fetch failed'));
+
+describe('Practice Words', () => {
+  describe('OFFLINE_WORDS', () => {
+    it('has unique, correctly sized uppercase words for every length', () => {
+      for (let length = MIN_WORD_LENGTH; length <= MAX_WORD_LENGTH; length++) {
+        const words = OFFLINE_WORDS[length];
+
+        expect(words.length).toBeGreaterThan(0);
+        expect(new Set(words).size).toBe(words.length);
+        words.forEach((word) => expect(word).toMatch(new RegExp(`^[A-Z]{${length}}$`)));
+      }
+    });
+
+    it('rejects lengths outside 4-10', () => {
+      expect(() => getOfflineWord(3)).toThrow('Word length must be between 4 and 10');
+      expect(() => getOfflineWord(11)).toThrow();
+    });
+  });
+
+  describe('pickPracticeWord', () => {
+    it('uses the dictionary when it returns a word', async () => {
+      const source = createSource({ getRandomWords: vi.fn().mockResolvedValue(['planet']) });
+
+      await expect(pickPracticeWord(6, source)).resolves.toEqual({ word: 'PLANET', origin: 'dictionary' });
+      expect(source.getRandomWords).toHaveBeenCalledWith(1, 6);
+    });
+
+    it('ignores dictionary words of the wrong length', async () => {
+      const source = createSource({ getRandomWords: vi.fn().mockResolvedValue(['WORDLE']) });
+
+      const result = await pickPracticeWord(5, source, () => 0);
+
+      expect(result).toEqual({ word: OFFLINE_WORDS[5][0], origin: 'offline' });
+    });
+
+    it('falls back to the offline list when Supabase is unreachable', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const source = createSource({ getRandomWords: unreachable });
+
+      const result = await pickPracticeWord(10, source, () => 0.999);
+
+      expect(result.origin).toBe('offline');
+      expect(result.word).toBe(OFFLINE_WORDS[10][OFFLINE_WORDS[10].length - 1]);
+      warn.mockRestore();
+    });
+
+    it('works without a dictionary at all', async () => {
+      const result = await pickPracticeWord(4, null);
+
+      expect(OFFLINE_WORDS[4]).toContain(result.word);
+    });
+  });
+
+  describe('validatePracticeGuess', () => {
+    it('accepts dictionary words and rejects unknown ones', async () => {
+      await expect(validatePracticeGuess('crane', createSource())).resolves.toEqual({
+        isValid: true,
+        origin: 'dictionary',
+      });
+      await expect(
+        validatePracticeGuess('XQZVB', createSource({ validateWord: vi.fn().mockResolvedValue(false) }))
+      ).resolves.toEqual({ isValid: false, message: 'Not in word list', origin: 'dictionary' });
+    });
+
+    it('accepts letter-only guesses when offline', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      await expect(
+        validatePracticeGuess('XQZVB', createSource({ validateWord: unreachable }))
+      ).resolves.toEqual({ isValid: true, origin: 'offline' });
+      warn.mockRestore();
+    });
+
+    it('rejects guesses with non-letters', async () => {
+      const result = await validatePracticeGuess('CR4NE', createSource());
+
+      expect(result.isValid).toBe(false);
+    });
+  });
+});
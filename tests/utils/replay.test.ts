@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildReplayFrames,
+  isReplayAvailable,
+  scoreGuess,
+  resultToWord,
+  type ReplayAttempt,
+} from '@/utils/game';
+
+/**
+ * Replay Unit Tests
+ * Tests replay availability and frame building from stored attempts
+ */
+
+const attempt = (
+  wordIndex: number,
+  attemptNumber: number,
+  guess: string,
+  target: string,
+  seconds: number | null = 10
+): ReplayAttempt => ({
+  word_index: wordIndex,
+  attempt_number: attemptNumber,
+  guessed_word: guess,
+  letter_results: scoreGuess(guess, target),
+  time_taken_seconds: seconds,
+});
+
+describe('Replays', () => {
+  it('is only available for completed bounties', () => {
+    expect(isReplayAvailable('completed')).toBe(true);
+    expect(isReplayAvailable('active')).toBe(false);
+    expect(isReplayAvailable('cancelled')).toBe(false);
+    expect(isReplayAvailable(undefined)).toBe(false);
+  });
+
+  it('builds one frame per guess in play order', () => {
+    const frames = buildReplayFrames({ wordLengths: [5] }, [
+      attempt(0, 2, 'CRATE', 'CRATE', 5),
+      attempt(0, 1, 'CRANE', 'CRATE', 12),
+    ]);
+
+    expect(frames.map((frame) => resultToWord(frame.result))).toEqual(['CRANE', 'CRATE']);
+    expect(frames.map((frame) => frame.step)).toEqual([1, 2]);
+    expect(frames[0].state.status).toBe('playing');
+    expect(frames[1].state.status).toBe('won');
+  });
+
+  it('accumulates elapsed time from guess durations', () => {
+    const frames = buildReplayFrames({ wordLengths: [5] }, [
+      attempt(0, 1, 'CRANE', 'CRATE', 12),
+      attempt(0, 2, 'TRACE', 'CRATE', null),
+      attempt(0, 3, 'CRATE', 'CRATE', 8),
+    ]);
+
+    expect(frames.map((frame) => frame.durationSeconds)).toEqual([12, 0, 8]);
+    expect(frames.map((frame) => frame.elapsedSeconds)).toEqual([12, 12, 20]);
+  });
+
+  it('prefers server elapsed time when present', () => {
+    const frames = buildReplayFrames({ wordLengths: [5] }, [
+      { ...attempt(0, 1, 'CRATE', 'CRATE', 3), elapsed_seconds: 45 },
+    ]);
+
+    expect(frames[0].elapsedSeconds).toBe(45);
+  });
+
+  it('moves to a fresh board for each word of a multistage bounty', () => {
+    const frames = buildReplayFrames({ wordLengths: [4, 6] }, [
+      attempt(0, 1, 'GAME', 'GAME'),
+      attempt(1, 1, 'PUDDLE', 'PUZZLE'),
+    ]);
+
+    expect(frames[1].wordIndex).toBe(1);
+    expect(frames[1].state.rows).toHaveLength(1);
+    expect(frames[1].state.completedWords).toHaveLength(1);
+  });
+});
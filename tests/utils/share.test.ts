@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import {
+  attemptsToShareRows,
+  buildShareGrid,
+  buildShareText,
+  formatShareTime,
+  getShareScore,
+  scoreGuess,
+  HIGH_CONTRAST_SHARE_EMOJI,
+  type RecordedAttempt,
+} from '@/utils/game';
+
+/**
+ * Share Grid Unit Tests
+ * Tests spoiler-free emoji grids and share text
+ */
+
+const attempt = (wordIndex: number, attemptNumber: number, guess: string, target: string): RecordedAttempt => ({
+  word_index: wordIndex,
+  attempt_number: attemptNumber,
+  letter_results: scoreGuess(guess, target),
+});
+
+describe('Share Grids', () => {
+  const rows = [scoreGuess('CRANE', 'CRATE'), scoreGuess('CRATE', 'CRATE')];
+
+  it('draws one emoji line per guess without letters', () => {
+    const grid = buildShareGrid(rows);
+
+    expect(grid).toBe('🟩🟩🟩⬛🟩\n🟩🟩🟩🟩🟩');
+    expect(grid).not.toMatch(/[A-Z]/);
+  });
+
+  it('supports the high-contrast palette', () => {
+    expect(buildShareGrid([scoreGuess('TRACE', 'CRATE')], HIGH_CONTRAST_SHARE_EMOJI)).toBe('🟦🟧🟧🟦🟧');
+  });
+
+  it('scores solved and failed words', () => {
+    expect(getShareScore(rows, 6)).toBe('2/6');
+    expect(getShareScore([scoreGuess('CRANE', 'CRATE')], 6)).toBe('X/6');
+    expect(getShareScore([], 6)).toBe('X/6');
+  });
+
+  it('groups stored attempts by word in play order', () => {
+    const words = attemptsToShareRows([
+      attempt(1, 1, 'PUZZLE', 'PUZZLE'),
+      attempt(0, 2, 'GAME', 'GAME'),
+      attempt(0, 1, 'GAZE', 'GAME'),
+      { word_index: 0, attempt_number: 3, letter_results: null },
+    ]);
+
+    expect(words.map((word) => word.length)).toEqual([2, 1]);
+    expect(getShareScore(words[0], 6)).toBe('2/6');
+  });
+
+  it('formats times', () => {
+    expect(formatShareTime(65)).toBe('1:05');
+    expect(formatShareTime(3725)).toBe('1:02:05');
+  });
+
+  it('builds single word share text with the score on the title line', () => {
+    const text = buildShareText({
+      title: 'Web3 Wordle Daily 2026-10-19',
+      words: [rows],
+      maxGuesses: 6,
+      timeSeconds: 95,
+      url: 'https://example.com',
+    });
+
+    expect(text).toBe([
+      'Web3 Wordle Daily 2026-10-19 2/6',
+      '⏱ 1:35',
+      '',
+      '🟩🟩🟩⬛🟩',
+      '🟩🟩🟩🟩🟩',
+      '',
+      'https://example.com',
+    ].join('\n'));
+  });
+
+  it('lists a score per word for multistage games, including unplayed words', () => {
+    const text = buildShareText({
+      title: 'Web3 Wordle Bounty "Triple"',
+      words: [[scoreGuess('GAME', 'GAME')]],
+      totalWords: 2,
+      maxGuesses: 6,
+      hintsUsed: 1,
+    });
+
+    expect(text).toBe([
+      'Web3 Wordle Bounty "Triple"',
+      '1/2 words',
+      '💡 1',
+      '',
+      'Word 1: 1/6',
+      '🟩🟩🟩🟩',
+      '',
+      'Word 2: X/6',
+    ].join('\n'));
+  });
+});
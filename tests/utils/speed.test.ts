@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { getSpeedMultiplier, getSpeedWordPoints, SPEED_MAX_MULTIPLIER } from '@/utils/game';
+
+/**
+ * Speed Challenge Unit Tests
+ * Tests combo multipliers and per-word points
+ */
+
+describe('Speed Challenge', () => {
+  it('grows the multiplier with the combo up to the cap', () => {
+    expect(getSpeedMultiplier(1)).toBe(1);
+    expect(getSpeedMultiplier(3)).toBe(3);
+    expect(getSpeedMultiplier(12)).toBe(SPEED_MAX_MULTIPLIER);
+  });
+
+  it('rewards unused guesses', () => {
+    expect(getSpeedWordPoints(1, 1)).toBe(200);
+    expect(getSpeedWordPoints(6, 1)).toBe(100);
+  });
+
+  it('multiplies word points by the combo', () => {
+    expect(getSpeedWordPoints(3, 2)).toBe(320);
+    expect(getSpeedWordPoints(3, 9)).toBe(800);
+  });
+});
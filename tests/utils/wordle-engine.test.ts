@@ -0,0 +1,342 @@
+import { describe, it, expect } from 'vitest';
+import {
+  scoreGuess,
+  isSolved,
+  resultToWord,
+  getKeyboardStates,
+  checkHardModeGuess,
+  getHardModeViolation,
+  createGame,
+  typeLetter,
+  deleteLetter,
+  canSubmitGuess,
+  applyGuessResult,
+  submitGuess,
+  restoreGame,
+  getRemainingGuesses,
+  getWordsCompleted,
+  getCurrentWordLength,
+  DEFAULT_MAX_GUESSES,
+  type GameState,
+  type LetterStatus,
+  type RecordedAttempt,
+} from '@/utils/game';
+
+/**
+ * Wordle Engine Unit Tests
+ * Tests scoring, keyboard states, hard-mode rules and game state transitions
+ */
+
+const statuses = (guess: string, target: string): LetterStatus[] =>
+  scoreGuess(guess, target).map((tile) => tile.status);
+
+const typeWord = (state: GameState, word: string): GameState =>
+  word.split('').reduce(typeLetter, state);
+
+describe('Wordle Engine', () => {
+  describe('scoreGuess', () => {
+    it('marks exact, misplaced and missing letters', () => {
+      expect(statuses('CRANE', 'CRATE')).toEqual([
+        'correct', 'correct', 'correct', 'absent', 'correct',
+      ]);
+      expect(statuses('TRACE', 'CRATE')).toEqual([
+        'present', 'correct', 'correct', 'present', 'correct',
+      ]);
+    });
+
+    it('keeps the guessed letters in the result', () => {
+      const result = scoreGuess('hello', 'TESTS');
+
+      expect(resultToWord(result)).toBe('HELLO');
+      expect(result[1]).toEqual({ letter: 'E', status: 'correct' });
+    });
+
+    it('credits duplicate letters only as often as they appear in the target', () => {
+      // One L in the target, already matched exactly: the other L is absent
+      expect(statuses('LLAMA', 'CLEAN')).toEqual([
+        'absent', 'correct', 'present', 'absent', 'absent',
+      ]);
+      // One E in the target: only the first misplaced E is present
+      expect(statuses('SPEED', 'ABIDE')).toEqual([
+        'absent', 'absent', 'present', 'absent', 'present',
+      ]);
+    });
+
+    it('lets exact matches claim duplicates before misplaced copies', () => {
+      expect(statuses('EERIE', 'THREE')).toEqual([
+        'present', 'absent', 'correct', 'absent', 'correct',
+      ]);
+      expect(statuses('STETS', 'TESTS')).toEqual([
+        'present', 'present', 'present', 'correct', 'correct',
+      ]);
+    });
+
+    it('is case-insensitive', () => {
+      expect(isSolved(scoreGuess('crate', 'CRATE'))).toBe(true);
+    });
+
+    it('rejects guesses of the wrong length', () => {
+      expect(() => scoreGuess('CRANES', 'CRATE')).toThrow('Guess must be 5 letters long');
+    });
+  });
+
+  describe('getKeyboardStates', () => {
+    it('keeps the strongest status seen for each letter', () => {
+      const rows = [
+        scoreGuess('EERIE', 'THREE'),
+        scoreGuess('THREE', 'THREE'),
+      ];
+
+      const keys = getKeyboardStates(rows);
+
+      expect(keys.E).toBe('correct');
+      expect(keys.R).toBe('correct');
+      expect(keys.I).toBe('absent');
+    });
+
+    it('does not downgrade a correct letter when a duplicate is absent', () => {
+      const keys = getKeyboardStates([scoreGuess('LLAMA', 'LOVED')]);
+
+      expect(keys.L).toBe('correct');
+      expect(keys.A).toBe('absent');
+    });
+
+    it('returns an empty map before any guesses', () => {
+      expect(getKeyboardStates([])).toEqual({});
+    });
+  });
+
+  describe('checkHardModeGuess', () => {
+    const history = [scoreGuess('CRANE', 'CRATE')];
+
+    it('accepts guesses that reuse every revealed letter', () => {
+      expect(checkHardModeGuess('CRATE', history)).toEqual({ isValid: true });
+    });
+
+    it('requires correct letters to stay in place', () => {
+      expect(checkHardModeGuess('TRACE', history)).toEqual({
+        isValid: false,
+        message: '1st letter must be C',
+      });
+    });
+
+    it('requires present letters to be reused', () => {
+      const rows = [scoreGuess('TRACE', 'CRATE')];
+
+      expect(checkHardModeGuess('CRAMP', rows)).toEqual({
+        isValid: false,
+        message: '5th letter must be E',
+      });
+      expect(checkHardModeGuess('BRAVE', rows)).toEqual({
+        isValid: false,
+        message: 'Guess must contain T',
+      });
+    });
+
+    it('requires duplicated revealed letters to be reused as many times', () => {
+      const rows = [scoreGuess('STETS', 'TESTS')];
+
+      expect(checkHardModeGuess('TESTS', rows).isValid).toBe(true);
+      expect(checkHardModeGuess('PESTS', rows)).toEqual({
+        isValid: false,
+        message: 'Guess must contain T at least 2 times',
+      });
+    });
+
+    it('allows anything before the first guess', () => {
+      expect(checkHardModeGuess('ZZZZZ', []).isValid).toBe(true);
+    });
+
+    it('extracts the rule from a server rejection', () => {
+      expect(getHardModeViolation('Hard mode: Guess must contain T')).toBe('Guess must contain T');
+      expect(getHardModeViolation('Time limit of 60 seconds exceeded')).toBeNull();
+      expect(getHardModeViolation(undefined)).toBeNull();
+    });
+  });
+
+  describe('Game state', () => {
+    it('creates a single word game with default guesses', () => {
+      const state = createGame({ wordLengths: [5] });
+
+      expect(state.status).toBe('playing');
+      expect(state.maxGuesses).toBe(DEFAULT_MAX_GUESSES);
+      expect(getRemainingGuesses(state)).toBe(DEFAULT_MAX_GUESSES);
+      expect(getCurrentWordLength(state)).toBe(5);
+    });
+
+    it('rejects a game without words', () => {
+      expect(() => createGame({ wordLengths: [] })).toThrow();
+    });
+
+    it('types and deletes letters within the word length', () => {
+      let state = createGame({ wordLengths: [4] });
+
+      state = typeWord(state, 'wordy');
+      expect(state.currentGuess).toBe('WORD');
+      expect(canSubmitGuess(state)).toBe(true);
+
+      state = deleteLetter(state);
+      expect(state.currentGuess).toBe('WOR');
+      expect(canSubmitGuess(state)).toBe(false);
+    });
+
+    it('ignores keys that are not letters', () => {
+      const state = createGame({ wordLengths: [5] });
+
+      expect(typeLetter(state, '1')).toBe(state);
+      expect(typeLetter(state, 'ENTER')).toBe(state);
+      expect(deleteLetter(state)).toBe(state);
+    });
+
+    it('wins a single word game', () => {
+      let state = typeWord(createGame({ wordLengths: [5] }), 'CRANE');
+      state = submitGuess(state, 'CRATE');
+
+      expect(state.status).toBe('playing');
+      expect(state.rows).toHaveLength(1);
+      expect(state.currentGuess).toBe('');
+
+      state = submitGuess(typeWord(state, 'CRATE'), 'CRATE');
+
+      expect(state.status).toBe('won');
+      expect(getWordsCompleted(state)).toBe(1);
+      expect(state.rows).toHaveLength(2);
+    });
+
+    it('loses after the last guess misses', () => {
+      let state = createGame({ wordLengths: [5], maxGuesses: 2 });
+
+      state = submitGuess(typeWord(state, 'CRANE'), 'CRATE');
+      state = submitGuess(typeWord(state, 'TRACE'), 'CRATE');
+
+      expect(state.status).toBe('lost');
+      expect(getRemainingGuesses(state)).toBe(0);
+      expect(typeLetter(state, 'A')).toBe(state);
+    });
+
+    it('ignores submits of incomplete guesses', () => {
+      const state = typeWord(createGame({ wordLengths: [5] }), 'CRA');
+
+      expect(submitGuess(state, 'CRATE')).toBe(state);
+    });
+
+    it('advances through multistage games with a fresh board per word', () => {
+      let state = createGame({ wordLengths: [4, 6], maxGuesses: 3 });
+
+      state = submitGuess(typeWord(state, 'GAME'), 'GAME');
+
+      expect(state.status).toBe('playing');
+      expect(state.currentWordIndex).toBe(1);
+      expect(state.rows).toEqual([]);
+      expect(getCurrentWordLength(state)).toBe(6);
+      expect(getRemainingGuesses(state)).toBe(3);
+
+      state = submitGuess(typeWord(state, 'PUZZLE'), 'PUZZLE');
+
+      expect(state.status).toBe('won');
+      expect(state.currentWordIndex).toBe(1);
+      expect(getWordsCompleted(state)).toBe(2);
+      expect(state.completedWords.map((rows) => rows.length)).toEqual([1, 1]);
+    });
+
+    it('applies server-scored results without knowing the target', () => {
+      let state = typeWord(createGame({ wordLengths: [5] }), 'TESTS');
+      const serverResult = scoreGuess('TESTS', 'TESTS');
+
+      state = applyGuessResult(state, serverResult);
+
+      expect(state.status).toBe('won');
+    });
+
+    it('rejects results that do not match the word length', () => {
+      const state = createGame({ wordLengths: [5] });
+
+      expect(() => applyGuessResult(state, scoreGuess('GAME', 'GAME'))).toThrow();
+    });
+  });
+
+  describe('restoreGame', () => {
+    const attempt = (wordIndex: number, attemptNumber: number, guess: string, target: string): RecordedAttempt => ({
+      word_index: wordIndex,
+      attempt_number: attemptNumber,
+      letter_results: scoreGuess(guess, target),
+    });
+
+    it('starts fresh when there are no attempts', () => {
+      const state = restoreGame({ wordLengths: [5] }, []);
+
+      expect(state).toEqual(createGame({ wordLengths: [5] }));
+    });
+
+    it('rebuilds the board and remaining guesses in attempt order', () => {
+      // getUserAttempts returns newest first
+      const attempts = [
+        attempt(0, 2, 'TRACE', 'CRATE'),
+        attempt(0, 1, 'CRANE', 'CRATE'),
+      ];
+
+      const state = restoreGame({ wordLengths: [5], maxGuesses: 6 }, attempts);
+
+      expect(state.status).toBe('playing');
+      expect(state.rows.map(resultToWord)).toEqual(['CRANE', 'TRACE']);
+      expect(getRemainingGuesses(state)).toBe(4);
+    });
+
+    it('resumes multistage games on the current word', () => {
+      const attempts = [
+        attempt(0, 1, 'GAME', 'GAME'),
+        attempt(1, 1, 'PUDDLE', 'PUZZLE'),
+      ];
+
+      const state = restoreGame({ wordLengths: [4, 6] }, attempts);
+
+      expect(state.currentWordIndex).toBe(1);
+      expect(getWordsCompleted(state)).toBe(1);
+      expect(state.rows.map(resultToWord)).toEqual(['PUDDLE']);
+    });
+
+    it('restores finished games', () => {
+      const won = restoreGame({ wordLengths: [5] }, [attempt(0, 1, 'CRATE', 'CRATE')]);
+      const lost = restoreGame({ wordLengths: [5], maxGuesses: 1 }, [attempt(0, 1, 'CRANE', 'CRATE')]);
+
+      expect(won.status).toBe('won');
+      expect(lost.status).toBe('lost');
+    });
+
+    it('skips rows without usable letter results', () => {
+      const attempts: RecordedAttempt[] = [
+        { word_index: 0, attempt_number: 1, letter_results: { word: 'CRANE', correct: false } },
+        attempt(0, 2, 'TRACE', 'CRATE'),
+      ];
+
+      const state = restoreGame({ wordLengths: [5] }, attempts);
+
+      expect(state.rows.map(resultToWord)).toEqual(['TRACE']);
+    });
+
+    it('skips rows whose statuses are not letter statuses', () => {
+      const inherited = scoreGuess('CRANE', 'CRATE').map((tile, i) =>
+        i === 0 ? { ...tile, status: 'toString' } : tile
+      );
+      const attempts: RecordedAttempt[] = [
+        { word_index: 0, attempt_number: 1, letter_results: inherited },
+        attempt(0, 2, 'TRACE', 'CRATE'),
+      ];
+
+      const state = restoreGame({ wordLengths: [5] }, attempts);
+
+      expect(state.rows.map(resultToWord)).toEqual(['TRACE']);
+    });
+
+    it('ends the game when the participation has failed', () => {
+      const state = restoreGame(
+        { wordLengths: [5] },
+        [attempt(0, 1, 'CRANE', 'CRATE')],
+        { status: 'failed' }
+      );
+
+      expect(state.status).toBe('lost');
+      expect(state.rows).toHaveLength(1);
+    });
+  });
+});